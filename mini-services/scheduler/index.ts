@@ -1,14 +1,22 @@
 import cron from 'node-cron';
+import { hostname } from 'os';
 
 const MAIN_APP_URL = process.env.MAIN_APP_URL || 'http://127.0.0.1:3000';
 const SCHEDULER_PORT = Number(process.env.SCHEDULER_PORT || '3002');
 const SCHEDULER_HOST = process.env.SCHEDULER_HOST || '0.0.0.0';
+const WORKER_ID = process.env.SCHEDULER_WORKER_ID || `scheduler-${hostname()}-${process.pid}`;
+const WORKER_POLL_MS = Math.max(1000, Number(process.env.SCHEDULER_WORKER_POLL_MS || '5000'));
+// Jobs leased per work call; the app runs them across its configured pipeline workers.
+const WORKER_MAX_JOBS = Math.min(10, Math.max(1, Number(process.env.SCHEDULER_WORKER_MAX_JOBS || '6')));
 
-interface SchedulerJob {
+interface SlotCandidate {
+  slotKey: string;
   mappingId?: string;
   mappingName?: string;
   slotLabel: string;
   slotTime: string;
+  localDate: string;
+  timezone: string;
 }
 
 interface MappingScheduleConfig {
@@ -17,15 +25,28 @@ interface MappingScheduleConfig {
   uploads_per_day?: number;
   upload_time_morning?: string | null;
   upload_time_evening?: string | null;
+  timezone?: string | null;
+  blackout_rules?: BlackoutRule[] | null;
+  // Resolved by GET /api/mappings from uploads_per_day, the slot mode and weekday overrides
+  daily_slots?: Array<{ label: string; time: string }>;
+  weekday_daily_slots?: Partial<Record<Weekday, Array<{ label: string; time: string }>>>;
 }
 
-// Store scheduler state in memory
-let isRunning = false;
-let lastRunTime: Date | null = null;
-const firedTriggerKeys = new Map<string, number>();
+type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+type BlackoutRule =
+  | { type: 'dates'; start: string; end: string }
+  | { type: 'weekly'; weekdays: Weekday[] }
+  | { type: 'yearly'; month: number; day: number };
+
+const WEEKDAY_BY_INDEX: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Jobs, leases and fired slots live in the database; this only guards overlapping polls.
+let workerPolling = false;
 
 console.log('📅 YouTube Shorts Scheduler Service Started');
 console.log(`🔗 Main App URL: ${MAIN_APP_URL}`);
+console.log(`👷 Worker ID: ${WORKER_ID}`);
 console.log(`📡 Scheduler Host: ${SCHEDULER_HOST}`);
 console.log(`🔌 Scheduler Port: ${SCHEDULER_PORT}`);
 
@@ -66,7 +87,17 @@ function getUtcDateValue(date: Date): string {
   return date.toISOString().slice(0, 10);
 }
 
-function getDateTimeInTimezone(date: Date, timeZone: string): { date: string; time: string } {
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map((part) => Number.parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekdayForDate(date: string): Weekday {
+  const [year, month, day] = date.split('-').map((part) => Number.parseInt(part, 10));
+  return WEEKDAY_BY_INDEX[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+function getDateTimeInTimezone(date: Date, timeZone: string): { date: string; time: string; weekday: Weekday } {
   try {
     const formatter = new Intl.DateTimeFormat('en-CA', {
       timeZone,
@@ -89,118 +120,144 @@ function getDateTimeInTimezone(date: Date, timeZone: string): { date: string; ti
     return {
       date: `${year}-${month}-${day}`,
       time: `${hour}:${minute}`,
+      weekday: weekdayForDate(`${year}-${month}-${day}`),
     };
   } catch {
     return {
       date: getUtcDateValue(date),
       time: getUtcTimeValue(date),
+      weekday: weekdayForDate(getUtcDateValue(date)),
     };
   }
 }
 
-function cleanupTriggerCache(nowMs: number) {
-  const maxAgeMs = 3 * 24 * 60 * 60 * 1000;
-  for (const [key, timestamp] of firedTriggerKeys.entries()) {
-    if (nowMs - timestamp > maxAgeMs) {
-      firedTriggerKeys.delete(key);
-    }
+// Mirrors findBlackoutRule in src/lib/scheduling/calendar.ts.
+function isBlackedOut(rules: BlackoutRule[] | null | undefined, date: string, weekday: Weekday): boolean {
+  if (!Array.isArray(rules)) {
+    return false;
   }
+
+  const month = Number.parseInt(date.slice(5, 7), 10);
+  const day = Number.parseInt(date.slice(8, 10), 10);
+
+  return rules.some((rule) => {
+    if (rule.type === 'dates') {
+      return date >= rule.start && date <= rule.end;
+    }
+    if (rule.type === 'weekly') {
+      return rule.weekdays.includes(weekday);
+    }
+    return rule.type === 'yearly' && rule.month === month && rule.day === day;
+  });
+}
+
+function getUtcMinuteKey(date: Date): string {
+  return date.toISOString().slice(0, 16);
 }
 
-function shouldFireTrigger(triggerKey: string): boolean {
-  const nowMs = Date.now();
-  cleanupTriggerCache(nowMs);
+async function enqueueJob(
+  jobType: 'process_next' | 'publish_due' | 'cleanup_uploaded' | 'reap_leases',
+  payload: Record<string, unknown> = {},
+  dedupeKey?: string
+): Promise<boolean> {
+  const result = await callMainApp('/scheduler/jobs', 'POST', {
+    action: 'enqueue',
+    jobType,
+    dedupeKey,
+    ...payload,
+  });
 
-  if (firedTriggerKeys.has(triggerKey)) {
+  if (!result?.success) {
+    console.log(`❌ Failed to enqueue ${jobType}:`, result?.error || 'Unknown error');
     return false;
   }
 
-  firedTriggerKeys.set(triggerKey, nowMs);
-  return true;
+  return !result.duplicate;
 }
 
-async function runSchedulerJobs(
-  jobs: SchedulerJob[],
-  options?: { prefetchedConfig?: Record<string, string>; requireAutomation?: boolean }
-) {
-  if (jobs.length === 0) {
-    return;
-  }
-
-  if (isRunning) {
-    console.log('⏳ Scheduler already running, skipping...');
+// Lease and run queued jobs until the queue is empty.
+async function drainJobQueue() {
+  if (workerPolling) {
     return;
   }
 
+  workerPolling = true;
   try {
-    isRunning = true;
-    const configResult = options?.prefetchedConfig ? { config: options.prefetchedConfig } : await callMainApp('/config');
-    const config = configResult.config || {};
-    const requireAutomation = options?.requireAutomation !== false;
-
-    if (requireAutomation && config.automation_enabled !== 'true') {
-      console.log('⏸️ Automation is disabled');
-      return;
-    }
-
-    console.log(`🚀 Starting scheduled batch (${jobs.length} job${jobs.length > 1 ? 's' : ''})...`);
+    for (;;) {
+      const result = await callMainApp('/scheduler', 'POST', {
+        action: 'work',
+        workerId: WORKER_ID,
+        maxJobs: WORKER_MAX_JOBS,
+      });
 
-    for (const job of jobs) {
-      const payload: Record<string, unknown> = { action: 'process_next' };
-      if (job.mappingId) {
-        payload.mappingId = job.mappingId;
+      if (!result?.success || result.idle) {
+        break;
       }
 
-      const target = job.mappingName ? `${job.mappingName} (${job.mappingId})` : 'global queue';
-      console.log(`🧭 Triggering ${target} at ${job.slotTime} [${job.slotLabel}]`);
-
-      const result = await callMainApp('/scheduler', 'POST', payload);
-      if (!result.success) {
-        console.log('❌ Upload skipped/failed:', result.message || result.error || 'Unknown error');
-      } else {
-        console.log('✅ Upload successful:', result.videoId);
+      for (const job of result.processed || []) {
+        if (job.status === 'failed') {
+          console.log(`❌ Job ${job.job_type} (${job.id}) failed:`, job.error || 'Unknown error');
+          continue;
+        }
+
+        if (job.job_type === 'process_next') {
+          if (job.result?.success) {
+            console.log(`✅ Upload successful (${job.id}):`, job.result.videoId);
+          } else {
+            console.log(`⏭️ Upload skipped/failed (${job.id}):`, job.result?.message || 'Unknown error');
+          }
+        } else if (job.job_type === 'reap_leases') {
+          const reap = job.result?.reap;
+          if (reap && reap.recovered > 0) {
+            console.log(`🩹 Recovered ${reap.recovered} short(s) with expired leases`);
+          }
+        } else if (job.job_type === 'publish_due') {
+          const publish = job.result?.publish;
+          if (publish && (publish.published > 0 || publish.failed > 0)) {
+            console.log(
+              `📣 Delayed publish queue: checked=${publish.checked}, published=${publish.published}, failed=${publish.failed}`
+            );
+          }
+        }
       }
     }
-
-    const publishResult = await callMainApp('/scheduler', 'POST', {
-      action: 'publish_due',
-      limit: 20,
-    });
-
-    const publishStats = publishResult?.publish;
-    if (publishStats && (publishStats.published > 0 || publishStats.failed > 0)) {
-      console.log(
-        `📣 Delayed publish check: checked=${publishStats.checked}, published=${publishStats.published}, failed=${publishStats.failed}`
-      );
-    }
-
-    await callMainApp('/scheduler', 'POST', {
-      action: 'cleanup_uploaded',
-    });
-
-    lastRunTime = new Date();
-    console.log('✨ Scheduler batch completed at:', lastRunTime.toISOString());
   } catch (error) {
-    console.error('❌ Scheduler error:', error);
+    console.error('❌ Worker loop error:', error);
   } finally {
-    isRunning = false;
+    workerPolling = false;
   }
 }
 
-// Check if automation is enabled and run one global queue upload.
-async function checkAndRunUploads(prefetchedConfig?: Record<string, string>) {
-  await runSchedulerJobs(
-    [
-      {
-        slotLabel: 'manual',
-        slotTime: 'manual',
-      },
-    ],
-    {
-      prefetchedConfig,
-      requireAutomation: false,
-    }
-  );
+// Queue one global upload regardless of automation (manual trigger).
+async function checkAndRunUploads() {
+  await enqueueJob('process_next', { slotLabel: 'manual', slotTime: 'manual' });
+  await enqueueJob('publish_due', { limit: 20 });
+  await enqueueJob('cleanup_uploaded');
+  await drainJobQueue();
+}
+
+function resolveMappingSlots(
+  mapping: MappingScheduleConfig,
+  weekday: Weekday,
+  globalMorningTime: string,
+  globalEveningTime: string
+): Array<{ label: string; time: string }> {
+  // weekday_daily_slots already falls back to daily_slots; an empty day means no uploads
+  const hydratedSlots = mapping.weekday_daily_slots?.[weekday] ?? mapping.daily_slots;
+  if (Array.isArray(hydratedSlots)) {
+    return hydratedSlots
+      .map((slot) => ({ label: slot.label, time: normalizeTimeValue(slot.time, '') }))
+      .filter((slot) => Boolean(slot.time));
+  }
+
+  // Fall back to the morning/evening pair when the mapping has no resolved slots
+  const mappingMorning = normalizeTimeValue(mapping.upload_time_morning, globalMorningTime);
+  const mappingEvening = normalizeTimeValue(mapping.upload_time_evening, globalEveningTime);
+  const slots = [{ label: 'morning', time: mappingMorning }];
+  if (mappingEvening !== mappingMorning) {
+    slots.push({ label: 'evening', time: mappingEvening });
+  }
+  return slots;
 }
 
 async function checkConfiguredTimeSlots() {
@@ -225,42 +282,50 @@ async function checkConfiguredTimeSlots() {
     ? mappingsResponse.mappings
     : [];
 
-  const jobs: SchedulerJob[] = [];
+  // Every slot from yesterday and today that is already due; the main app records them
+  // and decides which fire now, get caught up, or are reported as missed.
+  const candidates: SlotCandidate[] = [];
+  let mappingSlotDueNow = false;
 
   for (const mapping of mappings) {
     if (!mapping?.id) {
       continue;
     }
 
-    const mappingMorning = normalizeTimeValue(mapping.upload_time_morning, globalMorningTime);
-    const mappingEvening = normalizeTimeValue(mapping.upload_time_evening, globalEveningTime);
-
-    const slotCandidates: Array<{ label: string; time: string }> = [{ label: 'morning', time: mappingMorning }];
+    // Each mapping is evaluated on its own local calendar
+    const mappingTimezone = mapping.timezone?.trim() || schedulerTimezone;
+    const mappingNow = getDateTimeInTimezone(now, mappingTimezone);
 
-    if (mappingEvening !== mappingMorning) {
-      slotCandidates.push({ label: 'evening', time: mappingEvening });
-    }
-
-    for (const slot of slotCandidates) {
-      if (slot.time !== nowTime) {
+    for (const localDate of [shiftDate(mappingNow.date, -1), mappingNow.date]) {
+      const weekday = weekdayForDate(localDate);
+      if (isBlackedOut(mapping.blackout_rules, localDate, weekday)) {
         continue;
       }
 
-      const triggerKey = `${schedulerTimezone}:${nowInTimezone.date}:${mapping.id}:${slot.label}@${slot.time}`;
-      if (!shouldFireTrigger(triggerKey)) {
-        continue;
+      for (const slot of resolveMappingSlots(mapping, weekday, globalMorningTime, globalEveningTime)) {
+        if (localDate === mappingNow.date && slot.time > mappingNow.time) {
+          continue;
+        }
+
+        if (localDate === mappingNow.date && slot.time === mappingNow.time) {
+          mappingSlotDueNow = true;
+        }
+
+        candidates.push({
+          slotKey: `slot:${mappingTimezone}:${localDate}:${mapping.id}:${slot.label}@${slot.time}`,
+          mappingId: mapping.id,
+          mappingName: mapping.name || mapping.id,
+          slotLabel: slot.label,
+          slotTime: slot.time,
+          localDate,
+          timezone: mappingTimezone,
+        });
       }
-
-      jobs.push({
-        mappingId: mapping.id,
-        mappingName: mapping.name || mapping.id,
-        slotLabel: slot.label,
-        slotTime: slot.time,
-      });
     }
   }
 
-  if (jobs.length === 0) {
+  // Global slots only run on time, and only in minutes without a mapping slot
+  if (!mappingSlotDueNow) {
     const globalSlots: Array<{ label: string; time: string }> = [{ label: 'global-morning', time: globalMorningTime }];
     if (globalEveningTime !== globalMorningTime) {
       globalSlots.push({ label: 'global-evening', time: globalEveningTime });
@@ -271,44 +336,53 @@ async function checkConfiguredTimeSlots() {
         continue;
       }
 
-      const triggerKey = `${schedulerTimezone}:${nowInTimezone.date}:global:${slot.label}@${slot.time}`;
-      if (!shouldFireTrigger(triggerKey)) {
-        continue;
-      }
-
-      jobs.push({
+      candidates.push({
+        slotKey: `slot:${schedulerTimezone}:${nowInTimezone.date}:global:${slot.label}@${slot.time}`,
         slotLabel: slot.label,
         slotTime: slot.time,
+        localDate: nowInTimezone.date,
+        timezone: schedulerTimezone,
       });
     }
   }
 
-  if (jobs.length === 0) {
+  if (candidates.length === 0) {
     return;
   }
 
-  const labels = jobs
-    .map((job) => `${job.mappingName || 'global'}@${job.slotTime}`)
-    .join(', ');
+  const result = await callMainApp('/scheduler/slots', 'POST', { action: 'reconcile', slots: candidates });
+  if (!result?.success) {
+    console.log('❌ Slot reconcile failed:', result?.error || 'Unknown error');
+    return;
+  }
 
-  console.log(`🕒 Matched configured slot(s): ${labels} [tz=${schedulerTimezone}]`);
-  await runSchedulerJobs(jobs, { prefetchedConfig: config, requireAutomation: true });
-}
+  const fired: string[] = result.fired || [];
+  const caughtUp: string[] = result.caughtUp || [];
+  const missed: string[] = result.missed || [];
+  const failed: string[] = result.failed || [];
 
-async function checkDelayedPublishQueue() {
-  const result = await callMainApp('/scheduler', 'POST', {
-    action: 'publish_due',
-    limit: 20,
-  });
+  if (fired.length > 0) {
+    console.log(`🕒 Queued configured slot(s): ${fired.join(', ')}`);
+  }
+  if (caughtUp.length > 0) {
+    console.log(`⏪ Catching up missed slot(s): ${caughtUp.join(', ')}`);
+  }
+  if (missed.length > 0) {
+    console.log(`⚠️ Missed slot(s): ${missed.join(', ')}`);
+  }
+  if (failed.length > 0) {
+    console.log(`❌ Could not queue slot(s), retrying next tick: ${failed.join(', ')}`);
+  }
 
-  const publish = result?.publish;
-  if (publish && (publish.published > 0 || publish.failed > 0)) {
-    console.log(
-      `📣 Delayed publish queue: checked=${publish.checked}, published=${publish.published}, failed=${publish.failed}`
-    );
+  if (fired.length > 0 || caughtUp.length > 0) {
+    await enqueueJob('cleanup_uploaded', {}, `cleanup_uploaded:slot:${getUtcMinuteKey(now)}`);
   }
 }
 
+async function checkDelayedPublishQueue() {
+  await enqueueJob('publish_due', { limit: 20 }, `publish_due:${getUtcMinuteKey(new Date())}`);
+}
+
 // Reset daily counter at midnight
 async function resetDailyCounter() {
   console.log('🔄 Resetting daily upload counter...');
@@ -319,14 +393,17 @@ async function resetDailyCounter() {
   });
 }
 
-// Check configured schedule and delayed publish queue every minute.
+// Queue configured slots and the delayed publish check every minute, then drain the queue.
 cron.schedule('* * * * *', () => {
-  checkConfiguredTimeSlots().catch((error) => {
-    console.error('Configured schedule check failed:', error);
-  });
-
-  checkDelayedPublishQueue().catch((error) => {
-    console.error('Delayed publish check failed:', error);
+  Promise.all([
+    checkConfiguredTimeSlots().catch((error) => {
+      console.error('Configured schedule check failed:', error);
+    }),
+    checkDelayedPublishQueue().catch((error) => {
+      console.error('Delayed publish check failed:', error);
+    }),
+  ]).finally(() => {
+    void drainJobQueue();
   });
 }, {
   timezone: 'UTC'
@@ -341,20 +418,38 @@ cron.schedule('0 0 * * *', () => {
 
 // Cleanup uploaded shorts every 30 minutes.
 cron.schedule('*/30 * * * *', () => {
-  callMainApp('/scheduler', 'POST', {
-    action: 'cleanup_uploaded'
+  enqueueJob('cleanup_uploaded', {}, `cleanup_uploaded:${getUtcMinuteKey(new Date())}`).catch((error) => {
+    console.error('Cleanup enqueue failed:', error);
   });
 }, {
   timezone: 'UTC'
 });
 
-// Health check every 5 minutes
+// Return shorts abandoned by crashed workers to the queue every 5 minutes.
 cron.schedule('*/5 * * * *', () => {
+  enqueueJob('reap_leases', {}, `reap_leases:${getUtcMinuteKey(new Date())}`).catch((error) => {
+    console.error('Lease reaper enqueue failed:', error);
+  });
+}, {
+  timezone: 'UTC'
+});
+
+// Health check every 5 minutes
+cron.schedule('*/5 * * * *', async () => {
+  const jobsResult = await callMainApp('/scheduler/jobs?limit=1');
+  const counts = jobsResult?.counts || {};
   console.log('💚 Health check - Scheduler is running');
-  console.log(`   Last run: ${lastRunTime ? lastRunTime.toISOString() : 'Never'}`);
-  console.log(`   Currently running: ${isRunning}`);
+  console.log(`   Worker: ${WORKER_ID} (polling: ${workerPolling})`);
+  console.log(
+    `   Jobs: queued=${counts.queued ?? '?'}, running=${counts.running ?? '?'}, failed=${counts.failed ?? '?'}`
+  );
 });
 
+// Pick up retried, backed-off and lease-expired jobs between minute ticks.
+setInterval(() => {
+  void drainJobQueue();
+}, WORKER_POLL_MS);
+
 // Manual trigger endpoint (simple HTTP server)
 const server = Bun.serve({
   hostname: SCHEDULER_HOST,
@@ -365,40 +460,39 @@ const server = Bun.serve({
     if (url.pathname === '/health') {
       return Response.json({
         status: 'healthy',
-        isRunning,
-        lastRunTime: lastRunTime?.toISOString() || null
+        workerId: WORKER_ID,
+        polling: workerPolling
       });
     }
 
     if (url.pathname === '/trigger' && req.method === 'POST') {
-      if (isRunning) {
-        return Response.json({
-          success: false,
-          message: 'Scheduler is already running'
-        });
-      }
-
       // Run async
-      checkAndRunUploads();
+      checkAndRunUploads().catch((error) => {
+        console.error('Manual trigger failed:', error);
+      });
 
       return Response.json({
         success: true,
-        message: 'Scheduler triggered'
+        message: 'Scheduler run queued'
       });
     }
 
     if (url.pathname === '/status') {
-      const configResult = await callMainApp('/config');
-      const stateResult = await callMainApp('/scheduler');
+      const [configResult, stateResult, jobsResult] = await Promise.all([
+        callMainApp('/config'),
+        callMainApp('/scheduler'),
+        callMainApp('/scheduler/jobs?limit=20'),
+      ]);
 
       return Response.json({
         scheduler: {
-          isRunning,
-          lastRunTime: lastRunTime?.toISOString() || null,
-          cachedTriggerKeys: firedTriggerKeys.size,
+          workerId: WORKER_ID,
+          polling: workerPolling,
+          jobCounts: jobsResult.counts || null,
         },
         config: configResult.config,
-        state: stateResult.state
+        state: stateResult.state,
+        jobs: jobsResult.jobs || []
       });
     }
 
@@ -409,5 +503,5 @@ const server = Bun.serve({
 console.log(`🌐 Scheduler HTTP server running on http://${SCHEDULER_HOST}:${SCHEDULER_PORT}`);
 console.log('📋 Available endpoints:');
 console.log('   GET  /health - Health check');
-console.log('   POST /trigger - Manually trigger upload run');
+console.log('   POST /trigger - Queue a manual upload run');
 console.log('   GET  /status - Get scheduler status');
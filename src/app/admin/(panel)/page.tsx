@@ -13,12 +13,62 @@ import { Separator } from '@/components/ui/separator';
 import { SidebarNav, MobileNav } from '@/components/sidebar-nav';
 import { Switch } from '@/components/ui/switch';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { useToast } from '@/hooks/use-toast';
+import {
+  normalizeSlotTimes,
+  resolveDailySlots,
+  resolveSlotsForWeekday,
+  spreadSlotTimes,
+  DEFAULT_CATCH_UP_WINDOW_MINUTES,
+  type CatchUpPolicy,
+  type DailySlot,
+  type SlotMode,
+} from '@/lib/scheduling/slots';
+import type { ReframeMode } from '@/lib/youtube/reframe';
+import type { BrandingAssetKind, MappingBranding, WatermarkPosition } from '@/lib/youtube/branding';
+import type { BackgroundAudioMode } from '@/lib/youtube/audio';
+import type { ThumbnailMode } from '@/lib/youtube/thumbnails';
+import type { MappingSubtitles, SubtitleMode, SubtitlePosition } from '@/lib/youtube/subtitles';
+import type { MediaProbe, ShortThumbnail } from '@/lib/supabase/client';
+import {
+  AUDIO_SAMPLE_RATES,
+  DEFAULT_TRANSCODE_SETTINGS,
+  TRANSCODE_PRESETS,
+  TRANSCODE_RESOLUTIONS,
+  TRANSCODE_VIDEO_CODECS,
+  type TranscodeSettings,
+} from '@/lib/youtube/transcode-profiles';
+import {
+  DEFAULT_TRANSFORM_OPERATIONS,
+  MAX_TRANSFORM_CHAIN_LENGTH,
+  TRANSFORM_TYPES,
+  type TransformOperation,
+  type TransformType,
+} from '@/lib/youtube/transforms';
+import {
+  EMPTY_UPLOAD_METADATA,
+  YOUTUBE_VIDEO_CATEGORIES,
+  type UploadMetadataSettings,
+  type VideoLicense,
+} from '@/lib/youtube/upload-metadata';
+import {
+  WEEKDAYS,
+  findBlackoutRule,
+  formatBlackoutRule,
+  parseBlackoutRuleText,
+  weekdayForDate,
+  type BlackoutRule,
+  type Weekday,
+} from '@/lib/scheduling/calendar';
 import {
   AlertCircle,
+  AlertTriangle,
+  ArrowDown,
   ArrowDownCircle,
   ArrowRight,
+  ArrowUp,
   BarChart3,
   CheckCircle2,
   Clock,
@@ -26,8 +76,10 @@ import {
   Edit,
   ExternalLink,
   Eye,
+  Film,
   Link2,
   LogOut,
+  Music,
   Play,
   Plus,
   RefreshCw,
@@ -61,15 +113,27 @@ interface Short {
   target_video_id: string | null;
   retry_count: number;
   error_log: string | null;
+  next_attempt_at: string | null;
+  failure_reason: string | null;
+  thumbnail: ShortThumbnail | null;
+  media_probe: MediaProbe | null;
   live_stage?: string;
   live_message?: string | null;
   live_at?: string | null;
   live_action?: string | null;
   live_action_status?: 'success' | 'error' | null;
+  live_progress?: LiveProgress | null;
   created_at: string;
   updated_at: string;
 }
 
+interface LiveProgress {
+  stage: string;
+  percent: number | null;
+  eta_seconds: number | null;
+  speed: string | null;
+}
+
 interface Stats {
   total: number;
   pending: number;
@@ -94,6 +158,42 @@ interface Log {
   created_at: string;
 }
 
+interface AudioTrack {
+  id: string;
+  name: string;
+  file_path: string;
+  tags: string[];
+  duration_seconds: number | null;
+  created_at: string;
+}
+
+interface TranscodeProfile extends TranscodeSettings {
+  id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TriageShort {
+  id: string;
+  video_id: string;
+  title: string;
+  mapping_id: string | null;
+  source_channel: string | null;
+  target_channel: string | null;
+  retry_count: number;
+  failure_reason: string;
+  error_log: string | null;
+  updated_at: string;
+}
+
+interface FailureGroup {
+  id: string;
+  label: string;
+  hint: string;
+  count: number;
+  shorts: TriageShort[];
+}
+
 interface SchedulerState {
   is_running: boolean;
   uploads_today: number;
@@ -101,6 +201,57 @@ interface SchedulerState {
   current_status: string | null;
 }
 
+interface SchedulerJob {
+  id: string;
+  job_type: string;
+  payload: Record<string, unknown> | null;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+interface SchedulerJobCounts {
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+}
+
+interface QuotaCredentialStatus {
+  credential_type: 'api_key' | 'oauth_client';
+  credential_id: string;
+  used: number;
+  budget: number;
+  remaining: number;
+  operations: Record<string, { units: number; calls: number }>;
+}
+
+interface QuotaSummary {
+  quota_day: string;
+  reset_at: string;
+  budget: number;
+  credentials: QuotaCredentialStatus[];
+}
+
+interface DiskStatus {
+  temp_dir: string;
+  free_bytes: number | null;
+  total_bytes: number | null;
+  temp_dir_bytes: number;
+  temp_dir_max_bytes: number;
+  min_free_bytes: number;
+  shortage: { at: string; purpose: string; needed_bytes: number; message: string } | null;
+}
+
 interface ChannelMapping {
   id: string;
   name: string;
@@ -113,9 +264,30 @@ interface ChannelMapping {
   uploads_per_day: number;
   upload_time_morning: string | null;
   upload_time_evening: string | null;
+  slot_mode: SlotMode;
+  slot_times: string[] | null;
+  slot_window_start: string | null;
+  slot_window_end: string | null;
+  timezone: string | null;
+  weekday_slots: Partial<Record<Weekday, string[]>> | null;
+  blackout_rules: BlackoutRule[] | null;
+  catch_up_policy: CatchUpPolicy | null;
+  catch_up_window_minutes: number | null;
+  max_attempts: number | null;
+  daily_slots?: DailySlot[];
   publish_delay_hours: number | null;
   default_visibility: string | null;
   ai_enhancement_enabled: boolean;
+  reframe_mode: ReframeMode | null;
+  branding: MappingBranding | null;
+  loudness_target_lufs: number | null;
+  background_audio_mode: BackgroundAudioMode | null;
+  background_audio_tag: string | null;
+  transcode_profile_id: string | null;
+  thumbnail_mode: ThumbnailMode | null;
+  transforms: TransformOperation[] | null;
+  subtitles: MappingSubtitles | null;
+  upload_metadata: UploadMetadataSettings | null;
   last_fetched_at: string | null;
   total_fetched: number;
   total_uploaded: number;
@@ -129,6 +301,7 @@ interface Config {
 interface DestinationChannel {
   channel_id: string;
   channel_title: string;
+  upload_defaults: UploadMetadataSettings | null;
   connected_at: string;
   updated_at: string;
 }
@@ -197,6 +370,15 @@ interface ScheduledPublishItem {
   scheduledAt: number;
 }
 
+interface TransformPreview {
+  summary: string;
+  filtergraph: string;
+  source: { duration: number; width: number; height: number; short_id: string | null; title: string | null };
+  output: { duration: number | null; width: number | null; height: number | null };
+  frame: string | null;
+  frame_error?: string;
+}
+
 type ActionKey =
   | 'refresh'
   | 'scrapeSource'
@@ -213,7 +395,18 @@ type ActionKey =
   | 'deleteMapping'
   | 'toggleMapping'
   | 'processShort'
-  | 'deleteShort';
+  | 'deleteShort'
+  | 'retryJob'
+  | 'cancelJob'
+  | 'triageAction'
+  | 'loadShortLogs'
+  | 'uploadBranding'
+  | 'uploadAudioTrack'
+  | 'deleteAudioTrack'
+  | 'saveTranscodeProfile'
+  | 'deleteTranscodeProfile'
+  | 'selectThumbnail'
+  | 'previewTransforms';
 
 const DEFAULT_STATS: Stats = {
   total: 0,
@@ -224,6 +417,155 @@ const DEFAULT_STATS: Stats = {
   activeMappings: 0,
 };
 
+const REFRAME_MODE_OPTIONS: Array<{ value: ReframeMode; label: string }> = [
+  { value: 'blur_pad', label: 'Blurred background' },
+  { value: 'center_crop', label: 'Centre crop' },
+  { value: 'smart_crop', label: 'Smart crop (follow motion)' },
+  { value: 'letterbox', label: 'Letterbox' },
+  { value: 'off', label: 'Off (skip non-vertical)' },
+];
+
+const THUMBNAIL_MODE_OPTIONS: Array<{ value: ThumbnailMode; label: string }> = [
+  { value: 'off', label: 'Off (YouTube picks a frame)' },
+  { value: 'frame', label: 'Best frame' },
+  { value: 'title', label: 'Best frame with title and logo' },
+];
+
+const SUBTITLE_MODE_OPTIONS: Array<{ value: SubtitleMode; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'burn_in', label: 'Burn into the video' },
+  { value: 'caption_track', label: 'Upload as caption track' },
+];
+
+const SUBTITLE_POSITION_OPTIONS: Array<{ value: SubtitlePosition; label: string }> = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'top', label: 'Top' },
+];
+
+// Select value standing for "not set here"; the field falls back to the next level
+const INHERIT_OPTION = '__inherit__';
+
+const LICENSE_OPTIONS: Array<{ value: VideoLicense; label: string }> = [
+  { value: 'youtube', label: 'Standard YouTube License' },
+  { value: 'creativeCommon', label: 'Creative Commons - Attribution' },
+];
+
+const UPLOAD_FLAG_FIELDS: Array<{
+  key: 'embeddable' | 'public_stats_viewable' | 'made_for_kids' | 'contains_synthetic_media';
+  label: string;
+}> = [
+  { key: 'embeddable', label: 'Allow embedding' },
+  { key: 'public_stats_viewable', label: 'Public stats' },
+  { key: 'made_for_kids', label: 'Made for kids' },
+  { key: 'contains_synthetic_media', label: 'Altered or synthetic content' },
+];
+
+const TRANSFORM_TYPE_LABELS: Record<TransformType, string> = {
+  trim_start: 'Trim start',
+  trim_end: 'Trim end',
+  max_duration: 'Max duration',
+  speed: 'Speed',
+  mirror: 'Mirror',
+  crop: 'Crop',
+};
+
+const WATERMARK_POSITION_OPTIONS: Array<{ value: WatermarkPosition; label: string }> = [
+  { value: 'bottom_right', label: 'Bottom right' },
+  { value: 'bottom_left', label: 'Bottom left' },
+  { value: 'top_right', label: 'Top right' },
+  { value: 'top_left', label: 'Top left' },
+  { value: 'center', label: 'Centre' },
+];
+
+const BRANDING_ASSET_OPTIONS: Array<{ kind: BrandingAssetKind; label: string; accept: string }> = [
+  { kind: 'watermark', label: 'Watermark image', accept: '.png,.jpg,.jpeg,.webp' },
+  { kind: 'intro', label: 'Intro clip', accept: '.mp4,.mov,.webm,.mkv' },
+  { kind: 'outro', label: 'Outro clip', accept: '.mp4,.mov,.webm,.mkv' },
+];
+
+// Overlay settings edited in the mapping form; asset paths are managed by uploads
+const DEFAULT_BRANDING_FORM = {
+  watermark_position: 'bottom_right' as WatermarkPosition,
+  watermark_scale: 0.18,
+  watermark_opacity: 0.85,
+  watermark_margin: 32,
+};
+
+const DEFAULT_SUBTITLE_FORM = {
+  mode: 'off' as SubtitleMode,
+  // Comma-separated language codes, tried in order
+  languages: 'en',
+  include_auto: true,
+  font: 'Arial',
+  font_size: 64,
+  outline: 4,
+  position: 'bottom' as SubtitlePosition,
+};
+
+const LOUDNESS_TARGET_OPTIONS = ['-9', '-12', '-14', '-16', '-18', '-23'];
+
+const BACKGROUND_AUDIO_OPTIONS: Array<{ value: BackgroundAudioMode; label: string }> = [
+  { value: 'off', label: 'Keep original audio' },
+  { value: 'duck', label: 'Mix under original (ducked)' },
+  { value: 'replace', label: 'Replace original audio' },
+];
+
+const DUPLICATE_THRESHOLD_OPTIONS = [
+  { value: '0', label: 'Off' },
+  { value: '0.08', label: 'Strict (near-identical only)' },
+  { value: '0.15', label: 'Balanced' },
+  { value: '0.25', label: 'Loose (re-edits and re-encodes)' },
+];
+
+const DEFAULT_AUDIO_UPLOAD_FORM = {
+  name: '',
+  tags: '',
+  file: null as File | null,
+};
+
+const TRANSCODE_RESOLUTION_LABELS: Record<TranscodeSettings['resolution'], string> = {
+  source: 'Source (no upscale)',
+  fullhd: '1080x1920',
+  '4k': '2160x3840',
+  '8k': '4320x7680',
+};
+
+const TRANSCODE_CODEC_LABELS: Record<TranscodeSettings['video_codec'], string> = {
+  x264: 'H.264 (x264)',
+  x265: 'H.265 (x265)',
+  copy: 'Copy source stream',
+};
+
+// Numbers are kept as text while editing; blank fps cap means no cap
+const DEFAULT_TRANSCODE_FORM = {
+  name: '',
+  resolution: DEFAULT_TRANSCODE_SETTINGS.resolution,
+  video_codec: DEFAULT_TRANSCODE_SETTINGS.video_codec,
+  rate_mode: 'crf' as 'crf' | 'bitrate',
+  crf: String(DEFAULT_TRANSCODE_SETTINGS.crf),
+  video_bitrate_kbps: '8000',
+  fps_cap: '',
+  preset: DEFAULT_TRANSCODE_SETTINGS.preset,
+  threads: String(DEFAULT_TRANSCODE_SETTINGS.threads),
+  audio_codec: DEFAULT_TRANSCODE_SETTINGS.audio_codec,
+  audio_bitrate_kbps: String(DEFAULT_TRANSCODE_SETTINGS.audio_bitrate_kbps),
+  audio_sample_rate: String(DEFAULT_TRANSCODE_SETTINGS.audio_sample_rate),
+  audio_channels: String(DEFAULT_TRANSCODE_SETTINGS.audio_channels),
+  sharpen: DEFAULT_TRANSCODE_SETTINGS.sharpen,
+  color_boost: DEFAULT_TRANSCODE_SETTINGS.color_boost,
+  strict: DEFAULT_TRANSCODE_SETTINGS.strict,
+};
+
+function describeTranscodeProfile(profile: TranscodeProfile): string {
+  if (profile.video_codec === 'copy') {
+    return 'Passthrough';
+  }
+  const rate = profile.video_bitrate_kbps ? `${profile.video_bitrate_kbps} kbps` : `CRF ${profile.crf}`;
+  const fps = profile.fps_cap ? `, ≤${profile.fps_cap} fps` : '';
+  return `${TRANSCODE_CODEC_LABELS[profile.video_codec]} · ${TRANSCODE_RESOLUTION_LABELS[profile.resolution]} · ${rate}${fps}`;
+}
+
 const DEFAULT_MAPPING_FORM = {
   name: '',
   source_channel_id: '',
@@ -232,9 +574,33 @@ const DEFAULT_MAPPING_FORM = {
   uploads_per_day: 2,
   upload_time_morning: '09:00',
   upload_time_evening: '18:00',
+  slot_mode: 'fixed' as SlotMode,
+  slot_times: ['09:00', '18:00'],
+  slot_window_start: '09:00',
+  slot_window_end: '21:00',
+  timezone: '',
+  // One comma-separated time list per weekday; blank uses the daily slots, "off" skips the day
+  weekday_slots_text: Object.fromEntries(WEEKDAYS.map((weekday) => [weekday, ''])) as Record<Weekday, string>,
+  blackout_text: '',
+  catch_up_policy: 'skip' as CatchUpPolicy,
+  catch_up_window_minutes: String(DEFAULT_CATCH_UP_WINDOW_MINUTES),
+  max_attempts: '__global__',
   publish_delay_hours: '__global__',
   default_visibility: '__global__',
   ai_enhancement_enabled: false,
+  reframe_mode: 'blur_pad' as ReframeMode,
+  branding: DEFAULT_BRANDING_FORM,
+  // "off" disables normalisation
+  loudness_target_lufs: '-14',
+  background_audio_mode: 'off' as BackgroundAudioMode,
+  background_audio_tag: '',
+  // Blank renders with the server defaults
+  transcode_profile_id: '',
+  thumbnail_mode: 'off' as ThumbnailMode,
+  transforms: [] as TransformOperation[],
+  subtitles: DEFAULT_SUBTITLE_FORM,
+  // Null fields use the destination defaults
+  upload_metadata: EMPTY_UPLOAD_METADATA,
 };
 
 const DEFAULT_SOURCE_FORM = {
@@ -261,6 +627,25 @@ const DEFAULT_ACTION_LOAD: Record<ActionKey, boolean> = {
   toggleMapping: false,
   processShort: false,
   deleteShort: false,
+  retryJob: false,
+  cancelJob: false,
+  triageAction: false,
+  loadShortLogs: false,
+  uploadBranding: false,
+  uploadAudioTrack: false,
+  deleteAudioTrack: false,
+  saveTranscodeProfile: false,
+  deleteTranscodeProfile: false,
+  selectThumbnail: false,
+  previewTransforms: false,
+};
+
+const DEFAULT_JOB_COUNTS: SchedulerJobCounts = {
+  queued: 0,
+  running: 0,
+  succeeded: 0,
+  failed: 0,
+  cancelled: 0,
 };
 
 function normalizeTimeValue(raw: string | null | undefined, fallback: string): string {
@@ -270,6 +655,25 @@ function normalizeTimeValue(raw: string | null | undefined, fallback: string): s
   return /^([01]\d|2[0-3]):([0-5]\d)$/.test(value) ? value : fallback;
 }
 
+function formatWeekdaySlotsText(slots: Partial<Record<Weekday, string[]>> | null | undefined): Record<Weekday, string> {
+  return Object.fromEntries(
+    WEEKDAYS.map((weekday) => {
+      const times = slots?.[weekday];
+      return [weekday, !times ? '' : times.length === 0 ? 'off' : times.join(', ')];
+    })
+  ) as Record<Weekday, string>;
+}
+
+function parseWeekdaySlotsText(text: Record<Weekday, string>): Partial<Record<Weekday, string[]>> {
+  const result: Partial<Record<Weekday, string[]>> = {};
+  for (const weekday of WEEKDAYS) {
+    const value = (text[weekday] || '').trim().toLowerCase();
+    if (!value) continue;
+    result[weekday] = value === 'off' ? [] : normalizeSlotTimes(value.split(/[\s,]+/));
+  }
+  return result;
+}
+
 function formatMappingLabel(mappingId?: string | null, mappingName?: string | null): string {
   const id = mappingId?.trim() || '';
   const name = mappingName?.trim() || '';
@@ -311,6 +715,86 @@ function buildLogContextRows(log: Log): string[] {
   return rows;
 }
 
+// Label/value rows for the source media section of the details dialog
+function describeMediaProbeRows(probe: MediaProbe): Array<{ label: string; value: string }> {
+  const join = (...parts: Array<string | null | false>) => parts.filter(Boolean).join(' · ');
+  return [
+    {
+      label: 'Frame',
+      value: join(
+        `${probe.display_width}x${probe.display_height}`,
+        probe.rotation ? `rotated ${probe.rotation}° (coded ${probe.width}x${probe.height})` : null
+      ),
+    },
+    {
+      label: 'Video',
+      value:
+        join(
+          probe.video_codec,
+          probe.fps ? `${probe.fps} fps` : null,
+          probe.video_bitrate_kbps ? `${probe.video_bitrate_kbps} kbps` : null
+        ) || 'Unknown',
+    },
+    {
+      label: 'Audio',
+      value: probe.has_audio
+        ? join(
+            probe.audio_codec,
+            probe.audio_channels ? `${probe.audio_channels} ch` : null,
+            probe.audio_sample_rate ? `${probe.audio_sample_rate} Hz` : null
+          ) || 'Present'
+        : 'None',
+    },
+    {
+      label: 'Color',
+      value: join(probe.hdr ? `HDR (${probe.color_transfer})` : 'SDR', probe.color_primaries, probe.pix_fmt),
+    },
+    {
+      label: 'File',
+      value: join(
+        formatBytes(probe.file_size),
+        probe.container,
+        probe.bitrate_kbps ? `${probe.bitrate_kbps} kbps` : null
+      ),
+    },
+  ];
+}
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) {
+    return '—';
+  }
+  const gigabytes = bytes / (1024 * 1024 * 1024);
+  return gigabytes >= 1 ? `${gigabytes.toFixed(1)} GB` : `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+function formatSchedulerJobTarget(job: SchedulerJob): string {
+  const payload = job.payload || {};
+  const mappingName = typeof payload.mappingName === 'string' ? payload.mappingName : '';
+  const mappingId = typeof payload.mappingId === 'string' ? payload.mappingId : '';
+  const slotLabel = typeof payload.slotLabel === 'string' ? payload.slotLabel : '';
+
+  if (job.job_type !== 'process_next') {
+    return 'Maintenance';
+  }
+
+  const target = mappingName || mappingId || 'Global queue';
+  return slotLabel ? `${target} · ${slotLabel}` : target;
+}
+
+function formatSchedulerJobOutcome(job: SchedulerJob): string | null {
+  if (job.last_error) {
+    return job.last_error;
+  }
+
+  const result = job.result || {};
+  if (typeof result.message === 'string') {
+    return result.message;
+  }
+
+  return null;
+}
+
 function getDatePartsInTimezone(date: Date, timeZone: string) {
   const formatter = new Intl.DateTimeFormat('en-CA', {
     timeZone,
@@ -364,6 +848,54 @@ function convertZonedDateTimeToUtc(
   return new Date(utcGuess);
 }
 
+function formatCatchUpLabel(mapping: ChannelMapping): string {
+  if (mapping.catch_up_policy === 'within_window') {
+    return `Catch-up: ${mapping.catch_up_window_minutes ?? DEFAULT_CATCH_UP_WINDOW_MINUTES}m`;
+  }
+  if (mapping.catch_up_policy === 'run_once') {
+    return 'Catch-up: latest once';
+  }
+  return 'Catch-up: off';
+}
+
+// Next slot occurrences for a mapping over the coming week, honouring weekday overrides and blackouts.
+function getUpcomingMappingSlots(
+  mapping: ChannelMapping,
+  timeZone: string,
+  fromDate: Date,
+  fallback: { morning: string; evening: string },
+  limit: number
+): Array<{ label: string; time: string; scheduledAt: number }> {
+  const today = getDatePartsInTimezone(fromDate, timeZone);
+  const occurrences: Array<{ label: string; time: string; scheduledAt: number }> = [];
+
+  for (let offset = 0; offset < 8 && occurrences.length < limit; offset++) {
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const date = day.toISOString().slice(0, 10);
+    if (findBlackoutRule(mapping.blackout_rules, date)) {
+      continue;
+    }
+
+    resolveSlotsForWeekday(mapping, weekdayForDate(date), fallback).forEach((slot, index) => {
+      const [hour, minute] = slot.time.split(':').map((part) => Number.parseInt(part, 10));
+      const scheduledAt = convertZonedDateTimeToUtc(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1,
+        day.getUTCDate(),
+        hour,
+        minute,
+        timeZone
+      ).getTime();
+
+      if (scheduledAt > fromDate.getTime()) {
+        occurrences.push({ label: `Slot ${index + 1}`, time: slot.time, scheduledAt });
+      }
+    });
+  }
+
+  return occurrences.sort((first, second) => first.scheduledAt - second.scheduledAt).slice(0, limit);
+}
+
 function getNextOccurrence(timeValue: string, timeZone: string, fromDate: Date): Date | null {
   const [hourRaw, minuteRaw] = timeValue.split(':');
   const hour = Number.parseInt(hourRaw || '', 10);
@@ -413,7 +945,22 @@ export default function GRAVIX() {
   const [logs, setLogs] = useState<Log[]>([]);
   const [config, setConfig] = useState<Config>({});
   const [schedulerState, setSchedulerState] = useState<SchedulerState | null>(null);
+  const [schedulerJobs, setSchedulerJobs] = useState<SchedulerJob[]>([]);
+  const [schedulerJobCounts, setSchedulerJobCounts] = useState<SchedulerJobCounts>(DEFAULT_JOB_COUNTS);
+  const [quotaSummary, setQuotaSummary] = useState<QuotaSummary | null>(null);
+  const [diskStatus, setDiskStatus] = useState<DiskStatus | null>(null);
+  const [failureGroups, setFailureGroups] = useState<FailureGroup[]>([]);
+  const [failuresTotal, setFailuresTotal] = useState(0);
+  const [reassignTargets, setReassignTargets] = useState<Record<string, string>>({});
+  const [activeTriageGroup, setActiveTriageGroup] = useState<string | null>(null);
+  const [logsShort, setLogsShort] = useState<TriageShort | null>(null);
+  const [shortLogs, setShortLogs] = useState<Log[]>([]);
   const [channelMappings, setChannelMappings] = useState<ChannelMapping[]>([]);
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+  const [audioUpload, setAudioUpload] = useState(DEFAULT_AUDIO_UPLOAD_FORM);
+  const [transcodeProfiles, setTranscodeProfiles] = useState<TranscodeProfile[]>([]);
+  const [transcodeForm, setTranscodeForm] = useState(DEFAULT_TRANSCODE_FORM);
+  const [editingTranscodeProfile, setEditingTranscodeProfile] = useState<TranscodeProfile | null>(null);
   const [sourceChannels, setSourceChannels] = useState<SourceChannel[]>([]);
   const [destinationChannels, setDestinationChannels] = useState<DestinationChannel[]>([]);
   const [sourceMonitor, setSourceMonitor] = useState<Record<string, SourceScrapeMonitor>>({});
@@ -427,15 +974,18 @@ export default function GRAVIX() {
   const [showMappingDialog, setShowMappingDialog] = useState(false);
   const [showSourceDialog, setShowSourceDialog] = useState(false);
   const [editingMapping, setEditingMapping] = useState<ChannelMapping | null>(null);
+  const [transformPreview, setTransformPreview] = useState<TransformPreview | null>(null);
   const [editingSource, setEditingSource] = useState<SourceChannel | null>(null);
   const [newMapping, setNewMapping] = useState(DEFAULT_MAPPING_FORM);
   const [newSource, setNewSource] = useState(DEFAULT_SOURCE_FORM);
   const [destinationTitleEdits, setDestinationTitleEdits] = useState<Record<string, string>>({});
+  const [destinationDefaultsEdits, setDestinationDefaultsEdits] = useState<Record<string, UploadMetadataSettings>>({});
 
   const [activeMappingId, setActiveMappingId] = useState<string | null>(null);
   const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
   const [activeDestinationId, setActiveDestinationId] = useState<string | null>(null);
   const [activeShortId, setActiveShortId] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const [loggingOut, setLoggingOut] = useState(false);
   const [clockNow, setClockNow] = useState(() => Date.now());
   const [isWindowVisible, setIsWindowVisible] = useState(true);
@@ -461,6 +1011,56 @@ export default function GRAVIX() {
     }
   }, []);
 
+  const fetchSchedulerJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scheduler/jobs?limit=15');
+      const data = await response.json();
+      if (data.success) {
+        setSchedulerJobs(data.jobs || []);
+        setSchedulerJobCounts(data.counts || DEFAULT_JOB_COUNTS);
+      }
+    } catch (error) {
+      console.error('Failed to fetch scheduler jobs:', error);
+    }
+  }, []);
+
+  const fetchQuota = useCallback(async () => {
+    try {
+      const response = await fetch('/api/youtube/quota');
+      const data = await response.json();
+      if (data.success) {
+        setQuotaSummary(data.quota);
+      }
+    } catch (error) {
+      console.error('Failed to fetch quota usage:', error);
+    }
+  }, []);
+
+  const fetchDiskStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scheduler/disk');
+      const data = await response.json();
+      if (data.success) {
+        setDiskStatus(data.disk);
+      }
+    } catch (error) {
+      console.error('Failed to fetch disk status:', error);
+    }
+  }, []);
+
+  const fetchFailures = useCallback(async () => {
+    try {
+      const response = await fetch('/api/videos/failures');
+      const data = await response.json();
+      if (data.success) {
+        setFailureGroups(data.groups || []);
+        setFailuresTotal(data.total || 0);
+      }
+    } catch (error) {
+      console.error('Failed to fetch failed shorts:', error);
+    }
+  }, []);
+
   const fetchShorts = useCallback(async () => {
     try {
       const response = await fetch('/api/videos?limit=100&withTotal=false&includeProgress=true');
@@ -485,6 +1085,35 @@ export default function GRAVIX() {
     }
   }, []);
 
+  const audioTags = useMemo(
+    () => Array.from(new Set(audioTracks.flatMap((track) => track.tags || []))).sort(),
+    [audioTracks]
+  );
+
+  const fetchAudioTracks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/audio-library');
+      const data = await response.json();
+      if (data.success) {
+        setAudioTracks(data.tracks || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch audio library:', error);
+    }
+  }, []);
+
+  const fetchTranscodeProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/transcode-profiles');
+      const data = await response.json();
+      if (data.success) {
+        setTranscodeProfiles(data.profiles || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch transcode profiles:', error);
+    }
+  }, []);
+
   const fetchMappings = useCallback(async () => {
     try {
       const response = await fetch('/api/mappings');
@@ -540,7 +1169,9 @@ export default function GRAVIX() {
   }, []);
 
   const hasActiveProcessing = useMemo(() => {
-    return shorts.some((short) => short.status === 'Downloaded' || short.status === 'Uploading');
+    return shorts.some(
+      (short) => short.status === 'Downloaded' || short.status === 'Uploading' || Boolean(short.live_progress)
+    );
   }, [shorts]);
 
   useEffect(() => {
@@ -553,10 +1184,15 @@ export default function GRAVIX() {
           fetchStats({ includeLogs: true }),
           fetchShorts(),
           fetchConfig(),
+          fetchAudioTracks(),
+          fetchTranscodeProfiles(),
           fetchMappings(),
           fetchSourceChannels(),
           fetchScrapingMonitor(),
           fetchDestinationChannels(),
+          fetchSchedulerJobs(),
+          fetchQuota(),
+          fetchDiskStatus(),
         ]);
       } finally {
         if (mounted) {
@@ -570,7 +1206,20 @@ export default function GRAVIX() {
     return () => {
       mounted = false;
     };
-  }, [fetchConfig, fetchDestinationChannels, fetchMappings, fetchScrapingMonitor, fetchShorts, fetchSourceChannels, fetchStats]);
+  }, [
+    fetchAudioTracks,
+    fetchConfig,
+    fetchDestinationChannels,
+    fetchDiskStatus,
+    fetchMappings,
+    fetchQuota,
+    fetchSchedulerJobs,
+    fetchScrapingMonitor,
+    fetchShorts,
+    fetchSourceChannels,
+    fetchStats,
+    fetchTranscodeProfiles,
+  ]);
 
   useEffect(() => {
     const onMessage = (event: MessageEvent) => {
@@ -626,6 +1275,13 @@ export default function GRAVIX() {
       }
       return next;
     });
+    setDestinationDefaultsEdits((prev) => {
+      const next: Record<string, UploadMetadataSettings> = {};
+      for (const channel of destinationChannels) {
+        next[channel.channel_id] = prev[channel.channel_id] ?? { ...EMPTY_UPLOAD_METADATA, ...channel.upload_defaults };
+      }
+      return next;
+    });
   }, [destinationChannels]);
 
   useEffect(() => {
@@ -660,6 +1316,7 @@ export default function GRAVIX() {
       activeTab === 'videos' ||
       activeTab === 'dashboard' ||
       activeTab === 'mappings' ||
+      activeTab === 'triage' ||
       activeTab === 'logs';
 
     if (!shouldLivePoll) {
@@ -695,7 +1352,16 @@ export default function GRAVIX() {
           return;
         }
 
-        await Promise.all([fetchShorts(), fetchStats({ includeLogs: false })]);
+        if (activeTab === 'triage') {
+          await Promise.all([fetchFailures(), fetchStats({ includeLogs: false })]);
+          return;
+        }
+
+        const requests: Array<Promise<unknown>> = [fetchShorts(), fetchStats({ includeLogs: false })];
+        if (activeTab === 'dashboard') {
+          requests.push(fetchSchedulerJobs(), fetchQuota(), fetchDiskStatus());
+        }
+        await Promise.all(requests);
       } finally {
         inFlight = false;
       }
@@ -710,7 +1376,17 @@ export default function GRAVIX() {
       cancelled = true;
       window.clearInterval(interval);
     };
-  }, [activeTab, fetchShorts, fetchStats, hasActiveProcessing, isWindowVisible]);
+  }, [
+    activeTab,
+    fetchDiskStatus,
+    fetchFailures,
+    fetchQuota,
+    fetchSchedulerJobs,
+    fetchShorts,
+    fetchStats,
+    hasActiveProcessing,
+    isWindowVisible,
+  ]);
 
   const refreshAll = useCallback(async () => {
     setActionState('refresh', true);
@@ -722,11 +1398,27 @@ export default function GRAVIX() {
         fetchSourceChannels(),
         fetchScrapingMonitor(),
         fetchDestinationChannels(),
+        fetchSchedulerJobs(),
+        fetchQuota(),
+        fetchDiskStatus(),
+        fetchFailures(),
       ]);
     } finally {
       setActionState('refresh', false);
     }
-  }, [fetchDestinationChannels, fetchMappings, fetchScrapingMonitor, fetchShorts, fetchSourceChannels, fetchStats, setActionState]);
+  }, [
+    fetchDestinationChannels,
+    fetchDiskStatus,
+    fetchFailures,
+    fetchMappings,
+    fetchQuota,
+    fetchSchedulerJobs,
+    fetchScrapingMonitor,
+    fetchShorts,
+    fetchSourceChannels,
+    fetchStats,
+    setActionState,
+  ]);
 
   const connectDestinationChannel = () => {
     setConnectLoad(true);
@@ -956,12 +1648,16 @@ export default function GRAVIX() {
       const response = await fetch('/api/youtube/destination-channels', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ channel_id: channelId, channel_title: channelTitle }),
+        body: JSON.stringify({
+          channel_id: channelId,
+          channel_title: channelTitle,
+          upload_defaults: destinationDefaultsEdits[channelId] || EMPTY_UPLOAD_METADATA,
+        }),
       });
       const data = await response.json();
 
       if (data.success) {
-        toast({ title: 'Saved', description: 'Destination channel title updated' });
+        toast({ title: 'Saved', description: 'Destination channel updated' });
         await Promise.all([fetchDestinationChannels(), fetchMappings(), fetchScrapingMonitor()]);
       } else {
         toast({
@@ -1137,8 +1833,21 @@ export default function GRAVIX() {
         return;
       }
 
+      const { weekday_slots_text, blackout_text, ...mappingForm } = newMapping;
+      const blackout = parseBlackoutRuleText(blackout_text);
+      if (blackout.invalid.length > 0) {
+        toast({
+          title: 'Error',
+          description: `Unrecognised blackout rule: ${blackout.invalid[0]}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
       const payload = {
-        ...newMapping,
+        ...mappingForm,
+        weekday_slots: parseWeekdaySlotsText(weekday_slots_text),
+        blackout_rules: blackout.rules,
         source_channel_url: sourceUrl,
         source_channel_name: selectedSource?.channel_title || newMapping.source_channel_id,
         target_channel_name: selectedDestination?.channel_title || null,
@@ -1233,8 +1942,10 @@ export default function GRAVIX() {
       });
       const data = await response.json();
       if (data.success) {
-        toast({ title: 'Started', description: 'Scheduler run initiated' });
-        await fetchStats();
+        toast({ title: 'Queued', description: 'Scheduler run queued' });
+        await Promise.all([fetchStats(), fetchSchedulerJobs()]);
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to queue scheduler run', variant: 'destructive' });
       }
     } catch {
       toast({ title: 'Error', description: 'Failed to trigger scheduler', variant: 'destructive' });
@@ -1243,71 +1954,456 @@ export default function GRAVIX() {
     }
   };
 
-  const openMappingDialog = (mapping?: ChannelMapping) => {
-    if (mapping) {
-      const sourceMatch =
-        sourceChannels.find((channel) => channel.channel_id === mapping.source_channel_id) ||
-        sourceChannels.find((channel) => channel.channel_url === mapping.source_channel_url);
+  const updateSchedulerJob = async (id: string, action: 'retry' | 'cancel') => {
+    const key = action === 'retry' ? 'retryJob' : 'cancelJob';
+    setActiveJobId(id);
+    setActionState(key, true);
 
-      setEditingMapping(mapping);
-      setNewMapping({
-        name: mapping.name,
-        source_channel_id: sourceMatch?.channel_id || mapping.source_channel_id,
-        source_channel_url: mapping.source_channel_url,
-        target_channel_id: mapping.target_channel_id,
-        uploads_per_day: mapping.uploads_per_day,
-        upload_time_morning: mapping.upload_time_morning || '09:00',
-        upload_time_evening: mapping.upload_time_evening || '18:00',
-        publish_delay_hours:
-          mapping.publish_delay_hours === null || mapping.publish_delay_hours === undefined
-            ? '__global__'
-            : String(mapping.publish_delay_hours),
-        default_visibility: mapping.default_visibility || '__global__',
-        ai_enhancement_enabled: mapping.ai_enhancement_enabled,
+    try {
+      const response = await fetch('/api/scheduler/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, id }),
       });
-    } else {
-      setEditingMapping(null);
-      setNewMapping(DEFAULT_MAPPING_FORM);
+      const data = await response.json();
+      if (data.success) {
+        toast({ title: action === 'retry' ? 'Requeued' : 'Cancelled', description: 'Scheduler job updated' });
+        await fetchSchedulerJobs();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to update job', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to update job', variant: 'destructive' });
+    } finally {
+      setActionState(key, false);
+      setActiveJobId(null);
     }
-
-    setShowMappingDialog(true);
   };
 
-  const tabTitle = useMemo(() => {
-    const map: Record<string, string> = {
-      dashboard: 'Operations Dashboard',
-      sources: 'Source Channels',
-      destinations: 'Destination Channels',
-      mappings: 'Channel Mappings',
-      videos: 'Video Library',
-      config: 'Configuration',
-      logs: 'Activity Timeline',
-    };
-    return map[activeTab] || 'Dashboard';
-  }, [activeTab]);
-
-  const normalizedSearch = useMemo(() => searchQuery.trim().toLowerCase(), [searchQuery]);
+  const runTriageAction = async (group: FailureGroup, action: 'requeue' | 'skip' | 'reassign') => {
+    const mappingId = reassignTargets[group.id];
+    if (action === 'reassign' && !mappingId) {
+      toast({ title: 'Pick a mapping', description: 'Choose the mapping to reassign this group to', variant: 'destructive' });
+      return;
+    }
 
-  const filteredShorts = useMemo(() => {
-    return shorts.filter((short) => {
-      const matchesSearch =
-        short.title.toLowerCase().includes(normalizedSearch) || short.video_id.toLowerCase().includes(normalizedSearch);
-      const matchesStatus = statusFilter === 'all' || short.status === statusFilter;
-      return matchesSearch && matchesStatus;
-    });
-  }, [normalizedSearch, shorts, statusFilter]);
+    setActiveTriageGroup(group.id);
+    setActionState('triageAction', true);
 
-  const statCards = useMemo(
-    () => [
-      {
-        label: 'Total Videos',
-        value: stats.total,
-        cls: 'stat-total',
-        icon: <BarChart3 className="h-4 w-4 text-cyan-300" />,
-      },
-      {
-        label: 'Pending',
-        value: stats.pending,
+    try {
+      const response = await fetch('/api/videos/failures', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, group: group.id, ...(action === 'reassign' ? { mappingId } : {}) }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        const conflicts = Array.isArray(data.conflicts) ? data.conflicts.length : 0;
+        toast({
+          title: action === 'requeue' ? 'Requeued' : action === 'skip' ? 'Skipped' : 'Reassigned',
+          description:
+            `${data.updated}/${data.requested} short(s) in ${group.label}` +
+            (conflicts > 0 ? ` · ${conflicts} already exist on that mapping` : ''),
+        });
+        await Promise.all([fetchFailures(), fetchShorts(), fetchStats({ includeLogs: false })]);
+      } else {
+        toast({ title: 'Error', description: data.error || 'Triage action failed', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Triage action failed', variant: 'destructive' });
+    } finally {
+      setActionState('triageAction', false);
+      setActiveTriageGroup(null);
+    }
+  };
+
+  const openShortLogs = async (short: TriageShort) => {
+    setLogsShort(short);
+    setShortLogs([]);
+    setActionState('loadShortLogs', true);
+
+    try {
+      const response = await fetch(`/api/videos/failures?shortId=${encodeURIComponent(short.id)}`);
+      const data = await response.json();
+      if (data.success) {
+        setShortLogs(data.logs || []);
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to load logs', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to load logs', variant: 'destructive' });
+    } finally {
+      setActionState('loadShortLogs', false);
+    }
+  };
+
+  const selectThumbnail = async (short: Short, file?: string) => {
+    setActionState('selectThumbnail', true);
+    try {
+      const response = await fetch('/api/videos/thumbnail', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shortId: short.id, file }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSelectedShort({ ...short, thumbnail: data.thumbnail });
+        if (data.warning) {
+          toast({ title: 'Thumbnail not sent', description: data.warning, variant: 'destructive' });
+        } else {
+          toast({
+            title: 'Thumbnail updated',
+            description: short.target_video_id ? 'Sent to YouTube' : 'Used when the short is uploaded',
+          });
+        }
+        await fetchShorts();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to update thumbnail', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to update thumbnail', variant: 'destructive' });
+    } finally {
+      setActionState('selectThumbnail', false);
+    }
+  };
+
+  // Any edit makes the shown preview stale
+  const setMappingTransforms = (transforms: TransformOperation[]) => {
+    setNewMapping({ ...newMapping, transforms });
+    setTransformPreview(null);
+  };
+
+  const replaceMappingTransform = (index: number, operation: TransformOperation) => {
+    setMappingTransforms(newMapping.transforms.map((item, itemIndex) => (itemIndex === index ? operation : item)));
+  };
+
+  const moveMappingTransform = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= newMapping.transforms.length) {
+      return;
+    }
+    const transforms = [...newMapping.transforms];
+    [transforms[index], transforms[target]] = [transforms[target], transforms[index]];
+    setMappingTransforms(transforms);
+  };
+
+  const previewTransforms = async () => {
+    setActionState('previewTransforms', true);
+    try {
+      // The newest loaded short of the mapping gives a real duration and, while cached, a rendered frame
+      const sample = editingMapping ? shorts.find((short) => short.mapping_id === editingMapping.id) : undefined;
+      const response = await fetch('/api/mappings/transforms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transforms: newMapping.transforms, shortId: sample?.id }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setTransformPreview(data.preview);
+      } else {
+        setTransformPreview(null);
+        toast({ title: 'Error', description: data.error || 'Failed to preview transforms', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to preview transforms', variant: 'destructive' });
+    } finally {
+      setActionState('previewTransforms', false);
+    }
+  };
+
+  const uploadAudioTrack = async () => {
+    if (!audioUpload.file) {
+      toast({ title: 'Error', description: 'Choose an audio file first', variant: 'destructive' });
+      return;
+    }
+
+    setActionState('uploadAudioTrack', true);
+    try {
+      const body = new FormData();
+      body.append('file', audioUpload.file);
+      body.append('name', audioUpload.name);
+      body.append('tags', audioUpload.tags);
+
+      const response = await fetch('/api/audio-library', { method: 'POST', body });
+      const data = await response.json();
+      if (data.success) {
+        toast({ title: 'Uploaded', description: `Added ${data.track?.name || 'track'} to the audio library` });
+        setAudioUpload(DEFAULT_AUDIO_UPLOAD_FORM);
+        await fetchAudioTracks();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to upload track', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to upload track', variant: 'destructive' });
+    } finally {
+      setActionState('uploadAudioTrack', false);
+    }
+  };
+
+  const deleteAudioTrack = async (track: AudioTrack) => {
+    if (!confirm(`Delete "${track.name}" from the audio library?`)) {
+      return;
+    }
+
+    setActionState('deleteAudioTrack', true);
+    try {
+      const response = await fetch(`/api/audio-library?id=${encodeURIComponent(track.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        await fetchAudioTracks();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to delete track', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to delete track', variant: 'destructive' });
+    } finally {
+      setActionState('deleteAudioTrack', false);
+    }
+  };
+
+  const editTranscodeProfile = (profile: TranscodeProfile | null) => {
+    setEditingTranscodeProfile(profile);
+    if (!profile) {
+      setTranscodeForm(DEFAULT_TRANSCODE_FORM);
+      return;
+    }
+
+    setTranscodeForm({
+      name: profile.name,
+      resolution: profile.resolution,
+      video_codec: profile.video_codec,
+      rate_mode: profile.video_bitrate_kbps ? 'bitrate' : 'crf',
+      crf: String(profile.crf ?? DEFAULT_TRANSCODE_SETTINGS.crf),
+      video_bitrate_kbps: String(profile.video_bitrate_kbps ?? DEFAULT_TRANSCODE_FORM.video_bitrate_kbps),
+      fps_cap: profile.fps_cap ? String(profile.fps_cap) : '',
+      preset: profile.preset,
+      threads: String(profile.threads),
+      audio_codec: profile.audio_codec,
+      audio_bitrate_kbps: String(profile.audio_bitrate_kbps),
+      audio_sample_rate: String(profile.audio_sample_rate),
+      audio_channels: String(profile.audio_channels),
+      sharpen: profile.sharpen,
+      color_boost: profile.color_boost,
+      strict: profile.strict,
+    });
+  };
+
+  const saveTranscodeProfile = async () => {
+    if (!transcodeForm.name.trim()) {
+      toast({ title: 'Error', description: 'Profile name is required', variant: 'destructive' });
+      return;
+    }
+
+    setActionState('saveTranscodeProfile', true);
+    try {
+      const { rate_mode, ...form } = transcodeForm;
+      const payload = {
+        ...form,
+        crf: rate_mode === 'crf' ? form.crf : null,
+        video_bitrate_kbps: rate_mode === 'bitrate' ? form.video_bitrate_kbps : null,
+        fps_cap: form.fps_cap || null,
+      };
+
+      const response = await fetch('/api/transcode-profiles', {
+        method: editingTranscodeProfile ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editingTranscodeProfile ? { id: editingTranscodeProfile.id, ...payload } : payload),
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast({
+          title: 'Saved',
+          description: `${editingTranscodeProfile ? 'Updated' : 'Created'} profile ${data.profile?.name || ''}`.trim(),
+        });
+        editTranscodeProfile(null);
+        await fetchTranscodeProfiles();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to save profile', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to save profile', variant: 'destructive' });
+    } finally {
+      setActionState('saveTranscodeProfile', false);
+    }
+  };
+
+  const deleteTranscodeProfile = async (profile: TranscodeProfile) => {
+    const usedBy = channelMappings.filter((mapping) => mapping.transcode_profile_id === profile.id).length;
+    const warning = usedBy > 0 ? ` ${usedBy} mapping${usedBy === 1 ? '' : 's'} will fall back to the defaults.` : '';
+    if (!confirm(`Delete transcode profile "${profile.name}"?${warning}`)) {
+      return;
+    }
+
+    setActionState('deleteTranscodeProfile', true);
+    try {
+      const response = await fetch(`/api/transcode-profiles?id=${encodeURIComponent(profile.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        if (editingTranscodeProfile?.id === profile.id) {
+          editTranscodeProfile(null);
+        }
+        await Promise.all([fetchTranscodeProfiles(), fetchMappings()]);
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to delete profile', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to delete profile', variant: 'destructive' });
+    } finally {
+      setActionState('deleteTranscodeProfile', false);
+    }
+  };
+
+  const uploadBrandingAsset = async (kind: BrandingAssetKind, file: File | null) => {
+    if (!editingMapping || !file) {
+      return;
+    }
+
+    setActionState('uploadBranding', true);
+    try {
+      const body = new FormData();
+      body.append('mappingId', editingMapping.id);
+      body.append('kind', kind);
+      body.append('file', file);
+
+      const response = await fetch('/api/mappings/branding', { method: 'POST', body });
+      const data = await response.json();
+      if (data.success) {
+        setEditingMapping({ ...editingMapping, branding: data.branding });
+        toast({ title: 'Uploaded', description: `${kind} asset saved for ${editingMapping.name}` });
+        await fetchMappings();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to upload asset', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to upload asset', variant: 'destructive' });
+    } finally {
+      setActionState('uploadBranding', false);
+    }
+  };
+
+  const removeBrandingAsset = async (kind: BrandingAssetKind) => {
+    if (!editingMapping) {
+      return;
+    }
+
+    setActionState('uploadBranding', true);
+    try {
+      const params = new URLSearchParams({ mappingId: editingMapping.id, kind });
+      const response = await fetch(`/api/mappings/branding?${params.toString()}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setEditingMapping({ ...editingMapping, branding: data.branding });
+        await fetchMappings();
+      } else {
+        toast({ title: 'Error', description: data.error || 'Failed to remove asset', variant: 'destructive' });
+      }
+    } catch {
+      toast({ title: 'Error', description: 'Failed to remove asset', variant: 'destructive' });
+    } finally {
+      setActionState('uploadBranding', false);
+    }
+  };
+
+  const openMappingDialog = (mapping?: ChannelMapping) => {
+    setTransformPreview(null);
+    if (mapping) {
+      const sourceMatch =
+        sourceChannels.find((channel) => channel.channel_id === mapping.source_channel_id) ||
+        sourceChannels.find((channel) => channel.channel_url === mapping.source_channel_url);
+
+      setEditingMapping(mapping);
+      setNewMapping({
+        name: mapping.name,
+        source_channel_id: sourceMatch?.channel_id || mapping.source_channel_id,
+        source_channel_url: mapping.source_channel_url,
+        target_channel_id: mapping.target_channel_id,
+        uploads_per_day: mapping.uploads_per_day,
+        upload_time_morning: mapping.upload_time_morning || '09:00',
+        upload_time_evening: mapping.upload_time_evening || '18:00',
+        slot_mode: mapping.slot_mode || 'fixed',
+        slot_times: resolveDailySlots({ ...mapping, slot_mode: 'fixed' }).map((slot) => slot.time),
+        slot_window_start: mapping.slot_window_start || '09:00',
+        slot_window_end: mapping.slot_window_end || '21:00',
+        timezone: mapping.timezone || '',
+        weekday_slots_text: formatWeekdaySlotsText(mapping.weekday_slots),
+        blackout_text: (mapping.blackout_rules || []).map(formatBlackoutRule).join('\n'),
+        catch_up_policy: mapping.catch_up_policy || 'skip',
+        catch_up_window_minutes: String(mapping.catch_up_window_minutes ?? DEFAULT_CATCH_UP_WINDOW_MINUTES),
+        max_attempts:
+          mapping.max_attempts === null || mapping.max_attempts === undefined
+            ? '__global__'
+            : String(mapping.max_attempts),
+        publish_delay_hours:
+          mapping.publish_delay_hours === null || mapping.publish_delay_hours === undefined
+            ? '__global__'
+            : String(mapping.publish_delay_hours),
+        default_visibility: mapping.default_visibility || '__global__',
+        ai_enhancement_enabled: mapping.ai_enhancement_enabled,
+        reframe_mode: mapping.reframe_mode || 'blur_pad',
+        branding: {
+          watermark_position: mapping.branding?.watermark_position || DEFAULT_BRANDING_FORM.watermark_position,
+          watermark_scale: mapping.branding?.watermark_scale ?? DEFAULT_BRANDING_FORM.watermark_scale,
+          watermark_opacity: mapping.branding?.watermark_opacity ?? DEFAULT_BRANDING_FORM.watermark_opacity,
+          watermark_margin: mapping.branding?.watermark_margin ?? DEFAULT_BRANDING_FORM.watermark_margin,
+        },
+        loudness_target_lufs:
+          mapping.loudness_target_lufs === null || mapping.loudness_target_lufs === undefined
+            ? 'off'
+            : String(mapping.loudness_target_lufs),
+        background_audio_mode: mapping.background_audio_mode || 'off',
+        background_audio_tag: mapping.background_audio_tag || '',
+        transcode_profile_id: mapping.transcode_profile_id || '',
+        thumbnail_mode: mapping.thumbnail_mode || 'off',
+        transforms: mapping.transforms || [],
+        subtitles: mapping.subtitles
+          ? { ...mapping.subtitles, languages: mapping.subtitles.languages.join(', ') }
+          : DEFAULT_SUBTITLE_FORM,
+        upload_metadata: { ...EMPTY_UPLOAD_METADATA, ...mapping.upload_metadata },
+      });
+    } else {
+      setEditingMapping(null);
+      setNewMapping(DEFAULT_MAPPING_FORM);
+    }
+
+    setShowMappingDialog(true);
+  };
+
+  const tabTitle = useMemo(() => {
+    const map: Record<string, string> = {
+      dashboard: 'Operations Dashboard',
+      sources: 'Source Channels',
+      destinations: 'Destination Channels',
+      mappings: 'Channel Mappings',
+      videos: 'Video Library',
+      triage: 'Failure Triage',
+      config: 'Configuration',
+      logs: 'Activity Timeline',
+    };
+    return map[activeTab] || 'Dashboard';
+  }, [activeTab]);
+
+  const normalizedSearch = useMemo(() => searchQuery.trim().toLowerCase(), [searchQuery]);
+
+  const filteredShorts = useMemo(() => {
+    return shorts.filter((short) => {
+      const matchesSearch =
+        short.title.toLowerCase().includes(normalizedSearch) || short.video_id.toLowerCase().includes(normalizedSearch);
+      const matchesStatus = statusFilter === 'all' || short.status === statusFilter;
+      return matchesSearch && matchesStatus;
+    });
+  }, [normalizedSearch, shorts, statusFilter]);
+
+  const statCards = useMemo(
+    () => [
+      {
+        label: 'Total Videos',
+        value: stats.total,
+        cls: 'stat-total',
+        icon: <BarChart3 className="h-4 w-4 text-cyan-300" />,
+      },
+      {
+        label: 'Pending',
+        value: stats.pending,
         cls: 'stat-pending',
         icon: <Clock className="h-4 w-4 text-amber-300" />,
       },
@@ -1520,39 +2616,19 @@ export default function GRAVIX() {
     const slots: UpcomingUploadSlot[] = [];
 
     for (const mapping of activeMappings) {
-      const morningSlot = normalizeTimeValue(mapping.upload_time_morning, fallbackMorning);
-      const eveningSlot = normalizeTimeValue(mapping.upload_time_evening, fallbackEvening);
       const queueTitles = mappingQueueTitlesById.get(mapping.id) || [];
-      const slotDefinitions = [
-        { label: 'Morning', time: morningSlot },
-        { label: 'Evening', time: eveningSlot },
-      ];
-      const dedupedTimes = new Set<string>();
-      const mappingSlots: Array<{ label: string; time: string; scheduledAt: number }> = [];
-
-      for (const slot of slotDefinitions) {
-        if (dedupedTimes.has(slot.time)) {
-          continue;
-        }
-        dedupedTimes.add(slot.time);
-
-        const nextOccurrence = getNextOccurrence(slot.time, schedulerTimezone, now);
-        if (!nextOccurrence) {
-          continue;
-        }
-
-        mappingSlots.push({
-          label: slot.label,
-          time: slot.time,
-          scheduledAt: nextOccurrence.getTime(),
-        });
-      }
+      const fallback = { morning: fallbackMorning, evening: fallbackEvening };
+      const mappingSlots = getUpcomingMappingSlots(
+        mapping,
+        mapping.timezone || schedulerTimezone,
+        now,
+        fallback,
+        resolveDailySlots(mapping, fallback).length
+      );
 
-      mappingSlots
-        .sort((first, second) => first.scheduledAt - second.scheduledAt)
-        .forEach((slot, index) => {
+      mappingSlots.forEach((slot, index) => {
         slots.push({
-          id: `${mapping.id}:${slot.label}:${slot.time}`,
+          id: `${mapping.id}:${slot.scheduledAt}`,
           kind: 'mapping',
           mappingId: mapping.id,
           mappingName: mapping.name,
@@ -1696,6 +2772,10 @@ export default function GRAVIX() {
         cls: 'bg-red-500/10 text-red-400 border-red-500/30',
         icon: <XCircle className="mr-1 h-3 w-3" />,
       },
+      Skipped: {
+        cls: 'bg-slate-500/10 text-slate-400 border-slate-500/30',
+        icon: <ArrowRight className="mr-1 h-3 w-3" />,
+      },
     };
 
     const value = map[status] || map.Pending;
@@ -1707,10 +2787,114 @@ export default function GRAVIX() {
     );
   }, []);
 
+  const formatProgressEta = useCallback((progress: LiveProgress) => {
+    const parts: string[] = [];
+    if (progress.eta_seconds !== null) {
+      const minutes = Math.floor(progress.eta_seconds / 60);
+      const seconds = progress.eta_seconds % 60;
+      parts.push(`ETA ${minutes > 0 ? `${minutes}m ` : ''}${seconds}s`);
+    }
+    if (progress.speed) {
+      parts.push(progress.speed);
+    }
+    return parts.join(' · ');
+  }, []);
+
   const fmtDate = useCallback((value: string | null) => {
     return value ? new Date(value).toLocaleString() : '—';
   }, []);
 
+  // Shared by the mapping dialog and the destination cards; an unset field shows inheritLabel
+  const renderUploadMetadataFields = useCallback(
+    (
+      value: UploadMetadataSettings,
+      onChange: (next: UploadMetadataSettings) => void,
+      inheritLabel: string
+    ) => (
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <Label className="text-xs">Category</Label>
+          <Select
+            value={value.category_id || INHERIT_OPTION}
+            onValueChange={(next) => onChange({ ...value, category_id: next === INHERIT_OPTION ? null : next })}
+          >
+            <SelectTrigger className="mt-1.5 h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT_OPTION}>{inheritLabel}</SelectItem>
+              {YOUTUBE_VIDEO_CATEGORIES.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">License</Label>
+          <Select
+            value={value.license || INHERIT_OPTION}
+            onValueChange={(next) =>
+              onChange({ ...value, license: next === INHERIT_OPTION ? null : (next as VideoLicense) })
+            }
+          >
+            <SelectTrigger className="mt-1.5 h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT_OPTION}>{inheritLabel}</SelectItem>
+              {LICENSE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Title/description language</Label>
+          <Input
+            placeholder="e.g. en"
+            value={value.default_language || ''}
+            onChange={(event) => onChange({ ...value, default_language: event.target.value.trim() || null })}
+            className="mt-1.5 h-9 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Audio language</Label>
+          <Input
+            placeholder="e.g. en-US"
+            value={value.default_audio_language || ''}
+            onChange={(event) => onChange({ ...value, default_audio_language: event.target.value.trim() || null })}
+            className="mt-1.5 h-9 text-xs"
+          />
+        </div>
+        {UPLOAD_FLAG_FIELDS.map((field) => (
+          <div key={field.key}>
+            <Label className="text-xs">{field.label}</Label>
+            <Select
+              value={value[field.key] === null ? INHERIT_OPTION : String(value[field.key])}
+              onValueChange={(next) =>
+                onChange({ ...value, [field.key]: next === INHERIT_OPTION ? null : next === 'true' })
+              }
+            >
+              <SelectTrigger className="mt-1.5 h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT_OPTION}>{inheritLabel}</SelectItem>
+                <SelectItem value="true">Yes</SelectItem>
+                <SelectItem value="false">No</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    ),
+    []
+  );
+
   const formatSchedulerDateTime = useCallback(
     (timestamp: number) => {
       return new Intl.DateTimeFormat('en-US', {
@@ -1951,23 +3135,182 @@ export default function GRAVIX() {
                         </div>
                       )}
                     </div>
-                  </CardContent>
-                </Card>
-              </div>
-
-              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 xl:grid-cols-6">
-                {statCards.map((card) => (
-                  <Card key={card.label} className={`stat-card glass-panel ${card.cls}`}>
-                    <CardContent className="p-4">
-                      <div className="mb-2 flex items-center justify-between">{card.icon}</div>
-                      <p className="font-heading text-2xl leading-none">{card.value}</p>
-                      <p className="mt-1 text-[11px] text-muted-foreground">{card.label}</p>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
 
-              <div className="grid gap-4 xl:grid-cols-[1.2fr_1fr]">
+                    <div className="space-y-2.5 border-t border-border/60 pt-3">
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground">YouTube quota</span>
+                        <span className="text-[10px] text-muted-foreground">
+                          Resets {fmtDate(quotaSummary?.reset_at ?? null)}
+                        </span>
+                      </div>
+                      {(quotaSummary?.credentials || []).length === 0 ? (
+                        <p className="text-[11px] text-muted-foreground">No API key or OAuth client configured.</p>
+                      ) : (
+                        (quotaSummary?.credentials || []).map((credential) => {
+                          const percent = Math.min(100, Math.round((credential.used / Math.max(1, credential.budget)) * 100));
+                          return (
+                            <div key={credential.credential_id}>
+                              <div className="mb-1.5 flex items-center justify-between text-xs">
+                                <span className="text-muted-foreground">
+                                  {credential.credential_type === 'oauth_client' ? 'OAuth client' : 'API key'}
+                                </span>
+                                <span className={percent >= 90 ? 'text-red-400' : 'text-foreground'}>
+                                  {credential.used.toLocaleString()} / {credential.budget.toLocaleString()}
+                                </span>
+                              </div>
+                              <div className="metric-bar">
+                                <span style={{ width: `${percent}%` }} />
+                              </div>
+                            </div>
+                          );
+                        })
+                      )}
+                    </div>
+
+                    {diskStatus && (
+                      <div className="space-y-2 border-t border-border/60 pt-3">
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="text-muted-foreground">Temp storage</span>
+                          <span
+                            className={
+                              diskStatus.temp_dir_bytes >= diskStatus.temp_dir_max_bytes * 0.9 ? 'text-red-400' : 'text-foreground'
+                            }
+                          >
+                            {formatBytes(diskStatus.temp_dir_bytes)} / {formatBytes(diskStatus.temp_dir_max_bytes)}
+                          </span>
+                        </div>
+                        <div className="metric-bar">
+                          <span
+                            style={{
+                              width: `${Math.min(100, Math.round((diskStatus.temp_dir_bytes / Math.max(1, diskStatus.temp_dir_max_bytes)) * 100))}%`,
+                            }}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between text-[11px]">
+                          <span className="text-muted-foreground">Free on disk</span>
+                          <span
+                            className={
+                              diskStatus.free_bytes !== null && diskStatus.free_bytes < diskStatus.min_free_bytes * 2
+                                ? 'text-red-400'
+                                : 'text-foreground'
+                            }
+                          >
+                            {formatBytes(diskStatus.free_bytes)}
+                          </span>
+                        </div>
+                        {diskStatus.shortage && (
+                          <div className="rounded-lg border border-red-500/40 bg-red-500/10 px-2.5 py-2 text-[11px] text-red-300">
+                            Jobs deferred since {fmtDate(diskStatus.shortage.at)}: {diskStatus.shortage.message}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card className="glass-panel">
+                <CardHeader className="pb-3">
+                  <CardTitle className="font-heading text-base">Scheduler Job Queue</CardTitle>
+                  <CardDescription className="text-xs">
+                    Queued {schedulerJobCounts.queued} · Running {schedulerJobCounts.running} · Failed{' '}
+                    {schedulerJobCounts.failed} · Done {schedulerJobCounts.succeeded}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {schedulerJobs.length === 0 ? (
+                    <div className="rounded-xl border border-dashed border-border/70 px-3 py-8 text-center text-muted-foreground">
+                      <Clock className="mx-auto mb-2 h-7 w-7 opacity-40" />
+                      <p className="text-sm">No scheduler jobs yet</p>
+                    </div>
+                  ) : (
+                    <ScrollArea className="h-56 pr-2">
+                      <div className="space-y-2">
+                        {schedulerJobs.map((job) => {
+                          const jobBusy = activeJobId === job.id && (actionLoad.retryJob || actionLoad.cancelJob);
+                          const outcome = formatSchedulerJobOutcome(job);
+
+                          return (
+                            <div
+                              key={job.id}
+                              className="flex items-center justify-between gap-3 rounded-lg border border-border/70 bg-muted/25 px-3 py-2"
+                            >
+                              <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                  <p className="truncate text-sm font-medium">{job.job_type}</p>
+                                  <Badge
+                                    variant={job.status === 'failed' ? 'destructive' : 'outline'}
+                                    className="text-[10px]"
+                                  >
+                                    {job.status}
+                                  </Badge>
+                                  <span className="text-[10px] text-muted-foreground">
+                                    {job.attempts}/{job.max_attempts}
+                                  </span>
+                                </div>
+                                <p className="truncate text-[11px] text-muted-foreground">
+                                  {formatSchedulerJobTarget(job)} · {fmtDate(job.finished_at || job.started_at || job.created_at)}
+                                </p>
+                                {outcome && (
+                                  <p
+                                    className={`truncate text-[10px] ${job.last_error ? 'text-red-400' : 'text-muted-foreground/90'}`}
+                                  >
+                                    {outcome}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="flex shrink-0 gap-1">
+                                {(job.status === 'failed' || job.status === 'cancelled') && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 w-7 p-0 text-primary"
+                                    title="Retry job"
+                                    onClick={() => {
+                                      void updateSchedulerJob(job.id, 'retry');
+                                    }}
+                                    disabled={jobBusy}
+                                  >
+                                    <RefreshCw className={`h-3.5 w-3.5 ${jobBusy && actionLoad.retryJob ? 'animate-spin' : ''}`} />
+                                  </Button>
+                                )}
+                                {(job.status === 'queued' || job.status === 'running') && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 w-7 p-0 text-red-400"
+                                    title="Cancel job"
+                                    onClick={() => {
+                                      void updateSchedulerJob(job.id, 'cancel');
+                                    }}
+                                    disabled={jobBusy}
+                                  >
+                                    <XCircle className="h-3.5 w-3.5" />
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </ScrollArea>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 xl:grid-cols-6">
+                {statCards.map((card) => (
+                  <Card key={card.label} className={`stat-card glass-panel ${card.cls}`}>
+                    <CardContent className="p-4">
+                      <div className="mb-2 flex items-center justify-between">{card.icon}</div>
+                      <p className="font-heading text-2xl leading-none">{card.value}</p>
+                      <p className="mt-1 text-[11px] text-muted-foreground">{card.label}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <div className="grid gap-4 xl:grid-cols-[1.2fr_1fr]">
                 <Card className="glass-panel">
                   <CardHeader className="pb-3">
                     <CardTitle className="font-heading text-base">Next Upload Timeline</CardTitle>
@@ -2445,6 +3788,23 @@ export default function GRAVIX() {
                               }
                             />
                           </div>
+                          <div className="space-y-2">
+                            <div>
+                              <Label className="text-xs">Upload Defaults</Label>
+                              <p className="text-[10px] text-muted-foreground">
+                                Used by this destination's mappings wherever they leave a field unset.
+                              </p>
+                            </div>
+                            {renderUploadMetadataFields(
+                              destinationDefaultsEdits[channel.channel_id] || EMPTY_UPLOAD_METADATA,
+                              (next) =>
+                                setDestinationDefaultsEdits((prev) => ({
+                                  ...prev,
+                                  [channel.channel_id]: next,
+                                })),
+                              'Built-in default'
+                            )}
+                          </div>
                           <div className="flex items-center justify-between text-xs text-muted-foreground">
                             <span>Mappings</span>
                             <span className="font-medium text-foreground">{mappingCount}</span>
@@ -2686,7 +4046,18 @@ export default function GRAVIX() {
                             {mapping.uploads_per_day}/day
                           </Badge>
                           <Badge variant="outline" className="text-[10px]">
-                            {mapping.upload_time_morning || '09:00'} / {mapping.upload_time_evening || '18:00'}
+                            {(mapping.daily_slots || resolveDailySlots(mapping)).map((slot) => slot.time).join(' / ')}
+                          </Badge>
+                          <Badge variant="outline" className="text-[10px]">
+                            TZ: {mapping.timezone || `Global (${schedulerTimezone})`}
+                          </Badge>
+                          {(mapping.blackout_rules || []).length > 0 && (
+                            <Badge variant="outline" className="text-[10px]">
+                              {(mapping.blackout_rules || []).length} blackout rule(s)
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className="text-[10px]">
+                            {formatCatchUpLabel(mapping)}
                           </Badge>
                           <Badge variant="outline" className="text-[10px]">
                             {mappingDelayLabel}
@@ -2737,6 +4108,7 @@ export default function GRAVIX() {
                         <SelectItem value="Uploading">Uploading</SelectItem>
                         <SelectItem value="Uploaded">Uploaded</SelectItem>
                         <SelectItem value="Failed">Failed</SelectItem>
+                        <SelectItem value="Skipped">Skipped</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -2832,7 +4204,24 @@ export default function GRAVIX() {
                               <TableCell>
                                 <p className="max-w-[220px] truncate text-xs font-medium">{formatLiveStage(short)}</p>
                                 <p className="max-w-[220px] truncate text-[10px] text-muted-foreground">{formatLiveMessage(short)}</p>
-                                <p className="text-[10px] text-muted-foreground">{fmtDate(short.live_at || short.updated_at)}</p>
+                                {short.live_progress ? (
+                                  <div className="mt-1 max-w-[220px] space-y-0.5">
+                                    <div className="metric-bar">
+                                      <span style={{ width: `${short.live_progress.percent ?? 0}%` }} />
+                                    </div>
+                                    <p className="text-[10px] text-muted-foreground">
+                                      {short.live_progress.stage === 'enhance'
+                                        ? 'Transcoding'
+                                        : short.live_progress.stage === 'upload'
+                                          ? 'Uploading'
+                                          : 'Downloading'}{' '}
+                                      {short.live_progress.percent !== null ? `${short.live_progress.percent.toFixed(0)}%` : '…'}
+                                      {formatProgressEta(short.live_progress) ? ` · ${formatProgressEta(short.live_progress)}` : ''}
+                                    </p>
+                                  </div>
+                                ) : (
+                                  <p className="text-[10px] text-muted-foreground">{fmtDate(short.live_at || short.updated_at)}</p>
+                                )}
                               </TableCell>
                               <TableCell className="text-right">
                                 <div className="flex justify-end gap-1">
@@ -2938,6 +4327,40 @@ export default function GRAVIX() {
                       />
                     </div>
 
+                    <div>
+                      <Label className="text-xs">Daily Quota Budget (units)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="10000"
+                        value={config.youtube_quota_daily_budget || ''}
+                        onChange={(event) => setConfig({ ...config, youtube_quota_daily_budget: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
+                      <p className="mt-1 text-[10px] text-muted-foreground">
+                        Per API key and OAuth client, per Pacific-time day. Uploads are deferred once it is reached.
+                      </p>
+                    </div>
+
+                    <div>
+                      <Label className="text-xs">Access Token Cache</Label>
+                      <Select
+                        value={config.oauth_token_cache || 'memory'}
+                        onValueChange={(value) => setConfig({ ...config, oauth_token_cache: value })}
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="memory">In memory (per process)</SelectItem>
+                          <SelectItem value="database">Database (shared by web app and scheduler)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="mt-1 text-[10px] text-muted-foreground">
+                        Access tokens are reused until shortly before they expire instead of being refreshed on every call.
+                      </p>
+                    </div>
+
                     <div>
                       <Label className="text-xs">OAuth Redirect URI</Label>
                       <Input
@@ -3002,7 +4425,7 @@ export default function GRAVIX() {
                       </div>
 
                       <div>
-                        <Label className="text-xs">Max Retries</Label>
+                        <Label className="text-xs">Max Attempts</Label>
                         <Select
                           value={config.max_retry_count || '3'}
                           onValueChange={(value) => setConfig({ ...config, max_retry_count: value })}
@@ -3019,6 +4442,88 @@ export default function GRAVIX() {
                           </SelectContent>
                         </Select>
                       </div>
+
+                      <div className="sm:col-span-2">
+                        <Label className="text-xs">Duplicate Content Check</Label>
+                        <Select
+                          value={config.duplicate_fingerprint_threshold || '0.15'}
+                          onValueChange={(value) => setConfig({ ...config, duplicate_fingerprint_threshold: value })}
+                        >
+                          <SelectTrigger className="mt-1 h-9 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DUPLICATE_THRESHOLD_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="mt-1 text-[10px] text-muted-foreground">
+                          Skips a download whose video fingerprint is this close to something already uploaded to the same destination.
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="rounded-lg border border-border/70 bg-muted/20 p-3">
+                      <p className="text-xs font-medium">Pipeline Concurrency</p>
+                      <p className="mb-2 text-[10px] text-muted-foreground">
+                        Workers run scheduled jobs side by side; each stage waits for a free slot under its own limit.
+                      </p>
+                      <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+                        {[
+                          { key: 'pipeline_workers', label: 'Parallel Workers', fallback: '3' },
+                          { key: 'concurrency_download', label: 'Downloads', fallback: '2' },
+                          { key: 'concurrency_enhance', label: 'FFmpeg Transcodes', fallback: '1' },
+                          { key: 'concurrency_upload', label: 'Uploads', fallback: '2' },
+                        ].map((field) => (
+                          <div key={field.key}>
+                            <Label className="text-xs">{field.label}</Label>
+                            <Select
+                              value={config[field.key] || field.fallback}
+                              onValueChange={(value) => setConfig({ ...config, [field.key]: value })}
+                            >
+                              <SelectTrigger className="mt-1 h-9 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {[1, 2, 3, 4, 6, 8].map((value) => (
+                                  <SelectItem key={value} value={value.toString()}>
+                                    {value}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="rounded-lg border border-border/70 bg-muted/20 p-3">
+                      <p className="text-xs font-medium">Disk Budget</p>
+                      <p className="mb-2 text-[10px] text-muted-foreground">
+                        Downloads and transcodes check free space first; unused cached downloads are evicted oldest-first,
+                        and jobs are deferred when room cannot be made.
+                      </p>
+                      <div className="grid grid-cols-2 gap-3">
+                        {[
+                          { key: 'temp_dir_max_gb', label: 'Temp Directory Max (GB)', placeholder: '20' },
+                          { key: 'disk_min_free_gb', label: 'Keep Free on Disk (GB)', placeholder: '2' },
+                        ].map((field) => (
+                          <div key={field.key}>
+                            <Label className="text-xs">{field.label}</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              placeholder={field.placeholder}
+                              value={config[field.key] || ''}
+                              onChange={(event) => setConfig({ ...config, [field.key]: event.target.value })}
+                              className="mt-1 h-9 text-xs"
+                            />
+                          </div>
+                        ))}
+                      </div>
                     </div>
 
                     <div className="rounded-lg border border-border/70 bg-muted/20 p-3">
@@ -3204,84 +4709,636 @@ export default function GRAVIX() {
                 )}
                 Save Configuration
               </Button>
-            </div>
-          )}
 
-          {activeTab === 'logs' && (
-            <Card className="glass-panel">
-              <CardHeader className="pb-3">
-                <CardTitle className="font-heading text-lg">Activity Timeline</CardTitle>
-                <CardDescription className="text-xs">Ordered events from fetch, upload, and scheduler operations.</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ScrollArea className="h-[500px] pr-2">
-                  {logs.length === 0 ? (
-                    <div className="py-14 text-center text-muted-foreground">
-                      <AlertCircle className="mx-auto mb-2 h-8 w-8 opacity-40" />
-                      <p className="text-sm">No logs available</p>
+              <Card className="glass-panel">
+                <CardHeader className="pb-3">
+                  <CardTitle className="font-heading text-base flex items-center gap-2">
+                    <Music className="h-4 w-4" />
+                    Audio Library
+                  </CardTitle>
+                  <CardDescription className="text-xs">
+                    Background tracks that mappings can mix under or swap in for the original audio, picked at random or by tag.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end">
+                    <div>
+                      <Label className="text-xs">File</Label>
+                      <Input
+                        type="file"
+                        accept=".mp3,.m4a,.aac,.wav,.ogg,.opus,.flac"
+                        onChange={(event) => setAudioUpload({ ...audioUpload, file: event.target.files?.[0] || null })}
+                        className="mt-1 h-9 text-xs"
+                      />
                     </div>
-                  ) : (
                     <div>
-                      {logs.map((log) => (
-                        <div key={log.id} className="timeline-item py-3">
-                          <div className={`timeline-dot ${log.status === 'success' ? 'success' : 'error'}`} />
-                          <div className="space-y-1">
-                            <div className="flex flex-wrap items-center gap-2">
-                              <span className="text-sm font-medium">{log.action}</span>
-                              <Badge
-                                variant={log.status === 'success' ? 'default' : 'destructive'}
-                                className="h-5 text-[10px]"
-                              >
-                                {log.status}
-                              </Badge>
-                            </div>
-                            {log.message && <p className="text-xs text-muted-foreground">{log.message}</p>}
-                            {buildLogContextRows(log).map((row, index) => (
-                              <p key={`${log.id}-timeline-context-${index}`} className="text-[10px] text-muted-foreground">
-                                {row}
-                              </p>
-                            ))}
-                            <p className="text-[10px] text-muted-foreground">{new Date(log.created_at).toLocaleString()}</p>
-                          </div>
-                        </div>
-                      ))}
+                      <Label className="text-xs">Name</Label>
+                      <Input
+                        placeholder="Defaults to file name"
+                        value={audioUpload.name}
+                        onChange={(event) => setAudioUpload({ ...audioUpload, name: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
                     </div>
-                  )}
-                </ScrollArea>
-              </CardContent>
-            </Card>
-          )}
-        </main>
-      </div>
+                    <div>
+                      <Label className="text-xs">Tags</Label>
+                      <Input
+                        placeholder="calm, upbeat"
+                        value={audioUpload.tags}
+                        onChange={(event) => setAudioUpload({ ...audioUpload, tags: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
+                    </div>
+                    <Button
+                      onClick={() => {
+                        void uploadAudioTrack();
+                      }}
+                      disabled={actionLoad.uploadAudioTrack || !audioUpload.file}
+                      className="h-9"
+                    >
+                      {actionLoad.uploadAudioTrack ? (
+                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Upload className="mr-2 h-4 w-4" />
+                      )}
+                      Upload
+                    </Button>
+                  </div>
 
-      <Dialog
-        open={showSourceDialog}
-        onOpenChange={(open) => {
-          setShowSourceDialog(open);
-          if (!open) {
-            setEditingSource(null);
-            setNewSource(DEFAULT_SOURCE_FORM);
-          }
-        }}
-      >
-        <DialogContent className="max-w-lg">
-          <DialogHeader>
-            <DialogTitle className="font-heading">{editingSource ? 'Edit Source Channel' : 'Add Source Channel'}</DialogTitle>
-            <DialogDescription>Store source channel separately, then map it in the mappings section.</DialogDescription>
-          </DialogHeader>
+                  {audioTracks.length === 0 ? (
+                    <p className="py-4 text-center text-xs text-muted-foreground">No tracks uploaded yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Tags</TableHead>
+                          <TableHead>Length</TableHead>
+                          <TableHead className="w-12" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {audioTracks.map((track) => (
+                          <TableRow key={track.id}>
+                            <TableCell className="text-xs font-medium">{track.name}</TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {(track.tags || []).map((tag) => (
+                                  <Badge key={tag} variant="outline" className="text-[10px]">
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {track.duration_seconds ? `${Math.round(track.duration_seconds)}s` : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                disabled={actionLoad.deleteAudioTrack}
+                                onClick={() => {
+                                  void deleteAudioTrack(track);
+                                }}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
 
-          <div className="space-y-4">
-            <div>
-              <Label className="text-xs">Source Channel Title</Label>
-              <Input
-                placeholder="My Source Channel"
-                value={newSource.channel_title}
-                onChange={(event) => setNewSource({ ...newSource, channel_title: event.target.value })}
-                className="mt-1.5"
-              />
-            </div>
-            <div>
-              <Label className="text-xs">Source Channel URL *</Label>
+              <Card className="glass-panel">
+                <CardHeader className="pb-3">
+                  <CardTitle className="font-heading text-base flex items-center gap-2">
+                    <Film className="h-4 w-4" />
+                    Transcode Profiles
+                  </CardTitle>
+                  <CardDescription className="text-xs">
+                    Output resolution, codec and audio settings that mappings can render with. Mappings without a profile
+                    use the server defaults.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                    <div className="col-span-2">
+                      <Label className="text-xs">Name</Label>
+                      <Input
+                        placeholder="e.g. Archive 4K"
+                        value={transcodeForm.name}
+                        onChange={(event) => setTranscodeForm({ ...transcodeForm, name: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Resolution</Label>
+                      <Select
+                        value={transcodeForm.resolution}
+                        onValueChange={(value) =>
+                          setTranscodeForm({ ...transcodeForm, resolution: value as TranscodeSettings['resolution'] })
+                        }
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRANSCODE_RESOLUTIONS.map((resolution) => (
+                            <SelectItem key={resolution} value={resolution}>
+                              {TRANSCODE_RESOLUTION_LABELS[resolution]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Video Codec</Label>
+                      <Select
+                        value={transcodeForm.video_codec}
+                        onValueChange={(value) =>
+                          setTranscodeForm({ ...transcodeForm, video_codec: value as TranscodeSettings['video_codec'] })
+                        }
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRANSCODE_VIDEO_CODECS.map((codec) => (
+                            <SelectItem key={codec} value={codec}>
+                              {TRANSCODE_CODEC_LABELS[codec]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Rate Control</Label>
+                      <Select
+                        value={transcodeForm.rate_mode}
+                        onValueChange={(value) =>
+                          setTranscodeForm({ ...transcodeForm, rate_mode: value as 'crf' | 'bitrate' })
+                        }
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="crf">Constant quality (CRF)</SelectItem>
+                          <SelectItem value="bitrate">Target bitrate</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">{transcodeForm.rate_mode === 'crf' ? 'CRF (0-51)' : 'Bitrate (kbps)'}</Label>
+                      <Input
+                        type="number"
+                        value={transcodeForm.rate_mode === 'crf' ? transcodeForm.crf : transcodeForm.video_bitrate_kbps}
+                        onChange={(event) =>
+                          setTranscodeForm(
+                            transcodeForm.rate_mode === 'crf'
+                              ? { ...transcodeForm, crf: event.target.value }
+                              : { ...transcodeForm, video_bitrate_kbps: event.target.value }
+                          )
+                        }
+                        className="mt-1 h-9 text-xs"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">FPS Cap</Label>
+                      <Input
+                        type="number"
+                        placeholder="Keep source"
+                        value={transcodeForm.fps_cap}
+                        onChange={(event) => setTranscodeForm({ ...transcodeForm, fps_cap: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Preset</Label>
+                      <Select
+                        value={transcodeForm.preset}
+                        onValueChange={(value) => setTranscodeForm({ ...transcodeForm, preset: value })}
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRANSCODE_PRESETS.map((preset) => (
+                            <SelectItem key={preset} value={preset}>
+                              {preset}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Threads</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={16}
+                        value={transcodeForm.threads}
+                        onChange={(event) => setTranscodeForm({ ...transcodeForm, threads: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Audio Codec</Label>
+                      <Select
+                        value={transcodeForm.audio_codec}
+                        onValueChange={(value) =>
+                          setTranscodeForm({ ...transcodeForm, audio_codec: value as TranscodeSettings['audio_codec'] })
+                        }
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="aac">AAC</SelectItem>
+                          <SelectItem value="copy">Copy source stream</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Audio Bitrate (kbps)</Label>
+                      <Input
+                        type="number"
+                        value={transcodeForm.audio_bitrate_kbps}
+                        onChange={(event) => setTranscodeForm({ ...transcodeForm, audio_bitrate_kbps: event.target.value })}
+                        className="mt-1 h-9 text-xs"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Sample Rate</Label>
+                      <Select
+                        value={transcodeForm.audio_sample_rate}
+                        onValueChange={(value) => setTranscodeForm({ ...transcodeForm, audio_sample_rate: value })}
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AUDIO_SAMPLE_RATES.map((rate) => (
+                            <SelectItem key={rate} value={String(rate)}>
+                              {rate} Hz
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Channels</Label>
+                      <Select
+                        value={transcodeForm.audio_channels}
+                        onValueChange={(value) => setTranscodeForm({ ...transcodeForm, audio_channels: value })}
+                      >
+                        <SelectTrigger className="mt-1 h-9 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="2">Stereo</SelectItem>
+                          <SelectItem value="1">Mono</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+                    {(
+                      [
+                        { key: 'sharpen', label: 'Sharpen', hint: 'Unsharp mask after scaling' },
+                        { key: 'color_boost', label: 'Color boost', hint: 'Slight contrast and saturation lift' },
+                        { key: 'strict', label: 'Strict output', hint: 'Fail when output misses the target' },
+                      ] as const
+                    ).map((toggle) => (
+                      <div
+                        key={toggle.key}
+                        className="flex items-center justify-between rounded-lg border border-border/70 bg-muted/25 px-3 py-2"
+                      >
+                        <div>
+                          <Label className="text-xs font-medium">{toggle.label}</Label>
+                          <p className="text-[10px] text-muted-foreground">{toggle.hint}</p>
+                        </div>
+                        <Switch
+                          checked={transcodeForm[toggle.key]}
+                          onCheckedChange={(checked) => setTranscodeForm({ ...transcodeForm, [toggle.key]: checked })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    {editingTranscodeProfile && (
+                      <Button variant="outline" className="h-9" onClick={() => editTranscodeProfile(null)}>
+                        Cancel
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => {
+                        void saveTranscodeProfile();
+                      }}
+                      disabled={actionLoad.saveTranscodeProfile}
+                      className="h-9"
+                    >
+                      {actionLoad.saveTranscodeProfile ? (
+                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      ) : editingTranscodeProfile ? (
+                        <Save className="mr-2 h-4 w-4" />
+                      ) : (
+                        <Plus className="mr-2 h-4 w-4" />
+                      )}
+                      {editingTranscodeProfile ? 'Update Profile' : 'Add Profile'}
+                    </Button>
+                  </div>
+
+                  {transcodeProfiles.length === 0 ? (
+                    <p className="py-4 text-center text-xs text-muted-foreground">No profiles yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Video</TableHead>
+                          <TableHead>Audio</TableHead>
+                          <TableHead>Mappings</TableHead>
+                          <TableHead className="w-20" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {transcodeProfiles.map((profile) => (
+                          <TableRow key={profile.id}>
+                            <TableCell className="text-xs font-medium">{profile.name}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{describeTranscodeProfile(profile)}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {profile.audio_codec === 'copy'
+                                ? 'Copy'
+                                : `AAC ${profile.audio_bitrate_kbps} kbps · ${profile.audio_sample_rate} Hz · ${
+                                    profile.audio_channels === 1 ? 'mono' : 'stereo'
+                                  }`}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {channelMappings.filter((mapping) => mapping.transcode_profile_id === profile.id).length}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => editTranscodeProfile(profile)}
+                                >
+                                  <Edit className="h-3.5 w-3.5" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={actionLoad.deleteTranscodeProfile}
+                                  onClick={() => {
+                                    void deleteTranscodeProfile(profile);
+                                  }}
+                                >
+                                  <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {activeTab === 'triage' && (
+            <div className="space-y-4">
+              <Card className="glass-panel">
+                <CardHeader className="pb-3">
+                  <CardTitle className="font-heading text-lg">Failure Triage</CardTitle>
+                  <CardDescription className="text-xs">
+                    {failuresTotal} failed short{failuresTotal === 1 ? '' : 's'} grouped by reason. Requeue, skip or move a
+                    whole group to another mapping.
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+
+              {failuresTotal === 0 ? (
+                <Card className="glass-panel">
+                  <CardContent className="py-14 text-center text-muted-foreground">
+                    <CheckCircle2 className="mx-auto mb-2 h-8 w-8 opacity-40" />
+                    <p className="text-sm">No failed shorts</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                failureGroups
+                  .filter((group) => group.count > 0)
+                  .map((group) => {
+                    const busy = actionLoad.triageAction && activeTriageGroup === group.id;
+                    return (
+                      <Card key={group.id} className="glass-panel">
+                        <CardHeader className="pb-3">
+                          <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+                            <div>
+                              <CardTitle className="flex items-center gap-2 font-heading text-base">
+                                <AlertTriangle className="h-4 w-4 text-rose-300" />
+                                {group.label}
+                                <Badge variant="outline" className="text-[10px]">
+                                  {group.count}
+                                </Badge>
+                              </CardTitle>
+                              <CardDescription className="text-xs">{group.hint}</CardDescription>
+                            </div>
+
+                            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={actionLoad.triageAction}
+                                onClick={() => {
+                                  void runTriageAction(group, 'requeue');
+                                }}
+                              >
+                                <RefreshCw className={`mr-1.5 h-3.5 w-3.5 ${busy ? 'animate-spin' : ''}`} />
+                                Requeue all
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={actionLoad.triageAction}
+                                onClick={() => {
+                                  void runTriageAction(group, 'skip');
+                                }}
+                              >
+                                <ArrowRight className="mr-1.5 h-3.5 w-3.5" />
+                                Skip all
+                              </Button>
+                              <Select
+                                value={reassignTargets[group.id] || ''}
+                                onValueChange={(value) => setReassignTargets({ ...reassignTargets, [group.id]: value })}
+                              >
+                                <SelectTrigger className="h-8 w-full text-xs sm:w-44">
+                                  <SelectValue placeholder="Reassign to..." />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {channelMappings.map((mapping) => (
+                                    <SelectItem key={mapping.id} value={mapping.id}>
+                                      {mapping.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={actionLoad.triageAction || !reassignTargets[group.id]}
+                                onClick={() => {
+                                  void runTriageAction(group, 'reassign');
+                                }}
+                              >
+                                <Link2 className="mr-1.5 h-3.5 w-3.5" />
+                                Reassign
+                              </Button>
+                            </div>
+                          </div>
+                        </CardHeader>
+
+                        <CardContent>
+                          <ScrollArea className="max-h-[320px] pr-2">
+                            <Table>
+                              <TableHeader>
+                                <TableRow className="hover:bg-transparent">
+                                  <TableHead className="text-[11px] uppercase tracking-[0.12em]">Title</TableHead>
+                                  <TableHead className="w-36 text-[11px] uppercase tracking-[0.12em]">Reason</TableHead>
+                                  <TableHead className="text-[11px] uppercase tracking-[0.12em]">Error</TableHead>
+                                  <TableHead className="w-20 text-[11px] uppercase tracking-[0.12em]">Attempts</TableHead>
+                                  <TableHead className="w-20 text-right text-[11px] uppercase tracking-[0.12em]">Logs</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {group.shorts.map((short) => (
+                                  <TableRow key={short.id}>
+                                    <TableCell>
+                                      <p className="max-w-[260px] truncate text-xs font-medium">{short.title}</p>
+                                      <p className="text-[10px] font-mono text-muted-foreground">{short.video_id}</p>
+                                    </TableCell>
+                                    <TableCell>
+                                      <Badge variant="outline" className="font-mono text-[10px]">
+                                        {short.failure_reason}
+                                      </Badge>
+                                    </TableCell>
+                                    <TableCell>
+                                      <p className="line-clamp-2 max-w-[360px] text-[11px] text-muted-foreground">
+                                        {short.error_log || '—'}
+                                      </p>
+                                    </TableCell>
+                                    <TableCell className="text-xs">{short.retry_count}</TableCell>
+                                    <TableCell className="text-right">
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-7 px-2"
+                                        onClick={() => {
+                                          void openShortLogs(short);
+                                        }}
+                                      >
+                                        <Eye className="h-3.5 w-3.5" />
+                                      </Button>
+                                    </TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </ScrollArea>
+                        </CardContent>
+                      </Card>
+                    );
+                  })
+              )}
+            </div>
+          )}
+
+          {activeTab === 'logs' && (
+            <Card className="glass-panel">
+              <CardHeader className="pb-3">
+                <CardTitle className="font-heading text-lg">Activity Timeline</CardTitle>
+                <CardDescription className="text-xs">Ordered events from fetch, upload, and scheduler operations.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[500px] pr-2">
+                  {logs.length === 0 ? (
+                    <div className="py-14 text-center text-muted-foreground">
+                      <AlertCircle className="mx-auto mb-2 h-8 w-8 opacity-40" />
+                      <p className="text-sm">No logs available</p>
+                    </div>
+                  ) : (
+                    <div>
+                      {logs.map((log) => (
+                        <div key={log.id} className="timeline-item py-3">
+                          <div className={`timeline-dot ${log.status === 'success' ? 'success' : 'error'}`} />
+                          <div className="space-y-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-sm font-medium">{log.action}</span>
+                              <Badge
+                                variant={log.status === 'success' ? 'default' : 'destructive'}
+                                className="h-5 text-[10px]"
+                              >
+                                {log.status}
+                              </Badge>
+                            </div>
+                            {log.message && <p className="text-xs text-muted-foreground">{log.message}</p>}
+                            {buildLogContextRows(log).map((row, index) => (
+                              <p key={`${log.id}-timeline-context-${index}`} className="text-[10px] text-muted-foreground">
+                                {row}
+                              </p>
+                            ))}
+                            <p className="text-[10px] text-muted-foreground">{new Date(log.created_at).toLocaleString()}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+
+      <Dialog
+        open={showSourceDialog}
+        onOpenChange={(open) => {
+          setShowSourceDialog(open);
+          if (!open) {
+            setEditingSource(null);
+            setNewSource(DEFAULT_SOURCE_FORM);
+          }
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-heading">{editingSource ? 'Edit Source Channel' : 'Add Source Channel'}</DialogTitle>
+            <DialogDescription>Store source channel separately, then map it in the mappings section.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs">Source Channel Title</Label>
+              <Input
+                placeholder="My Source Channel"
+                value={newSource.channel_title}
+                onChange={(event) => setNewSource({ ...newSource, channel_title: event.target.value })}
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Source Channel URL *</Label>
               <Input
                 placeholder="https://youtube.com/@channelname"
                 value={newSource.channel_url}
@@ -3334,7 +5391,7 @@ export default function GRAVIX() {
       </Dialog>
 
       <Dialog open={showMappingDialog} onOpenChange={setShowMappingDialog}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="font-heading">{editingMapping ? 'Edit Mapping' : 'New Channel Mapping'}</DialogTitle>
             <DialogDescription>Link a source channel to a destination channel.</DialogDescription>
@@ -3454,12 +5511,20 @@ export default function GRAVIX() {
                 <Label className="text-xs">Uploads/Day</Label>
                 <Select
                   value={newMapping.uploads_per_day.toString()}
-                  onValueChange={(value) =>
+                  onValueChange={(value) => {
+                    const uploadsPerDay = parseInt(value, 10);
                     setNewMapping({
                       ...newMapping,
-                      uploads_per_day: parseInt(value, 10),
-                    })
-                  }
+                      uploads_per_day: uploadsPerDay,
+                      slot_times: resolveDailySlots({
+                        uploads_per_day: uploadsPerDay,
+                        slot_mode: 'fixed',
+                        slot_times: newMapping.slot_times.slice(0, uploadsPerDay),
+                        upload_time_morning: newMapping.slot_window_start,
+                        upload_time_evening: newMapping.slot_window_end,
+                      }).map((slot) => slot.time),
+                    });
+                  }}
                 >
                   <SelectTrigger className="mt-1.5">
                     <SelectValue />
@@ -3475,55 +5540,96 @@ export default function GRAVIX() {
               </div>
 
               <div>
-                <Label className="text-xs">Morning Slot</Label>
-                <Input
-                  type="time"
-                  value={newMapping.upload_time_morning}
-                  onChange={(event) =>
-                    setNewMapping({
-                      ...newMapping,
-                      upload_time_morning: event.target.value,
-                    })
-                  }
-                  className="mt-1.5"
-                />
-              </div>
-
-              <div>
-                <Label className="text-xs">Evening Slot</Label>
-                <Input
-                  type="time"
-                  value={newMapping.upload_time_evening}
-                  onChange={(event) =>
-                    setNewMapping({
-                      ...newMapping,
-                      upload_time_evening: event.target.value,
-                    })
-                  }
-                  className="mt-1.5"
-                />
-              </div>
-
-              <div>
-                <Label className="text-xs">Auto Publish Delay</Label>
+                <Label className="text-xs">Slot Mode</Label>
                 <Select
-                  value={newMapping.publish_delay_hours}
-                  onValueChange={(value) =>
-                    setNewMapping({
-                      ...newMapping,
-                      publish_delay_hours: value,
-                    })
-                  }
+                  value={newMapping.slot_mode}
+                  onValueChange={(value) => setNewMapping({ ...newMapping, slot_mode: value as SlotMode })}
                 >
                   <SelectTrigger className="mt-1.5">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="__global__">Use Global ({globalPublishDelayHours}h)</SelectItem>
-                    <SelectItem value="0">No Delay (0h)</SelectItem>
-                    {[1, 2, 3, 4, 6, 8, 12, 24, 48, 72].map((value) => (
-                      <SelectItem key={value} value={value.toString()}>
-                        {value}h
+                    <SelectItem value="fixed">Fixed Times</SelectItem>
+                    <SelectItem value="spread">Evenly Spread</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {newMapping.slot_mode === 'fixed' ? (
+                <div className="sm:col-span-2">
+                  <Label className="text-xs">Slot Times</Label>
+                  <div className="mt-1.5 grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    {newMapping.slot_times.map((time, index) => (
+                      <Input
+                        key={index}
+                        type="time"
+                        value={time}
+                        aria-label={`Slot ${index + 1}`}
+                        onChange={(event) => {
+                          const slotTimes = [...newMapping.slot_times];
+                          slotTimes[index] = event.target.value;
+                          setNewMapping({ ...newMapping, slot_times: slotTimes });
+                        }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <Label className="text-xs">Window Start</Label>
+                    <Input
+                      type="time"
+                      value={newMapping.slot_window_start}
+                      onChange={(event) => setNewMapping({ ...newMapping, slot_window_start: event.target.value })}
+                      className="mt-1.5"
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="text-xs">Window End</Label>
+                    <Input
+                      type="time"
+                      value={newMapping.slot_window_end}
+                      onChange={(event) => setNewMapping({ ...newMapping, slot_window_end: event.target.value })}
+                      className="mt-1.5"
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap gap-1 sm:col-span-2">
+                    {spreadSlotTimes(
+                      newMapping.uploads_per_day,
+                      normalizeTimeValue(newMapping.slot_window_start, '09:00'),
+                      normalizeTimeValue(newMapping.slot_window_end, '21:00')
+                    ).map((time) => (
+                      <Badge key={time} variant="outline" className="text-[10px]">
+                        {time}
+                      </Badge>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <div>
+                <Label className="text-xs">Auto Publish Delay</Label>
+                <Select
+                  value={newMapping.publish_delay_hours}
+                  onValueChange={(value) =>
+                    setNewMapping({
+                      ...newMapping,
+                      publish_delay_hours: value,
+                    })
+                  }
+                >
+                  <SelectTrigger className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__global__">Use Global ({globalPublishDelayHours}h)</SelectItem>
+                    <SelectItem value="0">No Delay (0h)</SelectItem>
+                    {[1, 2, 3, 4, 6, 8, 12, 24, 48, 72].map((value) => (
+                      <SelectItem key={value} value={value.toString()}>
+                        {value}h
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -3551,10 +5657,715 @@ export default function GRAVIX() {
               </div>
             </div>
             <p className="text-[10px] text-muted-foreground">
-              These mapping slots run in the Scheduler Timezone set under Configuration. Auto publish delay applies to
-              unlisted/private uploads only.
+              Slots run in the mapping timezone below, or the Scheduler Timezone under Configuration when left blank.
+              Auto publish delay applies to unlisted/private uploads only.
             </p>
 
+            <div>
+              <Label className="text-xs">Timezone</Label>
+              <Input
+                placeholder={`Global (${schedulerTimezone})`}
+                value={newMapping.timezone}
+                onChange={(event) => setNewMapping({ ...newMapping, timezone: event.target.value })}
+                className="mt-1.5"
+              />
+              <p className="mt-1 text-[10px] text-muted-foreground">IANA name, e.g. America/New_York or Asia/Kolkata.</p>
+            </div>
+
+            <div>
+              <Label className="text-xs">Weekday Slots</Label>
+              <div className="mt-1.5 grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {WEEKDAYS.map((weekday) => (
+                  <div key={weekday} className="flex items-center gap-2">
+                    <span className="w-9 text-[10px] uppercase text-muted-foreground">{weekday}</span>
+                    <Input
+                      placeholder="Daily slots"
+                      value={newMapping.weekday_slots_text[weekday]}
+                      onChange={(event) =>
+                        setNewMapping({
+                          ...newMapping,
+                          weekday_slots_text: { ...newMapping.weekday_slots_text, [weekday]: event.target.value },
+                        })
+                      }
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                Comma-separated times override that day. Type &quot;off&quot; to skip the day entirely.
+              </p>
+            </div>
+
+            <div>
+              <Label className="text-xs">Blackout Dates</Label>
+              <Textarea
+                placeholder={'2026-12-24..2026-12-26\nyearly 01-01\nweekly sun'}
+                value={newMapping.blackout_text}
+                onChange={(event) => setNewMapping({ ...newMapping, blackout_text: event.target.value })}
+                className="mt-1.5 min-h-[72px] text-xs"
+              />
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                One rule per line: a date, a date range, &quot;weekly sat,sun&quot; or &quot;yearly MM-DD&quot;.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <div>
+                <Label className="text-xs">Missed Slots</Label>
+                <Select
+                  value={newMapping.catch_up_policy}
+                  onValueChange={(value) => setNewMapping({ ...newMapping, catch_up_policy: value as CatchUpPolicy })}
+                >
+                  <SelectTrigger className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip</SelectItem>
+                    <SelectItem value="run_once">Run latest missed once</SelectItem>
+                    <SelectItem value="within_window">Catch up within window</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">Catch-up Window (minutes)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={newMapping.catch_up_window_minutes}
+                  disabled={newMapping.catch_up_policy !== 'within_window'}
+                  onChange={(event) => setNewMapping({ ...newMapping, catch_up_window_minutes: event.target.value })}
+                  className="mt-1.5"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Applies to slots that passed while the scheduler was offline. Missed slots are always logged.
+            </p>
+
+            <div>
+              <Label className="text-xs">Max Attempts</Label>
+              <Select
+                value={newMapping.max_attempts}
+                onValueChange={(value) => setNewMapping({ ...newMapping, max_attempts: value })}
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__global__">Use Global ({config.max_retry_count || '3'})</SelectItem>
+                  {[1, 2, 3, 5, 8, 10].map((value) => (
+                    <SelectItem key={value} value={value.toString()}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                Network, server and quota errors retry with backoff up to this many attempts. Permanent errors fail at once.
+              </p>
+            </div>
+
+            <div>
+              <Label className="text-xs">Reframe Non-Vertical Sources</Label>
+              <Select
+                value={newMapping.reframe_mode}
+                onValueChange={(value) => setNewMapping({ ...newMapping, reframe_mode: value as ReframeMode })}
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFRAME_MODE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                Square and landscape clips are converted to 9:16 before upload. Off rejects them as before.
+              </p>
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border/70 bg-muted/25 px-3 py-3">
+              <div>
+                <Label className="text-xs font-medium">Branding</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Watermark overlay plus optional intro and outro clips, applied during enhancement.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Watermark Position</Label>
+                  <Select
+                    value={newMapping.branding.watermark_position}
+                    onValueChange={(value) =>
+                      setNewMapping({
+                        ...newMapping,
+                        branding: { ...newMapping.branding, watermark_position: value as WatermarkPosition },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WATERMARK_POSITION_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Watermark Width</Label>
+                  <Select
+                    value={String(newMapping.branding.watermark_scale)}
+                    onValueChange={(value) =>
+                      setNewMapping({
+                        ...newMapping,
+                        branding: { ...newMapping.branding, watermark_scale: Number(value) },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([0.1, 0.15, 0.18, 0.25, 0.33, newMapping.branding.watermark_scale])).map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                          {Math.round(value * 100)}% of frame
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Opacity</Label>
+                  <Select
+                    value={String(newMapping.branding.watermark_opacity)}
+                    onValueChange={(value) =>
+                      setNewMapping({
+                        ...newMapping,
+                        branding: { ...newMapping.branding, watermark_opacity: Number(value) },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([0.5, 0.7, 0.85, 1, newMapping.branding.watermark_opacity])).map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                          {Math.round(value * 100)}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Margin (px)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={200}
+                    value={newMapping.branding.watermark_margin}
+                    onChange={(event) =>
+                      setNewMapping({
+                        ...newMapping,
+                        branding: { ...newMapping.branding, watermark_margin: Number(event.target.value) || 0 },
+                      })
+                    }
+                    className="mt-1.5"
+                  />
+                </div>
+              </div>
+
+              {editingMapping ? (
+                <div className="space-y-2">
+                  {BRANDING_ASSET_OPTIONS.map((asset) => {
+                    const current = editingMapping.branding?.[`${asset.kind}_path`] || null;
+                    return (
+                      <div key={asset.kind} className="flex items-center gap-2">
+                        <div className="min-w-0 flex-1">
+                          <p className="text-xs">{asset.label}</p>
+                          <p className="truncate text-[10px] text-muted-foreground">
+                            {current ? current.split('/').pop() : 'None'}
+                          </p>
+                        </div>
+                        <Input
+                          type="file"
+                          accept={asset.accept}
+                          disabled={actionLoad.uploadBranding}
+                          onChange={(event) => {
+                            void uploadBrandingAsset(asset.kind, event.target.files?.[0] || null);
+                            event.target.value = '';
+                          }}
+                          className="h-8 w-44 text-[10px]"
+                        />
+                        {current && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={actionLoad.uploadBranding}
+                            onClick={() => {
+                              void removeBrandingAsset(asset.kind);
+                            }}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-[10px] text-muted-foreground">
+                  Save the mapping first, then edit it to upload a watermark, intro or outro.
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">Loudness Target</Label>
+                <Select
+                  value={newMapping.loudness_target_lufs}
+                  onValueChange={(value) => setNewMapping({ ...newMapping, loudness_target_lufs: value })}
+                >
+                  <SelectTrigger className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off (keep levels)</SelectItem>
+                    {Array.from(new Set([...LOUDNESS_TARGET_OPTIONS, newMapping.loudness_target_lufs]))
+                      .filter((value) => value !== 'off')
+                      .map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value} LUFS
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">Background Audio</Label>
+                <Select
+                  value={newMapping.background_audio_mode}
+                  onValueChange={(value) =>
+                    setNewMapping({ ...newMapping, background_audio_mode: value as BackgroundAudioMode })
+                  }
+                >
+                  <SelectTrigger className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BACKGROUND_AUDIO_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {newMapping.background_audio_mode !== 'off' && (
+              <div>
+                <Label className="text-xs">Background Track</Label>
+                <Select
+                  value={newMapping.background_audio_tag || '__any__'}
+                  onValueChange={(value) =>
+                    setNewMapping({ ...newMapping, background_audio_tag: value === '__any__' ? '' : value })
+                  }
+                >
+                  <SelectTrigger className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__any__">Random from whole library</SelectItem>
+                    {Array.from(new Set([...audioTags, newMapping.background_audio_tag].filter(Boolean))).map((tag) => (
+                      <SelectItem key={tag} value={tag}>
+                        Random tagged &quot;{tag}&quot;
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-[10px] text-muted-foreground">
+                  Tracks are managed under Settings → Audio Library.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label className="text-xs">Transcode Profile</Label>
+              <Select
+                value={newMapping.transcode_profile_id || '__default__'}
+                onValueChange={(value) =>
+                  setNewMapping({ ...newMapping, transcode_profile_id: value === '__default__' ? '' : value })
+                }
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__default__">Default (server settings)</SelectItem>
+                  {transcodeProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name} · {describeTranscodeProfile(profile)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                Profiles are managed under Settings → Transcode Profiles.
+              </p>
+            </div>
+
+            <div>
+              <Label className="text-xs">Custom Thumbnail</Label>
+              <Select
+                value={newMapping.thumbnail_mode}
+                onValueChange={(value) => setNewMapping({ ...newMapping, thumbnail_mode: value as ThumbnailMode })}
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THUMBNAIL_MODE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                Scores scene changes for sharpness and brightness. The logo is the branding watermark. Needs a
+                destination verified for custom thumbnails; costs 50 quota units per upload.
+              </p>
+            </div>
+
+            <div className="space-y-2 rounded-lg border border-border/70 bg-muted/25 px-3 py-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <Label className="text-xs font-medium">Transforms</Label>
+                  <p className="text-[10px] text-muted-foreground">
+                    Applied in order to the source, before reframing, branding and audio processing.
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={previewTransforms}
+                  disabled={actionLoad.previewTransforms || newMapping.transforms.length === 0}
+                >
+                  <Eye className="mr-1.5 h-3.5 w-3.5" />
+                  {actionLoad.previewTransforms ? 'Rendering...' : 'Preview'}
+                </Button>
+              </div>
+
+              {newMapping.transforms.map((operation, index) => (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-end gap-2 rounded-md border border-border/60 bg-background/60 px-2 py-2"
+                >
+                  <div className="min-w-[90px]">
+                    <p className="text-[10px] text-muted-foreground">Step {index + 1}</p>
+                    <p className="text-xs font-medium">{TRANSFORM_TYPE_LABELS[operation.type]}</p>
+                  </div>
+                  {(operation.type === 'trim_start' || operation.type === 'trim_end' || operation.type === 'max_duration') && (
+                    <div className="w-24">
+                      <Label className="text-[10px]">Seconds</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        className="mt-1 h-8"
+                        value={operation.seconds}
+                        onChange={(event) =>
+                          replaceMappingTransform(index, { ...operation, seconds: Number(event.target.value) })
+                        }
+                      />
+                    </div>
+                  )}
+                  {operation.type === 'speed' && (
+                    <div className="w-24">
+                      <Label className="text-[10px]">Factor (0.5-2)</Label>
+                      <Input
+                        type="number"
+                        min={0.5}
+                        max={2}
+                        step={0.05}
+                        className="mt-1 h-8"
+                        value={operation.factor}
+                        onChange={(event) =>
+                          replaceMappingTransform(index, { ...operation, factor: Number(event.target.value) })
+                        }
+                      />
+                    </div>
+                  )}
+                  {operation.type === 'mirror' && (
+                    <p className="pb-2 text-[10px] text-muted-foreground">Flips the video horizontally.</p>
+                  )}
+                  {operation.type === 'crop' &&
+                    (['x', 'y', 'width', 'height'] as const).map((field) => (
+                      <div key={field} className="w-20">
+                        <Label className="text-[10px] capitalize">{field} %</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={1}
+                          className="mt-1 h-8"
+                          value={Math.round(operation[field] * 1000) / 10}
+                          onChange={(event) =>
+                            replaceMappingTransform(index, { ...operation, [field]: Number(event.target.value) / 100 })
+                          }
+                        />
+                      </div>
+                    ))}
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      disabled={index === 0}
+                      onClick={() => moveMappingTransform(index, -1)}
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      disabled={index === newMapping.transforms.length - 1}
+                      onClick={() => moveMappingTransform(index, 1)}
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() =>
+                        setMappingTransforms(newMapping.transforms.filter((_, itemIndex) => itemIndex !== index))
+                      }
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <Select
+                value=""
+                disabled={newMapping.transforms.length >= MAX_TRANSFORM_CHAIN_LENGTH}
+                onValueChange={(value) =>
+                  setMappingTransforms([...newMapping.transforms, DEFAULT_TRANSFORM_OPERATIONS[value as TransformType]])
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Add step..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSFORM_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TRANSFORM_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {transformPreview && (
+                <div className="space-y-2 rounded-md border border-border/60 bg-background/60 p-2 text-[11px]">
+                  <p className="font-medium">{transformPreview.summary}</p>
+                  <p className="text-muted-foreground">
+                    {transformPreview.source.title ? `"${transformPreview.source.title}"` : 'Sample source'}:{' '}
+                    {transformPreview.source.duration.toFixed(1)}s at {transformPreview.source.width}x
+                    {transformPreview.source.height} → output{' '}
+                    {transformPreview.output.duration !== null
+                      ? `${transformPreview.output.duration.toFixed(1)}s`
+                      : 'length unknown'}
+                    {transformPreview.output.width && transformPreview.output.height
+                      ? ` at ${transformPreview.output.width}x${transformPreview.output.height}`
+                      : ''}
+                  </p>
+                  <pre className="whitespace-pre-wrap break-all rounded bg-muted/40 p-2 font-mono text-[10px]">
+                    {transformPreview.filtergraph}
+                  </pre>
+                  {transformPreview.frame ? (
+                    <img
+                      src={transformPreview.frame}
+                      alt="Transformed frame"
+                      className="max-h-64 rounded border border-border/60"
+                    />
+                  ) : (
+                    <p className="text-[10px] text-muted-foreground">
+                      {transformPreview.frame_error
+                        ? `No frame: ${transformPreview.frame_error}`
+                        : 'Edit a mapping with downloaded shorts to see a rendered frame.'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border/70 bg-muted/25 px-3 py-3">
+              <div>
+                <Label className="text-xs font-medium">Subtitles</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Fetched from the source video. A caption track costs 400 quota units per upload.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Mode</Label>
+                  <Select
+                    value={newMapping.subtitles.mode}
+                    onValueChange={(value) =>
+                      setNewMapping({
+                        ...newMapping,
+                        subtitles: { ...newMapping.subtitles, mode: value as SubtitleMode },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUBTITLE_MODE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Languages</Label>
+                  <Input
+                    value={newMapping.subtitles.languages}
+                    onChange={(event) =>
+                      setNewMapping({
+                        ...newMapping,
+                        subtitles: { ...newMapping.subtitles, languages: event.target.value },
+                      })
+                    }
+                    placeholder="en, de"
+                    className="mt-1.5"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-xs">Automatic subtitles</Label>
+                  <p className="text-[10px] text-muted-foreground">Used when the source has no manual ones.</p>
+                </div>
+                <Switch
+                  checked={newMapping.subtitles.include_auto}
+                  onCheckedChange={(checked) =>
+                    setNewMapping({
+                      ...newMapping,
+                      subtitles: { ...newMapping.subtitles, include_auto: checked },
+                    })
+                  }
+                />
+              </div>
+
+              {newMapping.subtitles.mode === 'burn_in' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label className="text-xs">Font</Label>
+                    <Input
+                      value={newMapping.subtitles.font}
+                      onChange={(event) =>
+                        setNewMapping({
+                          ...newMapping,
+                          subtitles: { ...newMapping.subtitles, font: event.target.value },
+                        })
+                      }
+                      className="mt-1.5"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Position</Label>
+                    <Select
+                      value={newMapping.subtitles.position}
+                      onValueChange={(value) =>
+                        setNewMapping({
+                          ...newMapping,
+                          subtitles: { ...newMapping.subtitles, position: value as SubtitlePosition },
+                        })
+                      }
+                    >
+                      <SelectTrigger className="mt-1.5">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SUBTITLE_POSITION_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs">Size (px at 1080x1920)</Label>
+                    <Input
+                      type="number"
+                      min={24}
+                      max={160}
+                      value={newMapping.subtitles.font_size}
+                      onChange={(event) =>
+                        setNewMapping({
+                          ...newMapping,
+                          subtitles: { ...newMapping.subtitles, font_size: Number(event.target.value) || 0 },
+                        })
+                      }
+                      className="mt-1.5"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Outline (px)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={12}
+                      value={newMapping.subtitles.outline}
+                      onChange={(event) =>
+                        setNewMapping({
+                          ...newMapping,
+                          subtitles: { ...newMapping.subtitles, outline: Number(event.target.value) || 0 },
+                        })
+                      }
+                      className="mt-1.5"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border/70 bg-muted/25 px-3 py-3">
+              <div>
+                <Label className="text-xs font-medium">Upload Metadata</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Sent with every upload. Fields left on the destination default use the destination channel settings.
+                </p>
+              </div>
+              {renderUploadMetadataFields(
+                newMapping.upload_metadata,
+                (next) => setNewMapping({ ...newMapping, upload_metadata: next }),
+                'Destination default'
+              )}
+            </div>
+
             <div className="flex items-center justify-between rounded-lg border border-border/70 bg-muted/25 px-3 py-3">
               <div>
                 <Label className="text-xs font-medium">AI Enhancement</Label>
@@ -3590,6 +6401,56 @@ export default function GRAVIX() {
         </DialogContent>
       </Dialog>
 
+      <Dialog
+        open={Boolean(logsShort)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setLogsShort(null);
+            setShortLogs([]);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-heading">Short Logs</DialogTitle>
+            <DialogDescription className="truncate">
+              {logsShort ? `${logsShort.title} · ${logsShort.video_id}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="h-[420px] pr-2">
+            {actionLoad.loadShortLogs ? (
+              <div className="py-14 text-center text-muted-foreground">
+                <RefreshCw className="mx-auto mb-2 h-6 w-6 animate-spin opacity-60" />
+              </div>
+            ) : shortLogs.length === 0 ? (
+              <div className="py-14 text-center text-muted-foreground">
+                <AlertCircle className="mx-auto mb-2 h-8 w-8 opacity-40" />
+                <p className="text-sm">No logs recorded for this short</p>
+              </div>
+            ) : (
+              <div>
+                {shortLogs.map((log) => (
+                  <div key={log.id} className="timeline-item py-3">
+                    <div className={`timeline-dot ${log.status === 'success' ? 'success' : 'error'}`} />
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">{log.action}</span>
+                        <Badge variant={log.status === 'success' ? 'default' : 'destructive'} className="h-5 text-[10px]">
+                          {log.status}
+                        </Badge>
+                      </div>
+                      {log.message && <p className="text-xs text-muted-foreground">{log.message}</p>}
+                      <p className="text-[10px] text-muted-foreground">{new Date(log.created_at).toLocaleString()}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showDetails} onOpenChange={setShowDetails}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
@@ -3619,7 +6480,7 @@ export default function GRAVIX() {
                   <p className="text-xs font-medium">{selectedShort.duration}s</p>
                 </div>
                 <div className="rounded-md border border-border/70 bg-muted/25 p-2.5">
-                  <p className="text-[10px] text-muted-foreground">Retries</p>
+                  <p className="text-[10px] text-muted-foreground">Attempts</p>
                   <p className="text-xs font-medium">{selectedShort.retry_count}</p>
                 </div>
                 <div className="rounded-md border border-border/70 bg-muted/25 p-2.5">
@@ -3632,11 +6493,135 @@ export default function GRAVIX() {
                 </div>
               </div>
 
+              {selectedShort.media_probe && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <Label className="text-xs">Source Media</Label>
+                    <div className="grid grid-cols-1 gap-1.5 sm:grid-cols-2">
+                      {describeMediaProbeRows(selectedShort.media_probe).map((row) => (
+                        <div key={row.label} className="rounded-md border border-border/70 bg-muted/25 p-2">
+                          <p className="text-[10px] text-muted-foreground">{row.label}</p>
+                          <p className="text-[11px] font-medium">{row.value}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {selectedShort.thumbnail && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label className="text-xs">Custom Thumbnail</Label>
+                      <div className="flex items-center gap-1.5">
+                        {selectedShort.thumbnail.manual && (
+                          <Badge variant="outline" className="text-[10px]">
+                            Manual pick
+                          </Badge>
+                        )}
+                        <Badge
+                          variant="outline"
+                          className={`text-[10px] ${
+                            selectedShort.thumbnail.uploaded_at
+                              ? 'text-emerald-400'
+                              : selectedShort.thumbnail.upload_error
+                                ? 'text-red-400'
+                                : 'text-muted-foreground'
+                          }`}
+                        >
+                          {selectedShort.thumbnail.uploaded_at
+                            ? `Set ${fmtDate(selectedShort.thumbnail.uploaded_at)}`
+                            : selectedShort.thumbnail.upload_error
+                              ? 'Not set'
+                              : 'Not sent yet'}
+                        </Badge>
+                      </div>
+                    </div>
+                    <div className="flex gap-3">
+                      <img
+                        src={`/api/videos/thumbnail?shortId=${encodeURIComponent(selectedShort.id)}&file=${encodeURIComponent(
+                          selectedShort.thumbnail.file
+                        )}&v=${encodeURIComponent(`${selectedShort.thumbnail.generated_at}-${selectedShort.thumbnail.selected}`)}`}
+                        alt="Selected thumbnail"
+                        className="h-40 w-[90px] shrink-0 rounded-md border border-border/70 object-cover"
+                      />
+                      <div className="grid flex-1 grid-cols-3 gap-2 sm:grid-cols-6">
+                        {selectedShort.thumbnail.candidates.map((candidate) => {
+                          const active = candidate.file === selectedShort.thumbnail?.selected;
+                          return (
+                            <button
+                              key={candidate.file}
+                              type="button"
+                              disabled={actionLoad.selectThumbnail || active}
+                              onClick={() => {
+                                void selectThumbnail(selectedShort, candidate.file);
+                              }}
+                              className={`overflow-hidden rounded-md border text-left transition ${
+                                active ? 'border-primary ring-1 ring-primary' : 'border-border/70 hover:border-primary/60'
+                              }`}
+                              title={`Sharpness ${candidate.sharpness}, brightness ${candidate.brightness}`}
+                            >
+                              <img
+                                src={`/api/videos/thumbnail?shortId=${encodeURIComponent(selectedShort.id)}&file=${encodeURIComponent(
+                                  candidate.file
+                                )}&v=${encodeURIComponent(selectedShort.thumbnail?.generated_at || '')}`}
+                                alt={`Frame at ${candidate.time}s`}
+                                className="aspect-[9/16] w-full object-cover"
+                              />
+                              <p className="px-1 py-0.5 text-[9px] text-muted-foreground">
+                                {candidate.time}s · {candidate.score}
+                              </p>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    {selectedShort.thumbnail.upload_error && (
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-[10px] text-red-300">{selectedShort.thumbnail.upload_error}</p>
+                        {selectedShort.target_video_id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 shrink-0 text-xs"
+                            disabled={actionLoad.selectThumbnail}
+                            onClick={() => {
+                              void selectThumbnail(selectedShort);
+                            }}
+                          >
+                            <RefreshCw className="mr-1.5 h-3 w-3" />
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    <p className="text-[10px] text-muted-foreground">
+                      Candidates are ranked by sharpness and brightness. Pick another frame to override.
+                    </p>
+                  </div>
+                </>
+              )}
+
               {selectedShort.error_log && (
                 <>
                   <Separator />
                   <div>
-                    <Label className="text-xs text-red-400">Error</Label>
+                    <div className="flex items-center justify-between gap-2">
+                      <Label className="text-xs text-red-400">Error</Label>
+                      {selectedShort.failure_reason && (
+                        <Badge variant="outline" className="font-mono text-[10px]">
+                          {selectedShort.failure_reason}
+                        </Badge>
+                      )}
+                    </div>
+                    {selectedShort.status === 'Pending' && selectedShort.next_attempt_at && (
+                      <p className="mt-1 text-[10px] text-muted-foreground">
+                        Next attempt {fmtDate(selectedShort.next_attempt_at)}
+                      </p>
+                    )}
                     <p className="mt-1 rounded-md border border-red-400/25 bg-red-500/10 p-2 text-xs text-red-300">
                       {selectedShort.error_log}
                     </p>
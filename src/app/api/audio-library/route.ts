@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAudioTrack, deleteAudioTrack, getAudioTrackById, getAudioTracks } from '@/lib/supabase/database';
+import { deleteAudioLibraryFile, normalizeAudioTags, saveAudioLibraryFile } from '@/lib/youtube/audio';
+
+// GET - List background audio tracks
+export async function GET() {
+  try {
+    const tracks = await getAudioTracks();
+    return NextResponse.json({ success: true, tracks });
+  } catch (error) {
+    console.error('Audio library GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load audio library' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Upload a track (multipart: file, name?, tags? as comma-separated text)
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'Audio file is required' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveAudioLibraryFile(file.name, new Uint8Array(await file.arrayBuffer()));
+    if (!saved.success || !saved.path) {
+      return NextResponse.json(
+        { success: false, error: saved.error || 'Failed to save audio track' },
+        { status: 400 }
+      );
+    }
+
+    const name = String(form.get('name') || '').trim() || file.name.replace(/\.[^.]+$/, '');
+    const track = await createAudioTrack({
+      name,
+      file_path: saved.path,
+      tags: normalizeAudioTags(String(form.get('tags') || '')),
+      duration_seconds: saved.duration ?? null,
+    });
+
+    if (!track) {
+      await deleteAudioLibraryFile(saved.path);
+      return NextResponse.json(
+        { success: false, error: 'Failed to save audio track' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, track });
+  } catch (error) {
+    console.error('Audio library POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload audio track' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a track and its file
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const track = await getAudioTrackById(id);
+    if (!track) {
+      return NextResponse.json(
+        { success: false, error: 'Track not found' },
+        { status: 404 }
+      );
+    }
+
+    const success = await deleteAudioTrack(track.id);
+    if (success) {
+      await deleteAudioLibraryFile(track.file_path);
+    }
+    return NextResponse.json({ success });
+  } catch (error) {
+    console.error('Audio library DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete audio track' },
+      { status: 500 }
+    );
+  }
+}
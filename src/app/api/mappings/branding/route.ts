@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChannelMappingById, updateChannelMapping } from '@/lib/supabase/database';
+import {
+  brandingPathField,
+  deleteBrandingAsset,
+  isBrandingAssetKind,
+  normalizeBranding,
+  saveBrandingAsset,
+} from '@/lib/youtube/branding';
+
+// POST - Upload a watermark, intro or outro asset for a mapping (multipart: mappingId, kind, file)
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const mappingId = String(form.get('mappingId') || '').trim();
+    const kind = form.get('kind');
+    const file = form.get('file');
+
+    if (!mappingId || !isBrandingAssetKind(kind) || !(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'mappingId, kind (watermark, intro or outro) and file are required' },
+        { status: 400 }
+      );
+    }
+
+    const mapping = await getChannelMappingById(mappingId);
+    if (!mapping) {
+      return NextResponse.json(
+        { success: false, error: 'Mapping not found' },
+        { status: 404 }
+      );
+    }
+
+    const saved = await saveBrandingAsset(mapping.id, kind, file.name, new Uint8Array(await file.arrayBuffer()));
+    if (!saved.success || !saved.path) {
+      return NextResponse.json(
+        { success: false, error: saved.error || 'Failed to save asset' },
+        { status: 400 }
+      );
+    }
+
+    const branding = { ...normalizeBranding(mapping.branding), [brandingPathField(kind)]: saved.path };
+    const success = await updateChannelMapping(mapping.id, { branding });
+    return NextResponse.json({ success, branding });
+  } catch (error) {
+    console.error('Branding POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload branding asset' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove one branding asset from a mapping
+export async function DELETE(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const mappingId = searchParams.get('mappingId');
+    const kind = searchParams.get('kind');
+
+    if (!mappingId || !isBrandingAssetKind(kind)) {
+      return NextResponse.json(
+        { success: false, error: 'mappingId and kind are required' },
+        { status: 400 }
+      );
+    }
+
+    const mapping = await getChannelMappingById(mappingId);
+    if (!mapping) {
+      return NextResponse.json(
+        { success: false, error: 'Mapping not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = normalizeBranding(mapping.branding);
+    const field = brandingPathField(kind);
+    await deleteBrandingAsset(current[field]);
+
+    const branding = { ...current, [field]: null };
+    const success = await updateChannelMapping(mapping.id, { branding });
+    return NextResponse.json({ success, branding });
+  } catch (error) {
+    console.error('Branding DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove branding asset' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,14 +2,40 @@ import { NextRequest, NextResponse } from 'next/server';
 import { 
   getChannelMappings, 
   getActiveChannelMappings,
+  getChannelMappingById,
   type ChannelMapping,
   createChannelMapping, 
   updateChannelMapping, 
   deleteChannelMapping,
   linkUnmappedSourceShortsToMapping,
   getMappingPublishDelayHoursMap,
-  setMappingPublishDelayHours
+  setMappingPublishDelayHours,
+  getConfig
 } from '@/lib/supabase/database';
+import {
+  normalizeCatchUpPolicy,
+  normalizeCatchUpWindowMinutes,
+  normalizeSlotMode,
+  normalizeSlotTime,
+  normalizeSlotTimes,
+  normalizeWeekdaySlots,
+  resolveDailySlots,
+  resolveSlotsForWeekday,
+} from '@/lib/scheduling/slots';
+import { WEEKDAYS, normalizeBlackoutRules, normalizeTimeZone } from '@/lib/scheduling/calendar';
+import { normalizeMaxAttempts } from '@/lib/pipeline/failures';
+import { normalizeReframeMode } from '@/lib/youtube/reframe';
+import { deleteMappingBrandingAssets, mergeBrandingSettings } from '@/lib/youtube/branding';
+import {
+  DEFAULT_LOUDNESS_TARGET_LUFS,
+  normalizeAudioTags,
+  normalizeBackgroundAudioMode,
+  normalizeLoudnessTarget,
+} from '@/lib/youtube/audio';
+import { normalizeThumbnailMode } from '@/lib/youtube/thumbnails';
+import { parseTransformChain } from '@/lib/youtube/transforms';
+import { normalizeSubtitleSettings } from '@/lib/youtube/subtitles';
+import { normalizeUploadMetadataSettings } from '@/lib/youtube/upload-metadata';
 
 function normalizeTime(value: unknown, fallback: string): string {
   if (typeof value !== 'string') {
@@ -32,6 +58,32 @@ function normalizeUploadsPerDay(value: unknown, fallback: number): number {
   return Math.min(24, Math.max(1, Math.floor(numeric)));
 }
 
+// Null means "render with the server defaults".
+function normalizeTranscodeProfileId(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed && trimmed !== 'default' ? trimmed : null;
+}
+
+// Null means "use the global max_retry_count".
+function normalizeMappingMaxAttempts(value: unknown): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim().toLowerCase();
+    if (!trimmed || trimmed === 'global' || trimmed === '__global__') {
+      return null;
+    }
+  }
+
+  const normalized = normalizeMaxAttempts(value, 0);
+  return normalized > 0 ? normalized : null;
+}
+
 function normalizePublishDelayHours(value: unknown): number | null {
   if (value === null || value === undefined) {
     return null;
@@ -76,6 +128,38 @@ function normalizeMappingVisibility(
   return fallback;
 }
 
+function validateSlotSettings(
+  slotMode: 'fixed' | 'spread',
+  slotTimes: string[] | undefined,
+  uploadsPerDay: number | undefined
+): string | null {
+  if (slotMode !== 'fixed' || !slotTimes || slotTimes.length === 0 || uploadsPerDay === undefined) {
+    return null;
+  }
+
+  if (slotTimes.length !== uploadsPerDay) {
+    return `Provide exactly ${uploadsPerDay} distinct slot time(s) for ${uploadsPerDay} uploads per day`;
+  }
+
+  return null;
+}
+
+function invalidTimeZoneError(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim() || normalizeTimeZone(value)) {
+    return null;
+  }
+  return `Unknown timezone "${value.trim()}". Use an IANA name such as Europe/Berlin.`;
+}
+
+function hydrateMappingSchedule(mapping: ChannelMapping, fallback: { morning: string; evening: string }) {
+  return {
+    daily_slots: resolveDailySlots(mapping, fallback),
+    weekday_daily_slots: Object.fromEntries(
+      WEEKDAYS.map((weekday) => [weekday, resolveSlotsForWeekday(mapping, weekday, fallback)])
+    ),
+  };
+}
+
 // GET - Fetch all channel mappings
 export async function GET(request: NextRequest) {
   try {
@@ -86,10 +170,19 @@ export async function GET(request: NextRequest) {
       ? await getActiveChannelMappings() 
       : await getChannelMappings();
 
-    const delayByMappingId = await getMappingPublishDelayHoursMap((mappings || []).map((mapping) => mapping.id));
+    const [delayByMappingId, globalMorningRaw, globalEveningRaw] = await Promise.all([
+      getMappingPublishDelayHoursMap((mappings || []).map((mapping) => mapping.id)),
+      getConfig('upload_time_morning'),
+      getConfig('upload_time_evening'),
+    ]);
+    const slotFallback = {
+      morning: normalizeTime(globalMorningRaw, '09:00'),
+      evening: normalizeTime(globalEveningRaw, '18:00'),
+    };
     const hydratedMappings = (mappings || []).map((mapping) => ({
       ...mapping,
       publish_delay_hours: delayByMappingId.get(mapping.id) ?? null,
+      ...hydrateMappingSchedule(mapping, slotFallback),
     }));
 
     return NextResponse.json({ success: true, mappings: hydratedMappings });
@@ -116,8 +209,28 @@ export async function POST(request: NextRequest) {
       uploads_per_day,
       upload_time_morning,
       upload_time_evening,
+      slot_mode,
+      slot_times,
+      slot_window_start,
+      slot_window_end,
+      timezone,
+      weekday_slots,
+      blackout_rules,
+      catch_up_policy,
+      catch_up_window_minutes,
+      max_attempts,
       default_visibility,
       ai_enhancement_enabled,
+      reframe_mode,
+      branding,
+      loudness_target_lufs,
+      background_audio_mode,
+      background_audio_tag,
+      transcode_profile_id,
+      thumbnail_mode,
+      transforms,
+      subtitles,
+      upload_metadata,
       publish_delay_hours,
     } = body;
     
@@ -127,6 +240,24 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+
+    const uploadsPerDay = normalizeUploadsPerDay(uploads_per_day, 2);
+    const slotMode = normalizeSlotMode(slot_mode);
+    const slotTimes = normalizeSlotTimes(slot_times);
+    const slotError = validateSlotSettings(slotMode, slotTimes, uploadsPerDay);
+    if (slotError) {
+      return NextResponse.json({ success: false, error: slotError }, { status: 400 });
+    }
+
+    const timeZoneError = invalidTimeZoneError(timezone);
+    if (timeZoneError) {
+      return NextResponse.json({ success: false, error: timeZoneError }, { status: 400 });
+    }
+
+    const transformChain = parseTransformChain(transforms);
+    if (!transformChain.chain) {
+      return NextResponse.json({ success: false, error: transformChain.error }, { status: 400 });
+    }
     
     const mapping = await createChannelMapping({
       name,
@@ -135,11 +266,33 @@ export async function POST(request: NextRequest) {
       source_channel_name,
       target_channel_id,
       target_channel_name,
-      uploads_per_day: normalizeUploadsPerDay(uploads_per_day, 2),
+      uploads_per_day: uploadsPerDay,
       upload_time_morning: normalizeTime(upload_time_morning, '09:00'),
       upload_time_evening: normalizeTime(upload_time_evening, '18:00'),
+      slot_mode: slotMode,
+      slot_times: slotTimes,
+      slot_window_start: normalizeSlotTime(slot_window_start, '09:00'),
+      slot_window_end: normalizeSlotTime(slot_window_end, '21:00'),
+      timezone: normalizeTimeZone(timezone),
+      weekday_slots: normalizeWeekdaySlots(weekday_slots),
+      blackout_rules: normalizeBlackoutRules(blackout_rules),
+      catch_up_policy: normalizeCatchUpPolicy(catch_up_policy),
+      catch_up_window_minutes: normalizeCatchUpWindowMinutes(catch_up_window_minutes),
+      max_attempts: normalizeMappingMaxAttempts(max_attempts),
       default_visibility: normalizeMappingVisibility(default_visibility, null),
       ai_enhancement_enabled: ai_enhancement_enabled || false,
+      reframe_mode: normalizeReframeMode(reframe_mode),
+      // Assets are uploaded once the mapping exists
+      branding: mergeBrandingSettings(null, branding),
+      loudness_target_lufs:
+        loudness_target_lufs === undefined ? DEFAULT_LOUDNESS_TARGET_LUFS : normalizeLoudnessTarget(loudness_target_lufs),
+      background_audio_mode: normalizeBackgroundAudioMode(background_audio_mode),
+      background_audio_tag: normalizeAudioTags(background_audio_tag)[0] || null,
+      transcode_profile_id: normalizeTranscodeProfileId(transcode_profile_id),
+      thumbnail_mode: normalizeThumbnailMode(thumbnail_mode),
+      transforms: transformChain.chain,
+      subtitles: normalizeSubtitleSettings(subtitles),
+      upload_metadata: normalizeUploadMetadataSettings(upload_metadata),
       is_active: true
     });
     
@@ -164,6 +317,7 @@ export async function POST(request: NextRequest) {
         mapping: {
           ...mapping,
           publish_delay_hours: normalizePublishDelayHours(publish_delay_hours),
+          ...hydrateMappingSchedule(mapping, { morning: '09:00', evening: '18:00' }),
         },
         linked_shorts: linkedShorts,
       });
@@ -213,6 +367,104 @@ export async function PUT(request: NextRequest) {
       normalizedData.default_visibility = normalizeMappingVisibility(normalizedData.default_visibility, null);
     }
 
+    if ('slot_mode' in normalizedData) {
+      normalizedData.slot_mode = normalizeSlotMode(normalizedData.slot_mode);
+    }
+
+    if ('slot_times' in normalizedData) {
+      normalizedData.slot_times = normalizeSlotTimes(normalizedData.slot_times);
+    }
+
+    if ('slot_window_start' in normalizedData) {
+      normalizedData.slot_window_start = normalizeSlotTime(normalizedData.slot_window_start, '09:00');
+    }
+
+    if ('slot_window_end' in normalizedData) {
+      normalizedData.slot_window_end = normalizeSlotTime(normalizedData.slot_window_end, '21:00');
+    }
+
+    if ('timezone' in normalizedData) {
+      const timeZoneError = invalidTimeZoneError(normalizedData.timezone);
+      if (timeZoneError) {
+        return NextResponse.json({ success: false, error: timeZoneError }, { status: 400 });
+      }
+      normalizedData.timezone = normalizeTimeZone(normalizedData.timezone);
+    }
+
+    if ('weekday_slots' in normalizedData) {
+      normalizedData.weekday_slots = normalizeWeekdaySlots(normalizedData.weekday_slots);
+    }
+
+    if ('blackout_rules' in normalizedData) {
+      normalizedData.blackout_rules = normalizeBlackoutRules(normalizedData.blackout_rules);
+    }
+
+    if ('catch_up_policy' in normalizedData) {
+      normalizedData.catch_up_policy = normalizeCatchUpPolicy(normalizedData.catch_up_policy);
+    }
+
+    if ('catch_up_window_minutes' in normalizedData) {
+      normalizedData.catch_up_window_minutes = normalizeCatchUpWindowMinutes(normalizedData.catch_up_window_minutes);
+    }
+
+    if ('max_attempts' in normalizedData) {
+      normalizedData.max_attempts = normalizeMappingMaxAttempts(normalizedData.max_attempts);
+    }
+
+    if ('reframe_mode' in normalizedData) {
+      normalizedData.reframe_mode = normalizeReframeMode(normalizedData.reframe_mode);
+    }
+
+    if ('loudness_target_lufs' in normalizedData) {
+      normalizedData.loudness_target_lufs = normalizeLoudnessTarget(normalizedData.loudness_target_lufs);
+    }
+
+    if ('background_audio_mode' in normalizedData) {
+      normalizedData.background_audio_mode = normalizeBackgroundAudioMode(normalizedData.background_audio_mode);
+    }
+
+    if ('background_audio_tag' in normalizedData) {
+      normalizedData.background_audio_tag = normalizeAudioTags(normalizedData.background_audio_tag)[0] || null;
+    }
+
+    if ('transcode_profile_id' in normalizedData) {
+      normalizedData.transcode_profile_id = normalizeTranscodeProfileId(normalizedData.transcode_profile_id);
+    }
+
+    if ('thumbnail_mode' in normalizedData) {
+      normalizedData.thumbnail_mode = normalizeThumbnailMode(normalizedData.thumbnail_mode);
+    }
+
+    if ('transforms' in normalizedData) {
+      const transformChain = parseTransformChain(normalizedData.transforms);
+      if (!transformChain.chain) {
+        return NextResponse.json({ success: false, error: transformChain.error }, { status: 400 });
+      }
+      normalizedData.transforms = transformChain.chain;
+    }
+
+    if ('subtitles' in normalizedData) {
+      normalizedData.subtitles = normalizeSubtitleSettings(normalizedData.subtitles);
+    }
+
+    if ('upload_metadata' in normalizedData) {
+      normalizedData.upload_metadata = normalizeUploadMetadataSettings(normalizedData.upload_metadata);
+    }
+
+    if ('branding' in normalizedData) {
+      const existing = await getChannelMappingById(id);
+      normalizedData.branding = mergeBrandingSettings(existing?.branding, normalizedData.branding);
+    }
+
+    const slotError = validateSlotSettings(
+      normalizedData.slot_mode || 'fixed',
+      normalizedData.slot_times || undefined,
+      normalizedData.uploads_per_day
+    );
+    if (slotError) {
+      return NextResponse.json({ success: false, error: slotError }, { status: 400 });
+    }
+
     const hasDelayOverride = Object.prototype.hasOwnProperty.call(body, 'publish_delay_hours');
     const [success, delaySaved] = await Promise.all([
       updateChannelMapping(id, normalizedData),
@@ -244,6 +496,9 @@ export async function DELETE(request: NextRequest) {
     }
     
     const success = await deleteChannelMapping(id, { removeMappedShorts: cleanupMappedShorts });
+    if (success) {
+      await deleteMappingBrandingAssets(id);
+    }
     return NextResponse.json({ success, cleanupMappedShorts });
   } catch (error) {
     console.error('Mappings DELETE error:', error);
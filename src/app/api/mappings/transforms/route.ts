@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShortById } from '@/lib/supabase/database';
+import { compileTransformChain, formatTransformGraph, parseTransformChain } from '@/lib/youtube/transforms';
+import { renderTransformPreview } from '@/lib/youtube/video-handler';
+
+// Stand-in source when no short is given: a one-minute 16:9 Full HD video
+const SAMPLE_SOURCE = { duration: 60, width: 1920, height: 1080 };
+
+function readPositive(value: unknown, fallback: number): number {
+  const numeric = typeof value === 'number' ? value : Number.parseFloat(String(value ?? ''));
+  return Number.isFinite(numeric) && numeric > 0 ? numeric : fallback;
+}
+
+// POST - Validate and compile an unsaved transform chain ({ transforms, shortId? | duration?, width?, height? }).
+// With a short whose source is still in the download cache, a frame of the result is rendered too.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { chain, error } = parseTransformChain(body?.transforms);
+    if (!chain) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    const shortId = typeof body?.shortId === 'string' ? body.shortId.trim() : '';
+    const short = shortId ? await getShortById(shortId) : null;
+    if (shortId && !short) {
+      return NextResponse.json(
+        { success: false, error: 'Short not found' },
+        { status: 404 }
+      );
+    }
+
+    const source = {
+      duration: readPositive(short?.duration ?? body?.duration, SAMPLE_SOURCE.duration),
+      width: readPositive(body?.width, SAMPLE_SOURCE.width),
+      height: readPositive(body?.height, SAMPLE_SOURCE.height),
+    };
+    const { compiled, error: compileError } = compileTransformChain(chain, {
+      duration: source.duration,
+      frame: { width: source.width, height: source.height },
+    });
+    if (!compiled) {
+      return NextResponse.json({ success: false, error: compileError }, { status: 400 });
+    }
+
+    let frame: string | null = null;
+    let frameError: string | undefined;
+    if (short) {
+      const preview = await renderTransformPreview(short.video_id, chain);
+      if (preview.image) {
+        frame = `data:image/jpeg;base64,${preview.image.toString('base64')}`;
+      } else {
+        frameError = preview.error;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      preview: {
+        summary: compiled.summary,
+        filtergraph: formatTransformGraph(compiled),
+        source: { ...source, short_id: short?.id ?? null, title: short?.title ?? null },
+        output: { duration: compiled.duration, width: compiled.frame?.width ?? null, height: compiled.frame?.height ?? null },
+        frame,
+        frame_error: frameError,
+      },
+    });
+  } catch (error) {
+    console.error('Transform preview POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview transforms' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getDiskStatus } from '@/lib/youtube/disk-space';
+
+// GET - Free disk space, temp directory usage against its budget, and the last space shortage
+export async function GET() {
+  try {
+    const disk = await getDiskStatus();
+    return NextResponse.json({ success: true, disk });
+  } catch (error) {
+    console.error('Disk status GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load disk status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cancelSchedulerJob,
+  enqueueSchedulerJob,
+  getSchedulerJobById,
+  getSchedulerJobCounts,
+  getSchedulerJobs,
+  retrySchedulerJob,
+} from '@/lib/supabase/database';
+import type { SchedulerJobStatus, SchedulerJobType } from '@/lib/supabase/client';
+
+const JOB_TYPES: SchedulerJobType[] = ['process_next', 'publish_due', 'cleanup_uploaded', 'reap_leases'];
+const JOB_STATUSES: SchedulerJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+function parseJobType(raw: unknown): SchedulerJobType | null {
+  return typeof raw === 'string' && JOB_TYPES.includes(raw as SchedulerJobType) ? (raw as SchedulerJobType) : null;
+}
+
+function parseJobStatus(raw: string | null): SchedulerJobStatus | undefined {
+  return raw && JOB_STATUSES.includes(raw as SchedulerJobStatus) ? (raw as SchedulerJobStatus) : undefined;
+}
+
+function parseJobPayload(jobType: SchedulerJobType, body: Record<string, unknown>): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+
+  if (jobType === 'process_next') {
+    if (typeof body.mappingId === 'string' && body.mappingId.trim()) {
+      payload.mappingId = body.mappingId.trim();
+    }
+    for (const key of ['mappingName', 'slotLabel', 'slotTime'] as const) {
+      if (typeof body[key] === 'string' && (body[key] as string).trim()) {
+        payload[key] = (body[key] as string).trim();
+      }
+    }
+  }
+
+  if (jobType === 'publish_due' && typeof body.limit === 'number' && Number.isFinite(body.limit)) {
+    payload.limit = Math.min(100, Math.max(1, Math.floor(body.limit)));
+  }
+
+  return payload;
+}
+
+// GET - List recent scheduler jobs with per-status counts
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+
+    if (id) {
+      const job = await getSchedulerJobById(id);
+      if (!job) {
+        return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, job });
+    }
+
+    const limitRaw = parseInt(searchParams.get('limit') || '30', 10);
+    const limit = Number.isNaN(limitRaw) ? 30 : Math.min(200, Math.max(1, limitRaw));
+    const status = parseJobStatus(searchParams.get('status'));
+
+    const [jobs, counts] = await Promise.all([getSchedulerJobs(limit, status), getSchedulerJobCounts()]);
+
+    return NextResponse.json({ success: true, jobs, counts });
+  } catch (error) {
+    console.error('Scheduler jobs GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load scheduler jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Enqueue, retry or cancel scheduler jobs
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === 'enqueue') {
+      const jobType = parseJobType(body.jobType);
+      if (!jobType) {
+        return NextResponse.json(
+          { success: false, error: `jobType must be one of: ${JOB_TYPES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const dedupeKey = typeof body.dedupeKey === 'string' && body.dedupeKey.trim() ? body.dedupeKey.trim() : null;
+      const result = await enqueueSchedulerJob(jobType, {
+        payload: parseJobPayload(jobType, body),
+        dedupeKey,
+        runAfter: typeof body.runAfter === 'string' && body.runAfter.trim() ? body.runAfter.trim() : null,
+      });
+
+      if ('error' in result) {
+        return NextResponse.json(
+          { success: false, error: `Failed to enqueue job: ${result.error}` },
+          { status: 500 }
+        );
+      }
+
+      if ('duplicate' in result) {
+        return NextResponse.json({ success: true, duplicate: true, job: null });
+      }
+
+      return NextResponse.json({ success: true, duplicate: false, job: result.job });
+    }
+
+    if (action === 'retry' || action === 'cancel') {
+      const id = typeof body.id === 'string' ? body.id.trim() : '';
+      if (!id) {
+        return NextResponse.json({ success: false, error: 'Job id is required' }, { status: 400 });
+      }
+
+      const updated = action === 'retry' ? await retrySchedulerJob(id) : await cancelSchedulerJob(id);
+      if (!updated) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              action === 'retry'
+                ? 'Only failed or cancelled jobs can be retried'
+                : 'Only queued or running jobs can be cancelled',
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({ success: true, job: await getSchedulerJobById(id) });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Invalid action' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Scheduler jobs POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,44 +2,61 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   getSchedulerState,
   updateSchedulerState,
-  getPendingShorts,
+  reserveDailyUpload,
+  releaseDailyUpload,
   getActiveChannelMappings,
+  claimNextPendingShortForMapping,
   claimOldestUnmappedPendingShortForMapping,
-  getNextGlobalPendingShort,
+  claimNextGlobalPendingShort,
+  releaseShortClaim,
+  withShortLease,
+  reapExpiredShortLeases,
   updateShort,
   createLog,
   getConfig,
   getChannelMappingById,
   cleanupUploadedShortsForSingleDestination,
   getDueScheduledPublishShorts,
-  type ChannelMapping,
+  enqueueSchedulerJob,
+  claimNextSchedulerJob,
+  completeSchedulerJob,
+  failSchedulerJob,
+  pruneFinishedSchedulerJobs,
+  pruneSchedulerSlotRuns,
+  pruneYoutubeQuotaUsage,
 } from '@/lib/supabase/database';
-import type { ShortsData } from '@/lib/supabase/client';
-import { cleanupTempFiles, deleteVideo, downloadVideo, prepareVideoForUpload, validateVideo } from '@/lib/youtube/video-handler';
-import { uploadVideo, updateVideoVisibility } from '@/lib/youtube/uploader';
-import { enhanceContent } from '@/lib/ai-enhancement';
-import { getRefreshTokenForDestinationChannel } from '@/lib/youtube/destination-channels';
+import type { SchedulerJob, ShortsData } from '@/lib/supabase/client';
+import { cleanupTempFiles } from '@/lib/youtube/video-handler';
+import { ensureDiskSpace } from '@/lib/youtube/disk-space';
+import { updateVideoVisibility } from '@/lib/youtube/uploader';
+import { resolveMappingRefreshToken } from '@/lib/youtube/destination-channels';
 import { resolveUploadBehavior } from '@/lib/youtube/upload-settings';
-
-async function resolveDestinationRefreshToken(mappingId: string | null): Promise<{ refreshToken?: string; error?: string }> {
-  if (!mappingId) {
-    return {};
-  }
-
-  const mapping = await getChannelMappingById(mappingId);
-  if (!mapping || !mapping.target_channel_id) {
-    return {};
-  }
-
-  const refreshToken = await getRefreshTokenForDestinationChannel(mapping.target_channel_id);
-  if (!refreshToken) {
-    return {
-      error: `Destination channel ${mapping.target_channel_id} is not connected. Connect it from mapping screen.`,
-    };
-  }
-
-  return { refreshToken };
-}
+import {
+  checkQuotaBudget,
+  describeQuotaExhausted,
+  getQuotaDay,
+  resolveOAuthQuotaCredential,
+} from '@/lib/youtube/quota';
+import { shiftDate } from '@/lib/scheduling/calendar';
+import { pruneOrphanedThumbnails } from '@/lib/youtube/thumbnails';
+import { runShortPipeline } from '@/lib/pipeline/short-pipeline';
+import type { PipelineStageName } from '@/lib/pipeline/engine';
+import { getPipelineWorkerCount } from '@/lib/pipeline/concurrency';
+
+const PIPELINE_STAGE_LABELS: Record<PipelineStageName, string> = {
+  download: 'Download',
+  validate: 'Validation',
+  fingerprint: 'Duplicate check',
+  subtitles: 'Subtitles',
+  enhance: 'Quality enhancement',
+  metadata: 'Metadata',
+  thumbnail: 'Thumbnail',
+  upload: 'Upload',
+  publish: 'Publish',
+};
+
+// process_next runs in flight in this process; the scheduler shows Idle only when all finish.
+let activeProcessRuns = 0;
 
 async function runUploadedCleanup() {
   const cleanupHours = parseInt((await getConfig('uploaded_cleanup_hours')) || '5', 10);
@@ -50,105 +67,24 @@ async function runUploadedCleanup() {
   const tempDeleted = await cleanupTempFiles(
     (Number.isNaN(tempCleanupHours) ? 6 : tempCleanupHours) * 60 * 60 * 1000
   );
+  // Trims the download cache back under temp_dir_max_gb even when nothing is old enough to expire
+  const diskBudget = await ensureDiskSpace(0, 'temp directory budget');
+  const jobsPruned = await pruneFinishedSchedulerJobs();
+  const slotRunsPruned = await pruneSchedulerSlotRuns();
+  const quotaRowsPruned = await pruneYoutubeQuotaUsage(shiftDate(getQuotaDay(), -35));
+  const thumbnailsPruned = await pruneOrphanedThumbnails();
 
   return {
     ...dbCleanup,
     temp_deleted: tempDeleted,
+    temp_reclaimed_bytes: diskBudget.reclaimedBytes,
+    jobs_pruned: jobsPruned,
+    slot_runs_pruned: slotRunsPruned,
+    quota_rows_pruned: quotaRowsPruned,
+    thumbnails_pruned: thumbnailsPruned,
   };
 }
 
-function normalizeComparableTag(value: string): string {
-  return value
-    .replace(/^#+/, '')
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, '')
-    .trim();
-}
-
-function extractHandleFromChannelUrl(value: string | null | undefined): string | null {
-  if (!value) {
-    return null;
-  }
-
-  const match = value.match(/@([a-zA-Z0-9._-]+)/);
-  return match?.[1] || null;
-}
-
-function buildSourceTagBlockList(sourceChannel: string | null | undefined, mapping: ChannelMapping | null): string[] {
-  const values = [
-    sourceChannel?.trim(),
-    mapping?.source_channel_id?.trim(),
-    mapping?.source_channel_url?.trim(),
-    mapping?.source_channel_name?.trim() || null,
-    extractHandleFromChannelUrl(sourceChannel),
-    extractHandleFromChannelUrl(mapping?.source_channel_url),
-  ].filter((value): value is string => Boolean(value));
-
-  return Array.from(new Set(values));
-}
-
-function shouldFilterByBlockedTerms(value: string, blockedComparables: Set<string>): boolean {
-  if (blockedComparables.size === 0) {
-    return false;
-  }
-
-  const comparable = normalizeComparableTag(value);
-  if (!comparable) {
-    return false;
-  }
-
-  for (const blocked of blockedComparables) {
-    if (comparable === blocked || comparable.includes(blocked) || blocked.includes(comparable)) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
-function filterBlockedTagValues(values: string[], blockedTerms: string[]): string[] {
-  if (values.length === 0 || blockedTerms.length === 0) {
-    return values;
-  }
-
-  const blockedComparables = new Set(
-    blockedTerms
-      .map((term) => normalizeComparableTag(term))
-      .filter((term) => term.length >= 3)
-  );
-
-  return values.filter((value) => !shouldFilterByBlockedTerms(value, blockedComparables));
-}
-
-function stripBlockedHashtagsFromDescription(description: string, blockedTerms: string[]): string {
-  if (!description || blockedTerms.length === 0) {
-    return description;
-  }
-
-  const blockedComparables = new Set(
-    blockedTerms
-      .map((term) => normalizeComparableTag(term))
-      .filter((term) => term.length >= 3)
-  );
-
-  if (blockedComparables.size === 0) {
-    return description;
-  }
-
-  return description
-    .replace(/#[a-zA-Z0-9_]+/g, (tag) => (shouldFilterByBlockedTerms(tag, blockedComparables) ? '' : tag))
-    .replace(/\s{2,}/g, ' ')
-    .trim();
-}
-
-function buildUploadTags(existingTags: string[] | null, hashtags: string[], blockedTerms: string[]): string[] {
-  const tags = [...(existingTags || []), ...hashtags]
-    .map((value) => value.replace(/^#/, '').replace(/[^a-zA-Z0-9_]/g, '').trim())
-    .filter(Boolean);
-
-  return Array.from(new Set(filterBlockedTagValues(tags, blockedTerms))).slice(0, 20);
-}
-
 function parseMappingId(raw: unknown): string | undefined {
   if (typeof raw !== 'string') {
     return undefined;
@@ -158,16 +94,6 @@ function parseMappingId(raw: unknown): string | undefined {
   return trimmed || undefined;
 }
 
-async function cleanupProcessingVideoFiles(paths: Array<string | null | undefined>): Promise<void> {
-  const uniquePaths = Array.from(
-    new Set(paths.map((value) => (typeof value === 'string' ? value.trim() : '')).filter(Boolean))
-  );
-
-  for (const filePath of uniquePaths) {
-    await deleteVideo(filePath);
-  }
-}
-
 function nextRetryTime(minutes: number): string {
   return new Date(Date.now() + minutes * 60 * 1000).toISOString();
 }
@@ -184,11 +110,11 @@ function collectMappingSourceValues(
   );
 }
 
-async function resolveNextPendingShort(mappingId?: string): Promise<ShortsData | null> {
+async function resolveNextPendingShort(workerId: string, mappingId?: string): Promise<ShortsData | null> {
   if (mappingId) {
-    const mappedPending = await getPendingShorts(1, mappingId);
-    if (mappedPending.length > 0) {
-      return mappedPending[0];
+    const mappedPending = await claimNextPendingShortForMapping(mappingId, workerId);
+    if (mappedPending) {
+      return mappedPending;
     }
 
     const mapping = await getChannelMappingById(mappingId);
@@ -200,7 +126,8 @@ async function resolveNextPendingShort(mappingId?: string): Promise<ShortsData |
       mapping.id,
       mapping.source_channel_id,
       mapping.source_channel_url,
-      mapping.target_channel_id
+      mapping.target_channel_id,
+      workerId
     );
 
     if (claimed) {
@@ -217,22 +144,33 @@ async function resolveNextPendingShort(mappingId?: string): Promise<ShortsData |
 
   const activeMappings = await getActiveChannelMappings();
   const excludedSourceValues = collectMappingSourceValues(activeMappings);
-  const globalPending = await getNextGlobalPendingShort(excludedSourceValues);
+  const globalPending = await claimNextGlobalPendingShort(workerId, excludedSourceValues);
 
   return globalPending;
 }
 
-async function publishDueScheduledShorts(limit: number = 20): Promise<{ checked: number; published: number; failed: number }> {
+async function publishDueScheduledShorts(
+  limit: number = 20
+): Promise<{ checked: number; published: number; failed: number; deferred: number }> {
   const dueShorts = await getDueScheduledPublishShorts(limit);
+  const quotaCredential = await resolveOAuthQuotaCredential();
   let published = 0;
   let failed = 0;
+  let deferred = 0;
 
   for (const short of dueShorts) {
     if (!short.target_video_id) {
       continue;
     }
 
-    const destinationAuth = await resolveDestinationRefreshToken(short.mapping_id);
+    // Leave the rest due; they are picked up again once quota resets
+    const quota = await checkQuotaBudget(quotaCredential, 'videos.update');
+    if (!quota.allowed) {
+      deferred = dueShorts.length - published - failed;
+      break;
+    }
+
+    const destinationAuth = await resolveMappingRefreshToken(short.mapping_id);
     if (destinationAuth.error) {
       failed++;
       await updateShort(short.id, {
@@ -243,8 +181,10 @@ async function publishDueScheduledShorts(limit: number = 20): Promise<{ checked:
       continue;
     }
 
+    const { metadata } = await resolveUploadBehavior(short.mapping_id);
     const publishResult = await updateVideoVisibility(short.target_video_id, 'public', {
       refreshToken: destinationAuth.refreshToken,
+      metadata,
     });
 
     if (!publishResult.success) {
@@ -270,9 +210,137 @@ async function publishDueScheduledShorts(limit: number = 20): Promise<{ checked:
     checked: dueShorts.length,
     published,
     failed,
+    deferred,
   };
 }
 
+function parseWorkerId(raw: unknown): string {
+  if (typeof raw === 'string' && raw.trim()) {
+    return raw.trim().slice(0, 120);
+  }
+  return `web-${process.pid}`;
+}
+
+async function executeSchedulerJob(job: SchedulerJob, workerId: string): Promise<Record<string, unknown>> {
+  const payload = job.payload || {};
+
+  if (job.job_type === 'process_next') {
+    const mappingId = parseMappingId(payload.mappingId);
+    activeProcessRuns++;
+    await updateSchedulerState({
+      is_running: true,
+      current_status:
+        activeProcessRuns > 1
+          ? `Processing ${activeProcessRuns} runs in parallel`
+          : mappingId
+            ? `Processing mapping ${mappingId}`
+            : 'Processing global queue',
+    });
+
+    try {
+      const result = await processNextPending(workerId, mappingId);
+      if (result.deferredUntil) {
+        await deferProcessNextForQuota(payload, mappingId, result.deferredUntil, result.message);
+      }
+      return { ...result };
+    } finally {
+      activeProcessRuns--;
+      if (activeProcessRuns === 0) {
+        await updateSchedulerState({
+          is_running: false,
+          current_status: 'Idle',
+        });
+      }
+    }
+  }
+
+  if (job.job_type === 'publish_due') {
+    const limit = typeof payload.limit === 'number' ? payload.limit : 20;
+    return { publish: await publishDueScheduledShorts(limit) };
+  }
+
+  if (job.job_type === 'cleanup_uploaded') {
+    return { cleanup: await runUploadedCleanup() };
+  }
+
+  if (job.job_type === 'reap_leases') {
+    return { reap: await reapExpiredShortLeases() };
+  }
+
+  throw new Error(`Unknown scheduler job type: ${job.job_type}`);
+}
+
+// Re-queue a quota-blocked run for when the Pacific quota day rolls over (once per mapping per day).
+async function deferProcessNextForQuota(
+  payload: Record<string, unknown>,
+  mappingId: string | undefined,
+  runAfter: string,
+  reason: string
+): Promise<void> {
+  const result = await enqueueSchedulerJob('process_next', {
+    payload,
+    dedupeKey: `quota_deferred:${runAfter}:${mappingId || 'global'}`,
+    runAfter,
+  });
+
+  if ('job' in result) {
+    await createLog(null, 'quota', 'error', `${reason}. Deferred ${mappingId ? 'mapping' : 'global'} run until reset`, {
+      mapping_id: mappingId || null,
+      job_id: result.job.id,
+      run_after: runAfter,
+    });
+  } else if ('error' in result) {
+    await createLog(null, 'quota', 'error', `${reason}. Could not defer the run until reset: ${result.error}`, {
+      mapping_id: mappingId || null,
+      run_after: runAfter,
+    });
+  }
+}
+
+interface ProcessedSchedulerJob {
+  id: string;
+  job_type: string;
+  status: 'succeeded' | 'failed';
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// Drain up to maxJobs leased jobs, running up to pipeline_workers of them side by side.
+// Stage concurrency limits still apply inside each run, so lanes overlap on I/O but not on transcodes.
+async function runSchedulerWorker(workerId: string, maxJobs: number): Promise<ProcessedSchedulerJob[]> {
+  const processed: ProcessedSchedulerJob[] = [];
+  const laneCount = Math.min(maxJobs, await getPipelineWorkerCount());
+  let reserved = 0;
+
+  const runLane = async (laneWorkerId: string) => {
+    while (reserved < maxJobs) {
+      reserved++;
+      const job = await claimNextSchedulerJob(laneWorkerId);
+      if (!job) {
+        reserved--;
+        return;
+      }
+
+      try {
+        const result = await executeSchedulerJob(job, laneWorkerId);
+        await completeSchedulerJob(job.id, laneWorkerId, result);
+        processed.push({ id: job.id, job_type: job.job_type, status: 'succeeded', result });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Scheduler job ${job.id} (${job.job_type}) failed:`, error);
+        await failSchedulerJob(job, laneWorkerId, message);
+        processed.push({ id: job.id, job_type: job.job_type, status: 'failed', error: message });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: laneCount }, (_, index) => runLane(laneCount > 1 ? `${workerId}#${index + 1}` : workerId))
+  );
+
+  return processed;
+}
+
 // GET - Get scheduler state
 export async function GET() {
   try {
@@ -293,23 +361,42 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { action } = body;
 
-    // Start scheduler run
+    // Queue a global run and let the web worker drain it right away
     if (action === 'run') {
-      const state = await getSchedulerState();
+      const queued = await enqueueSchedulerJob('process_next', {
+        payload: { slotLabel: 'manual' },
+      });
 
-      if (state?.is_running) {
+      if (!('job' in queued)) {
         return NextResponse.json(
-          { success: false, error: 'Scheduler is already running' },
-          { status: 400 }
+          { success: false, error: `Failed to queue scheduler run${'error' in queued ? `: ${queued.error}` : ''}` },
+          { status: 500 }
         );
       }
 
-      // Start async upload process
-      runSchedulerProcess().catch(console.error);
+      await enqueueSchedulerJob('publish_due', { payload: { limit: 20 } });
+      await enqueueSchedulerJob('cleanup_uploaded');
+
+      runSchedulerWorker(parseWorkerId(body.workerId), 3).catch(console.error);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Scheduler run queued',
+        jobId: queued.job.id
+      });
+    }
 
+    // Lease and execute queued jobs (called by the scheduler worker loop)
+    if (action === 'work') {
+      const maxJobs =
+        typeof body.maxJobs === 'number' && Number.isFinite(body.maxJobs)
+          ? Math.min(10, Math.max(1, Math.floor(body.maxJobs)))
+          : 1;
+      const processed = await runSchedulerWorker(parseWorkerId(body.workerId), maxJobs);
       return NextResponse.json({
         success: true,
-        message: 'Scheduler started'
+        idle: processed.length === 0,
+        processed
       });
     }
 
@@ -326,7 +413,7 @@ export async function POST(request: NextRequest) {
     // Process next pending video
     if (action === 'process_next') {
       const mappingId = parseMappingId(body.mappingId);
-      const result = await processNextPending(mappingId);
+      const result = await processNextPending(parseWorkerId(body.workerId), mappingId);
       const publish = await publishDueScheduledShorts();
       await runUploadedCleanup();
       return NextResponse.json({ ...result, publish });
@@ -347,6 +434,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Return shorts with expired leases to Pending
+    if (action === 'reap_leases') {
+      const reap = await reapExpiredShortLeases();
+      return NextResponse.json({ success: true, reap });
+    }
+
     if (action === 'run_cleanup') {
       const cleanup = await runUploadedCleanup();
       return NextResponse.json({
@@ -370,18 +463,37 @@ export async function POST(request: NextRequest) {
 }
 
 // Process the next pending video
-async function processNextPending(mappingId?: string): Promise<{ success: boolean; message: string; videoId?: string }> {
+async function processNextPending(
+  workerId: string,
+  mappingId?: string
+): Promise<{ success: boolean; message: string; videoId?: string; deferredUntil?: string }> {
+  let claimedShortId: string | null = null;
+  // Global-queue runs hold one of today's slots from the start; it is handed back unless the upload succeeds
+  let reservedUpload = false;
+  let uploaded = false;
+
   try {
-    const state = await getSchedulerState();
+    // Don't claim a short the upload budget can't cover
+    const quota = await checkQuotaBudget(await resolveOAuthQuotaCredential(), 'videos.insert');
+    if (!quota.allowed && quota.status) {
+      return { success: false, message: describeQuotaExhausted(quota.status), deferredUntil: quota.status.reset_at };
+    }
 
     if (!mappingId) {
       const uploadsPerDay = parseInt((await getConfig('uploads_per_day')) || '2', 10);
-      if (state && state.uploads_today >= uploadsPerDay) {
+      const reserved = await reserveDailyUpload(Number.isNaN(uploadsPerDay) ? 2 : uploadsPerDay);
+      if ('error' in reserved) {
+        const message = `Could not reserve a daily upload slot: ${reserved.error}`;
+        await createLog(null, 'process', 'error', message);
+        return { success: false, message };
+      }
+      if ('limitReached' in reserved) {
         return { success: false, message: 'Daily upload limit reached' };
       }
+      reservedUpload = true;
     }
 
-    const short = await resolveNextPendingShort(mappingId);
+    const short = await resolveNextPendingShort(workerId, mappingId);
     if (!short) {
       return {
         success: false,
@@ -390,164 +502,43 @@ async function processNextPending(mappingId?: string): Promise<{ success: boolea
           : 'No pending videos in global queue',
       };
     }
-
-    await createLog(short.id, 'process', 'success', 'Starting automated upload');
-
-    // Download
-    const downloadResult = await downloadVideo(short.video_url, short.video_id);
-    if (!downloadResult.success) {
-      await updateShort(short.id, {
-        status: 'Failed',
-        error_log: downloadResult.error
-      });
-      await createLog(short.id, 'download', 'error', downloadResult.error || 'Download failed');
-      return { success: false, message: `Download failed: ${downloadResult.error}` };
-    }
-
-    // Validate
-    const downloadFilePath = downloadResult.filePath!;
-    const validation = await validateVideo(downloadFilePath);
-    if (!validation.valid) {
-      await cleanupProcessingVideoFiles([downloadFilePath]);
-      await updateShort(short.id, {
-        status: 'Failed',
-        error_log: validation.error
-      });
-      await createLog(short.id, 'validation', 'error', validation.error || 'Validation failed');
-      return { success: false, message: `Validation failed: ${validation.error}` };
-    }
-
-    await updateShort(short.id, { status: 'Downloaded' });
-    const durationLabel =
-      typeof validation.duration === 'number' && Number.isFinite(validation.duration)
-        ? ` (${validation.duration.toFixed(1)}s)`
-        : '';
-    const downloadSummary =
-      Number.isFinite(validation.width) && Number.isFinite(validation.height)
-        ? `Downloaded source ${validation.width}x${validation.height}${durationLabel}`
-        : `Downloaded to ${downloadFilePath}`;
-    await createLog(short.id, 'download', 'success', downloadSummary);
-    await createLog(short.id, 'quality', 'success', 'Starting high-quality enhancement before upload');
-
-    const preparedVideo = await prepareVideoForUpload(downloadFilePath, short.video_id);
-    if (!preparedVideo.success) {
-      await cleanupProcessingVideoFiles([downloadFilePath]);
-      await updateShort(short.id, {
-        status: 'Failed',
-        error_log: preparedVideo.error,
-      });
-      await createLog(short.id, 'quality', 'error', preparedVideo.error);
-      return { success: false, message: `Quality enhancement failed: ${preparedVideo.error}` };
-    }
-
-    const enhancedResolution =
-      preparedVideo.targetWidth && preparedVideo.targetHeight
-        ? ` (${preparedVideo.targetWidth}x${preparedVideo.targetHeight})`
-        : '';
-    const qualityMessage = preparedVideo.warning
-      ? preparedVideo.warning
-      : preparedVideo.enhanced
-        ? `Prepared ${preparedVideo.usedProfile.toUpperCase()} enhanced video${enhancedResolution} for upload`
-        : `Using original source-quality video for upload`;
-    await createLog(short.id, 'quality', 'success', qualityMessage);
-    const uploadFilePath = preparedVideo.filePath;
-
-    // Prepare content
-    const uploadBehavior = await resolveUploadBehavior(short.mapping_id || mappingId || null);
-    const visibility = uploadBehavior.visibility;
-    const aiEnabled = uploadBehavior.aiEnabled;
-    const sourceTagBlockList = buildSourceTagBlockList(short.source_channel, uploadBehavior.mapping);
-
-    let title = short.title;
-    let description = stripBlockedHashtagsFromDescription(short.description || '', sourceTagBlockList);
-    let hashtags: string[] = [];
-
-    if (aiEnabled) {
-      try {
-        const enhanced = await enhanceContent(short.title, short.description || '', short.tags || [], {
-          blockedTerms: sourceTagBlockList,
-        });
-        title = enhanced.title;
-        description = stripBlockedHashtagsFromDescription(enhanced.description, sourceTagBlockList);
-        hashtags = filterBlockedTagValues(enhanced.hashtags, sourceTagBlockList);
-      } catch {
-        // Use original content
-      }
-    }
-
-    if (hashtags.length > 0) {
-      description = `${description}\n\n${hashtags.join(' ')}`;
-    }
-
-    const destinationAuth = await resolveDestinationRefreshToken(short.mapping_id);
-    if (destinationAuth.error) {
-      await cleanupProcessingVideoFiles([downloadFilePath, uploadFilePath]);
-      await updateShort(short.id, {
-        status: 'Failed',
-        error_log: destinationAuth.error
-      });
-      await createLog(short.id, 'upload', 'error', destinationAuth.error);
-      return { success: false, message: destinationAuth.error };
-    }
-
-    await updateShort(short.id, { status: 'Uploading' });
-
-    // Upload
-    const uploadResult = await uploadVideo(
-      uploadFilePath,
-      title,
-      description,
-      buildUploadTags(short.tags || [], hashtags, sourceTagBlockList),
-      visibility,
-      {
-        refreshToken: destinationAuth.refreshToken
-      }
+    claimedShortId = short.id;
+
+    // Keep the claim alive through long stages and while queued for a stage slot
+    const result = await withShortLease(short.id, workerId, () =>
+      runShortPipeline(short, {
+        workerId,
+        mappingId: mappingId || null,
+        startMessage: 'Starting automated upload',
+      })
     );
 
-    // Clean up
-    await cleanupProcessingVideoFiles([downloadFilePath, uploadFilePath]);
-
-    if (!uploadResult.success) {
-      await updateShort(short.id, {
-        status: 'Failed',
-        error_log: uploadResult.error
-      });
-      await createLog(short.id, 'upload', 'error', uploadResult.error || 'Upload failed');
-      return { success: false, message: `Upload failed: ${uploadResult.error}` };
+    if (result.skipped) {
+      return { success: false, message: `Skipped: ${result.error}` };
     }
 
-    // Update success
-    const uploadedAt = new Date().toISOString();
-    await updateShort(short.id, {
-      status: 'Uploaded',
-      uploaded_date: uploadedAt,
-      target_video_id: uploadResult.videoId || null,
-      scheduled_date: uploadBehavior.scheduledPublishAt,
-      error_log: null,
-    });
-    await createLog(short.id, 'upload', 'success', `Uploaded as ${uploadResult.videoId}`);
-
-    if (uploadBehavior.scheduledPublishAt) {
-      await createLog(
-        short.id,
-        'publish',
-        'success',
-        `Scheduled public publish at ${uploadBehavior.scheduledPublishAt} (${uploadBehavior.delayHours}h delay)`
-      );
+    if (!result.success) {
+      const stageLabel = result.stage ? PIPELINE_STAGE_LABELS[result.stage] : 'Pipeline';
+      const retryNote = result.failure?.retryAt
+        ? ` (retry ${result.failure.attempt}/${result.failure.maxAttempts} at ${result.failure.retryAt})`
+        : result.failure
+          ? ` (${result.failure.code})`
+          : '';
+      return { success: false, message: `${stageLabel} failed: ${result.error}${retryNote}` };
     }
 
-    // Update scheduler state
-    await updateSchedulerState({
-      uploads_today: (state?.uploads_today || 0) + 1,
-      last_run_at: uploadedAt
-    });
+    uploaded = true;
+    if (!reservedUpload) {
+      await reserveDailyUpload(null);
+    }
+    await updateSchedulerState({ last_run_at: new Date().toISOString() });
 
     return {
       success: true,
-      message: uploadBehavior.scheduledPublishAt
-        ? `Upload successful, public publish scheduled after ${uploadBehavior.delayHours}h`
+      message: result.scheduledPublishAt
+        ? `Upload successful, public publish scheduled after ${result.delayHours}h`
         : 'Upload successful',
-      videoId: uploadResult.videoId
+      videoId: result.videoId
     };
   } catch (error) {
     console.error('Process error:', error);
@@ -555,37 +546,12 @@ async function processNextPending(mappingId?: string): Promise<{ success: boolea
       success: false,
       message: error instanceof Error ? error.message : 'Unknown error'
     };
-  }
-}
-
-// Background scheduler process
-async function runSchedulerProcess(): Promise<void> {
-  try {
-    await updateSchedulerState({
-      is_running: true,
-      current_status: 'Processing...'
-    });
-
-    // Process only one short per scheduler run.
-    const result = await processNextPending();
-    if (!result.success) {
-      console.log('Scheduler stopped:', result.message);
-    } else {
-      console.log('Uploaded:', result.videoId);
+  } finally {
+    if (claimedShortId) {
+      await releaseShortClaim(claimedShortId, workerId);
+    }
+    if (reservedUpload && !uploaded) {
+      await releaseDailyUpload();
     }
-
-    await publishDueScheduledShorts();
-    await runUploadedCleanup();
-
-    await updateSchedulerState({
-      is_running: false,
-      current_status: 'Completed'
-    });
-  } catch (error) {
-    console.error('Scheduler error:', error);
-    await updateSchedulerState({
-      is_running: false,
-      current_status: 'Error'
-    });
   }
 }
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createLog,
+  deleteSchedulerSlotRun,
+  enqueueSchedulerJob,
+  getActiveChannelMappings,
+  getHandledSlotKeys,
+  getSchedulerSlotRuns,
+  recordSchedulerSlotRun,
+  setSchedulerSlotRunJob,
+} from '@/lib/supabase/database';
+import type { SchedulerSlotRunStatus } from '@/lib/supabase/client';
+import { planSlotRuns, type SlotCandidate, type SlotDecision } from '@/lib/scheduling/catch-up';
+
+const SLOT_RUN_STATUSES: SchedulerSlotRunStatus[] = ['fired', 'caught_up', 'missed'];
+const MAX_SLOT_CANDIDATES = 2000;
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseSlotCandidates(raw: unknown): SlotCandidate[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const candidates = new Map<string, SlotCandidate>();
+  for (const item of raw.slice(0, MAX_SLOT_CANDIDATES)) {
+    const value = (item || {}) as Record<string, unknown>;
+    const slotKey = readString(value.slotKey);
+    const slotTime = readString(value.slotTime);
+    const localDate = readString(value.localDate);
+
+    if (
+      !slotKey ||
+      !slotTime ||
+      !/^([01]\d|2[0-3]):([0-5]\d)$/.test(slotTime) ||
+      !localDate ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(localDate)
+    ) {
+      continue;
+    }
+
+    candidates.set(slotKey, {
+      slotKey,
+      mappingId: readString(value.mappingId),
+      mappingName: readString(value.mappingName),
+      slotLabel: readString(value.slotLabel) || slotTime,
+      slotTime,
+      localDate,
+      timezone: readString(value.timezone) || 'UTC',
+    });
+  }
+
+  return Array.from(candidates.values());
+}
+
+function describeSlot(decision: SlotDecision): string {
+  return `${decision.mappingName || 'global'} ${decision.slotLabel}@${decision.slotTime} on ${decision.localDate} (${decision.timezone})`;
+}
+
+// GET - Recent fired, caught-up and missed slots
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limitRaw = parseInt(searchParams.get('limit') || '50', 10);
+    const limit = Number.isNaN(limitRaw) ? 50 : Math.min(500, Math.max(1, limitRaw));
+    const statusRaw = searchParams.get('status');
+    const status = SLOT_RUN_STATUSES.includes(statusRaw as SchedulerSlotRunStatus)
+      ? (statusRaw as SchedulerSlotRunStatus)
+      : undefined;
+
+    const runs = await getSchedulerSlotRuns(limit, status);
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    console.error('Scheduler slots GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load slot runs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Record due slots and apply each mapping's catch-up policy to missed ones
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === 'reconcile') {
+      const candidates = parseSlotCandidates(body.slots);
+      if (candidates.length === 0) {
+        return NextResponse.json({ success: true, fired: [], caughtUp: [], missed: [] });
+      }
+
+      const [handledKeys, mappings] = await Promise.all([
+        getHandledSlotKeys(candidates.map((candidate) => candidate.slotKey)),
+        getActiveChannelMappings(),
+      ]);
+      const decisions = planSlotRuns(
+        candidates,
+        handledKeys,
+        new Map(mappings.map((mapping) => [mapping.id, mapping])),
+        new Date()
+      );
+
+      const fired: string[] = [];
+      const caughtUp: string[] = [];
+      const missed: string[] = [];
+      const failed: string[] = [];
+
+      for (const decision of decisions) {
+        const run = await recordSchedulerSlotRun({
+          slot_key: decision.slotKey,
+          mapping_id: decision.mappingId,
+          slot_label: decision.slotLabel,
+          slot_time: decision.slotTime,
+          local_date: decision.localDate,
+          timezone: decision.timezone,
+          scheduled_for: decision.scheduledFor,
+          status: decision.status,
+          job_id: null,
+        });
+
+        // Another scheduler instance recorded this slot first
+        if (!run) {
+          continue;
+        }
+
+        const details = {
+          slot_key: decision.slotKey,
+          mapping_id: decision.mappingId,
+          scheduled_for: decision.scheduledFor,
+          lag_minutes: decision.lagMinutes,
+          policy: decision.policy,
+        };
+
+        if (decision.status === 'missed') {
+          missed.push(describeSlot(decision));
+          await createLog(
+            null,
+            'schedule',
+            'error',
+            `Missed slot ${describeSlot(decision)}, ${decision.lagMinutes} min late (catch-up: ${decision.policy})`,
+            details
+          );
+          continue;
+        }
+
+        const queued = await enqueueSchedulerJob('process_next', {
+          payload: {
+            ...(decision.mappingId ? { mappingId: decision.mappingId } : {}),
+            ...(decision.mappingName ? { mappingName: decision.mappingName } : {}),
+            slotLabel: decision.status === 'caught_up' ? `${decision.slotLabel} (catch-up)` : decision.slotLabel,
+            slotTime: decision.slotTime,
+          },
+          dedupeKey: decision.slotKey,
+        });
+
+        if ('error' in queued) {
+          failed.push(describeSlot(decision));
+          const released = await deleteSchedulerSlotRun(run.id);
+          await createLog(
+            null,
+            'schedule',
+            'error',
+            `Could not queue slot ${describeSlot(decision)}: ${queued.error}` +
+              (released ? '; it will be retried on the next reconcile' : '; the slot stays recorded without a job'),
+            details
+          );
+          continue;
+        }
+
+        const job = 'job' in queued ? queued.job : null;
+        if (job) {
+          await setSchedulerSlotRunJob(run.id, job.id);
+        }
+
+        if (decision.status === 'caught_up') {
+          caughtUp.push(describeSlot(decision));
+          await createLog(
+            null,
+            'schedule',
+            'success',
+            `Catching up missed slot ${describeSlot(decision)}, ${decision.lagMinutes} min late (catch-up: ${decision.policy})`,
+            { ...details, job_id: job?.id || null }
+          );
+        } else {
+          fired.push(describeSlot(decision));
+        }
+      }
+
+      return NextResponse.json({ success: true, fired, caughtUp, missed, failed });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Invalid action' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Scheduler slots POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
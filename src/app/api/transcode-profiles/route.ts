@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createTranscodeProfile,
+  deleteTranscodeProfile,
+  getTranscodeProfileById,
+  getTranscodeProfiles,
+  updateTranscodeProfile,
+} from '@/lib/supabase/database';
+import { normalizeTranscodeProfileInput, toTranscodeSettings } from '@/lib/youtube/transcode-profiles';
+
+// GET - List transcode profiles
+export async function GET() {
+  try {
+    const profiles = await getTranscodeProfiles();
+    return NextResponse.json({ success: true, profiles });
+  } catch (error) {
+    console.error('Transcode profiles GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load transcode profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a profile; omitted fields take the defaults
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { settings, error } = normalizeTranscodeProfileInput(body || {});
+    if (!settings) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    const profile = await createTranscodeProfile(settings);
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to create transcode profile' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('Transcode profiles POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create transcode profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update a profile; omitted fields keep their current value
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, ...updates } = body || {};
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getTranscodeProfileById(id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Transcode profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const { settings, error } = normalizeTranscodeProfileInput(updates, toTranscodeSettings(existing));
+    if (!settings) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    const profile = await updateTranscodeProfile(id, settings);
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to update transcode profile' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('Transcode profiles PUT error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update transcode profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a profile; mappings using it fall back to the defaults
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const success = await deleteTranscodeProfile(id);
+    if (!success) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete transcode profile' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Transcode profiles DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete transcode profile' },
+      { status: 500 }
+    );
+  }
+}
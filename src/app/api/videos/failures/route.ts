@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createLog,
+  getChannelMappingById,
+  getFailedShorts,
+  getLogs,
+  getShortById,
+  reassignFailedShort,
+  requeueFailedShorts,
+  skipFailedShorts,
+} from '@/lib/supabase/database';
+import { groupFailedShorts, isFailureGroupId, resolveFailureGroup } from '@/lib/pipeline/triage';
+
+type TriageAction = 'requeue' | 'skip' | 'reassign';
+
+const TRIAGE_ACTIONS: TriageAction[] = ['requeue', 'skip', 'reassign'];
+
+function readIds(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return Array.from(
+    new Set(raw.filter((value): value is string => typeof value === 'string' && value.trim() !== '').map((value) => value.trim()))
+  );
+}
+
+function failedShortsUnavailableResponse() {
+  return NextResponse.json(
+    { success: false, error: 'Failed to load failed shorts' },
+    { status: 500 }
+  );
+}
+
+// GET - Failed shorts grouped by reason, or the full log history of one short (?shortId=)
+export async function GET(request: NextRequest) {
+  try {
+    const shortId = request.nextUrl.searchParams.get('shortId');
+
+    if (shortId) {
+      const [short, logs] = await Promise.all([getShortById(shortId), getLogs(shortId)]);
+      if (!short) {
+        return NextResponse.json(
+          { success: false, error: 'Short not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, short, logs });
+    }
+
+    const failed = await getFailedShorts();
+    if (!failed) {
+      return failedShortsUnavailableResponse();
+    }
+
+    const groups = groupFailedShorts(failed);
+    const total = groups.reduce((sum, group) => sum + group.count, 0);
+    return NextResponse.json({ success: true, total, groups });
+  } catch (error) {
+    console.error('Failures GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load failed shorts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Requeue, skip or reassign a whole failure group or an explicit list of shorts
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const action = body.action as TriageAction;
+
+    if (!TRIAGE_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    let ids = readIds(body.ids);
+    const group = isFailureGroupId(body.group) ? body.group : null;
+
+    if (ids.length === 0 && group) {
+      const failed = await getFailedShorts();
+      if (!failed) {
+        return failedShortsUnavailableResponse();
+      }
+      ids = failed.filter((short) => resolveFailureGroup(short) === group).map((short) => short.id);
+    }
+
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a failure group or short ids' },
+        { status: 400 }
+      );
+    }
+
+    const scope = group ? `group ${group}` : `${ids.length} selected short(s)`;
+
+    if (action === 'requeue') {
+      const updated = await requeueFailedShorts(ids);
+      await createLog(null, 'triage', 'success', `Requeued ${updated} failed short(s) from ${scope}`, {
+        action,
+        group,
+        requested: ids.length,
+        updated,
+      });
+      return NextResponse.json({ success: true, updated, requested: ids.length });
+    }
+
+    if (action === 'skip') {
+      const updated = await skipFailedShorts(ids);
+      await createLog(null, 'triage', 'success', `Skipped ${updated} failed short(s) from ${scope}`, {
+        action,
+        group,
+        requested: ids.length,
+        updated,
+      });
+      return NextResponse.json({ success: true, updated, requested: ids.length });
+    }
+
+    const mappingId = typeof body.mappingId === 'string' ? body.mappingId.trim() : '';
+    const mapping = mappingId ? await getChannelMappingById(mappingId) : null;
+    if (!mapping) {
+      return NextResponse.json(
+        { success: false, error: 'Target mapping not found' },
+        { status: 404 }
+      );
+    }
+
+    let updated = 0;
+    const conflicts: string[] = [];
+    for (const id of ids) {
+      if (await reassignFailedShort(id, mapping.id, mapping.target_channel_id)) {
+        updated++;
+        await createLog(id, 'triage', 'success', `Reassigned to mapping ${mapping.name} and requeued`, {
+          action,
+          mapping_id: mapping.id,
+          target_channel: mapping.target_channel_id,
+        });
+      } else {
+        conflicts.push(id);
+      }
+    }
+
+    await createLog(
+      null,
+      'triage',
+      conflicts.length > 0 ? 'error' : 'success',
+      `Reassigned ${updated} failed short(s) from ${scope} to mapping ${mapping.name}` +
+        (conflicts.length > 0 ? `; ${conflicts.length} skipped (already queued for that mapping or in progress)` : ''),
+      { action, group, mapping_id: mapping.id, requested: ids.length, updated, conflicts }
+    );
+
+    return NextResponse.json({ success: true, updated, requested: ids.length, conflicts });
+  } catch (error) {
+    console.error('Failures POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
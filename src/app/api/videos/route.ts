@@ -13,8 +13,9 @@ import {
 import { fetchShortsFromChannel } from '@/lib/youtube/scraper';
 import { getSourceChannels } from '@/lib/youtube/source-channels';
 import { supabaseAdmin, type ShortsData } from '@/lib/supabase/client';
+import { deleteShortThumbnails } from '@/lib/youtube/thumbnails';
 
-type PipelineAction = 'process' | 'download' | 'validation' | 'quality' | 'upload' | 'publish';
+type PipelineAction = 'process' | 'download' | 'validation' | 'quality' | 'metadata' | 'upload' | 'publish';
 
 interface PipelineLogRow {
   short_id: string | null;
@@ -24,22 +25,69 @@ interface PipelineLogRow {
   created_at: string;
 }
 
+interface LiveProgress {
+  stage: string;
+  percent: number | null;
+  eta_seconds: number | null;
+  speed: string | null;
+}
+
 interface LivePipelineState {
   live_stage: string;
   live_message: string;
   live_at: string;
   live_action: PipelineAction | null;
   live_action_status: 'success' | 'error' | null;
+  live_progress?: LiveProgress | null;
 }
 
-const PIPELINE_ACTIONS: PipelineAction[] = ['process', 'download', 'validation', 'quality', 'upload', 'publish'];
+// Progress not refreshed for this long belongs to a worker that died mid-stage.
+const LIVE_PROGRESS_STALE_MS = 2 * 60 * 1000;
+
+const PIPELINE_ACTIONS: PipelineAction[] = ['process', 'download', 'validation', 'quality', 'metadata', 'upload', 'publish'];
 const PIPELINE_ACTION_SET = new Set<string>(PIPELINE_ACTIONS);
 
 function normalizeMessage(value: string | null | undefined): string {
   return typeof value === 'string' ? value.trim() : '';
 }
 
+function isAwaitingRetry(short: ShortsData): boolean {
+  return (
+    short.status === 'Pending' &&
+    Boolean(short.next_attempt_at) &&
+    new Date(short.next_attempt_at as string).getTime() > Date.now()
+  );
+}
+
+function resolveLiveProgress(short: ShortsData): LiveProgress | null {
+  const progress = short.progress;
+  if (!progress || !progress.updated_at || (short.status !== 'Pending' && short.status !== 'Downloaded' && short.status !== 'Uploading')) {
+    return null;
+  }
+
+  if (Date.now() - new Date(progress.updated_at).getTime() > LIVE_PROGRESS_STALE_MS) {
+    return null;
+  }
+
+  return {
+    stage: progress.stage,
+    percent: progress.percent,
+    eta_seconds: progress.eta_seconds,
+    speed: progress.speed,
+  };
+}
+
 function fallbackPipelineState(short: ShortsData): LivePipelineState {
+  if (isAwaitingRetry(short)) {
+    return {
+      live_stage: 'Retry Scheduled',
+      live_message: `Attempt ${short.retry_count} failed (${short.failure_reason || 'unknown'}); next attempt at ${short.next_attempt_at}`,
+      live_at: short.updated_at,
+      live_action: null,
+      live_action_status: null,
+    };
+  }
+
   if (short.status === 'Pending') {
     return {
       live_stage: 'Queue Pending',
@@ -80,6 +128,16 @@ function fallbackPipelineState(short: ShortsData): LivePipelineState {
     };
   }
 
+  if (short.status === 'Skipped') {
+    return {
+      live_stage: 'Skipped',
+      live_message: normalizeMessage(short.error_log) || 'Skipped during failure triage',
+      live_at: short.updated_at,
+      live_action: null,
+      live_action_status: null,
+    };
+  }
+
   if (short.status === 'Uploaded') {
     if (short.scheduled_date) {
       return {
@@ -145,8 +203,9 @@ function pipelineStateFromLog(short: ShortsData, log: PipelineLogRow): LivePipel
   }
 
   if (action === 'validation') {
+    const stage = message.toLowerCase().includes('starting') ? 'Validating' : 'Downloaded';
     return {
-      live_stage: 'Validating',
+      live_stage: stage,
       live_message: message || 'Validation completed',
       live_at: log.created_at,
       live_action: action,
@@ -166,6 +225,16 @@ function pipelineStateFromLog(short: ShortsData, log: PipelineLogRow): LivePipel
     };
   }
 
+  if (action === 'metadata') {
+    return {
+      live_stage: 'Metadata Ready',
+      live_message: message || 'Upload metadata prepared',
+      live_at: log.created_at,
+      live_action: action,
+      live_action_status: log.status,
+    };
+  }
+
   if (action === 'upload') {
     const lower = message.toLowerCase();
     const stage = lower.includes('starting') ? 'Uploading' : 'Upload Complete';
@@ -238,16 +307,18 @@ async function attachLivePipelineState(shorts: ShortsData[]): Promise<Array<Shor
 
   return shorts.map((short) => {
     const latestLog = latestByShortId.get(short.id);
-    if (!latestLog) {
+    if (!latestLog || isAwaitingRetry(short) || short.status === 'Skipped') {
       return {
         ...short,
         ...fallbackPipelineState(short),
+        live_progress: resolveLiveProgress(short),
       };
     }
 
     return {
       ...short,
       ...pipelineStateFromLog(short, latestLog),
+      live_progress: resolveLiveProgress(short),
     };
   });
 }
@@ -817,6 +888,9 @@ export async function DELETE(request: NextRequest) {
     }
     
     const success = await deleteShort(id);
+    if (success) {
+      await deleteShortThumbnails(id);
+    }
     return NextResponse.json({ success });
   } catch (error) {
     console.error('Videos DELETE error:', error);
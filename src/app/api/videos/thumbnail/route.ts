@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLog, getChannelMappingById, getShortById, updateShort } from '@/lib/supabase/database';
+import {
+  readThumbnailImage,
+  resolveThumbnailRenderOptions,
+  selectThumbnailCandidate,
+  uploadShortThumbnail,
+} from '@/lib/youtube/thumbnails';
+
+// GET - Serve a thumbnail candidate or the rendered thumbnail of a short (?shortId=&file=)
+export async function GET(request: NextRequest) {
+  try {
+    const shortId = request.nextUrl.searchParams.get('shortId') || '';
+    const file = request.nextUrl.searchParams.get('file') || '';
+    const image = shortId && file ? await readThumbnailImage(shortId, file) : null;
+    if (!image) {
+      return NextResponse.json(
+        { success: false, error: 'Thumbnail not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Thumbnail GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load thumbnail' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Override the thumbnail with another candidate ({ shortId, file }) or retry sending it ({ shortId }).
+// Uploaded shorts get the new thumbnail on YouTube right away.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const shortId = typeof body?.shortId === 'string' ? body.shortId.trim() : '';
+    const file = typeof body?.file === 'string' ? body.file.trim() : '';
+    if (!shortId) {
+      return NextResponse.json(
+        { success: false, error: 'shortId is required' },
+        { status: 400 }
+      );
+    }
+
+    const short = await getShortById(shortId);
+    if (!short || !short.thumbnail) {
+      return NextResponse.json(
+        { success: false, error: 'No thumbnail candidates for this short' },
+        { status: 404 }
+      );
+    }
+
+    let thumbnail = short.thumbnail;
+    if (file && file !== thumbnail.selected) {
+      const mapping = short.mapping_id ? await getChannelMappingById(short.mapping_id) : null;
+      const selected = await selectThumbnailCandidate(
+        short.id,
+        thumbnail,
+        file,
+        await resolveThumbnailRenderOptions(mapping, short.ai_title || short.title)
+      );
+      if (!selected.thumbnail) {
+        return NextResponse.json(
+          { success: false, error: selected.error || 'Failed to render thumbnail' },
+          { status: 400 }
+        );
+      }
+      thumbnail = selected.thumbnail;
+    }
+
+    let warning: string | undefined;
+    if (short.status === 'Uploaded' && short.target_video_id) {
+      const sent = await uploadShortThumbnail(short.id, short.mapping_id, short.target_video_id, thumbnail);
+      thumbnail = sent.thumbnail;
+      warning = sent.error;
+      await createLog(
+        short.id,
+        'publish',
+        sent.error ? 'error' : 'success',
+        sent.error ? `Custom thumbnail not set: ${sent.error}` : 'Custom thumbnail set from manual override'
+      );
+    }
+
+    const saved = await updateShort(short.id, { thumbnail });
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to save thumbnail selection' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, thumbnail, warning });
+  } catch (error) {
+    console.error('Thumbnail POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update thumbnail' },
+      { status: 500 }
+    );
+  }
+}
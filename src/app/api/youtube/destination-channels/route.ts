@@ -5,6 +5,7 @@ import {
   getDestinationChannelsWithTokens,
   saveDestinationChannels,
 } from '@/lib/youtube/destination-channels';
+import { normalizeUploadMetadataSettings } from '@/lib/youtube/upload-metadata';
 
 export async function GET() {
   try {
@@ -47,6 +48,7 @@ export async function POST(request: NextRequest) {
         channel_id,
         channel_title,
         refresh_token,
+        upload_defaults: null,
         connected_at: now,
         updated_at: now,
       });
@@ -59,6 +61,7 @@ export async function POST(request: NextRequest) {
       channels: existing.map((channel) => ({
         channel_id: channel.channel_id,
         channel_title: channel.channel_title,
+        upload_defaults: channel.upload_defaults,
         connected_at: channel.connected_at,
         updated_at: channel.updated_at,
       })),
@@ -76,10 +79,11 @@ export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
     const { channel_id, channel_title } = body;
+    const hasUploadDefaults = Boolean(body) && 'upload_defaults' in body;
 
-    if (!channel_id || !channel_title) {
+    if (!channel_id || (!channel_title && !hasUploadDefaults)) {
       return NextResponse.json(
-        { success: false, error: 'channel_id and channel_title are required' },
+        { success: false, error: 'channel_id and channel_title or upload_defaults are required' },
         { status: 400 }
       );
     }
@@ -96,7 +100,10 @@ export async function PUT(request: NextRequest) {
 
     existing[index] = {
       ...existing[index],
-      channel_title,
+      channel_title: channel_title || existing[index].channel_title,
+      upload_defaults: hasUploadDefaults
+        ? normalizeUploadMetadataSettings(body.upload_defaults)
+        : existing[index].upload_defaults,
       updated_at: new Date().toISOString(),
     };
 
@@ -107,6 +114,7 @@ export async function PUT(request: NextRequest) {
       channel: {
         channel_id: existing[index].channel_id,
         channel_title: existing[index].channel_title,
+        upload_defaults: existing[index].upload_defaults,
         connected_at: existing[index].connected_at,
         updated_at: existing[index].updated_at,
       },
@@ -153,6 +161,7 @@ export async function DELETE(request: NextRequest) {
       channels: filtered.map((channel) => ({
         channel_id: channel.channel_id,
         channel_title: channel.channel_title,
+        upload_defaults: channel.upload_defaults,
         connected_at: channel.connected_at,
         updated_at: channel.updated_at,
       })),
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getConfig, setConfig } from '@/lib/supabase/database';
+import { rememberAccessToken } from '@/lib/youtube/access-tokens';
 import { upsertDestinationChannelsFromOAuth } from '@/lib/youtube/destination-channels';
+import { oauthClientQuotaCredential, recordQuotaUsage } from '@/lib/youtube/quota';
 
 export const runtime = 'nodejs';
 
@@ -171,6 +173,7 @@ export async function GET(request: NextRequest) {
     const tokenData = (await tokenResponse.json()) as {
       access_token?: string;
       refresh_token?: string;
+      expires_in?: number;
     };
 
     if (!tokenData.access_token) {
@@ -194,6 +197,7 @@ export async function GET(request: NextRequest) {
         Authorization: `Bearer ${tokenData.access_token}`,
       },
     });
+    await recordQuotaUsage(oauthClientQuotaCredential(clientId), 'channels.list');
 
     if (!channelsResponse.ok) {
       const body = await channelsResponse.text();
@@ -225,6 +229,7 @@ export async function GET(request: NextRequest) {
     }
 
     await upsertDestinationChannelsFromOAuth(channels, tokenData.refresh_token);
+    await rememberAccessToken(tokenData.refresh_token, tokenData.access_token, tokenData.expires_in);
 
     // Keep backward compatibility: if global refresh token is empty, set first channel token.
     const existingGlobalToken = await getConfig('youtube_refresh_token');
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getQuotaBudget, getQuotaDay, getQuotaResetAt, listQuotaStatuses } from '@/lib/youtube/quota';
+
+// GET - Today's YouTube Data API quota usage per API key / OAuth client
+export async function GET() {
+  try {
+    const [credentials, budget] = await Promise.all([listQuotaStatuses(), getQuotaBudget()]);
+    return NextResponse.json({
+      success: true,
+      quota: {
+        quota_day: getQuotaDay(),
+        reset_at: getQuotaResetAt(),
+        budget,
+        credentials,
+      },
+    });
+  } catch (error) {
+    console.error('YouTube quota GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load quota usage' },
+      { status: 500 }
+    );
+  }
+}
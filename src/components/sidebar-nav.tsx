@@ -1,6 +1,6 @@
 'use client';
 
-import { Activity, Eye, Link2, Settings, Sparkles, UploadCloud, UserRoundPlus, Video, Zap } from 'lucide-react';
+import { Activity, AlertTriangle, Eye, Link2, Settings, Sparkles, UploadCloud, UserRoundPlus, Video, Zap } from 'lucide-react';
 
 const navItems = [
   { id: 'dashboard', label: 'Dashboard', icon: Activity },
@@ -8,6 +8,7 @@ const navItems = [
   { id: 'destinations', label: 'Destinations', icon: UploadCloud },
   { id: 'mappings', label: 'Mappings', icon: Link2 },
   { id: 'videos', label: 'Videos', icon: Video },
+  { id: 'triage', label: 'Triage', icon: AlertTriangle },
   { id: 'config', label: 'Settings', icon: Settings },
   { id: 'logs', label: 'Logs', icon: Eye },
 ];
@@ -0,0 +1,79 @@
+import { getConfig } from '@/lib/supabase/database';
+import type { PipelineStageName } from '@/lib/pipeline/engine';
+
+export type LimitedStageName = Extract<PipelineStageName, 'download' | 'enhance' | 'upload'>;
+
+export const LIMITED_STAGES: LimitedStageName[] = ['download', 'enhance', 'upload'];
+
+// A single transcode already saturates a small VPS; downloads and uploads are mostly I/O.
+export const DEFAULT_STAGE_CONCURRENCY: Record<LimitedStageName, number> = {
+  download: 2,
+  enhance: 1,
+  upload: 2,
+};
+
+export const DEFAULT_PIPELINE_WORKERS = 3;
+export const MAX_STAGE_CONCURRENCY = 8;
+
+const STAGE_CONCURRENCY_CONFIG_KEYS: Record<LimitedStageName, string> = {
+  download: 'concurrency_download',
+  enhance: 'concurrency_enhance',
+  upload: 'concurrency_upload',
+};
+
+interface StageGate {
+  active: number;
+  waiters: Array<() => void>;
+}
+
+// Gates are per server process: every pipeline run goes through the same Next.js instance.
+const stageGates = new Map<LimitedStageName, StageGate>(
+  LIMITED_STAGES.map((stage) => [stage, { active: 0, waiters: [] }])
+);
+
+export function isLimitedStage(stage: PipelineStageName): stage is LimitedStageName {
+  return (LIMITED_STAGES as PipelineStageName[]).includes(stage);
+}
+
+export function normalizeConcurrency(raw: unknown, fallback: number): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseInt(String(raw ?? ''), 10);
+  if (!Number.isFinite(numeric) || numeric < 1) {
+    return fallback;
+  }
+  return Math.min(MAX_STAGE_CONCURRENCY, Math.floor(numeric));
+}
+
+export async function getStageConcurrencyLimit(stage: LimitedStageName): Promise<number> {
+  return normalizeConcurrency(await getConfig(STAGE_CONCURRENCY_CONFIG_KEYS[stage]), DEFAULT_STAGE_CONCURRENCY[stage]);
+}
+
+// Number of process_next jobs one worker call runs side by side.
+export async function getPipelineWorkerCount(): Promise<number> {
+  return normalizeConcurrency(await getConfig('pipeline_workers'), DEFAULT_PIPELINE_WORKERS);
+}
+
+// Wait for a free slot of the stage; the returned release must be called exactly once.
+export async function acquireStageSlot(stage: LimitedStageName): Promise<() => void> {
+  const gate = stageGates.get(stage) as StageGate;
+
+  // The limit is re-read on every wake-up so Settings changes apply without a restart
+  for (;;) {
+    const limit = await getStageConcurrencyLimit(stage);
+    if (gate.active < limit) {
+      break;
+    }
+    await new Promise<void>((resolve) => gate.waiters.push(resolve));
+  }
+
+  gate.active++;
+  let released = false;
+
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    gate.active--;
+    gate.waiters.shift()?.();
+  };
+}
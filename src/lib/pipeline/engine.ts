@@ -0,0 +1,139 @@
+import { createLog, updateShort, type ChannelMapping } from '@/lib/supabase/database';
+import type { ShortsData } from '@/lib/supabase/client';
+import { deleteVideo } from '@/lib/youtube/video-handler';
+import { isCachedDownload, releaseCachedDownload } from '@/lib/youtube/download-cache';
+import { classifyFailure, recordPipelineFailure, type PipelineFailure } from '@/lib/pipeline/failures';
+import { acquireStageSlot, isLimitedStage } from '@/lib/pipeline/concurrency';
+
+export type PipelineStageName =
+  | 'download'
+  | 'validate'
+  | 'fingerprint'
+  | 'subtitles'
+  | 'enhance'
+  | 'metadata'
+  | 'thumbnail'
+  | 'upload'
+  | 'publish';
+
+export type PipelineLogAction = 'process' | 'download' | 'validation' | 'quality' | 'metadata' | 'upload' | 'publish';
+
+export interface PipelineContext {
+  short: ShortsData;
+  workerId: string;
+  mappingId: string | null;
+  // Loaded once per run so every stage sees the same per-mapping settings
+  mapping: ChannelMapping | null;
+  // Attempts allowed before a transient failure becomes terminal
+  maxAttempts: number;
+  // Files created while processing; removed when the run ends or fails
+  tempFiles: Set<string>;
+}
+
+export type StageOutcome<TOutput> =
+  | { ok: true; output: TOutput; message?: string }
+  // skip ends the run with status Skipped instead of recording a failure
+  | { ok: false; error: string; failure?: PipelineFailure; skip?: boolean };
+
+export interface PipelineStage<TInput, TOutput> {
+  name: PipelineStageName;
+  logAction: PipelineLogAction;
+  startMessage?: string;
+  // Status written to the short before / after the stage runs
+  statusOnStart?: ShortsData['status'];
+  statusOnSuccess?: ShortsData['status'];
+  run: (context: PipelineContext, input: TInput) => Promise<StageOutcome<TOutput>>;
+}
+
+export interface PipelineHooks {
+  beforeStage?: (stage: PipelineStageName, context: PipelineContext) => Promise<void>;
+  afterStage?: (
+    stage: PipelineStageName,
+    context: PipelineContext,
+    outcome: { ok: boolean; error?: string }
+  ) => Promise<void>;
+}
+
+export async function cleanupPipelineFiles(paths: Iterable<string | null | undefined>): Promise<void> {
+  const uniquePaths = Array.from(
+    new Set(Array.from(paths).map((value) => (typeof value === 'string' ? value.trim() : '')).filter(Boolean))
+  );
+
+  for (const filePath of uniquePaths) {
+    // Shared downloads are released, not deleted: other mappings may still be using the file
+    if (isCachedDownload(filePath)) {
+      releaseCachedDownload(filePath);
+    } else {
+      await deleteVideo(filePath);
+    }
+  }
+}
+
+// Run one stage with uniform logging, status updates and failure handling.
+// Download, enhance and upload first wait for a slot under their configured concurrency limit.
+export async function runStage<TInput, TOutput>(
+  context: PipelineContext,
+  stage: PipelineStage<TInput, TOutput>,
+  input: TInput,
+  hooks: PipelineHooks = {}
+): Promise<StageOutcome<TOutput>> {
+  const shortId = context.short.id;
+  const releaseSlot = isLimitedStage(stage.name) ? await acquireStageSlot(stage.name) : null;
+
+  let outcome: StageOutcome<TOutput>;
+  try {
+    if (hooks.beforeStage) {
+      await hooks.beforeStage(stage.name, context);
+    }
+
+    if (stage.statusOnStart) {
+      await updateShort(shortId, { status: stage.statusOnStart });
+    }
+
+    if (stage.startMessage) {
+      await createLog(shortId, stage.logAction, 'success', stage.startMessage);
+    }
+
+    try {
+      outcome = await stage.run(context, input);
+    } catch (error) {
+      console.error(`Pipeline stage ${stage.name} failed for short ${shortId}:`, error);
+      outcome = {
+        ok: false,
+        error: error instanceof Error ? error.message : `${stage.name} failed`,
+      };
+    }
+  } finally {
+    releaseSlot?.();
+  }
+
+  if (outcome.ok) {
+    if (stage.statusOnSuccess) {
+      await updateShort(shortId, { status: stage.statusOnSuccess });
+    }
+    if (outcome.message) {
+      await createLog(shortId, stage.logAction, 'success', outcome.message);
+    }
+  } else if (outcome.skip) {
+    await cleanupPipelineFiles(context.tempFiles);
+    context.tempFiles.clear();
+    await updateShort(shortId, {
+      status: 'Skipped',
+      error_log: outcome.error,
+      failure_reason: classifyFailure(outcome.error).code,
+      next_attempt_at: null,
+    });
+    await createLog(shortId, stage.logAction, 'error', `Skipped: ${outcome.error}`);
+  } else {
+    await cleanupPipelineFiles(context.tempFiles);
+    context.tempFiles.clear();
+    await createLog(shortId, stage.logAction, 'error', outcome.error);
+    outcome = { ...outcome, failure: await recordPipelineFailure(context, stage.name, outcome.error) };
+  }
+
+  if (hooks.afterStage) {
+    await hooks.afterStage(stage.name, context, outcome.ok ? { ok: true } : { ok: false, error: outcome.error });
+  }
+
+  return outcome;
+}
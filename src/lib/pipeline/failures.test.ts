@@ -0,0 +1,85 @@
+/// <reference types="bun-types" />
+import { describe, expect, mock, test } from 'bun:test';
+import type { FailureReasonCode } from '@/lib/pipeline/failures';
+
+// Retries are recorded through the database module; classification never reaches it
+const noDatabase = async () => null;
+mock.module('@/lib/supabase/database', () => ({
+  createLog: noDatabase,
+  getChannelMappingById: noDatabase,
+  getConfig: noDatabase,
+  getShortById: noDatabase,
+  getYoutubeQuotaUsage: noDatabase,
+  recordYoutubeQuotaUsage: noDatabase,
+  updateShort: noDatabase,
+}));
+
+const { classifyFailure, isPermanentFailureCode, normalizeMaxAttempts, retryDelayMs } = await import(
+  '@/lib/pipeline/failures'
+);
+
+describe('classifyFailure', () => {
+  test.each<[string, FailureReasonCode]>([
+    ['ERROR: [youtube] abc: Private video. Sign in if you have been granted access', 'private_video'],
+    ['ERROR: [youtube] abc: Sign in to confirm your age', 'age_restricted'],
+    ['ERROR: [youtube] abc: Video unavailable. This video has been removed by the uploader', 'video_unavailable'],
+    ['Video is not vertical (1920x1080)', 'not_vertical'],
+    ['Near-duplicate of xyz already uploaded to this destination', 'duplicate_content'],
+    ['Upload initialization failed: {"error":{"errors":[{"reason":"invalidTitle"}]}}', 'invalid_metadata'],
+    [
+      'Destination needs reconnect: Google rejected its refresh token (invalid_grant). Reconnect the channel from mapping screen.',
+      'destination_auth',
+    ],
+  ])('%s is permanent (%s)', (message, code) => {
+    expect(classifyFailure(message)).toEqual({ kind: 'permanent', code });
+  });
+
+  test.each<[string, FailureReasonCode]>([
+    ['Upload failed: quotaExceeded', 'quota_exceeded'],
+    ['Insufficient disk space for transcode: 1.2 GB free', 'disk_space'],
+    ['write failed: ENOSPC', 'disk_space'],
+    ['Chunk upload failed: 429 Too Many Requests', 'rate_limited'],
+    ['ERROR: unable to download video data: HTTP Error 503: Service Unavailable', 'server_error'],
+    ['request to https://www.googleapis.com failed: socket hang up', 'network_error'],
+    ['Command timed out after 600000ms', 'timeout'],
+    ['Video enhancement failed for FULLHD: ffmpeg exited with code 1', 'transcode_failed'],
+    ['something nobody anticipated', 'unknown'],
+  ])('%s is transient (%s)', (message, code) => {
+    expect(classifyFailure(message)).toEqual({ kind: 'transient', code });
+  });
+
+  test('token refresh failures other than invalid_grant stay retryable', () => {
+    expect(classifyFailure('Failed to get access token (status 503): backend unavailable')).toEqual({
+      kind: 'transient',
+      code: 'server_error',
+    });
+    expect(classifyFailure('Failed to get access token: fetch failed')).toEqual({
+      kind: 'transient',
+      code: 'network_error',
+    });
+  });
+
+  test('specific YouTube reasons win over generic HTTP status matches', () => {
+    expect(classifyFailure('HTTP Error 500 while uploading: quotaExceeded').code).toBe('quota_exceeded');
+  });
+});
+
+describe('retry helpers', () => {
+  test('only permanent codes stop retries', () => {
+    expect(isPermanentFailureCode('destination_auth')).toBe(true);
+    expect(isPermanentFailureCode('network_error')).toBe(false);
+    expect(isPermanentFailureCode(null)).toBe(false);
+  });
+
+  test('backoff doubles from five minutes and is capped at six hours', () => {
+    expect(retryDelayMs(1)).toBe(5 * 60 * 1000);
+    expect(retryDelayMs(3)).toBe(20 * 60 * 1000);
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  test('max attempts fall back to the default and are capped', () => {
+    expect(normalizeMaxAttempts('abc')).toBe(3);
+    expect(normalizeMaxAttempts('0')).toBe(3);
+    expect(normalizeMaxAttempts(50)).toBe(10);
+  });
+});
@@ -0,0 +1,177 @@
+import { createLog, getChannelMappingById, getConfig, getShortById, updateShort } from '@/lib/supabase/database';
+import { getQuotaResetAt } from '@/lib/youtube/quota';
+import type { PipelineContext, PipelineStageName } from '@/lib/pipeline/engine';
+
+export type FailureKind = 'transient' | 'permanent';
+
+export type FailureReasonCode =
+  // Transient: worth retrying later
+  | 'network_error'
+  | 'server_error'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'disk_space'
+  | 'download_interrupted'
+  | 'timeout'
+  | 'transcode_failed'
+  | 'unknown'
+  // Permanent: retrying cannot help
+  | 'video_unavailable'
+  | 'private_video'
+  | 'age_restricted'
+  | 'geo_blocked'
+  | 'copyright_blocked'
+  | 'not_vertical'
+  | 'invalid_duration'
+  | 'no_video_stream'
+  | 'invalid_metadata'
+  | 'destination_auth'
+  | 'duplicate_content';
+
+export interface ClassifiedFailure {
+  kind: FailureKind;
+  code: FailureReasonCode;
+}
+
+export interface PipelineFailure extends ClassifiedFailure {
+  attempt: number;
+  maxAttempts: number;
+  // Set when the short went back to Pending for another attempt
+  retryAt: string | null;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const MAX_ATTEMPTS_LIMIT = 10;
+
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// Enough for running jobs to finish and release their files
+const DISK_SPACE_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// Checked in order; the first match wins, so specific YouTube reasons come before generic HTTP ones.
+const FAILURE_PATTERNS: Array<{ code: FailureReasonCode; kind: FailureKind; pattern: RegExp }> = [
+  { code: 'quota_exceeded', kind: 'transient', pattern: /quotaExceeded|dailyLimitExceeded|quota budget reached/i },
+  { code: 'disk_space', kind: 'transient', pattern: /insufficient disk space|ENOSPC|no space left on device/i },
+  { code: 'rate_limited', kind: 'transient', pattern: /rateLimitExceeded|uploadLimitExceeded|too many requests|\b429\b/i },
+  { code: 'private_video', kind: 'permanent', pattern: /private video|video is private/i },
+  { code: 'age_restricted', kind: 'permanent', pattern: /confirm your age|age[- ]restricted/i },
+  { code: 'geo_blocked', kind: 'permanent', pattern: /not available in your country|geo[- ]?restrict/i },
+  { code: 'copyright_blocked', kind: 'permanent', pattern: /copyright/i },
+  {
+    code: 'video_unavailable',
+    kind: 'permanent',
+    pattern: /video unavailable|has been removed|no longer available|account .* (terminated|closed)|members[- ]only/i,
+  },
+  { code: 'not_vertical', kind: 'permanent', pattern: /not vertical/i },
+  { code: 'duplicate_content', kind: 'permanent', pattern: /near-duplicate/i },
+  { code: 'invalid_duration', kind: 'permanent', pattern: /invalid video duration/i },
+  { code: 'no_video_stream', kind: 'permanent', pattern: /no video stream/i },
+  {
+    code: 'invalid_metadata',
+    kind: 'permanent',
+    pattern: /invalidTitle|invalidDescription|invalidTags|invalidCategoryId|invalidVideoMetadata/i,
+  },
+  {
+    code: 'destination_auth',
+    kind: 'permanent',
+    pattern: /invalid_grant|needs reconnect|is not connected|OAuth credentials not configured/i,
+  },
+  { code: 'download_interrupted', kind: 'transient', pattern: /fragment|incomplete (read|data)|unexpected end of file/i },
+  {
+    code: 'server_error',
+    kind: 'transient',
+    pattern: /HTTP Error 5\d\d|status(?: code)?:? 5\d\d|internal server error|service unavailable|bad gateway|backendError/i,
+  },
+  {
+    code: 'network_error',
+    kind: 'transient',
+    pattern: /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|ENETUNREACH|socket hang up|fetch failed|connection (reset|refused|aborted)|network/i,
+  },
+  { code: 'timeout', kind: 'transient', pattern: /timed? ?out|ETIMEDOUT|SIGTERM|killed/i },
+  { code: 'transcode_failed', kind: 'transient', pattern: /video enhancement failed|ffmpeg|ffprobe/i },
+];
+
+// Unrecognised errors are treated as transient and left to the attempt limit.
+export function classifyFailure(message: string): ClassifiedFailure {
+  for (const entry of FAILURE_PATTERNS) {
+    if (entry.pattern.test(message)) {
+      return { kind: entry.kind, code: entry.code };
+    }
+  }
+  return { kind: 'transient', code: 'unknown' };
+}
+
+export function isPermanentFailureCode(code: string | null | undefined): boolean {
+  return FAILURE_PATTERNS.some((entry) => entry.code === code && entry.kind === 'permanent');
+}
+
+// 5m, 10m, 20m, ... capped at 6h.
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+export function normalizeMaxAttempts(raw: unknown, fallback: number = DEFAULT_MAX_ATTEMPTS): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseInt(String(raw ?? ''), 10);
+  if (!Number.isFinite(numeric) || numeric < 1) {
+    return fallback;
+  }
+  return Math.min(MAX_ATTEMPTS_LIMIT, Math.floor(numeric));
+}
+
+// Mapping setting first, then the global max_retry_count config.
+export async function resolveMaxAttempts(mappingId: string | null | undefined): Promise<number> {
+  const globalMax = normalizeMaxAttempts(await getConfig('max_retry_count'));
+  if (!mappingId) {
+    return globalMax;
+  }
+
+  const mapping = await getChannelMappingById(mappingId);
+  return normalizeMaxAttempts(mapping?.max_attempts, globalMax);
+}
+
+// Persist a stage failure: transient errors go back to Pending with a backoff, the rest are terminal.
+export async function recordPipelineFailure(
+  context: PipelineContext,
+  stage: PipelineStageName,
+  error: string
+): Promise<PipelineFailure> {
+  const classified = classifyFailure(error);
+  const current = await getShortById(context.short.id);
+  const previousAttempts = current?.retry_count ?? context.short.retry_count ?? 0;
+  // Quota exhaustion and a full disk say nothing about the video, so the short is deferred without using up an attempt
+  const deferred = classified.code === 'quota_exceeded' || classified.code === 'disk_space';
+  const attempt = deferred ? previousAttempts : previousAttempts + 1;
+  const retryable = classified.kind === 'transient' && (deferred || attempt < context.maxAttempts);
+  const retryAt = retryable
+    ? classified.code === 'quota_exceeded'
+      ? getQuotaResetAt()
+      : classified.code === 'disk_space'
+        ? new Date(Date.now() + DISK_SPACE_RETRY_DELAY_MS).toISOString()
+        : new Date(Date.now() + retryDelayMs(attempt)).toISOString()
+    : null;
+
+  await updateShort(context.short.id, {
+    status: retryable ? 'Pending' : 'Failed',
+    retry_count: attempt,
+    next_attempt_at: retryAt,
+    failure_reason: classified.code,
+    error_log: error,
+  });
+
+  const failure: PipelineFailure = { ...classified, attempt, maxAttempts: context.maxAttempts, retryAt };
+  await createLog(
+    context.short.id,
+    'retry',
+    retryable ? 'success' : 'error',
+    deferred
+      ? `Deferred at ${stage} (${classified.code}) until ${retryAt}; attempt not counted`
+      : retryable
+        ? `Attempt ${attempt}/${context.maxAttempts} failed at ${stage} (${classified.code}); retrying at ${retryAt}`
+        : classified.kind === 'permanent'
+          ? `Permanent failure at ${stage} (${classified.code}); not retrying`
+          : `Attempt ${attempt}/${context.maxAttempts} failed at ${stage} (${classified.code}); no attempts left`,
+    { stage, ...failure }
+  );
+
+  return failure;
+}
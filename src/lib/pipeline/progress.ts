@@ -0,0 +1,46 @@
+import { updateShort } from '@/lib/supabase/database';
+import type { CommandProgress } from '@/lib/youtube/command-runner';
+import type { PipelineStageName } from '@/lib/pipeline/engine';
+
+// At most one progress write per short every couple of seconds.
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+export interface ProgressReporter {
+  report: (progress: CommandProgress) => void;
+  clear: () => Promise<void>;
+}
+
+// Throttled writer of shorts_data.progress for one running stage.
+export function createProgressReporter(shortId: string, stage: PipelineStageName): ProgressReporter {
+  let lastWriteAt = 0;
+  let lastPercent: number | null = null;
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+
+  return {
+    report(progress) {
+      const now = Date.now();
+      const finished = progress.percent === 100 && lastPercent !== 100;
+      if (!finished && now - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) {
+        return;
+      }
+
+      lastWriteAt = now;
+      lastPercent = progress.percent;
+      pendingWrite = pendingWrite.then(() =>
+        updateShort(shortId, {
+          progress: {
+            stage,
+            percent: progress.percent,
+            eta_seconds: progress.etaSeconds,
+            speed: progress.speed,
+            updated_at: new Date(now).toISOString(),
+          },
+        })
+      );
+    },
+    async clear() {
+      await pendingWrite.catch(() => undefined);
+      await updateShort(shortId, { progress: null });
+    },
+  };
+}
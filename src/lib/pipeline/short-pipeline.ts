@@ -0,0 +1,785 @@
+import {
+  createLog,
+  getChannelMappingById,
+  getConfig,
+  getTranscodeProfileById,
+  getUploadedFingerprints,
+  recordUploadedFingerprint,
+  updateShort,
+} from '@/lib/supabase/database';
+import type { MediaProbe, ShortsData } from '@/lib/supabase/client';
+import { enhanceContent } from '@/lib/ai-enhancement';
+import {
+  downloadSubtitles,
+  downloadVideo,
+  estimateDownloadBytes,
+  estimateRenderBytes,
+  getVideoFileSize,
+  isDownloadCached,
+  prepareVideoForUpload,
+  resolveDefaultTranscodeSettings,
+  validateVideo,
+} from '@/lib/youtube/video-handler';
+import { describeTranscodeSettings, toTranscodeSettings, type TranscodeSettings } from '@/lib/youtube/transcode-profiles';
+import { ensureDiskSpace } from '@/lib/youtube/disk-space';
+import { isCachedDownload, retainCachedDownload } from '@/lib/youtube/download-cache';
+import { uploadVideoWithProgress } from '@/lib/youtube/uploader';
+import { resolveMappingRefreshToken } from '@/lib/youtube/destination-channels';
+import { resolveUploadBehavior, type UploadBehavior } from '@/lib/youtube/upload-settings';
+import { normalizeReframeMode, type ReframeMode } from '@/lib/youtube/reframe';
+import { resolveBrandingAssets } from '@/lib/youtube/branding';
+import { resolveMappingAudio } from '@/lib/youtube/audio';
+import { describeMediaProbe } from '@/lib/youtube/media-probe';
+import { computeFingerprint, findNearDuplicate, normalizeDuplicateThreshold } from '@/lib/youtube/fingerprint';
+import {
+  generateThumbnail,
+  normalizeThumbnailMode,
+  resolveThumbnailFile,
+  resolveThumbnailRenderOptions,
+  uploadShortThumbnail,
+} from '@/lib/youtube/thumbnails';
+import { normalizeTransformChain, type TransformOperation } from '@/lib/youtube/transforms';
+import {
+  normalizeSubtitleSettings,
+  retimeSubtitleCues,
+  uploadShortCaptions,
+  type SubtitleTrack,
+} from '@/lib/youtube/subtitles';
+import {
+  buildSourceTagBlockList,
+  buildUploadTags,
+  describeUploadMetadata,
+  filterBlockedTagValues,
+  stripBlockedHashtagsFromDescription,
+} from '@/lib/youtube/upload-metadata';
+import {
+  cleanupPipelineFiles,
+  runStage,
+  type PipelineContext,
+  type PipelineHooks,
+  type PipelineStage,
+  type PipelineStageName,
+} from '@/lib/pipeline/engine';
+import { resolveMaxAttempts, type PipelineFailure } from '@/lib/pipeline/failures';
+import { createProgressReporter } from '@/lib/pipeline/progress';
+
+interface DownloadOutput {
+  downloadPath: string;
+}
+
+interface ValidateOutput {
+  sourcePath: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  probe?: MediaProbe;
+}
+
+interface EnhanceInput {
+  sourcePath: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  probe?: MediaProbe;
+  subtitles?: SubtitleTrack | null;
+}
+
+interface EnhanceOutput {
+  uploadPath: string;
+  // Seconds of the output between the intro and outro clips; null when the output duration is unknown
+  contentWindow: { start: number; end: number } | null;
+  // Subtitles retimed to the output, for mappings that upload them as a caption track
+  captions: SubtitleTrack | null;
+}
+
+interface MetadataOutput {
+  behavior: UploadBehavior;
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+interface ThumbnailOutput {
+  thumbnailPath: string | null;
+}
+
+interface UploadOutput {
+  behavior: UploadBehavior;
+  videoId: string;
+}
+
+// A mapping without a profile (or whose profile was deleted) renders with the env-var defaults.
+async function resolveTranscodeSettings(context: PipelineContext): Promise<TranscodeSettings> {
+  const profileId = context.mapping?.transcode_profile_id;
+  const profile = profileId ? await getTranscodeProfileById(profileId) : null;
+  if (profileId && !profile) {
+    await createLog(context.short.id, 'quality', 'error', 'Transcode profile not found, using defaults');
+  }
+  return profile ? toTranscodeSettings(profile) : resolveDefaultTranscodeSettings();
+}
+
+// Shorts without a mapping keep the original behaviour of rejecting non-vertical sources
+function resolveReframeMode(context: PipelineContext): ReframeMode {
+  return context.mapping ? normalizeReframeMode(context.mapping.reframe_mode) : 'off';
+}
+
+// The render an interrupted upload was sending, if it is still on disk. Rendering again would change
+// the bytes (random background track, encoder differences) and the open session could not be resumed.
+async function findResumableRender(short: ShortsData): Promise<string | null> {
+  const session = short.upload_session;
+  if (!session?.file_path) {
+    return null;
+  }
+  return (await getVideoFileSize(session.file_path)) === session.file_size ? session.file_path : null;
+}
+
+// Where the short's own content sits between intro and outro, and its caption track retimed to the output
+function describeRenderedOutput(
+  input: EnhanceInput,
+  outputDuration: number | null,
+  branding: { introDuration: number; outroDuration: number; introApplied: boolean },
+  appliedTransforms: TransformOperation[],
+  captionTrack: boolean
+): Pick<EnhanceOutput, 'contentWindow' | 'captions'> {
+  return {
+    contentWindow:
+      outputDuration !== null
+        ? { start: branding.introDuration, end: outputDuration - branding.outroDuration }
+        : null,
+    captions:
+      input.subtitles && captionTrack
+        ? {
+            ...input.subtitles,
+            cues: retimeSubtitleCues(
+              input.subtitles.cues,
+              appliedTransforms,
+              input.duration ?? null,
+              branding.introApplied ? branding.introDuration : 0
+            ),
+          }
+        : null,
+  };
+}
+
+const downloadStage: PipelineStage<void, DownloadOutput> = {
+  name: 'download',
+  logAction: 'download',
+  startMessage: 'Starting download',
+  run: async (context) => {
+    // A cached copy needs no new space; otherwise a failed check defers the short instead of failing it
+    if (!(await isDownloadCached(context.short.video_id))) {
+      const space = await ensureDiskSpace(estimateDownloadBytes(context.short.duration), 'download');
+      if (!space.ok) {
+        return { ok: false, error: space.error || 'Insufficient disk space for download' };
+      }
+    }
+
+    const progress = createProgressReporter(context.short.id, 'download');
+    const result = await downloadVideo(context.short.video_url, context.short.video_id, {
+      onProgress: progress.report,
+    }).finally(progress.clear);
+    if (!result.success || !result.filePath) {
+      return { ok: false, error: result.error || 'Download failed' };
+    }
+
+    context.tempFiles.add(result.filePath);
+    return {
+      ok: true,
+      output: { downloadPath: result.filePath },
+      message: result.cached ? 'Reused cached download shared with other mappings' : undefined,
+    };
+  },
+};
+
+const validateStage: PipelineStage<DownloadOutput, ValidateOutput> = {
+  name: 'validate',
+  logAction: 'validation',
+  statusOnSuccess: 'Downloaded',
+  run: async (context, input) => {
+    const reframeMode = resolveReframeMode(context);
+    // Only the raw stream and duration are checked here; the frame shape is checked on the enhanced output
+    const validation = await validateVideo(input.downloadPath, { requireVertical: reframeMode === 'off' });
+    // Stored even for rejected sources, so the details dialog shows why
+    if (validation.probe) {
+      await updateShort(context.short.id, { media_probe: validation.probe });
+      context.short.media_probe = validation.probe;
+    }
+    if (!validation.valid) {
+      return { ok: false, error: validation.error || 'Validation failed' };
+    }
+
+    const durationLabel =
+      typeof validation.duration === 'number' && Number.isFinite(validation.duration)
+        ? ` (${validation.duration.toFixed(1)}s)`
+        : '';
+    const reframeLabel = validation.vertical === false ? `, will reframe with ${reframeMode}` : '';
+    const message = validation.probe
+      ? `Downloaded source ${describeMediaProbe(validation.probe)}${durationLabel}${reframeLabel}`
+      : `Downloaded to ${input.downloadPath}`;
+
+    return {
+      ok: true,
+      output: {
+        sourcePath: input.downloadPath,
+        width: validation.width,
+        height: validation.height,
+        duration: validation.duration,
+        probe: validation.probe,
+      },
+      message,
+    };
+  },
+};
+
+// Fingerprint the source and skip it when the destination already has a near-identical upload.
+const fingerprintStage: PipelineStage<{ sourcePath: string; duration?: number }, void> = {
+  name: 'fingerprint',
+  logAction: 'validation',
+  run: async (context, input) => {
+    const computed = await computeFingerprint(input.sourcePath, input.duration ?? context.short.duration);
+    if (!computed.fingerprint) {
+      // Best effort: a file we cannot fingerprint is still uploaded
+      return { ok: true, output: undefined, message: `Duplicate check skipped: ${computed.error}` };
+    }
+
+    await updateShort(context.short.id, { fingerprint: computed.fingerprint });
+    // Publish records it for the destination from the in-memory row
+    context.short.fingerprint = computed.fingerprint;
+
+    const threshold = normalizeDuplicateThreshold(await getConfig('duplicate_fingerprint_threshold'));
+    const targetChannel = context.short.target_channel || context.mapping?.target_channel_id || null;
+    if (threshold <= 0 || !targetChannel) {
+      return { ok: true, output: undefined };
+    }
+
+    const stored = await getUploadedFingerprints(targetChannel);
+    // Uploading without the comparison could publish a duplicate, so retry once the database answers
+    if (!stored) {
+      return { ok: false, error: 'Duplicate check failed: could not load uploaded fingerprints' };
+    }
+
+    const uploaded = stored.filter((entry) => entry.video_id !== context.short.video_id);
+    const duplicate = findNearDuplicate(computed.fingerprint, uploaded, threshold);
+    if (duplicate) {
+      return {
+        ok: false,
+        skip: true,
+        error:
+          `Near-duplicate of ${duplicate.match.video_id} already uploaded to this destination` +
+          ` (distance ${duplicate.distance.toFixed(3)}, threshold ${threshold})`,
+      };
+    }
+
+    return {
+      ok: true,
+      output: undefined,
+      message: `No near-duplicates among ${uploaded.length} upload(s) on this destination`,
+    };
+  },
+};
+
+// Fetch the source subtitles for burn-in or a caption track.
+// Best effort: a short without usable subtitles is uploaded without them.
+const subtitlesStage: PipelineStage<void, SubtitleTrack | null> = {
+  name: 'subtitles',
+  logAction: 'download',
+  run: async (context) => {
+    const settings = normalizeSubtitleSettings(context.mapping?.subtitles);
+    if (settings.mode === 'off') {
+      return { ok: true, output: null };
+    }
+
+    // Clones of one source share a video id, so files are also keyed by the short
+    const fetched = await downloadSubtitles(
+      context.short.video_url,
+      `${context.short.video_id}-${context.short.id}`,
+      settings
+    );
+    if (!fetched.track) {
+      return { ok: true, output: null, message: `Subtitles skipped: ${fetched.error}` };
+    }
+
+    const { track } = fetched;
+    return {
+      ok: true,
+      output: track,
+      message:
+        `Fetched ${track.automatic ? 'automatic ' : ''}${track.language} subtitles (${track.cues.length} cues)` +
+        ` for ${settings.mode === 'burn_in' ? 'burn-in' : 'a caption track'}`,
+    };
+  },
+};
+
+const enhanceStage: PipelineStage<EnhanceInput, EnhanceOutput> = {
+  name: 'enhance',
+  logAction: 'quality',
+  startMessage: 'Starting high-quality enhancement before upload',
+  run: async (context, input) => {
+    const durationSeconds = input.duration ?? context.short.duration;
+    const subtitleSettings = normalizeSubtitleSettings(context.mapping?.subtitles);
+    const transforms = normalizeTransformChain(context.mapping?.transforms);
+
+    // Not added to tempFiles: the upload stage owns the file until its session closes
+    const resumable = await findResumableRender(context.short);
+    const kept = resumable ? await validateVideo(resumable) : null;
+    if (resumable && kept?.valid) {
+      const branding = await resolveBrandingAssets(context.mapping?.branding);
+      const sentBytes = context.short.upload_session?.uploaded_bytes || 0;
+      return {
+        ok: true,
+        output: {
+          uploadPath: resumable,
+          ...describeRenderedOutput(
+            { ...input, duration: durationSeconds ?? undefined },
+            kept.duration ?? null,
+            {
+              introDuration: branding?.intro?.duration ?? 0,
+              outroDuration: branding?.outro?.duration ?? 0,
+              introApplied: Boolean(branding?.intro),
+            },
+            transforms,
+            subtitleSettings.mode === 'caption_track'
+          ),
+        },
+        message: `Reusing the render of an interrupted upload (${Math.round((sentBytes / (1024 * 1024)) * 10) / 10} MB already sent)`,
+      };
+    }
+
+    const transcode = await resolveTranscodeSettings(context);
+    const space = await ensureDiskSpace(
+      estimateRenderBytes(await getVideoFileSize(input.sourcePath), durationSeconds, transcode),
+      'transcode'
+    );
+    if (!space.ok) {
+      return { ok: false, error: space.error || 'Insufficient disk space for transcode' };
+    }
+
+    const branding = await resolveBrandingAssets(context.mapping?.branding);
+    const usableBranding =
+      branding && (branding.watermarkPath || branding.intro || branding.outro) ? branding : null;
+    if (branding && branding.missing.length > 0) {
+      await createLog(
+        context.short.id,
+        'quality',
+        'error',
+        `Branding asset(s) missing or unreadable, rendering without: ${branding.missing.join(', ')}`
+      );
+    }
+
+    const audio = await resolveMappingAudio(context.mapping);
+    if (audio.warning) {
+      await createLog(context.short.id, 'quality', 'error', audio.warning);
+    }
+
+    const progress = createProgressReporter(context.short.id, 'enhance');
+    // Clones of one source share a video id, so outputs are also keyed by the short
+    const prepared = await prepareVideoForUpload(input.sourcePath, `${context.short.video_id}-${context.short.id}`, null, {
+      durationSeconds,
+      onProgress: progress.report,
+      reframeMode: resolveReframeMode(context),
+      sourceWidth: input.width,
+      sourceHeight: input.height,
+      // A pre-downloaded source skips validation; its probe may be stored from the earlier download
+      probe: input.probe ?? context.short.media_probe,
+      branding: usableBranding,
+      audio: audio.options,
+      transcode,
+      transforms,
+      subtitles:
+        input.subtitles && subtitleSettings.mode === 'burn_in'
+          ? { cues: input.subtitles.cues, settings: subtitleSettings }
+          : null,
+    }).finally(progress.clear);
+    if (!prepared.success) {
+      return { ok: false, error: prepared.error };
+    }
+
+    context.tempFiles.add(prepared.filePath);
+
+    // Whatever gets uploaded must be a vertical short, reframed or not
+    const output = await validateVideo(prepared.filePath);
+    if (!output.valid) {
+      return { ok: false, error: `Output check failed: ${output.error || 'invalid video'}` };
+    }
+
+    const resolution =
+      prepared.targetWidth && prepared.targetHeight ? ` (${prepared.targetWidth}x${prepared.targetHeight})` : '';
+    const loudness = prepared.loudness
+      ? prepared.loudness.measured
+        ? `, loudness ${prepared.loudness.measured.input_i} -> ${prepared.loudness.target} LUFS`
+        : `, loudness ${prepared.loudness.target} LUFS`
+      : '';
+    const extras =
+      `, profile ${describeTranscodeSettings(transcode)}` +
+      (prepared.toneMapped ? ', HDR tone-mapped to SDR' : '') +
+      (prepared.upscaleSkipped ? ', already at target size (no scaling)' : '') +
+      (prepared.transforms ? `, transforms ${prepared.transforms.summary}` : '') +
+      (prepared.reframed ? `, reframed with ${prepared.reframed}` : '') +
+      (prepared.branded ? ', branded' : '') +
+      (prepared.subtitleCues ? `, ${prepared.subtitleCues} subtitle cue(s) burned in` : '') +
+      loudness +
+      (audio.trackName ? `, background "${audio.trackName}"` : '');
+    const message = prepared.warning
+      ? prepared.warning
+      : prepared.enhanced
+        ? `Prepared ${prepared.usedProfile.toUpperCase()} enhanced video${resolution}${extras} for upload`
+        : `Using original source-quality video${extras} for upload`;
+
+    // A fallback to the untouched source has neither the transforms nor the intro applied
+    const rendered = describeRenderedOutput(
+      { ...input, duration: durationSeconds ?? undefined },
+      output.duration ?? null,
+      {
+        introDuration: usableBranding?.intro?.duration ?? 0,
+        outroDuration: usableBranding?.outro?.duration ?? 0,
+        introApplied: Boolean(prepared.branded),
+      },
+      prepared.transforms ? transforms : [],
+      subtitleSettings.mode === 'caption_track'
+    );
+
+    return { ok: true, output: { uploadPath: prepared.filePath, ...rendered }, message };
+  },
+};
+
+const metadataStage: PipelineStage<void, MetadataOutput> = {
+  name: 'metadata',
+  logAction: 'metadata',
+  run: async (context) => {
+    const { short } = context;
+    const behavior = await resolveUploadBehavior(context.mappingId);
+    const blockList = buildSourceTagBlockList(short.source_channel, behavior.mapping);
+
+    let title = short.title;
+    let description = stripBlockedHashtagsFromDescription(short.description || '', blockList);
+    let hashtags: string[] = [];
+    let message = 'Using original title and description';
+
+    if (behavior.aiEnabled) {
+      try {
+        const enhanced = await enhanceContent(short.title, short.description || '', short.tags || [], {
+          blockedTerms: blockList,
+        });
+        title = enhanced.title;
+        description = stripBlockedHashtagsFromDescription(enhanced.description, blockList);
+        hashtags = filterBlockedTagValues(enhanced.hashtags, blockList);
+        message = 'Applied AI title, description and hashtags';
+
+        await updateShort(short.id, {
+          ai_title: enhanced.title,
+          ai_description: enhanced.description,
+          ai_hashtags: enhanced.hashtags.join(', '),
+        });
+      } catch (error) {
+        console.error('AI enhancement failed, using original content:', error);
+        message = 'AI enhancement failed, using original title and description';
+      }
+    }
+
+    if (hashtags.length > 0) {
+      description = `${description}\n\n${hashtags.join(' ')}`;
+    }
+
+    return {
+      ok: true,
+      output: {
+        behavior,
+        title,
+        description,
+        tags: buildUploadTags(short.tags || [], hashtags, blockList),
+      },
+      message: `${message}; ${describeUploadMetadata(behavior.metadata)}`,
+    };
+  },
+};
+
+// Pick the best frame of the rendered upload and prepare it as the custom thumbnail.
+// Best effort: without a thumbnail YouTube keeps its auto-generated one.
+const thumbnailStage: PipelineStage<EnhanceOutput & { title: string }, ThumbnailOutput> = {
+  name: 'thumbnail',
+  logAction: 'quality',
+  run: async (context, input) => {
+    if (normalizeThumbnailMode(context.mapping?.thumbnail_mode) === 'off') {
+      return { ok: true, output: { thumbnailPath: null } };
+    }
+    if (!input.contentWindow) {
+      return { ok: true, output: { thumbnailPath: null }, message: 'Thumbnail skipped: output duration unknown' };
+    }
+
+    const generated = await generateThumbnail(
+      context.short.id,
+      input.uploadPath,
+      input.contentWindow,
+      await resolveThumbnailRenderOptions(context.mapping, input.title)
+    );
+    if (!generated.thumbnail) {
+      return { ok: true, output: { thumbnailPath: null }, message: `Thumbnail skipped: ${generated.error}` };
+    }
+
+    await updateShort(context.short.id, { thumbnail: generated.thumbnail });
+    // Publish uploads it from the in-memory row
+    context.short.thumbnail = generated.thumbnail;
+
+    const best = generated.thumbnail.candidates[0];
+    return {
+      ok: true,
+      output: { thumbnailPath: resolveThumbnailFile(context.short.id, generated.thumbnail.file) },
+      message:
+        `Picked thumbnail frame at ${best.time}s (score ${best.score}) from ${generated.thumbnail.candidates.length} candidate(s)` +
+        (generated.thumbnail.titled ? ', with title' : ''),
+    };
+  },
+};
+
+const uploadStage: PipelineStage<MetadataOutput & EnhanceOutput, UploadOutput> = {
+  name: 'upload',
+  logAction: 'upload',
+  startMessage: 'Starting upload',
+  statusOnStart: 'Uploading',
+  run: async (context, input) => {
+    const destinationAuth = await resolveMappingRefreshToken(context.mappingId);
+    if (destinationAuth.error) {
+      return { ok: false, error: destinationAuth.error };
+    }
+
+    const progress = createProgressReporter(context.short.id, 'upload');
+    // The session is stored after every chunk, so a restart continues an interrupted upload
+    const result = await uploadVideoWithProgress(
+      input.uploadPath,
+      input.title,
+      input.description,
+      input.tags,
+      input.behavior.visibility,
+      progress.report,
+      {
+        refreshToken: destinationAuth.refreshToken,
+        metadata: input.behavior.metadata,
+        targetChannel: context.mapping?.target_channel_id ?? null,
+        session: context.short.upload_session,
+        onSession: async (session) => {
+          // Failure cleanup must spare the render while its session is open; a retry resumes with it
+          if (!isCachedDownload(input.uploadPath)) {
+            if (session) {
+              context.tempFiles.delete(input.uploadPath);
+            } else {
+              context.tempFiles.add(input.uploadPath);
+            }
+          }
+          context.short.upload_session = session;
+          await updateShort(context.short.id, { upload_session: session });
+        },
+      }
+    ).finally(progress.clear);
+
+    if (!result.success || !result.videoId) {
+      return { ok: false, error: result.error || 'Upload failed' };
+    }
+
+    const resumed = result.resumedFrom
+      ? ` (resumed at ${Math.round((result.resumedFrom / (1024 * 1024)) * 10) / 10} MB)`
+      : '';
+    return {
+      ok: true,
+      output: { behavior: input.behavior, videoId: result.videoId },
+      message: `Uploaded as ${result.videoId}${resumed}`,
+    };
+  },
+};
+
+const publishStage: PipelineStage<UploadOutput & ThumbnailOutput & Pick<EnhanceOutput, 'captions'>, UploadOutput> = {
+  name: 'publish',
+  logAction: 'publish',
+  run: async (context, input) => {
+    await updateShort(context.short.id, {
+      status: 'Uploaded',
+      uploaded_date: new Date().toISOString(),
+      target_video_id: input.videoId,
+      scheduled_date: input.behavior.scheduledPublishAt,
+      error_log: null,
+      next_attempt_at: null,
+      failure_reason: null,
+    });
+
+    const targetChannel = context.short.target_channel || context.mapping?.target_channel_id || null;
+    if (context.short.fingerprint && targetChannel) {
+      await recordUploadedFingerprint({
+        target_channel: targetChannel,
+        video_id: context.short.video_id,
+        target_video_id: input.videoId,
+        fingerprint: context.short.fingerprint,
+      });
+    }
+
+    // The video is live already, so a rejected thumbnail is logged and kept for a manual retry from the details dialog
+    if (input.thumbnailPath && context.short.thumbnail) {
+      const sent = await uploadShortThumbnail(context.short.id, context.mappingId, input.videoId, context.short.thumbnail);
+      await updateShort(context.short.id, { thumbnail: sent.thumbnail });
+      await createLog(
+        context.short.id,
+        'publish',
+        sent.error ? 'error' : 'success',
+        sent.error ? `Custom thumbnail not set: ${sent.error}` : 'Custom thumbnail set'
+      );
+    }
+
+    if (input.captions) {
+      const captioned = await uploadShortCaptions(context.mappingId, input.videoId, input.captions);
+      await createLog(
+        context.short.id,
+        'publish',
+        captioned.success ? 'success' : 'error',
+        captioned.success
+          ? `Caption track uploaded (${input.captions.language}, ${input.captions.cues.length} cues)`
+          : `Caption track not uploaded: ${captioned.error}`
+      );
+    }
+
+    return {
+      ok: true,
+      output: { behavior: input.behavior, videoId: input.videoId },
+      message: input.behavior.scheduledPublishAt
+        ? `Scheduled public publish at ${input.behavior.scheduledPublishAt} (${input.behavior.delayHours}h delay)`
+        : undefined,
+    };
+  },
+};
+
+export interface ShortPipelineOptions {
+  workerId: string;
+  mappingId?: string | null;
+  // Logged under the process action before the first stage
+  startMessage?: string;
+  // Skip download/validate and enhance an existing local file
+  sourceFilePath?: string;
+  // Stop after validation and keep the downloaded file on disk
+  downloadOnly?: boolean;
+  hooks?: PipelineHooks;
+}
+
+export interface ShortPipelineResult {
+  success: boolean;
+  stage?: PipelineStageName;
+  error?: string;
+  failure?: PipelineFailure;
+  filePath?: string;
+  validation?: { width?: number; height?: number; duration?: number };
+  // The short was marked Skipped (e.g. near-duplicate) rather than failed
+  skipped?: boolean;
+  videoId?: string;
+  scheduledPublishAt?: string | null;
+  delayHours?: number;
+}
+
+// Run download -> validate -> fingerprint -> subtitles -> enhance -> metadata -> thumbnail -> upload -> publish
+// for one short.
+export async function runShortPipeline(
+  short: ShortsData,
+  options: ShortPipelineOptions
+): Promise<ShortPipelineResult> {
+  const mappingId = short.mapping_id || options.mappingId || null;
+  const context: PipelineContext = {
+    short,
+    workerId: options.workerId,
+    mappingId,
+    mapping: mappingId ? await getChannelMappingById(mappingId) : null,
+    maxAttempts: await resolveMaxAttempts(mappingId),
+    tempFiles: new Set<string>(),
+  };
+  const hooks = options.hooks || {};
+
+  try {
+    if (options.startMessage) {
+      await createLog(short.id, 'process', 'success', options.startMessage);
+    }
+
+    let sourcePath = options.sourceFilePath || '';
+    let source: Omit<EnhanceInput, 'sourcePath' | 'subtitles'> = {};
+    if (sourcePath) {
+      retainCachedDownload(sourcePath);
+      context.tempFiles.add(sourcePath);
+    } else {
+      const downloaded = await runStage(context, downloadStage, undefined, hooks);
+      if (!downloaded.ok) {
+        return { success: false, stage: 'download', error: downloaded.error, failure: downloaded.failure };
+      }
+
+      const validated = await runStage(context, validateStage, downloaded.output, hooks);
+      if (!validated.ok) {
+        return { success: false, stage: 'validate', error: validated.error, failure: validated.failure };
+      }
+
+      const { width, height, duration, probe } = validated.output;
+      sourcePath = validated.output.sourcePath;
+      source = { width, height, duration, probe };
+    }
+
+    const checked = await runStage(context, fingerprintStage, { sourcePath, duration: source.duration }, hooks);
+    if (!checked.ok) {
+      return {
+        success: false,
+        stage: 'fingerprint',
+        error: checked.error,
+        failure: checked.failure,
+        skipped: checked.skip,
+      };
+    }
+
+    // Releasing the reference keeps a cached file on disk until eviction, so a later upload call can still use it
+    if (options.downloadOnly) {
+      return { success: true, filePath: sourcePath, validation: source };
+    }
+
+    const subtitles = await runStage(context, subtitlesStage, undefined, hooks);
+    if (!subtitles.ok) {
+      return { success: false, stage: 'subtitles', error: subtitles.error, failure: subtitles.failure };
+    }
+
+    const enhanced = await runStage(context, enhanceStage, { sourcePath, ...source, subtitles: subtitles.output }, hooks);
+    if (!enhanced.ok) {
+      return { success: false, stage: 'enhance', error: enhanced.error, failure: enhanced.failure };
+    }
+
+    const metadata = await runStage(context, metadataStage, undefined, hooks);
+    if (!metadata.ok) {
+      return { success: false, stage: 'metadata', error: metadata.error, failure: metadata.failure };
+    }
+
+    const thumbnail = await runStage(
+      context,
+      thumbnailStage,
+      { ...enhanced.output, title: metadata.output.title },
+      hooks
+    );
+    if (!thumbnail.ok) {
+      return { success: false, stage: 'thumbnail', error: thumbnail.error, failure: thumbnail.failure };
+    }
+
+    const uploaded = await runStage(context, uploadStage, { ...metadata.output, ...enhanced.output }, hooks);
+    if (!uploaded.ok) {
+      return { success: false, stage: 'upload', error: uploaded.error, failure: uploaded.failure };
+    }
+
+    // The video is live on YouTube now; drop local copies before the final DB write
+    await cleanupPipelineFiles(context.tempFiles);
+    context.tempFiles.clear();
+
+    const published = await runStage(
+      context,
+      publishStage,
+      { ...uploaded.output, ...thumbnail.output, captions: enhanced.output.captions },
+      hooks
+    );
+    if (!published.ok) {
+      return { success: false, stage: 'publish', error: published.error, failure: published.failure };
+    }
+
+    return {
+      success: true,
+      videoId: published.output.videoId,
+      scheduledPublishAt: published.output.behavior.scheduledPublishAt,
+      delayHours: published.output.behavior.delayHours,
+    };
+  } finally {
+    await cleanupPipelineFiles(context.tempFiles);
+  }
+}
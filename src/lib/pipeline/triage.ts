@@ -0,0 +1,143 @@
+import type { ShortsData } from '@/lib/supabase/client';
+import { classifyFailure, type FailureReasonCode } from '@/lib/pipeline/failures';
+
+export type FailureGroupId =
+  | 'download_blocked'
+  | 'not_vertical'
+  | 'token_missing'
+  | 'quota'
+  | 'ffmpeg_error'
+  | 'disk_space'
+  | 'network'
+  | 'metadata'
+  | 'other';
+
+export interface FailureGroupDefinition {
+  id: FailureGroupId;
+  label: string;
+  hint: string;
+  codes: FailureReasonCode[];
+}
+
+export interface TriageShort {
+  id: string;
+  video_id: string;
+  title: string;
+  mapping_id: string | null;
+  source_channel: string | null;
+  target_channel: string | null;
+  retry_count: number;
+  failure_reason: string;
+  error_log: string | null;
+  updated_at: string;
+}
+
+export interface FailureGroupSummary {
+  id: FailureGroupId;
+  label: string;
+  hint: string;
+  count: number;
+  shorts: TriageShort[];
+}
+
+// Display order of the triage view; "other" collects anything unrecognised.
+export const FAILURE_GROUPS: FailureGroupDefinition[] = [
+  {
+    id: 'download_blocked',
+    label: 'Download blocked',
+    hint: 'Source video is private, removed, age or region restricted',
+    codes: ['video_unavailable', 'private_video', 'age_restricted', 'geo_blocked', 'copyright_blocked'],
+  },
+  {
+    id: 'not_vertical',
+    label: 'Not vertical',
+    hint: 'Downloaded file is not a 9:16 short or has no usable video stream',
+    codes: ['not_vertical', 'invalid_duration', 'no_video_stream'],
+  },
+  {
+    id: 'token_missing',
+    label: 'Token missing',
+    hint: 'Destination channel is disconnected or its OAuth token was revoked',
+    codes: ['destination_auth'],
+  },
+  {
+    id: 'quota',
+    label: 'Quota',
+    hint: 'YouTube quota or upload rate limit was hit',
+    codes: ['quota_exceeded', 'rate_limited'],
+  },
+  {
+    id: 'ffmpeg_error',
+    label: 'FFmpeg error',
+    hint: 'Enhancement or probing failed while processing the file',
+    codes: ['transcode_failed'],
+  },
+  {
+    id: 'disk_space',
+    label: 'Disk space',
+    hint: 'Not enough free disk or temp directory budget for the download or transcode',
+    codes: ['disk_space'],
+  },
+  {
+    id: 'network',
+    label: 'Network',
+    hint: 'Connection, server or timeout errors that outlasted all attempts',
+    codes: ['network_error', 'server_error', 'timeout', 'download_interrupted'],
+  },
+  {
+    id: 'metadata',
+    label: 'Invalid metadata',
+    hint: 'YouTube rejected the title, description, tags or category',
+    codes: ['invalid_metadata'],
+  },
+  {
+    id: 'other',
+    label: 'Other',
+    hint: 'Unclassified errors; check the short logs',
+    codes: ['unknown'],
+  },
+];
+
+const GROUP_BY_CODE = new Map<string, FailureGroupId>(
+  FAILURE_GROUPS.flatMap((group) => group.codes.map((code) => [code, group.id] as [string, FailureGroupId]))
+);
+
+export function isFailureGroupId(value: unknown): value is FailureGroupId {
+  return FAILURE_GROUPS.some((group) => group.id === value);
+}
+
+// Rows failed before reasons were stored fall back to classifying their error log.
+export function resolveFailureReason(short: Pick<ShortsData, 'failure_reason' | 'error_log'>): string {
+  return short.failure_reason || classifyFailure(short.error_log || '').code;
+}
+
+export function resolveFailureGroup(short: Pick<ShortsData, 'failure_reason' | 'error_log'>): FailureGroupId {
+  return GROUP_BY_CODE.get(resolveFailureReason(short)) || 'other';
+}
+
+export function groupFailedShorts(shorts: ShortsData[]): FailureGroupSummary[] {
+  const byGroup = new Map<FailureGroupId, TriageShort[]>();
+
+  for (const short of shorts) {
+    const groupId = resolveFailureGroup(short);
+    const items = byGroup.get(groupId) || [];
+    items.push({
+      id: short.id,
+      video_id: short.video_id,
+      title: short.title,
+      mapping_id: short.mapping_id,
+      source_channel: short.source_channel,
+      target_channel: short.target_channel,
+      retry_count: short.retry_count,
+      failure_reason: resolveFailureReason(short),
+      error_log: short.error_log,
+      updated_at: short.updated_at,
+    });
+    byGroup.set(groupId, items);
+  }
+
+  return FAILURE_GROUPS.map((group) => {
+    const items = byGroup.get(group.id) || [];
+    return { id: group.id, label: group.label, hint: group.hint, count: items.length, shorts: items };
+  });
+}
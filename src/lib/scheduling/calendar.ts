@@ -0,0 +1,204 @@
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+// Indexed by Date#getUTCDay()
+const WEEKDAY_BY_INDEX: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export type BlackoutRule =
+  | { type: 'dates'; start: string; end: string }
+  | { type: 'weekly'; weekdays: Weekday[] }
+  | { type: 'yearly'; month: number; day: number };
+
+export interface ZonedDateTime {
+  date: string;
+  time: string;
+  weekday: Weekday;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Empty or invalid values mean "use the global scheduler timezone".
+export function normalizeTimeZone(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  const trimmed = raw.trim();
+  return trimmed && isValidTimeZone(trimmed) ? trimmed : null;
+}
+
+export function weekdayForDate(date: string): Weekday {
+  const [year, month, day] = date.split('-').map((part) => Number.parseInt(part, 10));
+  return WEEKDAY_BY_INDEX[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+export function getDateTimeInTimezone(date: Date, timeZone: string): ZonedDateTime {
+  const iso = date.toISOString();
+  let year = iso.slice(0, 4);
+  let month = iso.slice(5, 7);
+  let day = iso.slice(8, 10);
+  let time = iso.slice(11, 16);
+
+  try {
+    const formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+    const partMap = new Map(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+    year = partMap.get('year') || year;
+    month = partMap.get('month') || month;
+    day = partMap.get('day') || day;
+    // Some runtimes render midnight as 24:00
+    const hour = partMap.get('hour') === '24' ? '00' : partMap.get('hour') || '00';
+    time = `${hour}:${partMap.get('minute') || '00'}`;
+  } catch {
+    // Invalid timezone: fall back to UTC
+  }
+
+  const localDate = `${year}-${month}-${day}`;
+  return { date: localDate, time, weekday: weekdayForDate(localDate) };
+}
+
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map((part) => Number.parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Convert a wall-clock date and HH:MM in a timezone to the matching UTC instant.
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map((part) => Number.parseInt(part, 10));
+  const [hour, minute] = time.split(':').map((part) => Number.parseInt(part, 10));
+  const target = Date.UTC(year, month - 1, day, hour, minute);
+  let guess = target;
+
+  // Converges in one or two passes; the extra passes settle DST transitions
+  for (let iteration = 0; iteration < 4; iteration++) {
+    const local = getDateTimeInTimezone(new Date(guess), timeZone);
+    const [localYear, localMonth, localDay] = local.date.split('-').map((part) => Number.parseInt(part, 10));
+    const [localHour, localMinute] = local.time.split(':').map((part) => Number.parseInt(part, 10));
+    const delta = target - Date.UTC(localYear, localMonth - 1, localDay, localHour, localMinute);
+    if (delta === 0) break;
+    guess += delta;
+  }
+
+  return new Date(guess);
+}
+
+function normalizeWeekdayList(raw: unknown): Weekday[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return WEEKDAYS.filter((weekday) => raw.includes(weekday));
+}
+
+export function normalizeBlackoutRules(raw: unknown): BlackoutRule[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const rules: BlackoutRule[] = [];
+  for (const item of raw) {
+    const rule = (item || {}) as Record<string, unknown>;
+
+    if (rule.type === 'dates' && typeof rule.start === 'string' && DATE_PATTERN.test(rule.start)) {
+      const end = typeof rule.end === 'string' && DATE_PATTERN.test(rule.end) ? rule.end : rule.start;
+      rules.push({ type: 'dates', start: rule.start, end: end < rule.start ? rule.start : end });
+    } else if (rule.type === 'weekly') {
+      const weekdays = normalizeWeekdayList(rule.weekdays);
+      if (weekdays.length > 0) {
+        rules.push({ type: 'weekly', weekdays });
+      }
+    } else if (rule.type === 'yearly') {
+      const month = Number(rule.month);
+      const day = Number(rule.day);
+      if (Number.isInteger(month) && Number.isInteger(day) && month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+        rules.push({ type: 'yearly', month, day });
+      }
+    }
+  }
+
+  return rules;
+}
+
+// Returns the first rule that blocks uploads on a local calendar date.
+export function findBlackoutRule(rules: BlackoutRule[] | null | undefined, date: string): BlackoutRule | null {
+  if (!rules || rules.length === 0) {
+    return null;
+  }
+
+  const weekday = weekdayForDate(date);
+  const month = Number.parseInt(date.slice(5, 7), 10);
+  const day = Number.parseInt(date.slice(8, 10), 10);
+
+  for (const rule of rules) {
+    if (rule.type === 'dates' && date >= rule.start && date <= rule.end) {
+      return rule;
+    }
+    if (rule.type === 'weekly' && rule.weekdays.includes(weekday)) {
+      return rule;
+    }
+    if (rule.type === 'yearly' && rule.month === month && rule.day === day) {
+      return rule;
+    }
+  }
+
+  return null;
+}
+
+export function formatBlackoutRule(rule: BlackoutRule): string {
+  if (rule.type === 'dates') {
+    return rule.start === rule.end ? rule.start : `${rule.start}..${rule.end}`;
+  }
+  if (rule.type === 'weekly') {
+    return `weekly ${rule.weekdays.join(',')}`;
+  }
+  return `yearly ${String(rule.month).padStart(2, '0')}-${String(rule.day).padStart(2, '0')}`;
+}
+
+// Parse one rule per line: "2026-12-24", "2026-12-24..2026-12-31", "weekly sat,sun" or "yearly 12-25".
+export function parseBlackoutRuleText(text: string): { rules: BlackoutRule[]; invalid: string[] } {
+  const candidates: unknown[] = [];
+  const invalid: string[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim().toLowerCase();
+    if (!line) {
+      continue;
+    }
+
+    const range = line.match(/^(\d{4}-\d{2}-\d{2})(?:\s*\.\.\s*(\d{4}-\d{2}-\d{2}))?$/);
+    const weekly = line.match(/^weekly\s+([a-z,\s]+)$/);
+    const yearly = line.match(/^yearly\s+(\d{1,2})-(\d{1,2})$/);
+    let candidate: unknown = null;
+
+    if (range) {
+      candidate = { type: 'dates', start: range[1], end: range[2] || range[1] };
+    } else if (weekly) {
+      candidate = { type: 'weekly', weekdays: weekly[1].split(/[\s,]+/).map((value) => value.slice(0, 3)) };
+    } else if (yearly) {
+      candidate = { type: 'yearly', month: Number(yearly[1]), day: Number(yearly[2]) };
+    }
+
+    if (!candidate || normalizeBlackoutRules([candidate]).length === 0) {
+      invalid.push(rawLine.trim());
+      continue;
+    }
+    candidates.push(candidate);
+  }
+
+  return { rules: normalizeBlackoutRules(candidates), invalid };
+}
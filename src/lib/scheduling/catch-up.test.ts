@@ -0,0 +1,109 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import { planSlotRuns, type MappingCatchUpSettings, type SlotCandidate } from '@/lib/scheduling/catch-up';
+import { normalizeCatchUpPolicy, normalizeCatchUpWindowMinutes } from '@/lib/scheduling/slots';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+function candidate(slotTime: string, overrides: Partial<SlotCandidate> = {}): SlotCandidate {
+  return {
+    slotKey: `mapping-1:2026-03-10:${slotTime}`,
+    mappingId: 'mapping-1',
+    mappingName: 'Mapping',
+    slotLabel: `slot-${slotTime}`,
+    slotTime,
+    localDate: '2026-03-10',
+    timezone: 'UTC',
+    ...overrides,
+  };
+}
+
+function mappings(settings: Partial<MappingCatchUpSettings>): Map<string, MappingCatchUpSettings> {
+  return new Map([['mapping-1', { created_at: '2026-01-01T00:00:00.000Z', ...settings }]]);
+}
+
+describe('planSlotRuns', () => {
+  test('fires slots inside the on-time grace and ignores future slots', () => {
+    const decisions = planSlotRuns(
+      [candidate('11:57'), candidate('12:30')],
+      new Set(),
+      mappings({ catch_up_policy: 'skip' }),
+      NOW
+    );
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({ slotTime: '11:57', status: 'fired', lagMinutes: 3, policy: null });
+  });
+
+  test('reports late slots as missed when the mapping has no catch-up policy', () => {
+    const decisions = planSlotRuns([candidate('11:00')], new Set(), mappings({}), NOW);
+    expect(decisions).toEqual([
+      expect.objectContaining({ status: 'missed', policy: 'skip', lagMinutes: 60 }),
+    ]);
+  });
+
+  test('within_window catches up only slots inside the window', () => {
+    const decisions = planSlotRuns(
+      [candidate('11:30'), candidate('09:00')],
+      new Set(),
+      mappings({ catch_up_policy: 'within_window', catch_up_window_minutes: 45 }),
+      NOW
+    );
+    expect(decisions.map((decision) => [decision.slotTime, decision.status])).toEqual([
+      ['11:30', 'caught_up'],
+      ['09:00', 'missed'],
+    ]);
+  });
+
+  test('run_once replays only the most recent missed slot per mapping', () => {
+    const decisions = planSlotRuns(
+      [candidate('06:00'), candidate('10:00'), candidate('08:00')],
+      new Set(),
+      mappings({ catch_up_policy: 'run_once' }),
+      NOW
+    );
+    const caughtUp = decisions.filter((decision) => decision.status === 'caught_up');
+    expect(caughtUp.map((decision) => decision.slotTime)).toEqual(['10:00']);
+    expect(decisions.filter((decision) => decision.status === 'missed')).toHaveLength(2);
+  });
+
+  test('skips handled slots, slots before the mapping existed and slots past the lookback', () => {
+    const decisions = planSlotRuns(
+      [
+        candidate('10:00'),
+        candidate('09:00'),
+        candidate('09:00', { slotKey: 'old', localDate: '2026-03-07' }),
+      ],
+      new Set(['mapping-1:2026-03-10:10:00']),
+      mappings({ catch_up_policy: 'within_window', created_at: '2026-03-10T09:30:00.000Z' }),
+      NOW
+    );
+    expect(decisions).toEqual([]);
+  });
+
+  test('resolves slot times in the mapping timezone', () => {
+    // 13:00 in Paris (UTC+1 in March before DST) is 12:00 UTC
+    const decisions = planSlotRuns(
+      [candidate('13:00', { timezone: 'Europe/Paris' })],
+      new Set(),
+      mappings({}),
+      NOW
+    );
+    expect(decisions[0]).toMatchObject({ status: 'fired', scheduledFor: '2026-03-10T12:00:00.000Z' });
+  });
+});
+
+describe('catch-up settings', () => {
+  test('missed slots are skipped unless a mapping opts in', () => {
+    expect(normalizeCatchUpPolicy(undefined)).toBe('skip');
+    expect(normalizeCatchUpPolicy('unknown')).toBe('skip');
+    expect(normalizeCatchUpPolicy('run_once')).toBe('run_once');
+    expect(normalizeCatchUpPolicy('within_window')).toBe('within_window');
+  });
+
+  test('window minutes fall back to the default and are capped at a day', () => {
+    expect(normalizeCatchUpWindowMinutes(null)).toBe(60);
+    expect(normalizeCatchUpWindowMinutes('-5')).toBe(60);
+    expect(normalizeCatchUpWindowMinutes('90')).toBe(90);
+    expect(normalizeCatchUpWindowMinutes(5000)).toBe(24 * 60);
+  });
+});
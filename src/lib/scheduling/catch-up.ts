@@ -0,0 +1,90 @@
+import type { SchedulerSlotRunStatus } from '@/lib/supabase/client';
+import { zonedDateTimeToUtc } from '@/lib/scheduling/calendar';
+import { normalizeCatchUpPolicy, normalizeCatchUpWindowMinutes, type CatchUpPolicy } from '@/lib/scheduling/slots';
+
+// A slot counts as on time while the minute tick is at most this late.
+export const SLOT_ON_TIME_GRACE_MINUTES = 5;
+
+// Older slots are never caught up or reported.
+export const SLOT_LOOKBACK_HOURS = 48;
+
+export interface SlotCandidate {
+  slotKey: string;
+  mappingId: string | null;
+  mappingName: string | null;
+  slotLabel: string;
+  slotTime: string;
+  localDate: string;
+  timezone: string;
+}
+
+export interface SlotDecision extends SlotCandidate {
+  scheduledFor: string;
+  lagMinutes: number;
+  status: SchedulerSlotRunStatus;
+  policy: CatchUpPolicy | null;
+}
+
+export interface MappingCatchUpSettings {
+  catch_up_policy?: string | null;
+  catch_up_window_minutes?: number | null;
+  created_at: string;
+}
+
+// Decide which candidate slots fire now, get caught up, or are reported as missed.
+export function planSlotRuns(
+  candidates: SlotCandidate[],
+  handledKeys: Set<string>,
+  mappingsById: Map<string, MappingCatchUpSettings>,
+  now: Date
+): SlotDecision[] {
+  const decisions: SlotDecision[] = [];
+  const runOnceByMapping = new Map<string, SlotDecision[]>();
+
+  for (const candidate of candidates) {
+    const scheduledFor = zonedDateTimeToUtc(candidate.localDate, candidate.slotTime, candidate.timezone);
+    const lagMinutes = Math.floor((now.getTime() - scheduledFor.getTime()) / 60000);
+
+    if (lagMinutes < 0 || lagMinutes > SLOT_LOOKBACK_HOURS * 60) {
+      continue;
+    }
+
+    const base = { ...candidate, scheduledFor: scheduledFor.toISOString(), lagMinutes };
+
+    // On-time slots are deduplicated when recorded, so they skip the handled check
+    if (lagMinutes < SLOT_ON_TIME_GRACE_MINUTES) {
+      decisions.push({ ...base, status: 'fired', policy: null });
+      continue;
+    }
+
+    if (handledKeys.has(candidate.slotKey) || !candidate.mappingId) {
+      continue;
+    }
+
+    const mapping = mappingsById.get(candidate.mappingId);
+    if (!mapping || scheduledFor.getTime() < new Date(mapping.created_at).getTime()) {
+      continue;
+    }
+
+    const policy = normalizeCatchUpPolicy(mapping.catch_up_policy);
+    if (policy === 'run_once') {
+      const pending = runOnceByMapping.get(candidate.mappingId) || [];
+      pending.push({ ...base, status: 'missed', policy });
+      runOnceByMapping.set(candidate.mappingId, pending);
+      continue;
+    }
+
+    const withinWindow =
+      policy === 'within_window' && lagMinutes <= normalizeCatchUpWindowMinutes(mapping.catch_up_window_minutes);
+    decisions.push({ ...base, status: withinWindow ? 'caught_up' : 'missed', policy });
+  }
+
+  // run_once: only the most recent missed slot per mapping is replayed
+  for (const pending of runOnceByMapping.values()) {
+    pending.sort((first, second) => first.lagMinutes - second.lagMinutes);
+    pending[0].status = 'caught_up';
+    decisions.push(...pending);
+  }
+
+  return decisions;
+}
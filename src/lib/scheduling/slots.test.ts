@@ -0,0 +1,62 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import { resolveDailySlots, resolveSlotsForWeekday, spreadSlotTimes } from '@/lib/scheduling/slots';
+
+describe('spreadSlotTimes', () => {
+  test('spreads slots evenly with both window bounds included', () => {
+    expect(spreadSlotTimes(3, '09:00', '21:00')).toEqual(['09:00', '15:00', '21:00']);
+  });
+
+  test('a single slot sits at the window start', () => {
+    expect(spreadSlotTimes(1, '10:30', '18:00')).toEqual(['10:30']);
+  });
+
+  test('a window ending before it starts wraps past midnight', () => {
+    expect(spreadSlotTimes(3, '22:00', '02:00')).toEqual(['22:00', '00:00', '02:00']);
+  });
+
+  test('equal bounds spread over the whole day without repeating the start', () => {
+    expect(spreadSlotTimes(4, '06:00', '06:00')).toEqual(['06:00', '12:00', '18:00', '00:00']);
+  });
+
+  test('caps the count at 24 and drops duplicate minutes', () => {
+    expect(spreadSlotTimes(100, '00:00', '00:00')).toHaveLength(24);
+    expect(spreadSlotTimes(5, '12:00', '12:02')).toEqual(['12:00', '12:01', '12:02']);
+  });
+});
+
+describe('resolveDailySlots', () => {
+  test('fixed mode keeps explicit slot times, sorted and trimmed to the daily count', () => {
+    const slots = resolveDailySlots({ uploads_per_day: 2, slot_times: ['20:00', '08:00', '12:00', 'bad'] });
+    expect(slots).toEqual([
+      { label: 'slot-1', time: '08:00' },
+      { label: 'slot-2', time: '12:00' },
+    ]);
+  });
+
+  test('fixed mode without a slot list falls back to the morning/evening pair and tops up', () => {
+    const slots = resolveDailySlots({
+      uploads_per_day: 3,
+      upload_time_morning: '09:00',
+      upload_time_evening: '17:00',
+    });
+    expect(slots.map((slot) => slot.time)).toEqual(['09:00', '13:00', '17:00']);
+  });
+
+  test('spread mode uses the configured window', () => {
+    const slots = resolveDailySlots({
+      uploads_per_day: 2,
+      slot_mode: 'spread',
+      slot_window_start: '10:00',
+      slot_window_end: '14:00',
+    });
+    expect(slots.map((slot) => slot.time)).toEqual(['10:00', '14:00']);
+  });
+
+  test('weekday overrides replace the daily slots, and an empty list means no uploads', () => {
+    const settings = { uploads_per_day: 2, weekday_slots: { sat: ['11:00'], sun: [] } };
+    expect(resolveSlotsForWeekday(settings, 'sat')).toEqual([{ label: 'sat-slot-1', time: '11:00' }]);
+    expect(resolveSlotsForWeekday(settings, 'sun')).toEqual([]);
+    expect(resolveSlotsForWeekday(settings, 'mon')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,167 @@
+import { WEEKDAYS, type Weekday } from '@/lib/scheduling/calendar';
+
+export type SlotMode = 'fixed' | 'spread';
+
+// What to do with slots that passed while the scheduler was down or busy
+export type CatchUpPolicy = 'skip' | 'run_once' | 'within_window';
+
+export const DEFAULT_CATCH_UP_WINDOW_MINUTES = 60;
+
+export interface DailySlot {
+  label: string;
+  time: string;
+}
+
+export interface MappingSlotSettings {
+  uploads_per_day: number;
+  slot_mode?: SlotMode | null;
+  slot_times?: string[] | null;
+  slot_window_start?: string | null;
+  slot_window_end?: string | null;
+  upload_time_morning?: string | null;
+  upload_time_evening?: string | null;
+  // Explicit times for specific weekdays; an empty list means no uploads that day
+  weekday_slots?: Partial<Record<Weekday, string[]>> | null;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const MAX_UPLOADS_PER_DAY = 24;
+
+export function normalizeSlotTime(raw: unknown, fallback: string): string {
+  if (typeof raw !== 'string') {
+    return fallback;
+  }
+  const trimmed = raw.trim();
+  return TIME_PATTERN.test(trimmed) ? trimmed : fallback;
+}
+
+export function normalizeSlotMode(raw: unknown): SlotMode {
+  return raw === 'spread' ? 'spread' : 'fixed';
+}
+
+// Missed slots are dropped unless a mapping opts in to catching up
+export function normalizeCatchUpPolicy(raw: unknown): CatchUpPolicy {
+  return raw === 'run_once' || raw === 'within_window' ? raw : 'skip';
+}
+
+export function normalizeCatchUpWindowMinutes(raw: unknown): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseInt(String(raw ?? ''), 10);
+  if (!Number.isFinite(numeric) || numeric <= 0) {
+    return DEFAULT_CATCH_UP_WINDOW_MINUTES;
+  }
+  return Math.min(24 * 60, Math.floor(numeric));
+}
+
+// Valid HH:MM values, de-duplicated and sorted by time of day.
+export function normalizeSlotTimes(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const times = raw
+    .map((value) => (typeof value === 'string' ? value.trim() : ''))
+    .filter((value) => TIME_PATTERN.test(value));
+
+  return Array.from(new Set(times)).sort();
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => Number.parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const wrapped = ((Math.round(total) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const minutes = wrapped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Spread `count` slots evenly from start to end (inclusive). A window ending
+// before it starts wraps past midnight; equal bounds mean the whole day.
+export function spreadSlotTimes(count: number, windowStart: string, windowEnd: string): string[] {
+  const slots = Math.min(MAX_UPLOADS_PER_DAY, Math.max(1, Math.floor(count)));
+  const start = toMinutes(windowStart);
+  const end = toMinutes(windowEnd);
+
+  if (slots === 1) {
+    return [windowStart];
+  }
+
+  const fullDay = start === end;
+  const span = fullDay ? MINUTES_PER_DAY : (end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const step = span / (fullDay ? slots : slots - 1);
+  const times: string[] = [];
+
+  for (let index = 0; index < slots; index++) {
+    const time = fromMinutes(start + step * index);
+    if (!times.includes(time)) {
+      times.push(time);
+    }
+  }
+
+  return times;
+}
+
+// Resolve the exact list of daily trigger times for a mapping.
+export function resolveDailySlots(
+  settings: MappingSlotSettings,
+  fallback: { morning: string; evening: string } = { morning: '09:00', evening: '18:00' }
+): DailySlot[] {
+  const count = Math.min(MAX_UPLOADS_PER_DAY, Math.max(1, Math.floor(settings.uploads_per_day || 1)));
+  const morning = normalizeSlotTime(settings.upload_time_morning, fallback.morning);
+  const evening = normalizeSlotTime(settings.upload_time_evening, fallback.evening);
+  let times: string[];
+
+  if (normalizeSlotMode(settings.slot_mode) === 'spread') {
+    times = spreadSlotTimes(
+      count,
+      normalizeSlotTime(settings.slot_window_start, morning),
+      normalizeSlotTime(settings.slot_window_end, evening)
+    );
+  } else {
+    const explicit = normalizeSlotTimes(settings.slot_times);
+    // Mappings saved before slot lists existed keep their morning/evening pair
+    const base = explicit.length > 0 ? explicit : Array.from(new Set([morning, evening]));
+    times = base.slice(0, count);
+
+    if (times.length < count) {
+      const topUp = spreadSlotTimes(count, morning, evening).filter((time) => !times.includes(time));
+      times = [...times, ...topUp.slice(0, count - times.length)].sort();
+    }
+  }
+
+  return times.map((time, index) => ({ label: `slot-${index + 1}`, time }));
+}
+
+export function normalizeWeekdaySlots(raw: unknown): Partial<Record<Weekday, string[]>> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+
+  const source = raw as Record<string, unknown>;
+  const result: Partial<Record<Weekday, string[]>> = {};
+  for (const weekday of WEEKDAYS) {
+    if (Array.isArray(source[weekday])) {
+      result[weekday] = normalizeSlotTimes(source[weekday]).slice(0, MAX_UPLOADS_PER_DAY);
+    }
+  }
+
+  return result;
+}
+
+// Slots for one weekday: the weekday override when set, otherwise the daily slots.
+export function resolveSlotsForWeekday(
+  settings: MappingSlotSettings,
+  weekday: Weekday,
+  fallback?: { morning: string; evening: string }
+): DailySlot[] {
+  const override = normalizeWeekdaySlots(settings.weekday_slots)[weekday];
+  if (override) {
+    return override.map((time, index) => ({ label: `${weekday}-slot-${index + 1}`, time }));
+  }
+
+  return resolveDailySlots(settings, fallback);
+}
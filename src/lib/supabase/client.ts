@@ -26,7 +26,7 @@ export interface ShortsData {
   thumbnail_url: string | null;
   duration: number;
   published_date: string | null;
-  status: 'Pending' | 'Downloaded' | 'Uploading' | 'Uploaded' | 'Failed';
+  status: 'Pending' | 'Downloaded' | 'Uploading' | 'Uploaded' | 'Failed' | 'Skipped';
   scheduled_date: string | null;
   uploaded_date: string | null;
   target_video_id: string | null;
@@ -38,10 +38,121 @@ export interface ShortsData {
   mapping_id: string | null;
   source_channel: string | null;
   target_channel: string | null;
+  claimed_by: string | null;
+  lease_expires_at: string | null;
+  next_attempt_at: string | null;
+  failure_reason: string | null;
+  progress: ShortProgress | null;
+  fingerprint: VideoFingerprint | null;
+  thumbnail: ShortThumbnail | null;
+  media_probe: MediaProbe | null;
+  upload_session: UploadSession | null;
   created_at: string;
   updated_at: string;
 }
 
+// ffprobe summary of the downloaded source, written by the validate stage.
+export interface MediaProbe {
+  container: string | null;
+  file_size: number | null;
+  // Overall container bitrate
+  bitrate_kbps: number | null;
+  duration: number | null;
+  video_codec: string | null;
+  // Coded frame size; display_* has the rotation applied
+  width: number;
+  height: number;
+  display_width: number;
+  display_height: number;
+  // Display-matrix rotation in degrees (0, 90, 180 or 270)
+  rotation: number;
+  fps: number | null;
+  video_bitrate_kbps: number | null;
+  pix_fmt: string | null;
+  color_transfer: string | null;
+  color_primaries: string | null;
+  // PQ or HLG transfer; tone-mapped to SDR when re-encoded
+  hdr: boolean;
+  has_audio: boolean;
+  audio_codec: string | null;
+  audio_channels: number | null;
+  audio_sample_rate: number | null;
+  probed_at: string;
+}
+
+// Open resumable upload of the rendered file, so an interrupted upload continues instead of starting over.
+// Cleared once the video exists on YouTube.
+export interface UploadSession {
+  // Session URI from the videos.insert init request
+  uri: string;
+  // Destination channel the session was opened for
+  target_channel: string | null;
+  file_size: number;
+  // sha256 of the rendered file; a re-render with different bytes opens a new session
+  file_hash: string;
+  // Render being sent; kept on disk while the session is open so a retry can skip the re-render
+  file_path?: string;
+  // Bytes YouTube confirmed after the last chunk
+  uploaded_bytes: number;
+  started_at: string;
+  updated_at: string;
+}
+
+// Live percent/ETA of the running download, transcode or upload, cleared when the stage ends.
+export interface ShortProgress {
+  stage: string;
+  percent: number | null;
+  eta_seconds: number | null;
+  speed: string | null;
+  updated_at: string;
+}
+
+// Frame dHashes and audio chroma hash of the downloaded source, used to spot reposted clips.
+export interface VideoFingerprint {
+  version: number;
+  duration: number;
+  // One 64-bit dHash (hex) per evenly spaced sample frame
+  frames: string[];
+  // 12 bits per audio window (hex); null when the source has no usable audio
+  audio: string | null;
+}
+
+// A frame pulled from the rendered upload as a thumbnail candidate; files live under THUMBNAIL_DIR/<short id>/.
+export interface ThumbnailCandidate {
+  file: string;
+  // Position in the rendered video, seconds
+  time: number;
+  sharpness: number;
+  // Mean luma from 0 to 1
+  brightness: number;
+  score: number;
+}
+
+export interface ShortThumbnail {
+  // Best score first
+  candidates: ThumbnailCandidate[];
+  // Candidate the thumbnail was rendered from
+  selected: string;
+  // Rendered image sent to thumbnails.set
+  file: string;
+  // Title text and logo drawn on the frame
+  titled: boolean;
+  // Chosen by hand in the details dialog rather than by score
+  manual: boolean;
+  generated_at: string;
+  uploaded_at: string | null;
+  upload_error: string | null;
+}
+
+export interface UploadedFingerprint {
+  id: string;
+  target_channel: string;
+  video_id: string;
+  target_video_id: string | null;
+  fingerprint: VideoFingerprint;
+  created_at: string;
+}
+
 export interface Config {
   id: string;
   key: string;
@@ -76,3 +187,104 @@ export interface SchedulerState {
   created_at: string;
   updated_at: string;
 }
+
+export type SchedulerJobType = 'process_next' | 'publish_due' | 'cleanup_uploaded' | 'reap_leases';
+
+export type SchedulerJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type SchedulerSlotRunStatus = 'fired' | 'caught_up' | 'missed';
+
+export interface SchedulerSlotRun {
+  id: string;
+  slot_key: string;
+  mapping_id: string | null;
+  slot_label: string;
+  slot_time: string;
+  local_date: string;
+  timezone: string;
+  scheduled_for: string;
+  status: SchedulerSlotRunStatus;
+  job_id: string | null;
+  created_at: string;
+}
+
+export type YoutubeQuotaCredentialType = 'api_key' | 'oauth_client';
+
+export interface YoutubeQuotaUsage {
+  id: string;
+  quota_day: string;
+  credential_type: YoutubeQuotaCredentialType;
+  credential_id: string;
+  operation: string;
+  units: number;
+  calls: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OAuthAccessToken {
+  // sha256 fingerprint of the refresh token; the token itself is never stored here
+  token_key: string;
+  access_token: string;
+  expires_at: string;
+  updated_at: string;
+}
+
+export interface AudioTrack {
+  id: string;
+  name: string;
+  // Relative to AUDIO_LIBRARY_DIR
+  file_path: string;
+  tags: string[];
+  duration_seconds: number | null;
+  created_at: string;
+}
+
+export type TranscodeResolution = 'source' | 'fullhd' | '4k' | '8k';
+
+export type TranscodeVideoCodec = 'x264' | 'x265' | 'copy';
+
+export interface TranscodeProfile {
+  id: string;
+  name: string;
+  // Output frame size; 'source' keeps the source size unless reframing or branding needs Full HD
+  resolution: TranscodeResolution;
+  // 'copy' uploads the source stream untouched whenever no reframing or branding is needed
+  video_codec: TranscodeVideoCodec;
+  // Constant quality; ignored when video_bitrate_kbps is set
+  crf: number | null;
+  video_bitrate_kbps: number | null;
+  fps_cap: number | null;
+  preset: string;
+  threads: number;
+  audio_codec: 'aac' | 'copy';
+  audio_bitrate_kbps: number;
+  audio_sample_rate: number;
+  audio_channels: number;
+  sharpen: boolean;
+  color_boost: boolean;
+  // Strict fails the short when the transcode fails; otherwise the source is uploaded instead
+  strict: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SchedulerJob {
+  id: string;
+  job_type: SchedulerJobType;
+  payload: Record<string, unknown> | null;
+  status: SchedulerJobStatus;
+  dedupe_key: string | null;
+  attempts: number;
+  max_attempts: number;
+  visibility_timeout_seconds: number;
+  run_after: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
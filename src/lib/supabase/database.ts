@@ -1,7 +1,37 @@
 import { supabaseAdmin } from './client';
-import type { ShortsData, Config, UploadLog, SchedulerState } from './client';
+import type { BlackoutRule, Weekday } from '@/lib/scheduling/calendar';
+import type { CatchUpPolicy } from '@/lib/scheduling/slots';
+import type { ReframeMode } from '@/lib/youtube/reframe';
+import type { MappingBranding } from '@/lib/youtube/branding';
+import type { BackgroundAudioMode } from '@/lib/youtube/audio';
+import type { ThumbnailMode } from '@/lib/youtube/thumbnails';
+import type { TransformOperation } from '@/lib/youtube/transforms';
+import type { MappingSubtitles } from '@/lib/youtube/subtitles';
+import type { UploadMetadataSettings } from '@/lib/youtube/upload-metadata';
+import type {
+  ShortsData,
+  Config,
+  UploadLog,
+  SchedulerState,
+  SchedulerJob,
+  SchedulerJobStatus,
+  SchedulerJobType,
+  SchedulerSlotRun,
+  SchedulerSlotRunStatus,
+  YoutubeQuotaCredentialType,
+  YoutubeQuotaUsage,
+  AudioTrack,
+  TranscodeProfile,
+  UploadedFingerprint,
+  OAuthAccessToken,
+} from './client';
 
 const MAPPING_PUBLISH_DELAY_CONFIG_PREFIX = 'mapping_publish_delay_hours:';
+const SHORT_CLAIM_LEASE_SECONDS = 30 * 60;
+// Renew well inside the lease so long stages never let it lapse
+const SHORT_LEASE_HEARTBEAT_MS = 5 * 60 * 1000;
+// Matches PostgREST's default max-rows; larger reads go page by page
+const POSTGREST_PAGE_SIZE = 1000;
 
 // ==================== CONFIG OPERATIONS ====================
 
@@ -70,8 +100,38 @@ export interface ChannelMapping {
   uploads_per_day: number;
   upload_time_morning: string | null;
   upload_time_evening: string | null;
+  slot_mode: 'fixed' | 'spread';
+  slot_times: string[] | null;
+  slot_window_start: string | null;
+  slot_window_end: string | null;
+  timezone: string | null;
+  weekday_slots: Partial<Record<Weekday, string[]>> | null;
+  blackout_rules: BlackoutRule[] | null;
+  catch_up_policy: CatchUpPolicy;
+  catch_up_window_minutes: number;
+  // Null falls back to the global max_retry_count config
+  max_attempts: number | null;
   default_visibility: string | null;
   ai_enhancement_enabled: boolean;
+  // How non-vertical sources are turned into 9:16; 'off' rejects them
+  reframe_mode: ReframeMode;
+  // Watermark overlay settings and intro/outro clip paths
+  branding: MappingBranding | null;
+  // Integrated loudness the output is normalised to; null leaves levels untouched
+  loudness_target_lufs: number | null;
+  background_audio_mode: BackgroundAudioMode;
+  // Library tag to pick the background track from; null picks from all tracks
+  background_audio_tag: string | null;
+  // Null renders with the env-var defaults
+  transcode_profile_id: string | null;
+  // How the thumbnail stage picks and renders the custom thumbnail; 'off' keeps YouTube's auto-generated one
+  thumbnail_mode: ThumbnailMode;
+  // Ordered trim/speed/mirror/crop steps applied before reframing
+  transforms: TransformOperation[] | null;
+  // Subtitle mode (burn-in or caption track), languages and burn-in style
+  subtitles: MappingSubtitles | null;
+  // Category, languages, license and audience flags; unset fields use the destination defaults
+  upload_metadata: UploadMetadataSettings | null;
   publish_delay_hours?: number | null;
   last_fetched_at: string | null;
   total_fetched: number;
@@ -580,6 +640,24 @@ export async function getShortById(id: string): Promise<ShortsData | null> {
   return data;
 }
 
+// Which of the given ids still exist; null when the lookup fails so callers never treat everything as gone.
+export async function getExistingShortIds(ids: string[]): Promise<Set<string> | null> {
+  if (ids.length === 0) {
+    return new Set();
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('shorts_data')
+    .select('id')
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error checking short ids:', error);
+    return null;
+  }
+  return new Set((data || []).map((row) => row.id as string));
+}
+
 export async function getShortByVideoId(videoId: string): Promise<ShortsData | null> {
   const { data, error } = await supabaseAdmin
     .from('shorts_data')
@@ -625,11 +703,18 @@ export async function getShortByVideoIdForScope(
   return data || null;
 }
 
+// Pending rows whose retry backoff (if any) has elapsed.
+function retryDueFilter(): string {
+  return `next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`;
+}
+
 export async function getPendingShorts(limit: number = 10, mappingId?: string): Promise<ShortsData[]> {
   let query = supabaseAdmin
     .from('shorts_data')
     .select('*')
     .eq('status', 'Pending')
+    .is('claimed_by', null)
+    .or(retryDueFilter())
     .order('created_at', { ascending: true })
     .limit(limit);
 
@@ -643,11 +728,155 @@ export async function getPendingShorts(limit: number = 10, mappingId?: string):
   return data || [];
 }
 
+function shortLeaseExpiry(leaseSeconds: number): string {
+  return new Date(Date.now() + leaseSeconds * 1000).toISOString();
+}
+
+// Compare-and-set: only an unclaimed row in one of the allowed statuses can be leased.
+export async function claimShort(
+  shortId: string,
+  workerId: string,
+  options?: { statuses?: ShortsData['status'][]; leaseSeconds?: number }
+): Promise<ShortsData | null> {
+  const statuses = options?.statuses?.length ? options.statuses : ['Pending'];
+  const { data, error } = await supabaseAdmin
+    .from('shorts_data')
+    .update({
+      claimed_by: workerId,
+      lease_expires_at: shortLeaseExpiry(options?.leaseSeconds ?? SHORT_CLAIM_LEASE_SECONDS),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', shortId)
+    .in('status', statuses)
+    .is('claimed_by', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error claiming short:', error);
+    return null;
+  }
+  return data || null;
+}
+
+export async function claimNextPendingShortForMapping(mappingId: string, workerId: string): Promise<ShortsData | null> {
+  const candidates = await getPendingShorts(10, mappingId);
+
+  for (const candidate of candidates) {
+    const claimed = await claimShort(candidate.id, workerId);
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+}
+
+export async function renewShortLease(
+  shortId: string,
+  workerId: string,
+  leaseSeconds: number = SHORT_CLAIM_LEASE_SECONDS
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('shorts_data')
+    .update({ lease_expires_at: shortLeaseExpiry(leaseSeconds) })
+    .eq('id', shortId)
+    .eq('claimed_by', workerId)
+    .select('id');
+
+  return !error && (data?.length || 0) > 0;
+}
+
+// Keep a claimed short's lease alive for as long as fn runs; the caller still releases the claim.
+export async function withShortLease<T>(shortId: string, workerId: string, fn: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    renewShortLease(shortId, workerId).catch(console.error);
+  }, SHORT_LEASE_HEARTBEAT_MS);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+export async function releaseShortClaim(shortId: string, workerId: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('shorts_data')
+    .update({ claimed_by: null, lease_expires_at: null })
+    .eq('id', shortId)
+    .eq('claimed_by', workerId);
+
+  return !error;
+}
+
+async function recoverShortToPending(
+  row: Pick<ShortsData, 'id' | 'status' | 'claimed_by'>,
+  reason: string,
+  nowIso: string
+): Promise<boolean> {
+  // Guard against the owner renewing or releasing between our read and write.
+  const { data, error } = await supabaseAdmin
+    .from('shorts_data')
+    .update({
+      status: 'Pending',
+      claimed_by: null,
+      lease_expires_at: null,
+      error_log: reason,
+      updated_at: nowIso,
+    })
+    .eq('id', row.id)
+    .eq('status', row.status)
+    .eq('claimed_by', row.claimed_by)
+    .lt('lease_expires_at', nowIso)
+    .select('id');
+  if (error || !data || data.length === 0) {
+    return false;
+  }
+
+  await createLog(row.id, 'recovery', 'success', reason, {
+    previous_status: row.status,
+    claimed_by: row.claimed_by,
+  });
+  return true;
+}
+
+// Return shorts whose worker died mid-pipeline back to Pending.
+// Unclaimed rows are never touched: a manual download legitimately parks a short in Downloaded.
+export async function reapExpiredShortLeases(): Promise<{ checked: number; recovered: number }> {
+  const nowIso = new Date().toISOString();
+  let checked = 0;
+  let recovered = 0;
+
+  const { data: expired, error: expiredError } = await supabaseAdmin
+    .from('shorts_data')
+    .select('id, status, claimed_by, lease_expires_at')
+    .not('claimed_by', 'is', null)
+    .lt('lease_expires_at', nowIso)
+    .in('status', ['Pending', 'Downloaded', 'Uploading'])
+    .limit(100);
+
+  if (expiredError) {
+    console.error('Error loading expired short leases:', expiredError);
+  }
+
+  for (const row of (expired || []) as Array<Pick<ShortsData, 'id' | 'status' | 'claimed_by'>>) {
+    checked++;
+    const reason = `Recovered after lease expired (worker ${row.claimed_by}, stage ${row.status})`;
+    if (await recoverShortToPending(row, reason, nowIso)) {
+      recovered++;
+    }
+  }
+
+  return { checked, recovered };
+}
+
 export async function claimOldestUnmappedPendingShortForMapping(
   mappingId: string,
   sourceChannelId?: string | null,
   sourceChannelUrl?: string | null,
-  targetChannelId?: string | null
+  targetChannelId?: string | null,
+  workerId?: string
 ): Promise<ShortsData | null> {
   const sourceValues = Array.from(
     new Set(
@@ -708,6 +937,9 @@ export async function claimOldestUnmappedPendingShortForMapping(
       mapping_id: mappingId,
       source_channel: candidate.source_channel || sourceValues[0] || null,
       target_channel: targetChannelId || null,
+      // The clone is inserted already leased; uq_shorts_video_mapping rejects a concurrent duplicate.
+      claimed_by: workerId || null,
+      lease_expires_at: workerId ? shortLeaseExpiry(SHORT_CLAIM_LEASE_SECONDS) : null,
     });
 
     if (cloned) {
@@ -718,27 +950,40 @@ export async function claimOldestUnmappedPendingShortForMapping(
   return null;
 }
 
-export async function getNextGlobalPendingShort(excludedSourceValues: string[] = []): Promise<ShortsData | null> {
+async function getGlobalPendingCandidates(excludedSourceValues: string[]): Promise<ShortsData[]> {
   const { data, error } = await supabaseAdmin
     .from('shorts_data')
     .select('*')
     .eq('status', 'Pending')
     .is('mapping_id', null)
+    .is('claimed_by', null)
+    .or(retryDueFilter())
     .order('created_at', { ascending: true })
     .limit(200);
 
   if (error || !data || data.length === 0) {
-    return null;
+    return [];
   }
 
   const excluded = new Set(excludedSourceValues.map((value) => value.trim()).filter(Boolean));
 
-  for (const short of data) {
+  return (data as ShortsData[]).filter((short) => {
     const sourceValue = short.source_channel?.trim();
-    if (sourceValue && excluded.has(sourceValue)) {
-      continue;
+    return !(sourceValue && excluded.has(sourceValue));
+  });
+}
+
+export async function claimNextGlobalPendingShort(
+  workerId: string,
+  excludedSourceValues: string[] = []
+): Promise<ShortsData | null> {
+  const candidates = await getGlobalPendingCandidates(excludedSourceValues);
+
+  for (const candidate of candidates.slice(0, 10)) {
+    const claimed = await claimShort(candidate.id, workerId);
+    if (claimed) {
+      return claimed;
     }
-    return short as ShortsData;
   }
 
   return null;
@@ -886,6 +1131,96 @@ export async function updateShort(id: string, data: Partial<ShortsData>): Promis
   return !error;
 }
 
+// Clears attempt history so a requeued or reassigned short starts fresh.
+const FAILURE_RESET_FIELDS: Partial<ShortsData> = {
+  retry_count: 0,
+  next_attempt_at: null,
+  failure_reason: null,
+  error_log: null,
+};
+
+// Every failed row, read page by page; null when a page could not be loaded.
+export async function getFailedShorts(): Promise<ShortsData[] | null> {
+  const shorts: ShortsData[] = [];
+
+  for (let offset = 0; ; offset += POSTGREST_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('shorts_data')
+      .select('*')
+      .eq('status', 'Failed')
+      .order('updated_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + POSTGREST_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error loading failed shorts:', error);
+      return null;
+    }
+
+    shorts.push(...(data || []));
+    if (!data || data.length < POSTGREST_PAGE_SIZE) {
+      return shorts;
+    }
+  }
+}
+
+async function updateTriagedShorts(
+  ids: string[],
+  fromStatuses: ShortsData['status'][],
+  data: Partial<ShortsData>
+): Promise<number> {
+  let updated = 0;
+
+  for (const batch of chunkValues(Array.from(new Set(ids)), 200)) {
+    const { data: rows, error } = await supabaseAdmin
+      .from('shorts_data')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .in('id', batch)
+      .in('status', fromStatuses)
+      .is('claimed_by', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error updating triaged shorts:', error);
+      continue;
+    }
+    updated += rows?.length || 0;
+  }
+
+  return updated;
+}
+
+export async function requeueFailedShorts(ids: string[]): Promise<number> {
+  return updateTriagedShorts(ids, ['Failed', 'Skipped'], { status: 'Pending', ...FAILURE_RESET_FIELDS });
+}
+
+export async function skipFailedShorts(ids: string[]): Promise<number> {
+  return updateTriagedShorts(ids, ['Failed'], { status: 'Skipped', next_attempt_at: null });
+}
+
+// Fails when the target mapping already holds this video (uq_shorts_video_mapping).
+export async function reassignFailedShort(id: string, mappingId: string, targetChannelId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('shorts_data')
+    .update({
+      ...FAILURE_RESET_FIELDS,
+      status: 'Pending',
+      mapping_id: mappingId,
+      target_channel: targetChannelId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .in('status', ['Failed', 'Skipped'])
+    .is('claimed_by', null)
+    .select('id');
+
+  if (error) {
+    console.error('Error reassigning failed short:', error);
+    return false;
+  }
+  return (data?.length || 0) > 0;
+}
+
 export async function linkUnmappedSourceShortsToMapping(
   mappingId: string,
   sourceChannelId: string,
@@ -987,17 +1322,6 @@ export async function deleteShort(id: string): Promise<boolean> {
   return !error;
 }
 
-export async function incrementRetryCount(id: string, errorLog: string): Promise<boolean> {
-  const short = await getShortById(id);
-  if (!short) return false;
-  
-  return updateShort(id, {
-    retry_count: short.retry_count + 1,
-    error_log: errorLog,
-    status: short.retry_count >= 2 ? 'Failed' : 'Pending'
-  });
-}
-
 function extractSourceIdentifiers(
   short: Pick<ShortsData, 'source_channel'>,
   mapping: Pick<ChannelMapping, 'source_channel_id' | 'source_channel_url'> | null
@@ -1379,10 +1703,714 @@ export async function updateSchedulerState(data: Partial<SchedulerState>): Promi
   }
 }
 
+// Check-and-increment in one statement so parallel lanes can't both take the last slot.
+// limitReached: the cap was already hit; error: the call itself failed.
+export type ReserveDailyUploadResult = { uploads: number } | { limitReached: true } | { error: string };
+
+export async function reserveDailyUpload(cap: number | null): Promise<ReserveDailyUploadResult> {
+  const { data, error } = await supabaseAdmin.rpc('reserve_daily_upload', { p_cap: cap });
+
+  if (error) {
+    console.error('Error reserving daily upload:', error);
+    return { error: error.message || 'Failed to reserve daily upload' };
+  }
+  return typeof data === 'number' ? { uploads: data } : { limitReached: true };
+}
+
+export async function releaseDailyUpload(): Promise<boolean> {
+  const { error } = await supabaseAdmin.rpc('release_daily_upload');
+
+  if (error) {
+    console.error('Error releasing daily upload:', error);
+    return false;
+  }
+  return true;
+}
+
 export async function resetDailyUploads(): Promise<boolean> {
   return updateSchedulerState({ uploads_today: 0 });
 }
 
+// ==================== SCHEDULER JOBS ====================
+
+const SCHEDULER_JOB_RETRY_BASE_SECONDS = 30;
+
+// Lease length per job type; process_next covers download + transcode + upload.
+const SCHEDULER_JOB_VISIBILITY_SECONDS: Record<SchedulerJobType, number> = {
+  process_next: 45 * 60,
+  publish_due: 5 * 60,
+  cleanup_uploaded: 10 * 60,
+  reap_leases: 5 * 60,
+};
+
+interface EnqueueSchedulerJobOptions {
+  payload?: Record<string, unknown>;
+  dedupeKey?: string | null;
+  runAfter?: string | null;
+  maxAttempts?: number;
+  visibilityTimeoutSeconds?: number;
+}
+
+// duplicate: the dedupe key already exists (job was enqueued before); error: the insert failed.
+export type EnqueueSchedulerJobResult = { job: SchedulerJob } | { duplicate: true } | { error: string };
+
+export async function enqueueSchedulerJob(
+  jobType: SchedulerJobType,
+  options?: EnqueueSchedulerJobOptions
+): Promise<EnqueueSchedulerJobResult> {
+  const row = {
+    job_type: jobType,
+    payload: options?.payload || {},
+    dedupe_key: options?.dedupeKey?.trim() || null,
+    run_after: options?.runAfter || new Date().toISOString(),
+    max_attempts: options?.maxAttempts ?? 3,
+    visibility_timeout_seconds: options?.visibilityTimeoutSeconds ?? SCHEDULER_JOB_VISIBILITY_SECONDS[jobType] ?? 900,
+    status: 'queued',
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .upsert(row, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+    .select();
+
+  if (error) {
+    console.error('Error enqueuing scheduler job:', error);
+    return { error: error.message || 'Failed to enqueue job' };
+  }
+
+  const job = data?.[0] as SchedulerJob | undefined;
+  if (job) {
+    return { job };
+  }
+  // Without a dedupe key nothing can conflict, so an empty result is a failure
+  return row.dedupe_key ? { duplicate: true } : { error: 'Job insert returned no row' };
+}
+
+export async function getSchedulerJobById(id: string): Promise<SchedulerJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) return null;
+  return data || null;
+}
+
+export async function getSchedulerJobs(limit: number = 50, status?: SchedulerJobStatus): Promise<SchedulerJob[]> {
+  let query = supabaseAdmin
+    .from('scheduler_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading scheduler jobs:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function getSchedulerJobCounts(): Promise<Record<SchedulerJobStatus, number>> {
+  const statuses: SchedulerJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+  const results = await Promise.all(
+    statuses.map((status) =>
+      supabaseAdmin.from('scheduler_jobs').select('*', { count: 'exact', head: true }).eq('status', status)
+    )
+  );
+
+  return statuses.reduce(
+    (acc, status, index) => {
+      acc[status] = results[index].count || 0;
+      return acc;
+    },
+    { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 } as Record<SchedulerJobStatus, number>
+  );
+}
+
+async function failExhaustedSchedulerJob(job: SchedulerJob): Promise<void> {
+  const nowIso = new Date().toISOString();
+  await supabaseAdmin
+    .from('scheduler_jobs')
+    .update({
+      status: 'failed',
+      locked_by: null,
+      lease_expires_at: null,
+      finished_at: nowIso,
+      last_error: job.last_error || `Lease expired after ${job.attempts} attempt(s) (worker ${job.locked_by || 'unknown'})`,
+      updated_at: nowIso,
+    })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('attempts', job.attempts);
+}
+
+// Compare-and-set on (status, attempts) so only one worker wins each job.
+async function tryLeaseSchedulerJob(job: SchedulerJob, workerId: string): Promise<SchedulerJob | null> {
+  const now = Date.now();
+  const timeoutSeconds = job.visibility_timeout_seconds > 0 ? job.visibility_timeout_seconds : 900;
+
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .update({
+      status: 'running',
+      locked_by: workerId,
+      lease_expires_at: new Date(now + timeoutSeconds * 1000).toISOString(),
+      attempts: job.attempts + 1,
+      started_at: new Date(now).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error leasing scheduler job:', error);
+    return null;
+  }
+
+  return data || null;
+}
+
+export async function claimNextSchedulerJob(workerId: string): Promise<SchedulerJob | null> {
+  const nowIso = new Date().toISOString();
+
+  // Jobs whose worker died mid-run become visible again once the lease expires.
+  const { data: expired, error: expiredError } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('lease_expires_at', nowIso)
+    .order('lease_expires_at', { ascending: true })
+    .limit(10);
+
+  if (expiredError) {
+    console.error('Error loading expired scheduler jobs:', expiredError);
+  }
+
+  for (const job of (expired || []) as SchedulerJob[]) {
+    if (job.attempts >= job.max_attempts) {
+      await failExhaustedSchedulerJob(job);
+      continue;
+    }
+
+    const leased = await tryLeaseSchedulerJob(job, workerId);
+    if (leased) {
+      return leased;
+    }
+  }
+
+  const { data: queued, error: queuedError } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .select('*')
+    .eq('status', 'queued')
+    .lte('run_after', nowIso)
+    .order('run_after', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(10);
+
+  if (queuedError) {
+    console.error('Error loading queued scheduler jobs:', queuedError);
+    return null;
+  }
+
+  for (const job of (queued || []) as SchedulerJob[]) {
+    const leased = await tryLeaseSchedulerJob(job, workerId);
+    if (leased) {
+      return leased;
+    }
+  }
+
+  return null;
+}
+
+export async function completeSchedulerJob(
+  id: string,
+  workerId: string,
+  result: Record<string, unknown>
+): Promise<boolean> {
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      last_error: null,
+      locked_by: null,
+      lease_expires_at: null,
+      finished_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq('id', id)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('id');
+
+  return !error && (data?.length || 0) > 0;
+}
+
+export async function failSchedulerJob(job: SchedulerJob, workerId: string, errorMessage: string): Promise<boolean> {
+  const now = Date.now();
+  const canRetry = job.attempts < job.max_attempts;
+  const backoffSeconds = SCHEDULER_JOB_RETRY_BASE_SECONDS * 2 ** Math.max(0, job.attempts - 1);
+
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .update({
+      status: canRetry ? 'queued' : 'failed',
+      last_error: errorMessage,
+      locked_by: null,
+      lease_expires_at: null,
+      run_after: canRetry ? new Date(now + backoffSeconds * 1000).toISOString() : job.run_after,
+      finished_at: canRetry ? null : new Date(now).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('id');
+
+  return !error && (data?.length || 0) > 0;
+}
+
+export async function cancelSchedulerJob(id: string): Promise<boolean> {
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .update({
+      status: 'cancelled',
+      locked_by: null,
+      lease_expires_at: null,
+      finished_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq('id', id)
+    .in('status', ['queued', 'running'])
+    .select('id');
+
+  return !error && (data?.length || 0) > 0;
+}
+
+export async function retrySchedulerJob(id: string): Promise<boolean> {
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_after: nowIso,
+      last_error: null,
+      result: null,
+      locked_by: null,
+      lease_expires_at: null,
+      started_at: null,
+      finished_at: null,
+      updated_at: nowIso,
+    })
+    .eq('id', id)
+    .in('status', ['failed', 'cancelled'])
+    .select('id');
+
+  return !error && (data?.length || 0) > 0;
+}
+
+export async function pruneFinishedSchedulerJobs(olderThanHours: number = 72): Promise<number> {
+  const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_jobs')
+    .delete()
+    .in('status', ['succeeded', 'cancelled'])
+    .lt('finished_at', cutoff)
+    .select('id');
+
+  if (error) {
+    console.error('Error pruning scheduler jobs:', error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+// ==================== SCHEDULER SLOT RUNS ====================
+
+// Slot keys already handled, either in the slot ledger or as a job dedupe key.
+export async function getHandledSlotKeys(slotKeys: string[]): Promise<Set<string>> {
+  const handled = new Set<string>();
+  if (slotKeys.length === 0) {
+    return handled;
+  }
+
+  const [runsResult, jobsResult] = await Promise.all([
+    supabaseAdmin.from('scheduler_slot_runs').select('slot_key').in('slot_key', slotKeys),
+    supabaseAdmin.from('scheduler_jobs').select('dedupe_key').in('dedupe_key', slotKeys),
+  ]);
+
+  if (runsResult.error || jobsResult.error) {
+    console.error('Error reading handled slot keys:', runsResult.error || jobsResult.error);
+    // Treat everything as handled so a read failure cannot trigger a burst of catch-up runs
+    return new Set(slotKeys);
+  }
+
+  for (const row of runsResult.data || []) handled.add(row.slot_key as string);
+  for (const row of jobsResult.data || []) handled.add(row.dedupe_key as string);
+  return handled;
+}
+
+// Returns null when the slot was already recorded by another scheduler instance.
+export async function recordSchedulerSlotRun(
+  run: Omit<SchedulerSlotRun, 'id' | 'created_at'>
+): Promise<SchedulerSlotRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_slot_runs')
+    .upsert(run, { onConflict: 'slot_key', ignoreDuplicates: true })
+    .select();
+
+  if (error) {
+    console.error('Error recording scheduler slot run:', error);
+    return null;
+  }
+
+  return (data?.[0] as SchedulerSlotRun | undefined) || null;
+}
+
+export async function setSchedulerSlotRunJob(id: string, jobId: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('scheduler_slot_runs')
+    .update({ job_id: jobId })
+    .eq('id', id);
+
+  return !error;
+}
+
+// Forget a slot whose job could not be queued, so the next reconcile picks it up again
+export async function deleteSchedulerSlotRun(id: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('scheduler_slot_runs')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting scheduler slot run:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function getSchedulerSlotRuns(
+  limit: number = 50,
+  status?: SchedulerSlotRunStatus
+): Promise<SchedulerSlotRun[]> {
+  let query = supabaseAdmin
+    .from('scheduler_slot_runs')
+    .select('*')
+    .order('scheduled_for', { ascending: false })
+    .limit(limit);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching scheduler slot runs:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function pruneSchedulerSlotRuns(olderThanDays: number = 14): Promise<number> {
+  const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('scheduler_slot_runs')
+    .delete()
+    .lt('created_at', cutoff)
+    .select('id');
+
+  if (error) {
+    console.error('Error pruning scheduler slot runs:', error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+// ==================== YOUTUBE QUOTA ====================
+
+export async function recordYoutubeQuotaUsage(entry: {
+  quota_day: string;
+  credential_type: YoutubeQuotaCredentialType;
+  credential_id: string;
+  operation: string;
+  units: number;
+}): Promise<boolean> {
+  const { error } = await supabaseAdmin.rpc('record_youtube_quota_usage', {
+    p_quota_day: entry.quota_day,
+    p_credential_type: entry.credential_type,
+    p_credential_id: entry.credential_id,
+    p_operation: entry.operation,
+    p_units: entry.units,
+  });
+
+  if (error) {
+    console.error('Error recording YouTube quota usage:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function getYoutubeQuotaUsage(quotaDay: string, credentialId?: string): Promise<YoutubeQuotaUsage[]> {
+  let query = supabaseAdmin
+    .from('youtube_quota_usage')
+    .select('*')
+    .eq('quota_day', quotaDay);
+
+  if (credentialId) {
+    query = query.eq('credential_id', credentialId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching YouTube quota usage:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function pruneYoutubeQuotaUsage(beforeQuotaDay: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('youtube_quota_usage')
+    .delete()
+    .lt('quota_day', beforeQuotaDay)
+    .select('id');
+
+  if (error) {
+    console.error('Error pruning YouTube quota usage:', error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+// ==================== OAUTH ACCESS TOKENS ====================
+
+export async function getStoredAccessToken(tokenKey: string): Promise<OAuthAccessToken | null> {
+  const { data, error } = await supabaseAdmin
+    .from('oauth_access_tokens')
+    .select('*')
+    .eq('token_key', tokenKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching stored access token:', error);
+    return null;
+  }
+  return data;
+}
+
+export async function saveStoredAccessToken(entry: Omit<OAuthAccessToken, 'updated_at'>): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('oauth_access_tokens')
+    .upsert({ ...entry, updated_at: new Date().toISOString() }, { onConflict: 'token_key' });
+
+  if (error) {
+    console.error('Error saving access token:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function deleteStoredAccessToken(tokenKey: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('oauth_access_tokens')
+    .delete()
+    .eq('token_key', tokenKey);
+
+  if (error) {
+    console.error('Error deleting stored access token:', error);
+    return false;
+  }
+  return true;
+}
+
+// ==================== UPLOADED FINGERPRINTS ====================
+
+export async function recordUploadedFingerprint(
+  entry: Omit<UploadedFingerprint, 'id' | 'created_at'>
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('uploaded_fingerprints')
+    .upsert(entry, { onConflict: 'target_channel,video_id' });
+
+  if (error) {
+    console.error('Error recording uploaded fingerprint:', error);
+    return false;
+  }
+  return true;
+}
+
+// PostgREST caps every response at its max-rows (1000 by default), so the destination is read page by page.
+// null means the list is incomplete and must not be treated as "no duplicates".
+export async function getUploadedFingerprints(targetChannel: string): Promise<UploadedFingerprint[] | null> {
+  const fingerprints: UploadedFingerprint[] = [];
+
+  for (let offset = 0; ; offset += POSTGREST_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('uploaded_fingerprints')
+      .select('*')
+      .eq('target_channel', targetChannel)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + POSTGREST_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching uploaded fingerprints:', error);
+      return null;
+    }
+
+    fingerprints.push(...(data || []));
+    if (!data || data.length < POSTGREST_PAGE_SIZE) {
+      return fingerprints;
+    }
+  }
+}
+
+// ==================== AUDIO LIBRARY ====================
+
+export async function getAudioTracks(): Promise<AudioTrack[]> {
+  const { data, error } = await supabaseAdmin
+    .from('audio_tracks')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching audio tracks:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function getAudioTrackById(id: string): Promise<AudioTrack | null> {
+  const { data, error } = await supabaseAdmin
+    .from('audio_tracks')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    console.error('Error fetching audio track:', error);
+    return null;
+  }
+  return data;
+}
+
+export async function createAudioTrack(track: Omit<AudioTrack, 'id' | 'created_at'>): Promise<AudioTrack | null> {
+  const { data, error } = await supabaseAdmin
+    .from('audio_tracks')
+    .insert(track)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating audio track:', error);
+    return null;
+  }
+  return data;
+}
+
+export async function deleteAudioTrack(id: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('audio_tracks')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting audio track:', error);
+    return false;
+  }
+  return true;
+}
+
+// ==================== TRANSCODE PROFILES ====================
+
+export async function getTranscodeProfiles(): Promise<TranscodeProfile[]> {
+  const { data, error } = await supabaseAdmin
+    .from('transcode_profiles')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching transcode profiles:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function getTranscodeProfileById(id: string): Promise<TranscodeProfile | null> {
+  const { data, error } = await supabaseAdmin
+    .from('transcode_profiles')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    console.error('Error fetching transcode profile:', error);
+    return null;
+  }
+  return data;
+}
+
+export async function createTranscodeProfile(
+  profile: Omit<TranscodeProfile, 'id' | 'created_at' | 'updated_at'>
+): Promise<TranscodeProfile | null> {
+  const { data, error } = await supabaseAdmin
+    .from('transcode_profiles')
+    .insert(profile)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating transcode profile:', error);
+    return null;
+  }
+  return data;
+}
+
+export async function updateTranscodeProfile(
+  id: string,
+  updates: Partial<Omit<TranscodeProfile, 'id' | 'created_at' | 'updated_at'>>
+): Promise<TranscodeProfile | null> {
+  const { data, error } = await supabaseAdmin
+    .from('transcode_profiles')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating transcode profile:', error);
+    return null;
+  }
+  return data;
+}
+
+// Mappings using the profile fall back to the defaults (ON DELETE SET NULL)
+export async function deleteTranscodeProfile(id: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('transcode_profiles')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting transcode profile:', error);
+    return false;
+  }
+  return true;
+}
+
 // ==================== STATISTICS ====================
 
 export async function getStats() {
@@ -0,0 +1,178 @@
+import { createHash } from 'crypto';
+import {
+  deleteStoredAccessToken,
+  getConfig,
+  getStoredAccessToken,
+  saveStoredAccessToken,
+} from '@/lib/supabase/database';
+
+// Tokens are refreshed this long before Google's expiry so a slow request never outlives one
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+// Google issues one-hour tokens; used when the response leaves expires_in out
+const DEFAULT_EXPIRES_IN_SECONDS = 3600;
+// A revoked refresh token stays revoked; don't ask Google again for a while
+const INVALID_GRANT_RETRY_MS = 10 * 60 * 1000;
+
+export const DESTINATION_RECONNECT_ERROR =
+  'Destination needs reconnect: Google rejected its refresh token (invalid_grant). Reconnect the channel from mapping screen.';
+
+interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+export interface AccessTokenResult {
+  accessToken?: string;
+  error?: string;
+}
+
+const cachedTokens = new Map<string, CachedAccessToken>();
+// Refreshes in flight, so concurrent callers share one token request
+const pendingRefreshes = new Map<string, Promise<AccessTokenResult>>();
+const rejectedGrants = new Map<string, number>();
+
+function readEnv(...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = process.env[key];
+    if (value && value.trim()) {
+      return value;
+    }
+  }
+  return null;
+}
+
+// Cache keys are fingerprints; refresh tokens never leave the destination tables
+function tokenKey(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken.trim()).digest('hex').slice(0, 32);
+}
+
+function isFresh(token: CachedAccessToken | undefined): token is CachedAccessToken {
+  return Boolean(token && token.expiresAt - EXPIRY_MARGIN_MS > Date.now());
+}
+
+// 'database' shares tokens between the web app and scheduler processes; anything else keeps them in memory
+async function isDatabaseCacheEnabled(): Promise<boolean> {
+  const mode = (await getConfig('oauth_token_cache')) || readEnv('OAUTH_TOKEN_CACHE');
+  return mode?.trim().toLowerCase() === 'database';
+}
+
+async function storeToken(key: string, token: CachedAccessToken): Promise<void> {
+  cachedTokens.set(key, token);
+  rejectedGrants.delete(key);
+  if (await isDatabaseCacheEnabled()) {
+    await saveStoredAccessToken({
+      token_key: key,
+      access_token: token.accessToken,
+      expires_at: new Date(token.expiresAt).toISOString(),
+    });
+  }
+}
+
+async function refreshAccessToken(
+  key: string,
+  refreshToken: string,
+  client: { clientId: string; clientSecret: string }
+): Promise<AccessTokenResult> {
+  const databaseCache = await isDatabaseCacheEnabled();
+  if (databaseCache) {
+    const stored = await getStoredAccessToken(key);
+    const token = stored
+      ? { accessToken: stored.access_token, expiresAt: new Date(stored.expires_at).getTime() }
+      : undefined;
+    if (isFresh(token)) {
+      cachedTokens.set(key, token);
+      return { accessToken: token.accessToken };
+    }
+  }
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token',
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    console.error('Token refresh failed:', body);
+
+    let reason = '';
+    try {
+      reason = (JSON.parse(body) as { error?: string }).error || '';
+    } catch {}
+
+    if (reason === 'invalid_grant') {
+      cachedTokens.delete(key);
+      rejectedGrants.set(key, Date.now());
+      if (databaseCache) {
+        await deleteStoredAccessToken(key);
+      }
+      return { error: DESTINATION_RECONNECT_ERROR };
+    }
+    return { error: `Failed to get access token (status ${response.status}): ${body.slice(0, 300)}` };
+  }
+
+  const data = (await response.json()) as { access_token?: string; expires_in?: number };
+  if (!data.access_token) {
+    return { error: 'Failed to get access token: no access_token in response' };
+  }
+
+  const expiresIn = typeof data.expires_in === 'number' && data.expires_in > 0 ? data.expires_in : DEFAULT_EXPIRES_IN_SECONDS;
+  await storeToken(key, { accessToken: data.access_token, expiresAt: Date.now() + expiresIn * 1000 });
+  return { accessToken: data.access_token };
+}
+
+// Access token for a destination's refresh token (or the global one), reused until shortly before it
+// expires. Concurrent callers with the same refresh token wait on a single refresh.
+export async function resolveAccessToken(refreshTokenOverride?: string): Promise<AccessTokenResult> {
+  try {
+    const clientId = (await getConfig('youtube_client_id')) || readEnv('YOUTUBE_CLIENT_ID');
+    const clientSecret = (await getConfig('youtube_client_secret')) || readEnv('YOUTUBE_CLIENT_SECRET');
+    const refreshToken =
+      refreshTokenOverride ||
+      (await getConfig('youtube_refresh_token')) ||
+      readEnv('YOUTUBE_REFRESH_TOKEN') ||
+      null;
+
+    if (!clientId || !clientSecret || !refreshToken) {
+      console.error('YouTube OAuth credentials not configured');
+      return { error: 'YouTube OAuth credentials not configured' };
+    }
+
+    const key = tokenKey(refreshToken);
+    const cached = cachedTokens.get(key);
+    if (isFresh(cached)) {
+      return { accessToken: cached.accessToken };
+    }
+
+    const rejectedAt = rejectedGrants.get(key);
+    if (rejectedAt && Date.now() - rejectedAt < INVALID_GRANT_RETRY_MS) {
+      return { error: DESTINATION_RECONNECT_ERROR };
+    }
+
+    let pending = pendingRefreshes.get(key);
+    if (!pending) {
+      pending = refreshAccessToken(key, refreshToken, { clientId, clientSecret })
+        .catch((error): AccessTokenResult => {
+          console.error('Error refreshing token:', error);
+          return { error: `Failed to get access token: ${error instanceof Error ? error.message : 'refresh failed'}` };
+        })
+        .finally(() => pendingRefreshes.delete(key));
+      pendingRefreshes.set(key, pending);
+    }
+    return await pending;
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    return { error: 'Failed to get access token' };
+  }
+}
+
+// Seed the cache with the token from a fresh OAuth connection; also lifts an earlier invalid_grant
+export async function rememberAccessToken(refreshToken: string, accessToken: string, expiresIn?: number): Promise<void> {
+  const seconds = typeof expiresIn === 'number' && expiresIn > 0 ? expiresIn : DEFAULT_EXPIRES_IN_SECONDS;
+  await storeToken(tokenKey(refreshToken), { accessToken, expiresAt: Date.now() + seconds * 1000 });
+}
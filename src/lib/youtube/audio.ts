@@ -0,0 +1,392 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getAudioTracks, type ChannelMapping } from '@/lib/supabase/database';
+import type { AudioTrack } from '@/lib/supabase/client';
+import { runCommand } from '@/lib/youtube/command-runner';
+import { probeMediaSegment } from '@/lib/youtube/branding';
+
+export type BackgroundAudioMode = 'off' | 'duck' | 'replace';
+
+export const BACKGROUND_AUDIO_MODES: BackgroundAudioMode[] = ['off', 'duck', 'replace'];
+
+// YouTube plays back around -14 LUFS, so louder uploads are turned down anyway
+export const DEFAULT_LOUDNESS_TARGET_LUFS = -14;
+const MIN_LOUDNESS_TARGET_LUFS = -30;
+const MAX_LOUDNESS_TARGET_LUFS = -5;
+const TRUE_PEAK_DBTP = -1.5;
+const LOUDNESS_RANGE_LU = 11;
+
+const AUDIO_LIBRARY_DIR = process.env.AUDIO_LIBRARY_DIR || path.join(process.cwd(), 'data', 'audio-library');
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.wav', '.ogg', '.opus', '.flac'];
+const AUDIO_MAX_BYTES = 50 * 1024 * 1024;
+const AUDIO_TIMEOUT_MS = 15 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 30000;
+const DUCKED_BACKGROUND_VOLUME = 0.35;
+const AUDIO_FORMAT = 'aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo';
+
+export interface LoudnessMeasurement {
+  input_i: number;
+  input_tp: number;
+  input_lra: number;
+  input_thresh: number;
+  target_offset: number;
+}
+
+export interface AudioProcessingOptions {
+  targetLufs: number | null;
+  background: { mode: Exclude<BackgroundAudioMode, 'off'>; filePath: string } | null;
+  // Part of the timeline the background covers (the main clip between intro and outro); null means all of it
+  window?: { start: number; duration: number } | null;
+  // Defaults to <name>_audio.mp4 next to the input
+  outputPath?: string;
+  // AAC output settings of the mapping's transcode profile; defaults to 192 kbps, 48 kHz stereo
+  encoding?: { bitrateKbps: number; sampleRate: number; channels: number } | null;
+}
+
+export interface AudioProcessingResult {
+  success: boolean;
+  filePath: string;
+  processed: boolean;
+  measured?: LoudnessMeasurement;
+  warning?: string;
+  error?: string;
+}
+
+export interface MappingAudioPlan {
+  options: AudioProcessingOptions | null;
+  trackName: string | null;
+  warning?: string;
+}
+
+// Null (or "off") disables normalisation; anything unparsable falls back to the default target.
+export function normalizeLoudnessTarget(raw: unknown): number | null {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+  if (typeof raw === 'string' && ['', 'off', '__off__'].includes(raw.trim().toLowerCase())) {
+    return null;
+  }
+
+  const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw));
+  if (!Number.isFinite(numeric)) {
+    return DEFAULT_LOUDNESS_TARGET_LUFS;
+  }
+  return Math.min(MAX_LOUDNESS_TARGET_LUFS, Math.max(MIN_LOUDNESS_TARGET_LUFS, Math.round(numeric * 10) / 10));
+}
+
+export function normalizeBackgroundAudioMode(raw: unknown): BackgroundAudioMode {
+  return BACKGROUND_AUDIO_MODES.includes(raw as BackgroundAudioMode) ? (raw as BackgroundAudioMode) : 'off';
+}
+
+export function normalizeAudioTags(raw: unknown): string[] {
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  return Array.from(
+    new Set(
+      values
+        .filter((value): value is string => typeof value === 'string')
+        .map((value) => value.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  ).slice(0, 10);
+}
+
+function resolveLibraryFile(relativePath: string): string | null {
+  const normalized = path.posix.normalize(relativePath.replace(/\\/g, '/'));
+  if (!normalized || normalized.startsWith('..') || path.posix.isAbsolute(normalized)) {
+    return null;
+  }
+  return path.join(AUDIO_LIBRARY_DIR, normalized);
+}
+
+async function probeAudioDuration(filePath: string): Promise<number | null> {
+  const probe = await runCommand(
+    'ffprobe',
+    ['-v', 'error', '-select_streams', 'a:0', '-show_entries', 'stream=codec_type:format=duration', '-of', 'json', filePath],
+    { timeoutMs: PROBE_TIMEOUT_MS }
+  );
+  if (!probe.success) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(probe.stdout) as { streams?: unknown[]; format?: { duration?: string } };
+    const duration = Number.parseFloat(data.format?.duration || '');
+    return data.streams && data.streams.length > 0 && Number.isFinite(duration) && duration > 0 ? duration : null;
+  } catch {
+    return null;
+  }
+}
+
+// Store an uploaded library track under a unique name and report its duration.
+export async function saveAudioLibraryFile(
+  fileName: string,
+  bytes: Uint8Array
+): Promise<{ success: boolean; path?: string; duration?: number; error?: string }> {
+  const extension = path.extname(fileName || '').toLowerCase();
+  if (!AUDIO_EXTENSIONS.includes(extension)) {
+    return { success: false, error: `Unsupported audio file type. Use ${AUDIO_EXTENSIONS.join(', ')}` };
+  }
+
+  if (bytes.byteLength === 0 || bytes.byteLength > AUDIO_MAX_BYTES) {
+    return { success: false, error: `Audio file must be between 1 byte and ${AUDIO_MAX_BYTES / (1024 * 1024)} MB` };
+  }
+
+  const relativePath = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}${extension}`;
+  const filePath = path.join(AUDIO_LIBRARY_DIR, relativePath);
+
+  try {
+    await fs.mkdir(AUDIO_LIBRARY_DIR, { recursive: true });
+    await fs.writeFile(filePath, bytes);
+  } catch (error) {
+    console.error('Error saving audio track:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save audio track' };
+  }
+
+  const duration = await probeAudioDuration(filePath);
+  if (duration === null) {
+    await fs.rm(filePath, { force: true });
+    return { success: false, error: 'File has no readable audio stream' };
+  }
+
+  return { success: true, path: relativePath, duration };
+}
+
+export async function deleteAudioLibraryFile(relativePath: string): Promise<void> {
+  const filePath = resolveLibraryFile(relativePath);
+  if (filePath) {
+    await fs.rm(filePath, { force: true }).catch((error) => console.error('Error deleting audio track file:', error));
+  }
+}
+
+// Random library track, limited to the tag when one is given.
+export async function pickBackgroundTrack(tag: string | null): Promise<{ track: AudioTrack; filePath: string } | null> {
+  const wanted = tag ? normalizeAudioTags(tag)[0] : null;
+  const tracks = (await getAudioTracks()).filter((track) => !wanted || (track.tags || []).includes(wanted));
+
+  // Shuffle so a missing file falls through to another track
+  for (const track of tracks.sort(() => Math.random() - 0.5)) {
+    const filePath = resolveLibraryFile(track.file_path);
+    if (filePath && (await fs.access(filePath).then(() => true, () => false))) {
+      return { track, filePath };
+    }
+  }
+  return null;
+}
+
+export async function resolveMappingAudio(
+  mapping: Pick<ChannelMapping, 'loudness_target_lufs' | 'background_audio_mode' | 'background_audio_tag'> | null
+): Promise<MappingAudioPlan> {
+  if (!mapping) {
+    return { options: null, trackName: null };
+  }
+
+  const targetLufs = normalizeLoudnessTarget(mapping.loudness_target_lufs);
+  const mode = normalizeBackgroundAudioMode(mapping.background_audio_mode);
+  let background: AudioProcessingOptions['background'] = null;
+  let trackName: string | null = null;
+  let warning: string | undefined;
+
+  if (mode !== 'off') {
+    const picked = await pickBackgroundTrack(mapping.background_audio_tag);
+    if (picked) {
+      background = { mode, filePath: picked.filePath };
+      trackName = picked.track.name;
+    } else {
+      warning = mapping.background_audio_tag
+        ? `No audio library track tagged "${mapping.background_audio_tag}"; keeping original audio`
+        : 'Audio library is empty; keeping original audio';
+    }
+  }
+
+  return {
+    options: targetLufs !== null || background ? { targetLufs, background } : null,
+    trackName,
+    warning,
+  };
+}
+
+function parseLoudnormJson(stderr: string): LoudnessMeasurement | null {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(stderr.slice(start, end + 1)) as Record<string, string>;
+    const measurement = {
+      input_i: Number.parseFloat(data.input_i),
+      input_tp: Number.parseFloat(data.input_tp),
+      input_lra: Number.parseFloat(data.input_lra),
+      input_thresh: Number.parseFloat(data.input_thresh),
+      target_offset: Number.parseFloat(data.target_offset),
+    };
+    // Silent input reports -inf, which cannot be fed back into the second pass
+    return Object.values(measurement).every(Number.isFinite) ? measurement : null;
+  } catch {
+    return null;
+  }
+}
+
+function loudnormFilter(targetLufs: number, measured?: LoudnessMeasurement | null): string {
+  const base = `loudnorm=I=${targetLufs}:TP=${TRUE_PEAK_DBTP}:LRA=${LOUDNESS_RANGE_LU}`;
+  if (!measured) {
+    return base;
+  }
+  return (
+    `${base}:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}:measured_LRA=${measured.input_lra}` +
+    `:measured_thresh=${measured.input_thresh}:offset=${measured.target_offset}:linear=true`
+  );
+}
+
+// Mix of the original audio (input 0) and the background track (input 1); returns the graph parts and output label.
+function buildMixGraph(
+  hasVoice: boolean,
+  totalDuration: number,
+  options: AudioProcessingOptions
+): { parts: string[]; label: string } {
+  if (!options.background) {
+    return { parts: [], label: '[0:a]' };
+  }
+
+  const window = options.window || { start: 0, duration: totalDuration };
+  const startMs = Math.round(window.start * 1000);
+  const background =
+    `[1:a]${AUDIO_FORMAT},atrim=0:${window.duration.toFixed(3)},asetpts=PTS-STARTPTS` +
+    (options.background.mode === 'duck' ? `,volume=${DUCKED_BACKGROUND_VOLUME}` : '') +
+    (startMs > 0 ? `,adelay=${startMs}:all=1` : '') +
+    '[bg]';
+
+  if (!hasVoice) {
+    return { parts: [background], label: '[bg]' };
+  }
+
+  if (options.background.mode === 'duck') {
+    return {
+      parts: [
+        `[0:a]${AUDIO_FORMAT},asplit=2[voice][sidechain]`,
+        background,
+        '[bg][sidechain]sidechaincompress=threshold=0.03:ratio=10:attack=15:release=350[ducked]',
+        '[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0[mix]',
+      ],
+      label: '[mix]',
+    };
+  }
+
+  // Replace: silence the original only where the background plays, so intro/outro keep their sound
+  const windowEnd = window.start + window.duration;
+  return {
+    parts: [
+      `[0:a]${AUDIO_FORMAT},volume=0:enable='between(t,${window.start.toFixed(3)},${windowEnd.toFixed(3)})'[voice]`,
+      background,
+      '[voice][bg]amix=inputs=2:duration=first:dropout_transition=0[mix]',
+    ],
+    label: '[mix]',
+  };
+}
+
+// Two-pass EBU R128 loudness normalisation, optionally over a ducked or replacing background track.
+// The video stream is copied; the result goes to options.outputPath or next to the input as <name>_audio.mp4.
+export async function processAudio(filePath: string, options: AudioProcessingOptions): Promise<AudioProcessingResult> {
+  const media = await probeMediaSegment(filePath);
+  if (!media) {
+    return { success: false, filePath, processed: false, error: 'Could not probe video for audio processing' };
+  }
+
+  if (!media.hasAudio && !options.background) {
+    return { success: true, filePath, processed: false, warning: 'No audio stream to normalise' };
+  }
+
+  const inputArgs = ['-i', filePath];
+  if (options.background) {
+    inputArgs.push('-stream_loop', '-1', '-i', options.background.filePath);
+  }
+
+  const mix = buildMixGraph(media.hasAudio, media.duration, options);
+  const withFilter = (filter: string, label: string) =>
+    [...mix.parts, `${mix.label}${filter}${label}`].join(';');
+
+  let measured: LoudnessMeasurement | null = null;
+  if (options.targetLufs !== null) {
+    const measurePass = await runCommand(
+      'ffmpeg',
+      [
+        '-hide_banner',
+        '-nostats',
+        ...inputArgs,
+        '-filter_complex',
+        withFilter(`${loudnormFilter(options.targetLufs)}:print_format=json`, '[measure]'),
+        '-map',
+        '[measure]',
+        '-f',
+        'null',
+        '-',
+      ],
+      { timeoutMs: AUDIO_TIMEOUT_MS }
+    );
+    if (!measurePass.success) {
+      return { success: false, filePath, processed: false, error: measurePass.error || 'Loudness measurement failed' };
+    }
+    // Without a usable measurement loudnorm still works single-pass, just less precisely
+    measured = parseLoudnormJson(measurePass.stderr);
+  }
+
+  const encoding = options.encoding || { bitrateKbps: 192, sampleRate: 48000, channels: 2 };
+  const finalFilter =
+    options.targetLufs !== null
+      ? `${loudnormFilter(options.targetLufs, measured)},aresample=${encoding.sampleRate}`
+      : 'anull';
+  const parsed = path.parse(filePath);
+  const outputPath = options.outputPath || path.join(parsed.dir, `${parsed.name}_audio.mp4`);
+
+  const renderPass = await runCommand(
+    'ffmpeg',
+    [
+      '-hide_banner',
+      '-nostats',
+      '-loglevel',
+      'error',
+      '-y',
+      ...inputArgs,
+      '-filter_complex',
+      withFilter(finalFilter, '[aout]'),
+      '-map',
+      '0:v',
+      '-map',
+      '[aout]',
+      '-c:v',
+      'copy',
+      '-c:a',
+      'aac',
+      '-b:a',
+      `${encoding.bitrateKbps}k`,
+      '-ar',
+      String(encoding.sampleRate),
+      '-ac',
+      String(encoding.channels),
+      '-movflags',
+      '+faststart',
+      outputPath,
+    ],
+    { timeoutMs: AUDIO_TIMEOUT_MS }
+  );
+
+  if (!renderPass.success) {
+    await fs.rm(outputPath, { force: true });
+    const detail = renderPass.stderr.trim().split('\n').slice(-3).join(' ');
+    return {
+      success: false,
+      filePath,
+      processed: false,
+      error: `${renderPass.error || 'Audio render failed'}${detail ? `: ${detail}` : ''}`,
+    };
+  }
+
+  return {
+    success: true,
+    filePath: outputPath,
+    processed: true,
+    measured: measured || undefined,
+    warning: options.targetLufs !== null && !measured ? 'Loudness measurement unavailable, used single-pass loudnorm' : undefined,
+  };
+}
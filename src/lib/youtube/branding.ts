@@ -0,0 +1,383 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { runCommand } from '@/lib/youtube/command-runner';
+import type { FrameSize } from '@/lib/youtube/reframe';
+
+export type BrandingAssetKind = 'watermark' | 'intro' | 'outro';
+
+export type WatermarkPosition = 'top_left' | 'top_right' | 'bottom_left' | 'bottom_right' | 'center';
+
+export const BRANDING_ASSET_KINDS: BrandingAssetKind[] = ['watermark', 'intro', 'outro'];
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = ['top_left', 'top_right', 'bottom_left', 'bottom_right', 'center'];
+
+// Stored on channel_mappings.branding; asset paths are relative to BRANDING_DIR.
+export interface MappingBranding {
+  watermark_path: string | null;
+  watermark_position: WatermarkPosition;
+  // Watermark width as a fraction of the output width
+  watermark_scale: number;
+  watermark_opacity: number;
+  // Distance from the frame edge in output pixels
+  watermark_margin: number;
+  intro_path: string | null;
+  outro_path: string | null;
+}
+
+export const DEFAULT_BRANDING: MappingBranding = {
+  watermark_path: null,
+  watermark_position: 'bottom_right',
+  watermark_scale: 0.18,
+  watermark_opacity: 0.85,
+  watermark_margin: 32,
+  intro_path: null,
+  outro_path: null,
+};
+
+const BRANDING_DIR = process.env.BRANDING_ASSET_DIR || path.join(process.cwd(), 'data', 'branding');
+const PROBE_TIMEOUT_MS = 30000;
+const CLIP_FPS = 30;
+
+const ASSET_EXTENSIONS: Record<BrandingAssetKind, string[]> = {
+  watermark: ['.png', '.jpg', '.jpeg', '.webp'],
+  intro: ['.mp4', '.mov', '.webm', '.mkv'],
+  outro: ['.mp4', '.mov', '.webm', '.mkv'],
+};
+
+const ASSET_MAX_BYTES: Record<BrandingAssetKind, number> = {
+  watermark: 5 * 1024 * 1024,
+  intro: 200 * 1024 * 1024,
+  outro: 200 * 1024 * 1024,
+};
+
+const ASSET_PATH_FIELDS: Record<BrandingAssetKind, 'watermark_path' | 'intro_path' | 'outro_path'> = {
+  watermark: 'watermark_path',
+  intro: 'intro_path',
+  outro: 'outro_path',
+};
+
+function clampNumber(raw: unknown, min: number, max: number, fallback: number): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw ?? ''));
+  if (!Number.isFinite(numeric)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, numeric));
+}
+
+function normalizeAssetPath(raw: unknown): string | null {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return null;
+  }
+  const normalized = path.posix.normalize(raw.trim().replace(/\\/g, '/'));
+  return normalized.startsWith('..') || path.posix.isAbsolute(normalized) ? null : normalized;
+}
+
+export function isBrandingAssetKind(value: unknown): value is BrandingAssetKind {
+  return BRANDING_ASSET_KINDS.includes(value as BrandingAssetKind);
+}
+
+export function brandingPathField(kind: BrandingAssetKind) {
+  return ASSET_PATH_FIELDS[kind];
+}
+
+export function normalizeBranding(raw: unknown): MappingBranding {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const position = WATERMARK_POSITIONS.includes(value.watermark_position as WatermarkPosition)
+    ? (value.watermark_position as WatermarkPosition)
+    : DEFAULT_BRANDING.watermark_position;
+
+  return {
+    watermark_path: normalizeAssetPath(value.watermark_path),
+    watermark_position: position,
+    watermark_scale: clampNumber(value.watermark_scale, 0.05, 0.5, DEFAULT_BRANDING.watermark_scale),
+    watermark_opacity: clampNumber(value.watermark_opacity, 0.1, 1, DEFAULT_BRANDING.watermark_opacity),
+    watermark_margin: Math.round(clampNumber(value.watermark_margin, 0, 200, DEFAULT_BRANDING.watermark_margin)),
+    intro_path: normalizeAssetPath(value.intro_path),
+    outro_path: normalizeAssetPath(value.outro_path),
+  };
+}
+
+// Take overlay settings from user input but keep asset paths from the stored value;
+// paths only change through uploads.
+export function mergeBrandingSettings(current: unknown, input: unknown): MappingBranding {
+  const stored = normalizeBranding(current);
+  const next = normalizeBranding(input);
+  return {
+    ...next,
+    watermark_path: stored.watermark_path,
+    intro_path: stored.intro_path,
+    outro_path: stored.outro_path,
+  };
+}
+
+export function hasBrandingAssets(branding: MappingBranding | null | undefined): boolean {
+  return Boolean(branding && (branding.watermark_path || branding.intro_path || branding.outro_path));
+}
+
+function resolveAssetFile(relativePath: string | null): string | null {
+  const normalized = normalizeAssetPath(relativePath);
+  return normalized ? path.join(BRANDING_DIR, normalized) : null;
+}
+
+// Write an uploaded asset as <mappingId>/<kind><ext>, replacing any earlier upload of that kind.
+export async function saveBrandingAsset(
+  mappingId: string,
+  kind: BrandingAssetKind,
+  fileName: string,
+  bytes: Uint8Array
+): Promise<{ success: boolean; path?: string; error?: string }> {
+  const extension = path.extname(fileName || '').toLowerCase();
+  if (!ASSET_EXTENSIONS[kind].includes(extension)) {
+    return { success: false, error: `Unsupported ${kind} file type. Use ${ASSET_EXTENSIONS[kind].join(', ')}` };
+  }
+
+  if (bytes.byteLength === 0 || bytes.byteLength > ASSET_MAX_BYTES[kind]) {
+    return {
+      success: false,
+      error: `${kind} file must be between 1 byte and ${Math.round(ASSET_MAX_BYTES[kind] / (1024 * 1024))} MB`,
+    };
+  }
+
+  const mappingDir = mappingId.replace(/[^a-zA-Z0-9_-]/g, '');
+  if (!mappingDir) {
+    return { success: false, error: 'Invalid mapping id' };
+  }
+
+  try {
+    const directory = path.join(BRANDING_DIR, mappingDir);
+    await fs.mkdir(directory, { recursive: true });
+
+    const existing = await fs.readdir(directory);
+    await Promise.all(
+      existing
+        .filter((file) => path.parse(file).name === kind)
+        .map((file) => fs.rm(path.join(directory, file), { force: true }))
+    );
+
+    const relativePath = `${mappingDir}/${kind}${extension}`;
+    await fs.writeFile(path.join(BRANDING_DIR, relativePath), bytes);
+    return { success: true, path: relativePath };
+  } catch (error) {
+    console.error('Error saving branding asset:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save asset' };
+  }
+}
+
+export async function deleteBrandingAsset(relativePath: string | null): Promise<void> {
+  const filePath = resolveAssetFile(relativePath);
+  if (filePath) {
+    await fs.rm(filePath, { force: true }).catch((error) => console.error('Error deleting branding asset:', error));
+  }
+}
+
+export async function deleteMappingBrandingAssets(mappingId: string): Promise<void> {
+  const mappingDir = mappingId.replace(/[^a-zA-Z0-9_-]/g, '');
+  if (mappingDir) {
+    await fs
+      .rm(path.join(BRANDING_DIR, mappingDir), { recursive: true, force: true })
+      .catch((error) => console.error('Error deleting branding assets:', error));
+  }
+}
+
+export interface BrandingSegment {
+  filePath: string;
+  duration: number;
+  hasAudio: boolean;
+}
+
+export interface ResolvedBranding {
+  settings: MappingBranding;
+  watermarkPath: string | null;
+  intro: BrandingSegment | null;
+  outro: BrandingSegment | null;
+  // Assets configured on the mapping but missing or unreadable on disk
+  missing: string[];
+}
+
+export async function probeMediaSegment(filePath: string): Promise<BrandingSegment | null> {
+  const probe = await runCommand(
+    'ffprobe',
+    ['-v', 'error', '-show_entries', 'format=duration:stream=codec_type', '-of', 'json', filePath],
+    { timeoutMs: PROBE_TIMEOUT_MS }
+  );
+  if (!probe.success) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(probe.stdout) as {
+      format?: { duration?: string };
+      streams?: Array<{ codec_type?: string }>;
+    };
+    const duration = Number.parseFloat(data.format?.duration || '');
+    const streams = data.streams || [];
+    if (!Number.isFinite(duration) || duration <= 0 || !streams.some((stream) => stream.codec_type === 'video')) {
+      return null;
+    }
+    return { filePath, duration, hasAudio: streams.some((stream) => stream.codec_type === 'audio') };
+  } catch {
+    return null;
+  }
+}
+
+// Check the mapping's assets on disk; missing ones are reported and left out of the render.
+export async function resolveBrandingAssets(raw: unknown): Promise<ResolvedBranding | null> {
+  const settings = normalizeBranding(raw);
+  if (!hasBrandingAssets(settings)) {
+    return null;
+  }
+
+  const missing: string[] = [];
+  let watermarkPath = resolveAssetFile(settings.watermark_path);
+  if (watermarkPath) {
+    const exists = await fs
+      .access(watermarkPath)
+      .then(() => true)
+      .catch(() => false);
+    if (!exists) {
+      missing.push('watermark');
+      watermarkPath = null;
+    }
+  }
+
+  const loadClip = async (kind: 'intro' | 'outro', relativePath: string | null) => {
+    const filePath = resolveAssetFile(relativePath);
+    if (!filePath) {
+      return null;
+    }
+    const segment = await probeMediaSegment(filePath);
+    if (!segment) {
+      missing.push(kind);
+    }
+    return segment;
+  };
+
+  const [intro, outro] = await Promise.all([
+    loadClip('intro', settings.intro_path),
+    loadClip('outro', settings.outro_path),
+  ]);
+
+  return { settings, watermarkPath, intro, outro, missing };
+}
+
+function watermarkPlacement(position: WatermarkPosition, margin: number): string {
+  switch (position) {
+    case 'top_left':
+      return `${margin}:${margin}`;
+    case 'top_right':
+      return `W-w-${margin}:${margin}`;
+    case 'bottom_left':
+      return `${margin}:H-h-${margin}`;
+    case 'center':
+      return '(W-w)/2:(H-h)/2';
+    default:
+      return `W-w-${margin}:H-h-${margin}`;
+  }
+}
+
+function normalizeClipVideo(inputIndex: number, target: FrameSize, label: string): string {
+  const { width, height } = target;
+  return (
+    `[${inputIndex}:v]scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease,` +
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${CLIP_FPS},format=yuv420p[${label}]`
+  );
+}
+
+function normalizeClipAudio(
+  inputIndex: number,
+  segment: { duration: number; hasAudio: boolean },
+  label: string,
+  filter?: string | null
+): string {
+  // concat needs an audio stream for every segment, so silent clips get generated silence
+  return segment.hasAudio
+    ? `[${inputIndex}:a]${filter ? `${filter},` : ''}aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo[${label}]`
+    : `aevalsrc=0:c=stereo:s=48000:d=${segment.duration.toFixed(3)},aformat=sample_fmts=fltp[${label}]`;
+}
+
+export interface BrandedGraph {
+  // Extra ffmpeg input args, in input order after the main video (index 0)
+  inputArgs: string[];
+  filterComplex: string;
+  videoLabel: string;
+  audioLabel: string | null;
+  totalDuration: number | null;
+}
+
+// Compose the main video chain with the watermark overlay and intro/outro concatenation
+// into one -filter_complex graph. mainFilter is applied to input 0 and must output target size;
+// main.audioFilter (transform trims/speed) is applied to its audio.
+export function buildBrandedFilterGraph(
+  mainFilter: string,
+  target: FrameSize,
+  branding: ResolvedBranding,
+  main: { duration: number | null; hasAudio: boolean; audioFilter?: string | null }
+): BrandedGraph {
+  const inputArgs: string[] = [];
+  const parts: string[] = [];
+  let nextInput = 1;
+
+  let mainVideo = `${mainFilter},setsar=1`;
+  if (branding.watermarkPath) {
+    const watermarkInput = nextInput++;
+    inputArgs.push('-i', branding.watermarkPath);
+    const { watermark_scale, watermark_opacity, watermark_position, watermark_margin } = branding.settings;
+    const watermarkWidth = Math.max(2, Math.round((target.width * watermark_scale) / 2) * 2);
+    parts.push(`[0:v]${mainVideo}[base]`);
+    parts.push(
+      `[${watermarkInput}:v]format=rgba,scale=${watermarkWidth}:-1,colorchannelmixer=aa=${watermark_opacity.toFixed(2)}[wm]`
+    );
+    mainVideo = `[base][wm]overlay=${watermarkPlacement(watermark_position, watermark_margin)}:format=auto,format=yuv420p`;
+  } else {
+    mainVideo = `[0:v]${mainVideo}`;
+  }
+
+  const segments = [branding.intro, branding.outro].filter((segment): segment is BrandingSegment => Boolean(segment));
+  if (segments.length === 0) {
+    parts.push(`${mainVideo}[vout]`);
+    const audioFiltered = main.hasAudio && Boolean(main.audioFilter);
+    if (audioFiltered) {
+      parts.push(`[0:a]${main.audioFilter}[aout]`);
+    }
+    return {
+      inputArgs,
+      filterComplex: parts.join(';'),
+      videoLabel: '[vout]',
+      audioLabel: audioFiltered ? '[aout]' : main.hasAudio ? '0:a?' : null,
+      totalDuration: main.duration,
+    };
+  }
+
+  parts.push(`${mainVideo},fps=${CLIP_FPS}[vmain]`);
+  const mainDuration = main.duration ?? 0;
+  parts.push(normalizeClipAudio(0, { duration: mainDuration, hasAudio: main.hasAudio }, 'amain', main.audioFilter));
+
+  const order: string[] = [];
+  const addClip = (segment: BrandingSegment | null, name: string) => {
+    if (!segment) {
+      return;
+    }
+    const index = nextInput++;
+    inputArgs.push('-i', segment.filePath);
+    parts.push(normalizeClipVideo(index, target, `v${name}`));
+    parts.push(normalizeClipAudio(index, segment, `a${name}`));
+    order.push(`[v${name}][a${name}]`);
+  };
+
+  addClip(branding.intro, 'intro');
+  order.push('[vmain][amain]');
+  addClip(branding.outro, 'outro');
+
+  parts.push(`${order.join('')}concat=n=${order.length}:v=1:a=1[vout][aout]`);
+
+  return {
+    inputArgs,
+    filterComplex: parts.join(';'),
+    videoLabel: '[vout]',
+    audioLabel: '[aout]',
+    totalDuration:
+      main.duration !== null
+        ? main.duration + segments.reduce((sum, segment) => sum + segment.duration, 0)
+        : null,
+  };
+}
@@ -0,0 +1,84 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import {
+  createFfmpegProgressParser,
+  createYtDlpProgressParser,
+  type CommandProgress,
+} from '@/lib/youtube/command-runner';
+
+function collect(): { updates: CommandProgress[]; onProgress: (progress: CommandProgress) => void } {
+  const updates: CommandProgress[] = [];
+  return { updates, onProgress: (progress) => updates.push(progress) };
+}
+
+describe('createYtDlpProgressParser', () => {
+  test('reports percent, eta and speed from template lines', () => {
+    const { updates, onProgress } = collect();
+    const parse = createYtDlpProgressParser(onProgress);
+
+    parse('[progress] 5242880 20971520 NA 12.4 1048576');
+
+    expect(updates).toEqual([{ percent: 25, etaSeconds: 12, speed: '1.0 MiB/s' }]);
+  });
+
+  test('falls back to the size estimate and tolerates unknown fields', () => {
+    const { updates, onProgress } = collect();
+    const parse = createYtDlpProgressParser(onProgress);
+
+    parse('[progress] 1000 NA 3000 NA None');
+
+    expect(updates).toEqual([{ percent: 33.3, etaSeconds: null, speed: null }]);
+  });
+
+  test('ignores regular yt-dlp output', () => {
+    const { updates, onProgress } = collect();
+    const parse = createYtDlpProgressParser(onProgress);
+
+    parse('[youtube] abc: Downloading webpage');
+    parse('[download] Destination: /tmp/abc.mp4');
+
+    expect(updates).toEqual([]);
+  });
+});
+
+describe('createFfmpegProgressParser', () => {
+  test('emits one update per progress block', () => {
+    const { updates, onProgress } = collect();
+    const parse = createFfmpegProgressParser(40, onProgress);
+
+    ['frame=300', 'out_time_us=10000000', 'speed=2.00x', 'progress=continue'].forEach(parse);
+    ['out_time_ms=30000000', 'speed=2.5x', 'progress=continue'].forEach(parse);
+
+    expect(updates).toEqual([
+      { percent: 25, etaSeconds: 15, speed: '2.00x' },
+      { percent: 75, etaSeconds: 4, speed: '2.50x' },
+    ]);
+  });
+
+  test('the end block reports completion', () => {
+    const { updates, onProgress } = collect();
+    const parse = createFfmpegProgressParser(40, onProgress);
+
+    ['out_time_us=39000000', 'speed=N/A', 'progress=end'].forEach(parse);
+
+    expect(updates).toEqual([{ percent: 100, etaSeconds: 0, speed: null }]);
+  });
+
+  test('without a known duration only speed is reported', () => {
+    const { updates, onProgress } = collect();
+    const parse = createFfmpegProgressParser(null, onProgress);
+
+    ['out_time_us=5000000', 'speed=1.5x', 'progress=continue'].forEach(parse);
+
+    expect(updates).toEqual([{ percent: null, etaSeconds: null, speed: '1.50x' }]);
+  });
+
+  test('keeps the last position when ffmpeg reports N/A and clamps overshoot', () => {
+    const { updates, onProgress } = collect();
+    const parse = createFfmpegProgressParser(10, onProgress);
+
+    ['out_time_us=12000000', 'progress=continue', 'out_time_us=N/A', 'progress=continue'].forEach(parse);
+
+    expect(updates.map((update) => update.percent)).toEqual([100, 100]);
+  });
+});
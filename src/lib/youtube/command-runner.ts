@@ -0,0 +1,217 @@
+import { spawn } from 'child_process';
+
+// Output kept per stream; older bytes are dropped so long encodes cannot grow memory unbounded.
+const OUTPUT_TAIL_BYTES = 1024 * 1024 * 12;
+const KILL_GRACE_MS = 5000;
+const YT_DLP_PROGRESS_PREFIX = '[progress]';
+
+export interface CommandProgress {
+  percent: number | null;
+  etaSeconds: number | null;
+  speed: string | null;
+}
+
+export interface CommandResult {
+  success: boolean;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+export interface RunCommandOptions {
+  timeoutMs: number;
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+}
+
+function appendTail(buffer: string, chunk: string): string {
+  const combined = buffer + chunk;
+  return combined.length > OUTPUT_TAIL_BYTES ? combined.slice(combined.length - OUTPUT_TAIL_BYTES) : combined;
+}
+
+// Split a stream into lines (\n or \r) and hand complete ones to the callback.
+function createLineSplitter(onLine?: (line: string) => void) {
+  let partial = '';
+  return {
+    push(chunk: string) {
+      if (!onLine) {
+        return;
+      }
+      const lines = (partial + chunk).split(/\r\n|\r|\n/);
+      partial = lines.pop() || '';
+      for (const line of lines) {
+        if (line.trim()) {
+          onLine(line);
+        }
+      }
+    },
+    flush() {
+      if (onLine && partial.trim()) {
+        onLine(partial);
+      }
+      partial = '';
+    },
+  };
+}
+
+// Run a binary with an argv array (no shell), streaming output lines to the callbacks.
+export function runCommand(bin: string, args: string[], options: RunCommandOptions): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let settled = false;
+    const stdoutLines = createLineSplitter(options.onStdoutLine);
+    const stderrLines = createLineSplitter(options.onStderrLine);
+
+    const finish = (result: CommandResult) => {
+      if (!settled) {
+        settled = true;
+        resolve(result);
+      }
+    };
+
+    const child = spawn(bin, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    const killTimer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+      setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS).unref();
+    }, options.timeoutMs);
+
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout = appendTail(stdout, chunk);
+      stdoutLines.push(chunk);
+    });
+    child.stderr.on('data', (chunk: string) => {
+      stderr = appendTail(stderr, chunk);
+      stderrLines.push(chunk);
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(killTimer);
+      finish({ success: false, exitCode: null, stdout, stderr, error: `Failed to start ${bin}: ${error.message}` });
+    });
+
+    child.on('close', (code, signal) => {
+      clearTimeout(killTimer);
+      stdoutLines.flush();
+      stderrLines.flush();
+
+      if (timedOut) {
+        finish({
+          success: false,
+          exitCode: code,
+          stdout,
+          stderr,
+          error: `${bin} timed out after ${Math.round(options.timeoutMs / 1000)}s`,
+        });
+        return;
+      }
+
+      if (code !== 0) {
+        finish({
+          success: false,
+          exitCode: code,
+          stdout,
+          stderr,
+          error: signal ? `${bin} killed by ${signal}` : `${bin} exited with code ${code}`,
+        });
+        return;
+      }
+
+      finish({ success: true, exitCode: code, stdout, stderr });
+    });
+  });
+}
+
+function parseNumber(raw: string | undefined): number | null {
+  if (!raw || raw === 'NA' || raw === 'None') {
+    return null;
+  }
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value * 10) / 10));
+}
+
+// Template passed to yt-dlp --progress-template; parsed back by createYtDlpProgressParser.
+export const YT_DLP_PROGRESS_TEMPLATE =
+  `download:${YT_DLP_PROGRESS_PREFIX} %(progress.downloaded_bytes)s %(progress.total_bytes)s ` +
+  '%(progress.total_bytes_estimate)s %(progress.eta)s %(progress.speed)s';
+
+export function createYtDlpProgressParser(onProgress: (progress: CommandProgress) => void) {
+  return (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith(YT_DLP_PROGRESS_PREFIX)) {
+      return;
+    }
+
+    const [downloadedRaw, totalRaw, estimateRaw, etaRaw, speedRaw] = trimmed
+      .slice(YT_DLP_PROGRESS_PREFIX.length)
+      .trim()
+      .split(/\s+/);
+    const downloaded = parseNumber(downloadedRaw);
+    const total = parseNumber(totalRaw) ?? parseNumber(estimateRaw);
+    const eta = parseNumber(etaRaw);
+    const speed = parseNumber(speedRaw);
+
+    onProgress({
+      percent: downloaded !== null && total ? clampPercent((downloaded / total) * 100) : null,
+      etaSeconds: eta !== null ? Math.round(eta) : null,
+      speed: speed !== null ? `${(speed / (1024 * 1024)).toFixed(1)} MiB/s` : null,
+    });
+  };
+}
+
+// Parses `ffmpeg -progress pipe:1` key=value blocks; totalSeconds is the input duration.
+export function createFfmpegProgressParser(
+  totalSeconds: number | null | undefined,
+  onProgress: (progress: CommandProgress) => void
+) {
+  let outSeconds: number | null = null;
+  let speedFactor: number | null = null;
+
+  return (line: string) => {
+    const separator = line.indexOf('=');
+    if (separator <= 0) {
+      return;
+    }
+
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'out_time_us' || key === 'out_time_ms') {
+      // Both keys are reported in microseconds
+      const micros = parseNumber(value);
+      outSeconds = micros !== null && micros >= 0 ? micros / 1_000_000 : outSeconds;
+      return;
+    }
+
+    if (key === 'speed') {
+      speedFactor = parseNumber(value.replace(/x$/, ''));
+      return;
+    }
+
+    if (key !== 'progress') {
+      return;
+    }
+
+    const hasTotal = typeof totalSeconds === 'number' && Number.isFinite(totalSeconds) && totalSeconds > 0;
+    const done = value === 'end';
+    const percent = done ? 100 : hasTotal && outSeconds !== null ? clampPercent((outSeconds / totalSeconds) * 100) : null;
+    const etaSeconds =
+      done
+        ? 0
+        : hasTotal && outSeconds !== null && speedFactor
+          ? Math.max(0, Math.round((totalSeconds - outSeconds) / speedFactor))
+          : null;
+
+    onProgress({ percent, etaSeconds, speed: speedFactor ? `${speedFactor.toFixed(2)}x` : null });
+  };
+}
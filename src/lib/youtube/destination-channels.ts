@@ -1,5 +1,6 @@
 import { supabaseAdmin } from '@/lib/supabase/client';
-import { getConfig, setConfig } from '@/lib/supabase/database';
+import { getChannelMappingById, getConfig, setConfig } from '@/lib/supabase/database';
+import { normalizeUploadMetadataSettings, type UploadMetadataSettings } from '@/lib/youtube/upload-metadata';
 
 const DESTINATION_CHANNELS_CONFIG_KEY = 'youtube_destination_channels';
 let destinationChannelsMigrationChecked = false;
@@ -8,6 +9,8 @@ export interface DestinationChannelCredential {
   channel_id: string;
   channel_title: string;
   refresh_token: string;
+  // Upload metadata for mappings that leave a field unset
+  upload_defaults: UploadMetadataSettings | null;
   connected_at: string;
   updated_at: string;
 }
@@ -35,6 +38,7 @@ function parseDestinationChannels(raw: string | null): DestinationChannelCredent
           channel_id: channel.channel_id,
           channel_title: channel.channel_title,
           refresh_token: channel.refresh_token,
+          upload_defaults: channel.upload_defaults ? normalizeUploadMetadataSettings(channel.upload_defaults) : null,
           connected_at: typeof channel.connected_at === 'string' ? channel.connected_at : new Date().toISOString(),
           updated_at: typeof channel.updated_at === 'string' ? channel.updated_at : new Date().toISOString(),
         };
@@ -83,7 +87,7 @@ async function migrateLegacyDestinationChannelsIfNeeded(): Promise<void> {
 async function syncLegacyDestinationChannelsConfig(): Promise<void> {
   const { data, error } = await supabaseAdmin
     .from('destination_channels')
-    .select('channel_id, channel_title, refresh_token, connected_at, updated_at')
+    .select('channel_id, channel_title, refresh_token, upload_defaults, connected_at, updated_at')
     .order('connected_at', { ascending: false });
 
   if (error) {
@@ -99,7 +103,7 @@ export async function getDestinationChannelsWithTokens(): Promise<DestinationCha
 
   const { data, error } = await supabaseAdmin
     .from('destination_channels')
-    .select('channel_id, channel_title, refresh_token, connected_at, updated_at')
+    .select('channel_id, channel_title, refresh_token, upload_defaults, connected_at, updated_at')
     .order('connected_at', { ascending: false });
 
   if (error) {
@@ -111,12 +115,13 @@ export async function getDestinationChannelsWithTokens(): Promise<DestinationCha
   return (data || []) as DestinationChannelCredential[];
 }
 
-export async function getDestinationChannelsPublic(): Promise<Array<{ channel_id: string; channel_title: string; connected_at: string; updated_at: string }>> {
+export async function getDestinationChannelsPublic(): Promise<Array<Omit<DestinationChannelCredential, 'refresh_token'>>> {
   const channels = await getDestinationChannelsWithTokens();
 
   return channels.map((channel) => ({
     channel_id: channel.channel_id,
     channel_title: channel.channel_title,
+    upload_defaults: channel.upload_defaults,
     connected_at: channel.connected_at,
     updated_at: channel.updated_at,
   }));
@@ -183,6 +188,44 @@ export async function getRefreshTokenForDestinationChannel(channelId: string): P
   return (data?.refresh_token as string | undefined) || null;
 }
 
+export async function getDestinationUploadDefaults(channelId: string): Promise<UploadMetadataSettings | null> {
+  await migrateLegacyDestinationChannelsIfNeeded();
+
+  const { data, error } = await supabaseAdmin
+    .from('destination_channels')
+    .select('upload_defaults')
+    .eq('channel_id', channelId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to read upload defaults for destination ${channelId}:`, error);
+    return null;
+  }
+
+  return data?.upload_defaults ? normalizeUploadMetadataSettings(data.upload_defaults) : null;
+}
+
+// Resolve the OAuth refresh token for the destination channel of a mapping.
+export async function resolveMappingRefreshToken(mappingId: string | null): Promise<{ refreshToken?: string; error?: string }> {
+  if (!mappingId) {
+    return {};
+  }
+
+  const mapping = await getChannelMappingById(mappingId);
+  if (!mapping || !mapping.target_channel_id) {
+    return {};
+  }
+
+  const refreshToken = await getRefreshTokenForDestinationChannel(mapping.target_channel_id);
+  if (!refreshToken) {
+    return {
+      error: `Destination channel ${mapping.target_channel_id} is not connected. Connect it from mapping screen.`,
+    };
+  }
+
+  return { refreshToken };
+}
+
 export async function upsertDestinationChannelsFromOAuth(
   channelsFromOAuth: Array<{ channel_id: string; channel_title: string }>,
   refreshToken: string
@@ -199,6 +242,7 @@ export async function upsertDestinationChannelsFromOAuth(
       channel_id: channel.channel_id,
       channel_title: channel.channel_title,
       refresh_token: refreshToken,
+      upload_defaults: prev?.upload_defaults ?? null,
       connected_at: prev?.connected_at || now,
       updated_at: now,
     });
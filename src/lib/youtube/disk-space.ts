@@ -0,0 +1,142 @@
+import fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import path from 'path';
+import { getConfig } from '@/lib/supabase/database';
+import { evictLeastRecentlyUsed, TEMP_VIDEO_DIR } from '@/lib/youtube/download-cache';
+
+const GIGABYTE = 1024 * 1024 * 1024;
+
+export const DEFAULT_TEMP_DIR_MAX_GB = 20;
+export const DEFAULT_DISK_MIN_FREE_GB = 2;
+
+export interface DiskShortage {
+  at: string;
+  purpose: string;
+  needed_bytes: number;
+  message: string;
+}
+
+export interface DiskStatus {
+  temp_dir: string;
+  free_bytes: number | null;
+  total_bytes: number | null;
+  temp_dir_bytes: number;
+  temp_dir_max_bytes: number;
+  min_free_bytes: number;
+  // Last preflight that could not make room; cleared by the next one that succeeds
+  shortage: DiskShortage | null;
+}
+
+// Per server process, like the stage gates: every pipeline run goes through the same Next.js instance.
+let lastShortage: DiskShortage | null = null;
+
+function normalizeGigabytes(raw: unknown, fallback: number): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw ?? ''));
+  if (!Number.isFinite(numeric) || numeric <= 0) {
+    return fallback;
+  }
+  return numeric;
+}
+
+async function getDiskLimits(): Promise<{ tempDirMaxBytes: number; minFreeBytes: number }> {
+  const [maxGb, minFreeGb] = await Promise.all([getConfig('temp_dir_max_gb'), getConfig('disk_min_free_gb')]);
+  return {
+    tempDirMaxBytes: Math.round(normalizeGigabytes(maxGb, DEFAULT_TEMP_DIR_MAX_GB) * GIGABYTE),
+    minFreeBytes: Math.round(normalizeGigabytes(minFreeGb, DEFAULT_DISK_MIN_FREE_GB) * GIGABYTE),
+  };
+}
+
+async function measureDirectoryBytes(directory: string): Promise<number> {
+  let total = 0;
+  let items: Dirent[];
+  try {
+    items = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const item of items) {
+    const itemPath = path.join(directory, item.name);
+    if (item.isDirectory()) {
+      total += await measureDirectoryBytes(itemPath);
+    } else if (item.isFile()) {
+      try {
+        total += (await fs.stat(itemPath)).size;
+      } catch {
+        // Removed in the meantime
+      }
+    }
+  }
+  return total;
+}
+
+async function readFilesystem(directory: string): Promise<{ free: number; total: number } | null> {
+  try {
+    const stats = await fs.statfs(directory);
+    return { free: stats.bavail * stats.bsize, total: stats.blocks * stats.bsize };
+  } catch (error) {
+    console.error('Disk statfs error:', error);
+    return null;
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= GIGABYTE) {
+    return `${(bytes / GIGABYTE).toFixed(1)} GB`;
+  }
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+export async function getDiskStatus(): Promise<DiskStatus> {
+  const limits = await getDiskLimits();
+  const [filesystem, tempDirBytes] = await Promise.all([
+    readFilesystem(TEMP_VIDEO_DIR),
+    measureDirectoryBytes(TEMP_VIDEO_DIR),
+  ]);
+
+  return {
+    temp_dir: TEMP_VIDEO_DIR,
+    free_bytes: filesystem?.free ?? null,
+    total_bytes: filesystem?.total ?? null,
+    temp_dir_bytes: tempDirBytes,
+    temp_dir_max_bytes: limits.tempDirMaxBytes,
+    min_free_bytes: limits.minFreeBytes,
+    shortage: lastShortage,
+  };
+}
+
+// Make room for neededBytes in the temp directory, evicting unreferenced cached downloads (least recently
+// used first) to stay under temp_dir_max_gb and keep disk_min_free_gb free on the volume.
+export async function ensureDiskSpace(
+  neededBytes: number,
+  purpose: string
+): Promise<{ ok: boolean; reclaimedBytes: number; error?: string }> {
+  await fs.mkdir(TEMP_VIDEO_DIR, { recursive: true }).catch(() => undefined);
+  const limits = await getDiskLimits();
+  const [filesystem, tempDirBytes] = await Promise.all([
+    readFilesystem(TEMP_VIDEO_DIR),
+    measureDirectoryBytes(TEMP_VIDEO_DIR),
+  ]);
+
+  const overBudget = tempDirBytes + neededBytes - limits.tempDirMaxBytes;
+  // Without statfs only the temp budget can be enforced
+  const overDisk = filesystem ? neededBytes + limits.minFreeBytes - filesystem.free : 0;
+  const bytesToFree = Math.max(0, overBudget, overDisk);
+
+  let reclaimedBytes = 0;
+  if (bytesToFree > 0) {
+    reclaimedBytes = (await evictLeastRecentlyUsed(bytesToFree)).freedBytes;
+  }
+
+  if (reclaimedBytes < bytesToFree) {
+    const message =
+      `Insufficient disk space for ${purpose}: needs ~${formatBytes(neededBytes)}, ` +
+      `temp dir ${formatBytes(tempDirBytes - reclaimedBytes)} of ${formatBytes(limits.tempDirMaxBytes)}` +
+      (filesystem ? `, ${formatBytes(filesystem.free + reclaimedBytes)} free on disk` : '');
+    lastShortage = { at: new Date().toISOString(), purpose, needed_bytes: neededBytes, message };
+    return { ok: false, reclaimedBytes, error: message };
+  }
+
+  lastShortage = null;
+  return { ok: true, reclaimedBytes };
+}
@@ -0,0 +1,224 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const TEMP_VIDEO_DIR = process.env.TEMP_VIDEO_DIR || path.join('/tmp', 'youtube-shorts-republisher');
+const CACHE_DIR = path.resolve(TEMP_VIDEO_DIR, 'cache');
+
+export interface CachedDownloadResult {
+  success: boolean;
+  filePath?: string;
+  error?: string;
+  // Served from an earlier or in-flight download of the same video and format
+  cached?: boolean;
+}
+
+interface FetchResult {
+  success: boolean;
+  error?: string;
+  // The file was already on disk, e.g. from a run before a restart
+  existed?: boolean;
+}
+
+interface CacheEntry {
+  refs: number;
+  lastUsedAt: number;
+  // Set while the first caller checks or downloads; callers for the same key wait on it instead of downloading again
+  pending: Promise<FetchResult> | null;
+}
+
+// Refcounts are per server process: every pipeline run goes through the same Next.js instance.
+const entries = new Map<string, CacheEntry>();
+
+function sanitizeToken(raw: string): string {
+  const sanitized = raw.replace(/[^a-zA-Z0-9._-]/g, '_').trim();
+  return sanitized || 'video';
+}
+
+// One file per video id and yt-dlp format selection, so a different format never reuses a stale download.
+export function resolveCachedDownloadPath(videoId: string, format: string): string {
+  const formatHash = createHash('sha1').update(format).digest('hex').slice(0, 10);
+  return path.join(CACHE_DIR, `${sanitizeToken(videoId)}.${formatHash}.mp4`);
+}
+
+export function isCachedDownload(filePath: string): boolean {
+  return path.dirname(path.resolve(filePath)) === CACHE_DIR;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isFile() && stats.size > 0;
+  } catch {
+    return false;
+  }
+}
+
+function getEntry(filePath: string): CacheEntry {
+  let entry = entries.get(filePath);
+  if (!entry) {
+    entry = { refs: 0, lastUsedAt: Date.now(), pending: null };
+    entries.set(filePath, entry);
+  }
+  return entry;
+}
+
+async function fetchIntoCache(
+  filePath: string,
+  download: (outputPath: string) => Promise<{ success: boolean; error?: string }>
+): Promise<FetchResult> {
+  if (await fileExists(filePath)) {
+    return { success: true, existed: true };
+  }
+
+  // yt-dlp writes to a side path that is renamed when complete, so the cache path only ever holds whole files
+  const partialPath = filePath.replace(/\.mp4$/, '.download.mp4');
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.rm(partialPath, { force: true });
+    const result = await download(partialPath);
+    if (!result.success) {
+      return result;
+    }
+    await fs.rename(partialPath, filePath);
+    return { success: true };
+  } catch (error) {
+    console.error('Download cache error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Download failed' };
+  } finally {
+    await fs.rm(partialPath, { force: true }).catch(() => undefined);
+  }
+}
+
+// Take a reference on the cached download, fetching it with `download` when no copy exists yet.
+// Every successful call must be paired with releaseCachedDownload.
+export async function acquireCachedDownload(
+  videoId: string,
+  format: string,
+  download: (outputPath: string) => Promise<{ success: boolean; error?: string }>
+): Promise<CachedDownloadResult> {
+  const filePath = resolveCachedDownloadPath(videoId, format);
+  const entry = getEntry(filePath);
+  entry.refs++;
+  entry.lastUsedAt = Date.now();
+
+  // The check and the download are one promise, so concurrent callers can never both start a download
+  const joined = entry.pending !== null;
+  if (!entry.pending) {
+    entry.pending = fetchIntoCache(filePath, download).finally(() => {
+      entry.pending = null;
+    });
+  }
+
+  const result = await entry.pending;
+  if (!result.success) {
+    releaseCachedDownload(filePath);
+    return { success: false, error: result.error };
+  }
+  return { success: true, filePath, cached: joined || result.existed === true };
+}
+
+// Take a reference on a cached file handed back by a caller (e.g. a manual upload of an earlier download).
+export function retainCachedDownload(filePath: string): void {
+  if (!isCachedDownload(filePath)) {
+    return;
+  }
+  const entry = getEntry(path.resolve(filePath));
+  entry.refs++;
+  entry.lastUsedAt = Date.now();
+}
+
+// The file stays on disk after the last release; evictCachedDownloads removes it once it is old enough.
+export function releaseCachedDownload(filePath: string): void {
+  const entry = entries.get(path.resolve(filePath));
+  if (!entry) {
+    return;
+  }
+  entry.refs = Math.max(0, entry.refs - 1);
+  entry.lastUsedAt = Date.now();
+}
+
+export function hasCachedDownload(videoId: string, format: string): Promise<boolean> {
+  return fileExists(resolveCachedDownloadPath(videoId, format));
+}
+
+interface EvictableFile {
+  filePath: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+// Partial downloads and scratch files (<token>.<hash>.download.mp4, <token>.<hash>.mp4.xxxx.frames.raw)
+// belong to the entry of their finished download.
+function ownerOf(file: string): string {
+  const match = /^(.+?\.[0-9a-f]{10})(?:\.|$)/.exec(file);
+  return path.join(CACHE_DIR, match ? `${match[1]}.mp4` : file);
+}
+
+// Cache files no run holds a reference to, least recently used first.
+// Files from before a restart have no entry and age by mtime.
+async function listEvictableFiles(): Promise<EvictableFile[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(CACHE_DIR);
+  } catch {
+    return [];
+  }
+
+  const evictable: EvictableFile[] = [];
+  for (const file of files) {
+    const entry = entries.get(ownerOf(file));
+    if (entry && (entry.refs > 0 || entry.pending)) {
+      continue;
+    }
+
+    const filePath = path.join(CACHE_DIR, file);
+    try {
+      const stats = await fs.stat(filePath);
+      const tracked = entries.get(filePath);
+      evictable.push({ filePath, size: stats.size, lastUsedAt: tracked ? tracked.lastUsedAt : stats.mtimeMs });
+    } catch {
+      // Removed in the meantime
+    }
+  }
+
+  return evictable.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+}
+
+async function evictFile(file: EvictableFile): Promise<boolean> {
+  try {
+    await fs.rm(file.filePath, { force: true });
+    entries.delete(file.filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Remove unreferenced cache files not used for maxAgeMs.
+export async function evictCachedDownloads(maxAgeMs: number): Promise<number> {
+  const now = Date.now();
+  let deletedCount = 0;
+  for (const file of await listEvictableFiles()) {
+    if (now - file.lastUsedAt > maxAgeMs && (await evictFile(file))) {
+      deletedCount++;
+    }
+  }
+  return deletedCount;
+}
+
+// Remove unreferenced cache files, least recently used first, until bytesToFree is reached.
+export async function evictLeastRecentlyUsed(bytesToFree: number): Promise<{ deleted: number; freedBytes: number }> {
+  let deleted = 0;
+  let freedBytes = 0;
+  for (const file of await listEvictableFiles()) {
+    if (freedBytes >= bytesToFree) {
+      break;
+    }
+    if (await evictFile(file)) {
+      deleted++;
+      freedBytes += file.size;
+    }
+  }
+  return { deleted, freedBytes };
+}
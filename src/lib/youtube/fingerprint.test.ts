@@ -0,0 +1,61 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import type { VideoFingerprint } from '@/lib/supabase/client';
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  findNearDuplicate,
+  fingerprintDistance,
+  normalizeDuplicateThreshold,
+} from '@/lib/youtube/fingerprint';
+
+const BLANK_FRAME = '0000000000000000';
+
+function fingerprint(overrides: Partial<VideoFingerprint> = {}): VideoFingerprint {
+  return { version: 1, duration: 30, frames: [BLANK_FRAME, BLANK_FRAME], audio: null, ...overrides };
+}
+
+describe('fingerprintDistance', () => {
+  test('identical fingerprints are at distance 0', () => {
+    expect(fingerprintDistance(fingerprint({ audio: 'abc' }), fingerprint({ audio: 'abc' }))).toBe(0);
+  });
+
+  test('without audio the distance is the share of differing frame bits', () => {
+    const changed = fingerprint({ frames: ['f000000000000000', BLANK_FRAME] });
+    expect(fingerprintDistance(fingerprint(), changed)).toBe(4 / 128);
+  });
+
+  test('audio is weighted in when both sides have it, compared over the shorter hash', () => {
+    const a = fingerprint({ audio: '000' });
+    const b = fingerprint({ audio: 'fff0' });
+    expect(fingerprintDistance(a, b)).toBeCloseTo(0.3, 10);
+  });
+
+  test('clips of clearly different length or version cannot be compared', () => {
+    expect(fingerprintDistance(fingerprint(), fingerprint({ duration: 40 }))).toBeNull();
+    expect(fingerprintDistance(fingerprint(), fingerprint({ duration: 31.5 }))).toBe(0);
+    expect(fingerprintDistance(fingerprint(), fingerprint({ version: 2 }))).toBeNull();
+    expect(fingerprintDistance(fingerprint(), fingerprint({ frames: [] }))).toBeNull();
+  });
+});
+
+describe('findNearDuplicate', () => {
+  test('returns the closest candidate within the threshold', () => {
+    const near = { id: 'near', fingerprint: fingerprint({ frames: ['1000000000000000', BLANK_FRAME] }) };
+    const closer = { id: 'closer', fingerprint: fingerprint() };
+    const far = { id: 'far', fingerprint: fingerprint({ frames: ['ffffffffffffffff', 'ffffffffffffffff'] }) };
+
+    expect(findNearDuplicate(fingerprint(), [far, near, closer, { id: 'none', fingerprint: null }], 0.15)).toEqual({
+      match: closer,
+      distance: 0,
+    });
+    expect(findNearDuplicate(fingerprint(), [far], 0.15)).toBeNull();
+  });
+});
+
+describe('normalizeDuplicateThreshold', () => {
+  test('falls back to the default, allows 0 to disable and caps at 0.5', () => {
+    expect(normalizeDuplicateThreshold(undefined)).toBe(DEFAULT_DUPLICATE_THRESHOLD);
+    expect(normalizeDuplicateThreshold('0')).toBe(0);
+    expect(normalizeDuplicateThreshold('0.9')).toBe(0.5);
+  });
+});
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { runCommand } from '@/lib/youtube/command-runner';
+import type { VideoFingerprint } from '@/lib/supabase/client';
+
+export const FINGERPRINT_VERSION = 1;
+
+// Weighted distance (0 = identical, 1 = unrelated) at or below which two shorts count as the same clip.
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.15;
+
+const FRAME_SAMPLES = 16;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const BITS_PER_FRAME = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+const AUDIO_SAMPLE_RATE = 11025;
+const AUDIO_WINDOW = 4096;
+const AUDIO_MAX_SECONDS = 60;
+// Octaves 2-6 cover voices and most instruments well under the 5.5 kHz Nyquist limit
+const CHROMA_OCTAVES = [2, 3, 4, 5, 6];
+
+const FINGERPRINT_TIMEOUT_MS = 5 * 60 * 1000;
+const VIDEO_WEIGHT = 0.7;
+
+export function normalizeDuplicateThreshold(raw: unknown): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw ?? ''));
+  if (!Number.isFinite(numeric)) {
+    return DEFAULT_DUPLICATE_THRESHOLD;
+  }
+  // 0 disables the check
+  return Math.min(0.5, Math.max(0, numeric));
+}
+
+function toHex(bits: number[]): string {
+  let hex = '';
+  for (let index = 0; index < bits.length; index += 4) {
+    const nibble = (bits[index] << 3) | (bits[index + 1] << 2) | (bits[index + 2] << 1) | bits[index + 3];
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function hammingHex(a: string, b: string): number {
+  let distance = 0;
+  for (let index = 0; index < a.length; index++) {
+    let xor = Number.parseInt(a[index], 16) ^ Number.parseInt(b[index], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+// dHash of each 9x8 grayscale frame: one bit per horizontally adjacent pixel pair.
+function frameHashes(raw: Buffer): string[] {
+  const frameSize = HASH_WIDTH * HASH_HEIGHT;
+  const hashes: string[] = [];
+  for (let offset = 0; offset + frameSize <= raw.length; offset += frameSize) {
+    const bits: number[] = [];
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const left = raw[offset + y * HASH_WIDTH + x];
+        const right = raw[offset + y * HASH_WIDTH + x + 1];
+        bits.push(left > right ? 1 : 0);
+      }
+    }
+    hashes.push(toHex(bits));
+  }
+  return hashes;
+}
+
+function goertzelPower(samples: Float32Array, start: number, frequency: number): number {
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / AUDIO_SAMPLE_RATE);
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let index = start; index < start + AUDIO_WINDOW; index++) {
+    const current = samples[index] + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+}
+
+// Chroma per window (energy per pitch class), reduced to 12 bits comparing each class with the next.
+function chromaHash(raw: Buffer): string | null {
+  const sampleCount = Math.floor(raw.length / 2);
+  if (sampleCount < AUDIO_WINDOW) {
+    return null;
+  }
+
+  const samples = new Float32Array(sampleCount);
+  for (let index = 0; index < sampleCount; index++) {
+    samples[index] = raw.readInt16LE(index * 2) / 32768;
+  }
+
+  const bits: number[] = [];
+  for (let start = 0; start + AUDIO_WINDOW <= sampleCount; start += AUDIO_WINDOW) {
+    const chroma = new Array<number>(12).fill(0);
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+      for (const octave of CHROMA_OCTAVES) {
+        const midi = 12 * (octave + 1) + pitchClass;
+        chroma[pitchClass] += goertzelPower(samples, start, 440 * Math.pow(2, (midi - 69) / 12));
+      }
+    }
+    for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+      bits.push(chroma[pitchClass] > chroma[(pitchClass + 1) % 12] ? 1 : 0);
+    }
+  }
+  return toHex(bits);
+}
+
+async function extractRaw(args: string[], outputPath: string): Promise<Buffer | null> {
+  try {
+    const result = await runCommand(
+      'ffmpeg',
+      ['-hide_banner', '-nostats', '-loglevel', 'error', '-y', ...args, outputPath],
+      { timeoutMs: FINGERPRINT_TIMEOUT_MS }
+    );
+    return result.success ? await fs.readFile(outputPath) : null;
+  } finally {
+    await fs.rm(outputPath, { force: true });
+  }
+}
+
+// Sample FRAME_SAMPLES evenly spaced frames and the first minute of audio from a downloaded file.
+export async function computeFingerprint(
+  filePath: string,
+  durationSeconds: number | null | undefined
+): Promise<{ fingerprint?: VideoFingerprint; error?: string }> {
+  const duration = typeof durationSeconds === 'number' && durationSeconds > 0 ? durationSeconds : 60;
+  const sampleRate = (FRAME_SAMPLES / duration).toFixed(4);
+  // The source can be a cached download shared by concurrent runs, so scratch files get a unique name
+  const scratchPath = `${filePath}.${randomUUID().slice(0, 8)}`;
+
+  const frames = await extractRaw(
+    [
+      '-i',
+      filePath,
+      '-vf',
+      `fps=${sampleRate},scale=${HASH_WIDTH}:${HASH_HEIGHT}:flags=area,format=gray`,
+      '-frames:v',
+      String(FRAME_SAMPLES),
+      '-f',
+      'rawvideo',
+    ],
+    `${scratchPath}.frames.raw`
+  );
+  const frameList = frames ? frameHashes(frames) : [];
+  if (frameList.length === 0) {
+    return { error: 'Could not sample frames for fingerprint' };
+  }
+
+  // No audio stream is fine: the fingerprint then relies on frames alone
+  const audio = await extractRaw(
+    ['-i', filePath, '-vn', '-ac', '1', '-ar', String(AUDIO_SAMPLE_RATE), '-t', String(AUDIO_MAX_SECONDS), '-f', 's16le'],
+    `${scratchPath}.audio.raw`
+  );
+
+  return {
+    fingerprint: {
+      version: FINGERPRINT_VERSION,
+      duration: Math.round(duration * 10) / 10,
+      frames: frameList,
+      audio: audio ? chromaHash(audio) : null,
+    },
+  };
+}
+
+// Distance between two fingerprints from 0 to 1, or null when they cannot be compared.
+export function fingerprintDistance(a: VideoFingerprint, b: VideoFingerprint): number | null {
+  if (a.version !== b.version || !a.frames?.length || !b.frames?.length) {
+    return null;
+  }
+
+  // Frames are sampled relative to length, so clips of clearly different length are never the same
+  const longest = Math.max(a.duration, b.duration);
+  if (Math.abs(a.duration - b.duration) > Math.max(2, longest * 0.1)) {
+    return null;
+  }
+
+  const frameCount = Math.min(a.frames.length, b.frames.length);
+  let frameBits = 0;
+  for (let index = 0; index < frameCount; index++) {
+    frameBits += hammingHex(a.frames[index], b.frames[index]);
+  }
+  const videoDistance = frameBits / (frameCount * BITS_PER_FRAME);
+
+  const audioLength = Math.min(a.audio?.length || 0, b.audio?.length || 0);
+  if (!a.audio || !b.audio || audioLength === 0) {
+    return videoDistance;
+  }
+
+  const audioDistance = hammingHex(a.audio.slice(0, audioLength), b.audio.slice(0, audioLength)) / (audioLength * 4);
+  return VIDEO_WEIGHT * videoDistance + (1 - VIDEO_WEIGHT) * audioDistance;
+}
+
+// Closest earlier short within the threshold, if any.
+export function findNearDuplicate<T extends { fingerprint: VideoFingerprint | null }>(
+  fingerprint: VideoFingerprint,
+  candidates: T[],
+  threshold: number
+): { match: T; distance: number } | null {
+  let best: { match: T; distance: number } | null = null;
+  for (const candidate of candidates) {
+    if (!candidate.fingerprint) {
+      continue;
+    }
+    const distance = fingerprintDistance(fingerprint, candidate.fingerprint);
+    if (distance !== null && distance <= threshold && (!best || distance < best.distance)) {
+      best = { match: candidate, distance };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import type { MediaProbe } from '@/lib/supabase/client';
+import { runCommand } from '@/lib/youtube/command-runner';
+
+const PROBE_TIMEOUT_MS = 60000;
+
+// PQ (HDR10) and HLG; anything else is treated as SDR
+const HDR_TRANSFERS = ['smpte2084', 'arib-std-b67'];
+
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  bit_rate?: string;
+  pix_fmt?: string;
+  color_transfer?: string;
+  color_primaries?: string;
+  channels?: number;
+  sample_rate?: string;
+  tags?: { rotate?: string };
+  side_data_list?: Array<{ side_data_type?: string; rotation?: number | string }>;
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: { format_name?: string; size?: string; bit_rate?: string; duration?: string };
+}
+
+function readNumber(raw: unknown): number | null {
+  const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw ?? ''));
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+function readKbps(raw: unknown): number | null {
+  const bitsPerSecond = readNumber(raw);
+  return bitsPerSecond !== null && bitsPerSecond > 0 ? Math.round(bitsPerSecond / 1000) : null;
+}
+
+// "30000/1001" -> 29.97
+function readFrameRate(raw: string | undefined): number | null {
+  if (!raw) {
+    return null;
+  }
+  const [numerator, denominator] = raw.split('/').map(Number);
+  if (!Number.isFinite(numerator) || !Number.isFinite(denominator) || denominator <= 0 || numerator <= 0) {
+    return null;
+  }
+  return Math.round((numerator / denominator) * 100) / 100;
+}
+
+// Display-matrix side data wins over the legacy rotate tag; both are snapped to quarter turns
+function readRotation(stream: FfprobeStream): number {
+  const matrix = stream.side_data_list?.find((entry) => entry.rotation !== undefined);
+  const raw = readNumber(matrix?.rotation ?? stream.tags?.rotate) ?? 0;
+  return (((Math.round(raw / 90) * 90) % 360) + 360) % 360;
+}
+
+export function isHdrTransfer(transfer: string | null | undefined): boolean {
+  return Boolean(transfer && HDR_TRANSFERS.includes(transfer));
+}
+
+// Probe container, streams and file size. ffmpeg applies the rotation when decoding,
+// so display_width/display_height are what filters and viewers see.
+export async function probeMedia(filePath: string): Promise<{ probe?: MediaProbe; error?: string }> {
+  const result = await runCommand(
+    'ffprobe',
+    ['-v', 'error', '-show_format', '-show_streams', '-of', 'json', filePath],
+    { timeoutMs: PROBE_TIMEOUT_MS }
+  );
+  if (!result.success) {
+    return { error: result.stderr.trim().slice(-500) || result.error || 'ffprobe failed' };
+  }
+
+  let data: FfprobeOutput;
+  try {
+    data = JSON.parse(result.stdout);
+  } catch {
+    return { error: 'ffprobe returned unreadable output' };
+  }
+
+  const streams = data.streams || [];
+  const video = streams.find((stream) => stream.codec_type === 'video' && stream.width && stream.height);
+  if (!video || !video.width || !video.height) {
+    return { error: 'No video stream found' };
+  }
+  const audio = streams.find((stream) => stream.codec_type === 'audio');
+
+  let fileSize = readNumber(data.format?.size);
+  if (fileSize === null) {
+    fileSize = await fs
+      .stat(filePath)
+      .then((stats) => stats.size)
+      .catch(() => null);
+  }
+
+  const rotation = readRotation(video);
+  const sideways = rotation === 90 || rotation === 270;
+  const colorTransfer = video.color_transfer || null;
+
+  return {
+    probe: {
+      container: data.format?.format_name || null,
+      file_size: fileSize,
+      bitrate_kbps: readKbps(data.format?.bit_rate),
+      duration: readNumber(data.format?.duration),
+      video_codec: video.codec_name || null,
+      width: video.width,
+      height: video.height,
+      display_width: sideways ? video.height : video.width,
+      display_height: sideways ? video.width : video.height,
+      rotation,
+      fps: readFrameRate(video.avg_frame_rate) ?? readFrameRate(video.r_frame_rate),
+      video_bitrate_kbps: readKbps(video.bit_rate),
+      pix_fmt: video.pix_fmt || null,
+      color_transfer: colorTransfer,
+      color_primaries: video.color_primaries || null,
+      hdr: isHdrTransfer(colorTransfer),
+      has_audio: Boolean(audio),
+      audio_codec: audio?.codec_name || null,
+      audio_channels: audio?.channels ?? null,
+      audio_sample_rate: readNumber(audio?.sample_rate),
+      probed_at: new Date().toISOString(),
+    },
+  };
+}
+
+// Short label for logs, e.g. "1080x1920 h264 29.97fps HDR, aac 2ch"
+export function describeMediaProbe(probe: MediaProbe): string {
+  const video = [
+    `${probe.display_width}x${probe.display_height}`,
+    probe.video_codec,
+    probe.fps ? `${probe.fps}fps` : null,
+    probe.rotation ? `rotated ${probe.rotation}°` : null,
+    probe.hdr ? 'HDR' : null,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const audio = probe.has_audio
+    ? [probe.audio_codec, probe.audio_channels ? `${probe.audio_channels}ch` : null].filter(Boolean).join(' ')
+    : 'no audio';
+  return `${video}, ${audio || 'audio'}`;
+}
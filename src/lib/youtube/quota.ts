@@ -0,0 +1,190 @@
+import { createHash } from 'crypto';
+import { getConfig, getYoutubeQuotaUsage, recordYoutubeQuotaUsage } from '@/lib/supabase/database';
+import type { YoutubeQuotaCredentialType, YoutubeQuotaUsage } from '@/lib/supabase/client';
+import { getDateTimeInTimezone, shiftDate, zonedDateTimeToUtc } from '@/lib/scheduling/calendar';
+
+// Google resets Data API quota at midnight Pacific time.
+const QUOTA_TIMEZONE = 'America/Los_Angeles';
+
+export const DEFAULT_YOUTUBE_QUOTA_BUDGET = 10000;
+
+// Units billed per call, from the YouTube Data API v3 quota table.
+export const YOUTUBE_QUOTA_COSTS = {
+  'channels.list': 1,
+  'playlistItems.list': 1,
+  'videos.list': 1,
+  'videos.insert': 1600,
+  'videos.update': 50,
+  'videos.delete': 50,
+  'thumbnails.set': 50,
+  'captions.insert': 400,
+} as const;
+
+export type YoutubeQuotaOperation = keyof typeof YOUTUBE_QUOTA_COSTS;
+
+export interface QuotaCredential {
+  type: YoutubeQuotaCredentialType;
+  id: string;
+}
+
+export interface QuotaStatus {
+  credential_type: YoutubeQuotaCredentialType;
+  credential_id: string;
+  quota_day: string;
+  reset_at: string;
+  used: number;
+  budget: number;
+  remaining: number;
+  operations: Record<string, { units: number; calls: number }>;
+}
+
+function readEnv(...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = process.env[key];
+    if (value && value.trim()) {
+      return value;
+    }
+  }
+  return null;
+}
+
+// Keys and client ids are stored as short fingerprints, never in full.
+function fingerprint(value: string): string {
+  return createHash('sha256').update(value.trim()).digest('hex').slice(0, 12);
+}
+
+export function getQuotaDay(date: Date = new Date()): string {
+  return getDateTimeInTimezone(date, QUOTA_TIMEZONE).date;
+}
+
+export function getQuotaResetAt(date: Date = new Date()): string {
+  return zonedDateTimeToUtc(shiftDate(getQuotaDay(date), 1), '00:00', QUOTA_TIMEZONE).toISOString();
+}
+
+export function apiKeyQuotaCredential(apiKey: string): QuotaCredential {
+  return { type: 'api_key', id: `api_key:${fingerprint(apiKey)}` };
+}
+
+// Uploads and channel edits bill the project behind the OAuth client.
+export function oauthClientQuotaCredential(clientId: string): QuotaCredential {
+  return { type: 'oauth_client', id: `oauth_client:${fingerprint(clientId)}` };
+}
+
+export async function resolveOAuthQuotaCredential(): Promise<QuotaCredential | null> {
+  const clientId = (await getConfig('youtube_client_id')) || readEnv('YOUTUBE_CLIENT_ID');
+  return clientId ? oauthClientQuotaCredential(clientId) : null;
+}
+
+export async function resolveApiKeyQuotaCredential(): Promise<QuotaCredential | null> {
+  const apiKey = (await getConfig('youtube_api_key')) || readEnv('YT_API_KEY', 'YOUTUBE_API_KEY');
+  return apiKey ? apiKeyQuotaCredential(apiKey) : null;
+}
+
+export async function getQuotaBudget(): Promise<number> {
+  const raw = parseInt((await getConfig('youtube_quota_daily_budget')) || '', 10);
+  return Number.isNaN(raw) || raw <= 0 ? DEFAULT_YOUTUBE_QUOTA_BUDGET : raw;
+}
+
+export async function recordQuotaUsage(
+  credential: QuotaCredential | null,
+  operation: YoutubeQuotaOperation,
+  count: number = 1
+): Promise<void> {
+  if (!credential || count <= 0) {
+    return;
+  }
+
+  await recordYoutubeQuotaUsage({
+    quota_day: getQuotaDay(),
+    credential_type: credential.type,
+    credential_id: credential.id,
+    operation,
+    units: YOUTUBE_QUOTA_COSTS[operation] * count,
+  });
+}
+
+function summarizeUsage(
+  credential: QuotaCredential,
+  rows: YoutubeQuotaUsage[],
+  budget: number,
+  now: Date
+): QuotaStatus {
+  const operations: QuotaStatus['operations'] = {};
+  let used = 0;
+
+  for (const row of rows) {
+    used += row.units;
+    const current = operations[row.operation] || { units: 0, calls: 0 };
+    operations[row.operation] = { units: current.units + row.units, calls: current.calls + row.calls };
+  }
+
+  return {
+    credential_type: credential.type,
+    credential_id: credential.id,
+    quota_day: getQuotaDay(now),
+    reset_at: getQuotaResetAt(now),
+    used,
+    budget,
+    remaining: Math.max(0, budget - used),
+    operations,
+  };
+}
+
+export async function getQuotaStatus(credential: QuotaCredential): Promise<QuotaStatus> {
+  const now = new Date();
+  const [rows, budget] = await Promise.all([
+    getYoutubeQuotaUsage(getQuotaDay(now), credential.id),
+    getQuotaBudget(),
+  ]);
+  return summarizeUsage(credential, rows, budget, now);
+}
+
+// Whether `count` more calls of an operation fit in today's budget. Unknown credentials are not limited.
+export async function checkQuotaBudget(
+  credential: QuotaCredential | null,
+  operation: YoutubeQuotaOperation,
+  count: number = 1
+): Promise<{ allowed: boolean; status: QuotaStatus | null }> {
+  if (!credential) {
+    return { allowed: true, status: null };
+  }
+
+  const status = await getQuotaStatus(credential);
+  return { allowed: status.remaining >= YOUTUBE_QUOTA_COSTS[operation] * count, status };
+}
+
+export function describeQuotaExhausted(status: QuotaStatus): string {
+  return `YouTube quota budget reached (${status.used}/${status.budget} units); resets at ${status.reset_at}`;
+}
+
+// Today's usage for every configured credential plus any other credential billed today.
+export async function listQuotaStatuses(): Promise<QuotaStatus[]> {
+  const now = new Date();
+  const [rows, budget, apiKeyCredential, oauthCredential] = await Promise.all([
+    getYoutubeQuotaUsage(getQuotaDay(now)),
+    getQuotaBudget(),
+    resolveApiKeyQuotaCredential(),
+    resolveOAuthQuotaCredential(),
+  ]);
+
+  const credentials = new Map<string, QuotaCredential>();
+  for (const credential of [oauthCredential, apiKeyCredential]) {
+    if (credential) {
+      credentials.set(credential.id, credential);
+    }
+  }
+  for (const row of rows) {
+    if (!credentials.has(row.credential_id)) {
+      credentials.set(row.credential_id, { type: row.credential_type, id: row.credential_id });
+    }
+  }
+
+  return Array.from(credentials.values()).map((credential) =>
+    summarizeUsage(
+      credential,
+      rows.filter((row) => row.credential_id === credential.id),
+      budget,
+      now
+    )
+  );
+}
@@ -0,0 +1,121 @@
+import { runCommand } from '@/lib/youtube/command-runner';
+
+export type ReframeMode = 'off' | 'blur_pad' | 'center_crop' | 'smart_crop' | 'letterbox';
+
+export const REFRAME_MODES: ReframeMode[] = ['off', 'blur_pad', 'center_crop', 'smart_crop', 'letterbox'];
+
+export const DEFAULT_REFRAME_MODE: ReframeMode = 'blur_pad';
+
+// Height/width range accepted as already vertical (9:16 is 1.78).
+const VERTICAL_MIN_RATIO = 1.5;
+const VERTICAL_MAX_RATIO = 2.0;
+
+const MOTION_DETECT_TIMEOUT_MS = 120000;
+const MOTION_SAMPLE_FPS = 2;
+const MOTION_SAMPLE_WIDTH = 640;
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface CropBox extends FrameSize {
+  x: number;
+  y: number;
+}
+
+export function normalizeReframeMode(raw: unknown): ReframeMode {
+  return REFRAME_MODES.includes(raw as ReframeMode) ? (raw as ReframeMode) : DEFAULT_REFRAME_MODE;
+}
+
+export function isVerticalFrame(width: number | null | undefined, height: number | null | undefined): boolean {
+  if (!width || !height) {
+    return false;
+  }
+  const ratio = height / width;
+  return ratio >= VERTICAL_MIN_RATIO && ratio <= VERTICAL_MAX_RATIO;
+}
+
+function even(value: number): number {
+  return Math.max(2, Math.floor(value / 2) * 2);
+}
+
+// Largest 9:16 window that fits the source, centred on centerX (defaults to the middle).
+export function computeVerticalCrop(source: FrameSize, centerX?: number | null): CropBox {
+  const cropHeight = even(Math.min(source.height, (source.width * 16) / 9));
+  const cropWidth = even(Math.min(source.width, (cropHeight * 9) / 16));
+  const desiredCenter = typeof centerX === 'number' && Number.isFinite(centerX) ? centerX : source.width / 2;
+  const x = Math.min(source.width - cropWidth, Math.max(0, Math.round(desiredCenter - cropWidth / 2)));
+  const y = Math.max(0, Math.round((source.height - cropHeight) / 2));
+
+  return { width: cropWidth, height: cropHeight, x: x - (x % 2), y: y - (y % 2) };
+}
+
+// Horizontal centre of where things move, from frame differences run through cropdetect.
+// Returns null when nothing usable is detected so callers fall back to a centre crop.
+export async function detectMotionCenterX(filePath: string, source: FrameSize): Promise<number | null> {
+  const sampleWidth = Math.min(MOTION_SAMPLE_WIDTH, source.width);
+  const result = await runCommand(
+    'ffmpeg',
+    [
+      '-hide_banner',
+      '-nostats',
+      '-i',
+      filePath,
+      '-vf',
+      `fps=${MOTION_SAMPLE_FPS},scale=${even(sampleWidth)}:-2,tblend=all_mode=difference,cropdetect=limit=24:round=2:reset=0`,
+      '-an',
+      '-f',
+      'null',
+      '-',
+    ],
+    { timeoutMs: MOTION_DETECT_TIMEOUT_MS }
+  );
+
+  if (!result.success) {
+    console.error('Motion detection failed:', result.error);
+    return null;
+  }
+
+  const matches = Array.from(result.stderr.matchAll(/crop=(\d+):(\d+):(\d+):(\d+)/g));
+  const last = matches[matches.length - 1];
+  if (!last) {
+    return null;
+  }
+
+  const width = Number(last[1]);
+  const x = Number(last[3]);
+  // A box spanning the whole frame means motion everywhere, which says nothing about framing
+  if (!Number.isFinite(width) || width <= 0 || width >= even(sampleWidth) - 4) {
+    return null;
+  }
+
+  return ((x + width / 2) / even(sampleWidth)) * source.width;
+}
+
+// Filter chain turning any source into exactly target.width x target.height.
+export function buildReframeFilter(
+  mode: ReframeMode,
+  source: FrameSize,
+  target: FrameSize,
+  crop?: CropBox | null
+): string {
+  const { width, height } = target;
+
+  if (mode === 'blur_pad') {
+    return (
+      `split=2[bg][fg];` +
+      `[bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:2[blurred];` +
+      `[fg]scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease[front];` +
+      `[blurred][front]overlay=(W-w)/2:(H-h)/2`
+    );
+  }
+
+  if (mode === 'center_crop' || mode === 'smart_crop') {
+    const box = crop || computeVerticalCrop(source);
+    return `crop=${box.width}:${box.height}:${box.x}:${box.y},scale=${width}:${height}:flags=lanczos`;
+  }
+
+  // letterbox, and vertical sources that only need scaling
+  return `scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+}
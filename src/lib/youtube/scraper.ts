@@ -1,4 +1,11 @@
 import { getConfig } from '../supabase/database';
+import {
+  apiKeyQuotaCredential,
+  checkQuotaBudget,
+  describeQuotaExhausted,
+  recordQuotaUsage,
+  type QuotaCredential,
+} from './quota';
 
 function readEnv(...keys: string[]): string | null {
   for (const key of keys) {
@@ -94,11 +101,16 @@ export function extractChannelId(urlOrId: string): string {
 }
 
 // Fetch channel ID from username/handle
-async function resolveChannelId(identifier: string, apiKey: string): Promise<string | null> {
+async function resolveChannelId(
+  identifier: string,
+  apiKey: string,
+  quotaCredential: QuotaCredential
+): Promise<string | null> {
   try {
     // Try as handle (@username)
     const handleUrl = `https://www.googleapis.com/youtube/v3/channels?part=id&forHandle=${identifier}&key=${apiKey}`;
     const handleResponse = await fetch(handleUrl);
+    await recordQuotaUsage(quotaCredential, 'channels.list');
     const handleData = await handleResponse.json();
     
     if (handleData.items && handleData.items.length > 0) {
@@ -108,6 +120,7 @@ async function resolveChannelId(identifier: string, apiKey: string): Promise<str
     // Try as username
     const userUrl = `https://www.googleapis.com/youtube/v3/channels?part=id&forUsername=${identifier}&key=${apiKey}`;
     const userResponse = await fetch(userUrl);
+    await recordQuotaUsage(quotaCredential, 'channels.list');
     const userData = await userResponse.json();
     
     if (userData.items && userData.items.length > 0) {
@@ -135,13 +148,20 @@ export async function fetchChannelVideos(
     if (!apiKey) {
       return { success: false, videos: [], error: 'YouTube API key not configured' };
     }
+
+    // channels.list plus a playlistItems.list and videos.list per page of 50
+    const quotaCredential = apiKeyQuotaCredential(apiKey);
+    const quota = await checkQuotaBudget(quotaCredential, 'videos.list', 1 + Math.ceil(maxResults / 50) * 2);
+    if (!quota.allowed && quota.status) {
+      return { success: false, videos: [], error: describeQuotaExhausted(quota.status) };
+    }
     
     // Resolve channel ID
     let channelId = extractChannelId(channelUrlOrId);
     
     // If not a valid channel ID, try to resolve
     if (!channelId.startsWith('UC')) {
-      const resolvedId = await resolveChannelId(channelId, apiKey);
+      const resolvedId = await resolveChannelId(channelId, apiKey, quotaCredential);
       if (resolvedId) {
         channelId = resolvedId;
       } else {
@@ -152,6 +172,7 @@ export async function fetchChannelVideos(
     // Get uploads playlist ID
     const channelUrl = `https://www.googleapis.com/youtube/v3/channels?part=contentDetails&id=${channelId}&key=${apiKey}`;
     const channelResponse = await fetch(channelUrl);
+    await recordQuotaUsage(quotaCredential, 'channels.list');
     const channelData = await channelResponse.json();
     
     if (!channelData.items || channelData.items.length === 0) {
@@ -167,6 +188,7 @@ export async function fetchChannelVideos(
     while (videos.length < maxResults) {
       const playlistUrl = `https://www.googleapis.com/youtube/v3/playlistItems?part=snippet&playlistId=${uploadsPlaylistId}&maxResults=50&pageToken=${nextPageToken}&key=${apiKey}`;
       const playlistResponse = await fetch(playlistUrl);
+      await recordQuotaUsage(quotaCredential, 'playlistItems.list');
       const playlistData = await playlistResponse.json();
       
       if (!playlistData.items || playlistData.items.length === 0) {
@@ -179,6 +201,7 @@ export async function fetchChannelVideos(
       // Get video details
       const videosUrl = `https://www.googleapis.com/youtube/v3/videos?part=snippet,contentDetails,statistics&id=${videoIds}&key=${apiKey}`;
       const videosResponse = await fetch(videosUrl);
+      await recordQuotaUsage(quotaCredential, 'videos.list');
       const videosData = await videosResponse.json();
       
       if (videosData.items) {
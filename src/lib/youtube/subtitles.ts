@@ -0,0 +1,275 @@
+import { resolveMappingRefreshToken } from '@/lib/youtube/destination-channels';
+import { checkQuotaBudget, describeQuotaExhausted, resolveOAuthQuotaCredential } from '@/lib/youtube/quota';
+import { insertCaptionTrack } from '@/lib/youtube/uploader';
+import { mapSourceRange, type TransformOperation } from '@/lib/youtube/transforms';
+
+export type SubtitleMode = 'off' | 'burn_in' | 'caption_track';
+
+export type SubtitlePosition = 'bottom' | 'middle' | 'top';
+
+export const SUBTITLE_MODES: SubtitleMode[] = ['off', 'burn_in', 'caption_track'];
+
+export const SUBTITLE_POSITIONS: SubtitlePosition[] = ['bottom', 'middle', 'top'];
+
+// Stored on channel_mappings.subtitles; sizes are in pixels of the 1080x1920 output.
+export interface MappingSubtitles {
+  mode: SubtitleMode;
+  // yt-dlp language codes tried in order
+  languages: string[];
+  // Fall back to YouTube's speech-recognition subtitles when the source has no manual ones
+  include_auto: boolean;
+  font: string;
+  font_size: number;
+  outline: number;
+  position: SubtitlePosition;
+}
+
+export const DEFAULT_SUBTITLES: MappingSubtitles = {
+  mode: 'off',
+  languages: ['en'],
+  include_auto: true,
+  font: 'Arial',
+  font_size: 64,
+  outline: 4,
+  position: 'bottom',
+};
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleTrack {
+  language: string;
+  automatic: boolean;
+  cues: SubtitleCue[];
+}
+
+// ASS scripts are laid out for a Full HD vertical frame; libass scales them to the actual output
+const PLAY_RES = { width: 1080, height: 1920 };
+// Keeps bottom captions clear of the Shorts title and action buttons
+const POSITION_LAYOUT: Record<SubtitlePosition, { alignment: number; marginV: number }> = {
+  bottom: { alignment: 2, marginV: 320 },
+  middle: { alignment: 5, marginV: 0 },
+  top: { alignment: 8, marginV: 220 },
+};
+// Rolling auto-captions repeat each line in a ~10 ms transition cue
+const MIN_CUE_SECONDS = 0.05;
+
+function clampNumber(raw: unknown, min: number, max: number, fallback: number): number {
+  const numeric = typeof raw === 'number' ? raw : Number.parseFloat(String(raw ?? ''));
+  if (!Number.isFinite(numeric)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, numeric));
+}
+
+function normalizeLanguages(raw: unknown): string[] {
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  const languages = values
+    .map((value) => String(value).trim())
+    .filter((value) => /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/.test(value));
+  return languages.length > 0 ? Array.from(new Set(languages)).slice(0, 5) : DEFAULT_SUBTITLES.languages;
+}
+
+export function normalizeSubtitleSettings(raw: unknown): MappingSubtitles {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const font = typeof value.font === 'string' ? value.font.replace(/[^A-Za-z0-9 -]/g, '').trim().slice(0, 60) : '';
+
+  return {
+    mode: SUBTITLE_MODES.includes(value.mode as SubtitleMode) ? (value.mode as SubtitleMode) : DEFAULT_SUBTITLES.mode,
+    languages: normalizeLanguages(value.languages),
+    include_auto: typeof value.include_auto === 'boolean' ? value.include_auto : DEFAULT_SUBTITLES.include_auto,
+    font: font || DEFAULT_SUBTITLES.font,
+    font_size: Math.round(clampNumber(value.font_size, 24, 160, DEFAULT_SUBTITLES.font_size)),
+    outline: clampNumber(value.outline, 0, 12, DEFAULT_SUBTITLES.outline),
+    position: SUBTITLE_POSITIONS.includes(value.position as SubtitlePosition)
+      ? (value.position as SubtitlePosition)
+      : DEFAULT_SUBTITLES.position,
+  };
+}
+
+function parseTimestamp(raw: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/.exec(raw.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000
+  );
+}
+
+function cleanCueText(line: string): string {
+  return line
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Parse WebVTT or SRT into cues. Lines repeated from the previous cue (rolling auto-captions) are dropped.
+export function parseSubtitleFile(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let previousLines: string[] = [];
+
+  for (const block of content.replace(/\r/g, '').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex < 0) {
+      continue;
+    }
+
+    const [rawStart, rawEnd] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(rawStart);
+    // VTT cue settings ("align:start position:0%") follow the end time
+    const end = parseTimestamp((rawEnd || '').trim().split(/\s+/)[0] || '');
+    if (start === null || end === null || end - start < MIN_CUE_SECONDS) {
+      continue;
+    }
+
+    const textLines = lines.slice(timingIndex + 1).map(cleanCueText).filter(Boolean);
+    const fresh = textLines.filter((line) => !previousLines.includes(line));
+    if (textLines.length > 0) {
+      previousLines = textLines;
+    }
+    if (fresh.length > 0) {
+      cues.push({ start, end, text: fresh.join('\n') });
+    }
+  }
+
+  return cues;
+}
+
+// Move cues onto the output timeline: through the mapping's trims/speed changes, then past the intro clip
+export function retimeSubtitleCues(
+  cues: SubtitleCue[],
+  chain: TransformOperation[],
+  sourceDuration: number | null,
+  offsetSeconds: number = 0
+): SubtitleCue[] {
+  return cues.flatMap((cue) => {
+    const range = mapSourceRange(chain, sourceDuration, cue.start, cue.end);
+    return range ? [{ start: range.start + offsetSeconds, end: range.end + offsetSeconds, text: cue.text }] : [];
+  });
+}
+
+function formatAssTime(seconds: number): string {
+  const centiseconds = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const cs = centiseconds % 100;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
+}
+
+function formatSrtTime(seconds: number): string {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const ms = milliseconds % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')},${String(ms).padStart(3, '0')}`;
+}
+
+// Styled ASS script for burning in: white text with a black outline, placed per the mapping settings
+export function buildAssSubtitles(cues: SubtitleCue[], settings: MappingSubtitles): string {
+  const layout = POSITION_LAYOUT[settings.position];
+  const style = [
+    'Default',
+    settings.font,
+    settings.font_size,
+    '&H00FFFFFF',
+    '&H000000FF',
+    '&H00000000',
+    '&H80000000',
+    -1,
+    0,
+    0,
+    0,
+    100,
+    100,
+    0,
+    0,
+    1,
+    settings.outline,
+    0,
+    layout.alignment,
+    80,
+    80,
+    layout.marginV,
+    1,
+  ].join(',');
+  // Braces would start override blocks, so user text never carries any
+  const events = cues.map(
+    (cue) =>
+      `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},Default,,0,0,0,,${cue.text
+        .replace(/[{}]/g, '')
+        .replace(/\n/g, '\\N')}`
+  );
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${PLAY_RES.width}`,
+    `PlayResY: ${PLAY_RES.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${style}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+export function buildSrtSubtitles(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+// yt-dlp names the original-language auto track e.g. "en-orig"; YouTube expects a plain BCP-47 code
+function captionLanguage(language: string): string {
+  return language.replace(/-orig$/i, '');
+}
+
+// Upload the retimed cues as a caption track on an uploaded video
+export async function uploadShortCaptions(
+  mappingId: string | null,
+  targetVideoId: string,
+  track: SubtitleTrack
+): Promise<{ success: boolean; error?: string }> {
+  if (track.cues.length === 0) {
+    return { success: false, error: 'No subtitle cues left after transforms' };
+  }
+
+  const quota = await checkQuotaBudget(await resolveOAuthQuotaCredential(), 'captions.insert');
+  if (!quota.allowed && quota.status) {
+    return { success: false, error: describeQuotaExhausted(quota.status) };
+  }
+
+  const destinationAuth = await resolveMappingRefreshToken(mappingId);
+  if (destinationAuth.error) {
+    return { success: false, error: destinationAuth.error };
+  }
+
+  return insertCaptionTrack(
+    targetVideoId,
+    {
+      language: captionLanguage(track.language),
+      name: track.automatic ? 'Auto-generated' : '',
+      content: buildSrtSubtitles(track.cues),
+    },
+    { refreshToken: destinationAuth.refreshToken }
+  );
+}
@@ -0,0 +1,462 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { getExistingShortIds, type ChannelMapping } from '@/lib/supabase/database';
+import type { ShortThumbnail, ThumbnailCandidate } from '@/lib/supabase/client';
+import { runCommand } from '@/lib/youtube/command-runner';
+import { resolveBrandingAssets } from '@/lib/youtube/branding';
+import { resolveMappingRefreshToken } from '@/lib/youtube/destination-channels';
+import { checkQuotaBudget, describeQuotaExhausted, resolveOAuthQuotaCredential } from '@/lib/youtube/quota';
+import { setVideoThumbnail } from '@/lib/youtube/uploader';
+
+// 'frame' uploads the best frame as is; 'title' draws the title and the mapping watermark on it
+export type ThumbnailMode = 'off' | 'frame' | 'title';
+
+export const THUMBNAIL_MODES: ThumbnailMode[] = ['off', 'frame', 'title'];
+
+const THUMBNAIL_DIR = process.env.THUMBNAIL_DIR || path.join(process.cwd(), 'data', 'thumbnails');
+const THUMBNAIL_FILE = 'thumbnail.jpg';
+const THUMBNAIL_WIDTH = 1080;
+const THUMBNAIL_HEIGHT = 1920;
+// thumbnails.set rejects images over 2 MB
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+const SCENE_THRESHOLD = 0.3;
+const MAX_SCENE_FRAMES = 12;
+const EVEN_SAMPLE_POINTS = [0.15, 0.3, 0.45, 0.6, 0.75, 0.9];
+const MIN_SCENE_CANDIDATES = 3;
+const MAX_CANDIDATES = 6;
+const EXTRACT_TIMEOUT_MS = 3 * 60 * 1000;
+
+const TITLE_MAX_LINES = 3;
+const TITLE_CHARS_PER_LINE = 18;
+const TITLE_FONT_SIZE = 88;
+
+export function normalizeThumbnailMode(raw: unknown): ThumbnailMode {
+  return THUMBNAIL_MODES.includes(raw as ThumbnailMode) ? (raw as ThumbnailMode) : 'off';
+}
+
+function shortDirectory(shortId: string): string | null {
+  const safe = shortId.replace(/[^a-zA-Z0-9_-]/g, '');
+  return safe ? path.join(THUMBNAIL_DIR, safe) : null;
+}
+
+// Only plain file names written by this module resolve, so request input cannot escape the short's directory.
+export function resolveThumbnailFile(shortId: string, file: string): string | null {
+  const directory = shortDirectory(shortId);
+  if (!directory || !/^[a-z0-9-]+\.jpg$/.test(file)) {
+    return null;
+  }
+  return path.join(directory, file);
+}
+
+export async function readThumbnailImage(shortId: string, file: string): Promise<Buffer | null> {
+  const filePath = resolveThumbnailFile(shortId, file);
+  if (!filePath) {
+    return null;
+  }
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteShortThumbnails(shortId: string): Promise<void> {
+  const directory = shortDirectory(shortId);
+  if (directory) {
+    await fs
+      .rm(directory, { recursive: true, force: true })
+      .catch((error) => console.error('Error deleting thumbnails:', error));
+  }
+}
+
+// Scene changes first; evenly spaced frames fill in for static clips with few cuts.
+async function extractFrames(
+  videoPath: string,
+  directory: string,
+  window: { start: number; end: number }
+): Promise<Array<{ file: string; time: number }>> {
+  const frames: Array<{ file: string; time: number }> = [];
+  const length = window.end - window.start;
+
+  const scenes = await runCommand(
+    'ffmpeg',
+    [
+      '-hide_banner',
+      '-nostats',
+      '-y',
+      '-ss',
+      window.start.toFixed(2),
+      '-t',
+      length.toFixed(2),
+      '-i',
+      videoPath,
+      '-vf',
+      `select='gt(scene,${SCENE_THRESHOLD})',showinfo`,
+      '-vsync',
+      'vfr',
+      '-frames:v',
+      String(MAX_SCENE_FRAMES),
+      '-q:v',
+      '2',
+      path.join(directory, 'scene-%02d.jpg'),
+    ],
+    { timeoutMs: EXTRACT_TIMEOUT_MS }
+  );
+  if (scenes.success) {
+    // showinfo logs one line per selected frame, in output order
+    const times = Array.from(scenes.stderr.matchAll(/pts_time:\s*([\d.]+)/g)).map((match) => Number(match[1]));
+    times.slice(0, MAX_SCENE_FRAMES).forEach((time, index) => {
+      frames.push({ file: `scene-${String(index + 1).padStart(2, '0')}.jpg`, time: window.start + time });
+    });
+  }
+
+  if (frames.length < MIN_SCENE_CANDIDATES) {
+    for (const [index, point] of EVEN_SAMPLE_POINTS.entries()) {
+      const time = window.start + length * point;
+      const file = `even-${String(index + 1).padStart(2, '0')}.jpg`;
+      const result = await runCommand(
+        'ffmpeg',
+        [
+          '-hide_banner',
+          '-nostats',
+          '-loglevel',
+          'error',
+          '-y',
+          '-ss',
+          time.toFixed(2),
+          '-i',
+          videoPath,
+          '-frames:v',
+          '1',
+          '-q:v',
+          '2',
+          path.join(directory, file),
+        ],
+        { timeoutMs: EXTRACT_TIMEOUT_MS }
+      );
+      if (result.success) {
+        frames.push({ file, time });
+      }
+    }
+  }
+
+  // A frame ffmpeg reported but did not write is dropped here
+  const written: Array<{ file: string; time: number }> = [];
+  for (const frame of frames) {
+    const exists = await fs
+      .stat(path.join(directory, frame.file))
+      .then((stats) => stats.size > 0)
+      .catch(() => false);
+    if (exists) {
+      written.push(frame);
+    }
+  }
+  return written;
+}
+
+// Sharpness is relative to the sharpest candidate; brightness favours mid-tones over near-black or blown-out frames.
+async function scoreFrames(
+  directory: string,
+  frames: Array<{ file: string; time: number }>
+): Promise<ThumbnailCandidate[]> {
+  const measured: Array<{ file: string; time: number; sharpness: number; brightness: number }> = [];
+  for (const frame of frames) {
+    try {
+      const stats = await sharp(path.join(directory, frame.file)).greyscale().resize({ width: 360 }).stats();
+      measured.push({
+        ...frame,
+        sharpness: stats.sharpness,
+        brightness: (stats.channels[0]?.mean ?? 0) / 255,
+      });
+    } catch (error) {
+      console.error('Thumbnail frame scoring error:', error);
+    }
+  }
+
+  const sharpest = Math.max(0, ...measured.map((frame) => frame.sharpness));
+  return measured
+    .map((frame) => {
+      const sharpnessScore = sharpest > 0 ? frame.sharpness / sharpest : 0;
+      const brightnessScore = frame.brightness < 0.08 ? 0 : 1 - Math.min(1, Math.abs(frame.brightness - 0.5) / 0.5);
+      return {
+        file: frame.file,
+        time: Math.round(frame.time * 100) / 100,
+        sharpness: Math.round(frame.sharpness * 1000) / 1000,
+        brightness: Math.round(frame.brightness * 1000) / 1000,
+        score: Math.round((0.6 * sharpnessScore + 0.4 * brightnessScore) * 1000) / 1000,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function wrapTitle(title: string): string[] {
+  const words = title.replace(/#\S+/g, '').replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const next = current ? `${current} ${word}` : word;
+    if (next.length <= TITLE_CHARS_PER_LINE || !current) {
+      current = next;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+    if (lines.length === TITLE_MAX_LINES) {
+      break;
+    }
+  }
+  if (current && lines.length < TITLE_MAX_LINES) {
+    lines.push(current);
+  }
+
+  const consumed = lines.join(' ').length;
+  if (consumed < words.join(' ').length && lines.length > 0) {
+    lines[lines.length - 1] = `${lines[lines.length - 1].replace(/[.,!?;:]+$/, '')}…`;
+  }
+  return lines;
+}
+
+// Dark band across the lower third with the title in bold white, drawn as SVG so sharp can composite it.
+function titleOverlay(title: string): Buffer | null {
+  const lines = wrapTitle(title);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const lineHeight = Math.round(TITLE_FONT_SIZE * 1.15);
+  const textBottom = THUMBNAIL_HEIGHT - 260;
+  const firstLine = textBottom - (lines.length - 1) * lineHeight;
+  const text = lines
+    .map(
+      (line, index) =>
+        `<text x="${THUMBNAIL_WIDTH / 2}" y="${firstLine + index * lineHeight}">${escapeXml(line)}</text>`
+    )
+    .join('');
+
+  return Buffer.from(
+    `<svg width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT}" xmlns="http://www.w3.org/2000/svg">` +
+      '<defs><linearGradient id="band" x1="0" y1="0" x2="0" y2="1">' +
+      '<stop offset="0" stop-color="#000" stop-opacity="0"/>' +
+      '<stop offset="1" stop-color="#000" stop-opacity="0.8"/>' +
+      '</linearGradient></defs>' +
+      `<rect x="0" y="${THUMBNAIL_HEIGHT * 0.55}" width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT * 0.45}" fill="url(#band)"/>` +
+      `<g font-family="DejaVu Sans, Arial, Helvetica, sans-serif" font-size="${TITLE_FONT_SIZE}" font-weight="700" ` +
+      'fill="#fff" stroke="#000" stroke-width="4" paint-order="stroke" text-anchor="middle">' +
+      `${text}</g></svg>`
+  );
+}
+
+export interface ThumbnailRenderOptions {
+  // Drawn on the frame when set
+  title?: string | null;
+  logoPath?: string | null;
+}
+
+// Render a candidate to the 9:16 thumbnail, lowering JPEG quality until it fits the upload limit.
+async function renderThumbnail(
+  directory: string,
+  candidateFile: string,
+  options: ThumbnailRenderOptions
+): Promise<{ success: boolean; titled: boolean; error?: string }> {
+  try {
+    const layers: sharp.OverlayOptions[] = [];
+    const overlay = options.title ? titleOverlay(options.title) : null;
+    if (overlay) {
+      layers.push({ input: overlay, top: 0, left: 0 });
+    }
+    if (options.title && options.logoPath) {
+      const logo = await sharp(options.logoPath)
+        .resize({ width: Math.round(THUMBNAIL_WIDTH * 0.22), withoutEnlargement: false })
+        .png()
+        .toBuffer()
+        .catch(() => null);
+      if (logo) {
+        layers.push({ input: logo, top: 64, left: 64 });
+      }
+    }
+
+    const base = await sharp(path.join(directory, candidateFile))
+      .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: 'cover' })
+      .composite(layers)
+      .png()
+      .toBuffer();
+
+    for (const quality of [90, 80, 70, 60]) {
+      const output = await sharp(base).jpeg({ quality, mozjpeg: true }).toBuffer();
+      if (output.byteLength <= MAX_THUMBNAIL_BYTES) {
+        await fs.writeFile(path.join(directory, THUMBNAIL_FILE), output);
+        return { success: true, titled: Boolean(overlay) };
+      }
+    }
+    return { success: false, titled: false, error: 'Thumbnail exceeds 2 MB even at low quality' };
+  } catch (error) {
+    console.error('Thumbnail render error:', error);
+    return { success: false, titled: false, error: error instanceof Error ? error.message : 'Thumbnail render failed' };
+  }
+}
+
+// Title mode draws the upload title and the mapping's watermark as the logo.
+export async function resolveThumbnailRenderOptions(
+  mapping: ChannelMapping | null,
+  title: string
+): Promise<ThumbnailRenderOptions> {
+  if (normalizeThumbnailMode(mapping?.thumbnail_mode) !== 'title') {
+    return {};
+  }
+  const branding = await resolveBrandingAssets(mapping?.branding);
+  return { title, logoPath: branding?.watermarkPath || null };
+}
+
+// Pull candidate frames from the rendered upload, keep the best MAX_CANDIDATES and render the top one.
+// window limits sampling to the main clip so intro/outro frames are never picked.
+export async function generateThumbnail(
+  shortId: string,
+  videoPath: string,
+  window: { start: number; end: number },
+  options: ThumbnailRenderOptions
+): Promise<{ thumbnail?: ShortThumbnail; error?: string }> {
+  const directory = shortDirectory(shortId);
+  if (!directory) {
+    return { error: 'Invalid short id' };
+  }
+  if (!(window.end > window.start)) {
+    return { error: 'Video duration unknown' };
+  }
+
+  try {
+    await fs.rm(directory, { recursive: true, force: true });
+    await fs.mkdir(directory, { recursive: true });
+
+    const candidates = await scoreFrames(directory, await extractFrames(videoPath, directory, window));
+    if (candidates.length === 0) {
+      await fs.rm(directory, { recursive: true, force: true });
+      return { error: 'No usable frames extracted' };
+    }
+
+    const kept = candidates.slice(0, MAX_CANDIDATES);
+    await Promise.all(
+      candidates.slice(MAX_CANDIDATES).map((candidate) => fs.rm(path.join(directory, candidate.file), { force: true }))
+    );
+
+    const rendered = await renderThumbnail(directory, kept[0].file, options);
+    if (!rendered.success) {
+      return { error: rendered.error };
+    }
+
+    return {
+      thumbnail: {
+        candidates: kept,
+        selected: kept[0].file,
+        file: THUMBNAIL_FILE,
+        titled: rendered.titled,
+        manual: false,
+        generated_at: new Date().toISOString(),
+        uploaded_at: null,
+        upload_error: null,
+      },
+    };
+  } catch (error) {
+    console.error('Thumbnail generation error:', error);
+    return { error: error instanceof Error ? error.message : 'Thumbnail generation failed' };
+  }
+}
+
+// Re-render the thumbnail from another candidate picked in the details dialog.
+export async function selectThumbnailCandidate(
+  shortId: string,
+  thumbnail: ShortThumbnail,
+  candidateFile: string,
+  options: ThumbnailRenderOptions
+): Promise<{ thumbnail?: ShortThumbnail; error?: string }> {
+  const directory = shortDirectory(shortId);
+  if (!directory || !thumbnail.candidates.some((candidate) => candidate.file === candidateFile)) {
+    return { error: 'Unknown thumbnail candidate' };
+  }
+
+  const rendered = await renderThumbnail(directory, candidateFile, options);
+  if (!rendered.success) {
+    return { error: rendered.error };
+  }
+
+  return {
+    thumbnail: {
+      ...thumbnail,
+      selected: candidateFile,
+      titled: rendered.titled,
+      manual: true,
+      uploaded_at: null,
+      upload_error: null,
+    },
+  };
+}
+
+// Send the rendered thumbnail to YouTube for an uploaded video. Failures are returned on the thumbnail
+// (upload_error) for the caller to persist; the video itself is already live either way.
+export async function uploadShortThumbnail(
+  shortId: string,
+  mappingId: string | null,
+  targetVideoId: string,
+  thumbnail: ShortThumbnail
+): Promise<{ thumbnail: ShortThumbnail; error?: string }> {
+  const fail = (error: string) => ({ thumbnail: { ...thumbnail, uploaded_at: null, upload_error: error }, error });
+
+  const filePath = resolveThumbnailFile(shortId, thumbnail.file);
+  if (!filePath) {
+    return fail('Thumbnail file missing');
+  }
+
+  const quota = await checkQuotaBudget(await resolveOAuthQuotaCredential(), 'thumbnails.set');
+  if (!quota.allowed && quota.status) {
+    return fail(describeQuotaExhausted(quota.status));
+  }
+
+  const destinationAuth = await resolveMappingRefreshToken(mappingId);
+  if (destinationAuth.error) {
+    return fail(destinationAuth.error);
+  }
+
+  const result = await setVideoThumbnail(targetVideoId, filePath, { refreshToken: destinationAuth.refreshToken });
+  if (!result.success) {
+    return fail(result.error || 'Thumbnail upload failed');
+  }
+  return { thumbnail: { ...thumbnail, uploaded_at: new Date().toISOString(), upload_error: null } };
+}
+
+// Remove thumbnail directories whose short no longer exists (deleted by cleanup or with its mapping).
+export async function pruneOrphanedThumbnails(): Promise<number> {
+  let directories: string[];
+  try {
+    directories = (await fs.readdir(THUMBNAIL_DIR, { withFileTypes: true }))
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  } catch {
+    return 0;
+  }
+
+  let pruned = 0;
+  for (let index = 0; index < directories.length; index += 200) {
+    const batch = directories.slice(index, index + 200);
+    const existing = await getExistingShortIds(batch);
+    if (!existing) {
+      return pruned;
+    }
+    for (const shortId of batch) {
+      if (!existing.has(shortId)) {
+        await deleteShortThumbnails(shortId);
+        pruned++;
+      }
+    }
+  }
+  return pruned;
+}
@@ -0,0 +1,162 @@
+import type { TranscodeProfile, TranscodeResolution, TranscodeVideoCodec } from '@/lib/supabase/client';
+
+// What the renderer needs from a profile; the env-based default has the same shape
+export type TranscodeSettings = Omit<TranscodeProfile, 'id' | 'created_at' | 'updated_at'>;
+
+export const TRANSCODE_RESOLUTIONS: TranscodeResolution[] = ['source', 'fullhd', '4k', '8k'];
+export const TRANSCODE_VIDEO_CODECS: TranscodeVideoCodec[] = ['x264', 'x265', 'copy'];
+export const TRANSCODE_PRESETS = [
+  'ultrafast',
+  'superfast',
+  'veryfast',
+  'faster',
+  'fast',
+  'medium',
+  'slow',
+  'slower',
+  'veryslow',
+  'placebo',
+];
+export const AUDIO_SAMPLE_RATES = [22050, 32000, 44100, 48000];
+
+export const DEFAULT_TRANSCODE_SETTINGS: TranscodeSettings = {
+  name: 'Default',
+  resolution: 'fullhd',
+  video_codec: 'x264',
+  crf: 17,
+  video_bitrate_kbps: null,
+  fps_cap: null,
+  preset: 'faster',
+  threads: 1,
+  audio_codec: 'aac',
+  audio_bitrate_kbps: 192,
+  audio_sample_rate: 48000,
+  audio_channels: 2,
+  sharpen: true,
+  color_boost: true,
+  strict: true,
+};
+
+function readInteger(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === '') {
+    return null;
+  }
+  const numeric = typeof raw === 'number' ? raw : Number.parseInt(String(raw), 10);
+  return Number.isFinite(numeric) ? Math.round(numeric) : null;
+}
+
+function readBoolean(raw: unknown, fallback: boolean): boolean {
+  if (typeof raw === 'boolean') {
+    return raw;
+  }
+  if (raw === 'true' || raw === 'false') {
+    return raw === 'true';
+  }
+  return fallback;
+}
+
+function inRange(value: number | null, min: number, max: number): boolean {
+  return value !== null && value >= min && value <= max;
+}
+
+// Validate a create/update payload on top of the current values (or the defaults for a new profile).
+export function normalizeTranscodeProfileInput(
+  raw: Record<string, unknown>,
+  current: TranscodeSettings = DEFAULT_TRANSCODE_SETTINGS
+): { settings?: TranscodeSettings; error?: string } {
+  const read = (key: keyof TranscodeSettings) => (key in raw ? raw[key] : current[key]);
+
+  const name = String(read('name') ?? '').trim();
+  if (!name || name.length > 80) {
+    return { error: 'Profile name is required (max 80 characters)' };
+  }
+
+  const resolution = String(read('resolution')) as TranscodeResolution;
+  if (!TRANSCODE_RESOLUTIONS.includes(resolution)) {
+    return { error: `Resolution must be one of ${TRANSCODE_RESOLUTIONS.join(', ')}` };
+  }
+
+  const videoCodec = String(read('video_codec')) as TranscodeVideoCodec;
+  if (!TRANSCODE_VIDEO_CODECS.includes(videoCodec)) {
+    return { error: `Video codec must be one of ${TRANSCODE_VIDEO_CODECS.join(', ')}` };
+  }
+
+  const videoBitrate = readInteger(read('video_bitrate_kbps'));
+  if (videoBitrate !== null && !inRange(videoBitrate, 100, 200000)) {
+    return { error: 'Video bitrate must be between 100 and 200000 kbps' };
+  }
+  // Bitrate mode clears the CRF; otherwise fall back to the default CRF
+  const crf = videoBitrate !== null ? null : readInteger(read('crf')) ?? DEFAULT_TRANSCODE_SETTINGS.crf;
+  if (crf !== null && !inRange(crf, 0, 51)) {
+    return { error: 'CRF must be between 0 and 51' };
+  }
+
+  const fpsCap = readInteger(read('fps_cap'));
+  if (fpsCap !== null && !inRange(fpsCap, 1, 120)) {
+    return { error: 'FPS cap must be between 1 and 120' };
+  }
+
+  const preset = String(read('preset') ?? '').trim().toLowerCase();
+  if (!TRANSCODE_PRESETS.includes(preset)) {
+    return { error: `Preset must be one of ${TRANSCODE_PRESETS.join(', ')}` };
+  }
+
+  const threads = readInteger(read('threads'));
+  if (!inRange(threads, 1, 16)) {
+    return { error: 'Threads must be between 1 and 16' };
+  }
+
+  const audioCodec = String(read('audio_codec'));
+  if (audioCodec !== 'aac' && audioCodec !== 'copy') {
+    return { error: 'Audio codec must be aac or copy' };
+  }
+
+  const audioBitrate = readInteger(read('audio_bitrate_kbps'));
+  if (!inRange(audioBitrate, 32, 512)) {
+    return { error: 'Audio bitrate must be between 32 and 512 kbps' };
+  }
+
+  const sampleRate = readInteger(read('audio_sample_rate'));
+  if (sampleRate === null || !AUDIO_SAMPLE_RATES.includes(sampleRate)) {
+    return { error: `Audio sample rate must be one of ${AUDIO_SAMPLE_RATES.join(', ')}` };
+  }
+
+  const channels = readInteger(read('audio_channels'));
+  if (channels !== 1 && channels !== 2) {
+    return { error: 'Audio channels must be 1 or 2' };
+  }
+
+  return {
+    settings: {
+      name,
+      resolution,
+      video_codec: videoCodec,
+      crf,
+      video_bitrate_kbps: videoBitrate,
+      fps_cap: fpsCap,
+      preset,
+      threads: threads as number,
+      audio_codec: audioCodec,
+      audio_bitrate_kbps: audioBitrate as number,
+      audio_sample_rate: sampleRate,
+      audio_channels: channels,
+      sharpen: readBoolean(read('sharpen'), current.sharpen),
+      color_boost: readBoolean(read('color_boost'), current.color_boost),
+      strict: readBoolean(read('strict'), current.strict),
+    },
+  };
+}
+
+export function toTranscodeSettings(profile: TranscodeProfile): TranscodeSettings {
+  const { id, created_at, updated_at, ...settings } = profile;
+  return settings;
+}
+
+// Short label for logs, e.g. "Archive (x265 4K CRF 20)"
+export function describeTranscodeSettings(settings: TranscodeSettings): string {
+  if (settings.video_codec === 'copy') {
+    return `${settings.name} (passthrough)`;
+  }
+  const rate = settings.video_bitrate_kbps ? `${settings.video_bitrate_kbps} kbps` : `CRF ${settings.crf}`;
+  return `${settings.name} (${settings.video_codec} ${settings.resolution.toUpperCase()} ${rate})`;
+}
@@ -0,0 +1,103 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import {
+  compileTransformChain,
+  mapSourceRange,
+  mapSourceX,
+  parseTransformChain,
+  type TransformOperation,
+} from '@/lib/youtube/transforms';
+
+describe('compileTransformChain', () => {
+  test('trims reset timestamps and track the output duration', () => {
+    const { compiled, error } = compileTransformChain(
+      [
+        { type: 'trim_start', seconds: 2 },
+        { type: 'trim_end', seconds: 3 },
+      ],
+      { duration: 30 }
+    );
+
+    expect(error).toBeUndefined();
+    expect(compiled?.videoFilter).toBe('trim=start=2.000,setpts=PTS-STARTPTS,trim=end=25.000,setpts=PTS-STARTPTS');
+    expect(compiled?.audioFilter).toBe('atrim=start=2.000,asetpts=PTS-STARTPTS,atrim=end=25.000,asetpts=PTS-STARTPTS');
+    expect(compiled?.duration).toBe(25);
+  });
+
+  test('speed changes scale both streams and the duration', () => {
+    const { compiled } = compileTransformChain([{ type: 'speed', factor: 1.25 }], { duration: 50 });
+
+    expect(compiled?.videoFilter).toBe('setpts=PTS/1.25');
+    expect(compiled?.audioFilter).toBe('atempo=1.25');
+    expect(compiled?.duration).toBe(40);
+  });
+
+  test('max_duration only cuts when the video is longer', () => {
+    expect(compileTransformChain([{ type: 'max_duration', seconds: 59 }], { duration: 45 }).compiled).toMatchObject({
+      videoFilter: null,
+      audioFilter: null,
+      duration: 45,
+    });
+    expect(compileTransformChain([{ type: 'max_duration', seconds: 59 }], { duration: 90 }).compiled?.duration).toBe(59);
+  });
+
+  test('crops to even pixel sizes when the frame is known, and to expressions otherwise', () => {
+    const crop: TransformOperation = { type: 'crop', x: 0.1, y: 0, width: 0.5, height: 1 };
+
+    const known = compileTransformChain([crop, { type: 'mirror' }], { frame: { width: 1081, height: 1920 } });
+    expect(known.compiled?.videoFilter).toBe('crop=540:1920:108:0,hflip');
+    expect(known.compiled?.frame).toEqual({ width: 540, height: 1920 });
+    expect(known.compiled?.audioFilter).toBeNull();
+
+    const unknown = compileTransformChain([crop]);
+    expect(unknown.compiled?.videoFilter).toBe('crop=trunc(iw*0.5/2)*2:trunc(ih*1/2)*2:trunc(iw*0.1):trunc(ih*0)');
+    expect(unknown.compiled?.frame).toBeNull();
+  });
+
+  test('rejects steps that need a duration or leave almost nothing', () => {
+    expect(compileTransformChain([{ type: 'trim_end', seconds: 2 }]).error).toBe(
+      'Transform 1 (trim 2s from end) needs the video duration'
+    );
+    expect(compileTransformChain([{ type: 'trim_start', seconds: 9.5 }], { duration: 10 }).error).toBe(
+      'Transform 1 (trim 9.5s from start) leaves less than 1s of video'
+    );
+  });
+});
+
+describe('parseTransformChain', () => {
+  test('names the offending step', () => {
+    expect(parseTransformChain([{ type: 'mirror' }, { type: 'speed', factor: 5 }]).error).toMatch(/^Transform 2 factor: /);
+    expect(parseTransformChain(null)).toEqual({ chain: [] });
+  });
+});
+
+describe('mapSourceRange', () => {
+  const chain: TransformOperation[] = [
+    { type: 'trim_start', seconds: 4 },
+    { type: 'speed', factor: 2 },
+  ];
+
+  test('follows a range through trims and speed changes', () => {
+    expect(mapSourceRange(chain, 30, 10, 14)).toEqual({ start: 3, end: 5 });
+  });
+
+  test('clips ranges that straddle a cut', () => {
+    expect(mapSourceRange(chain, 30, 2, 6)).toEqual({ start: 0, end: 1 });
+    expect(mapSourceRange([{ type: 'max_duration', seconds: 20 }], 30, 18, 25)).toEqual({ start: 18, end: 20 });
+  });
+
+  test('returns null when the range is cut away entirely', () => {
+    expect(mapSourceRange(chain, 30, 1, 3)).toBeNull();
+    expect(mapSourceRange([{ type: 'trim_end', seconds: 5 }], 30, 26, 29)).toBeNull();
+  });
+});
+
+describe('mapSourceX', () => {
+  test('follows a coordinate through crops and mirrors', () => {
+    const chain: TransformOperation[] = [
+      { type: 'crop', x: 0.25, y: 0, width: 0.5, height: 1 },
+      { type: 'mirror' },
+    ];
+    expect(mapSourceX(chain, { width: 1920, height: 1080 }, 600)).toBe(840);
+  });
+});
@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import type { FrameSize } from '@/lib/youtube/reframe';
+
+// Shorts shorter than this after trimming are rejected by the render
+const MIN_OUTPUT_SECONDS = 1;
+export const MAX_TRANSFORM_CHAIN_LENGTH = 12;
+
+// Kept free of server-only imports: the mapping editor builds and checks chains with it too
+const transformOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('trim_start'), seconds: z.number().positive().max(600) }),
+  z.object({ type: z.literal('trim_end'), seconds: z.number().positive().max(600) }),
+  z.object({ type: z.literal('max_duration'), seconds: z.number().min(MIN_OUTPUT_SECONDS).max(600) }),
+  z.object({ type: z.literal('speed'), factor: z.number().min(0.5).max(2) }),
+  z.object({ type: z.literal('mirror') }),
+  // Fractions of the current frame, so one chain fits any source size
+  z
+    .object({
+      type: z.literal('crop'),
+      x: z.number().min(0).max(0.9),
+      y: z.number().min(0).max(0.9),
+      width: z.number().min(0.1).max(1),
+      height: z.number().min(0.1).max(1),
+    })
+    .refine((crop) => crop.x + crop.width <= 1.0001 && crop.y + crop.height <= 1.0001, {
+      message: 'Crop box must stay inside the frame',
+    }),
+]);
+
+const transformChainSchema = z.array(transformOperationSchema).max(MAX_TRANSFORM_CHAIN_LENGTH);
+
+export type TransformOperation = z.infer<typeof transformOperationSchema>;
+export type TransformType = TransformOperation['type'];
+
+export const TRANSFORM_TYPES: TransformType[] = ['trim_start', 'trim_end', 'max_duration', 'speed', 'mirror', 'crop'];
+
+export const DEFAULT_TRANSFORM_OPERATIONS: Record<TransformType, TransformOperation> = {
+  trim_start: { type: 'trim_start', seconds: 1 },
+  trim_end: { type: 'trim_end', seconds: 1 },
+  max_duration: { type: 'max_duration', seconds: 59 },
+  speed: { type: 'speed', factor: 1.1 },
+  mirror: { type: 'mirror' },
+  crop: { type: 'crop', x: 0.05, y: 0.05, width: 0.9, height: 0.9 },
+};
+
+export interface CompiledTransforms {
+  // Comma-joined chains for [0:v] and [0:a]; null when the chain leaves that stream untouched
+  videoFilter: string | null;
+  audioFilter: string | null;
+  // Output length when the source duration is known
+  duration: number | null;
+  // Frame size after crops when the source size is known
+  frame: FrameSize | null;
+  summary: string;
+}
+
+// Validate a stored or submitted chain; the error names the offending step
+export function parseTransformChain(raw: unknown): { chain?: TransformOperation[]; error?: string } {
+  const result = transformChainSchema.safeParse(raw ?? []);
+  if (result.success) {
+    return { chain: result.data };
+  }
+  const issue = result.error.issues[0];
+  const step = typeof issue?.path[0] === 'number' ? `Transform ${issue.path[0] + 1}` : 'Transforms';
+  const field = issue && issue.path.length > 1 ? ` ${issue.path.slice(1).join('.')}` : '';
+  return { error: `${step}${field}: ${issue?.message || 'invalid value'}` };
+}
+
+// Invalid chains are dropped rather than half-applied
+export function normalizeTransformChain(raw: unknown): TransformOperation[] {
+  return parseTransformChain(raw).chain || [];
+}
+
+function formatSeconds(value: number): string {
+  return `${Number(value.toFixed(2))}s`;
+}
+
+function formatFraction(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function even(value: number): number {
+  return Math.max(2, Math.floor(value / 2) * 2);
+}
+
+export function describeTransform(operation: TransformOperation): string {
+  switch (operation.type) {
+    case 'trim_start':
+      return `trim ${formatSeconds(operation.seconds)} from start`;
+    case 'trim_end':
+      return `trim ${formatSeconds(operation.seconds)} from end`;
+    case 'max_duration':
+      return `cap at ${formatSeconds(operation.seconds)}`;
+    case 'speed':
+      return `speed x${Number(operation.factor.toFixed(2))}`;
+    case 'mirror':
+      return 'mirror';
+    case 'crop':
+      return `crop ${Math.round(operation.width * 100)}%x${Math.round(operation.height * 100)}% at ${Math.round(
+        operation.x * 100
+      )}%,${Math.round(operation.y * 100)}%`;
+  }
+}
+
+export function describeTransformChain(chain: TransformOperation[]): string {
+  return chain.length > 0 ? chain.map(describeTransform).join(' -> ') : 'none';
+}
+
+// Apply the chain in order, tracking length and frame size, into video/audio filter chains.
+// Trims need the source duration only when they cut from the end.
+export function compileTransformChain(
+  chain: TransformOperation[],
+  source: { duration?: number | null; frame?: FrameSize | null } = {}
+): { compiled?: CompiledTransforms; error?: string } {
+  const video: string[] = [];
+  const audio: string[] = [];
+  let duration = typeof source.duration === 'number' && source.duration > 0 ? source.duration : null;
+  let frame = source.frame ? { ...source.frame } : null;
+
+  // trim keeps the original timestamps, so every cut is followed by a reset
+  const cut = (start: number, end: number | null) => {
+    const range = [start > 0 ? `start=${start.toFixed(3)}` : null, end !== null ? `end=${end.toFixed(3)}` : null]
+      .filter(Boolean)
+      .join(':');
+    video.push(`trim=${range}`, 'setpts=PTS-STARTPTS');
+    audio.push(`atrim=${range}`, 'asetpts=PTS-STARTPTS');
+  };
+
+  for (const [index, operation] of chain.entries()) {
+    const step = `Transform ${index + 1} (${describeTransform(operation)})`;
+    switch (operation.type) {
+      case 'trim_start':
+        cut(operation.seconds, null);
+        duration = duration !== null ? duration - operation.seconds : null;
+        break;
+      case 'trim_end':
+        if (duration === null) {
+          return { error: `${step} needs the video duration` };
+        }
+        duration -= operation.seconds;
+        cut(0, Math.max(0, duration));
+        break;
+      case 'max_duration':
+        if (duration === null || duration > operation.seconds) {
+          cut(0, operation.seconds);
+          duration = operation.seconds;
+        }
+        break;
+      case 'speed':
+        video.push(`setpts=PTS/${operation.factor}`);
+        // atempo handles 0.5-2.0 in one pass, which is the range the schema allows
+        audio.push(`atempo=${operation.factor}`);
+        duration = duration !== null ? duration / operation.factor : null;
+        break;
+      case 'mirror':
+        video.push('hflip');
+        break;
+      case 'crop':
+        if (frame) {
+          const width = even(frame.width * operation.width);
+          const height = even(frame.height * operation.height);
+          const x = Math.min(frame.width - width, Math.round(frame.width * operation.x));
+          const y = Math.min(frame.height - height, Math.round(frame.height * operation.y));
+          video.push(`crop=${width}:${height}:${x}:${y}`);
+          frame = { width, height };
+        } else {
+          video.push(
+            `crop=trunc(iw*${formatFraction(operation.width)}/2)*2:trunc(ih*${formatFraction(
+              operation.height
+            )}/2)*2:trunc(iw*${formatFraction(operation.x)}):trunc(ih*${formatFraction(operation.y)})`
+          );
+        }
+        break;
+    }
+
+    if (duration !== null && duration < MIN_OUTPUT_SECONDS) {
+      return { error: `${step} leaves less than ${MIN_OUTPUT_SECONDS}s of video` };
+    }
+  }
+
+  return {
+    compiled: {
+      videoFilter: video.length > 0 ? video.join(',') : null,
+      audioFilter: audio.length > 0 ? audio.join(',') : null,
+      duration,
+      frame,
+      summary: describeTransformChain(chain),
+    },
+  };
+}
+
+// The chain as it appears in the render graph, for display
+export function formatTransformGraph(compiled: CompiledTransforms): string {
+  return [
+    `[0:v]${compiled.videoFilter || 'null'}[v]`,
+    compiled.audioFilter ? `[0:a]${compiled.audioFilter}[a]` : null,
+  ]
+    .filter(Boolean)
+    .join(';');
+}
+
+// Follow a source time range (e.g. a subtitle cue) through trims and speed changes.
+// Null when the chain cuts the whole range away.
+export function mapSourceRange(
+  chain: TransformOperation[],
+  sourceDuration: number | null,
+  start: number,
+  end: number
+): { start: number; end: number } | null {
+  let duration = sourceDuration;
+  let from = start;
+  let to = end;
+  const keep = (offset: number, length: number | null) => {
+    from = Math.max(0, from - offset);
+    to = Math.max(0, to - offset);
+    if (length !== null) {
+      from = Math.min(length, from);
+      to = Math.min(length, to);
+    }
+  };
+
+  for (const operation of chain) {
+    switch (operation.type) {
+      case 'trim_start':
+        duration = duration !== null ? duration - operation.seconds : null;
+        keep(operation.seconds, duration);
+        break;
+      case 'trim_end':
+        duration = duration !== null ? duration - operation.seconds : null;
+        keep(0, duration);
+        break;
+      case 'max_duration':
+        duration = duration !== null ? Math.min(duration, operation.seconds) : operation.seconds;
+        keep(0, duration);
+        break;
+      case 'speed':
+        from /= operation.factor;
+        to /= operation.factor;
+        duration = duration !== null ? duration / operation.factor : null;
+        break;
+      default:
+        break;
+    }
+    if (to <= from) {
+      return null;
+    }
+  }
+  return { start: from, end: to };
+}
+
+// Follow a source x coordinate (e.g. the motion center for smart crop) through crops and mirrors
+export function mapSourceX(chain: TransformOperation[], source: FrameSize, x: number): number {
+  let width = source.width;
+  let mapped = x;
+  for (const operation of chain) {
+    if (operation.type === 'crop') {
+      const cropWidth = even(width * operation.width);
+      const offset = Math.min(width - cropWidth, Math.round(width * operation.x));
+      mapped = Math.min(cropWidth, Math.max(0, mapped - offset));
+      width = cropWidth;
+    } else if (operation.type === 'mirror') {
+      mapped = width - mapped;
+    }
+  }
+  return mapped;
+}
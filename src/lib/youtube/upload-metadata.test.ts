@@ -0,0 +1,79 @@
+/// <reference types="bun-types" />
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_UPLOAD_METADATA,
+  EMPTY_UPLOAD_METADATA,
+  describeUploadMetadata,
+  normalizeUploadMetadataSettings,
+  resolveUploadMetadata,
+} from '@/lib/youtube/upload-metadata';
+
+describe('resolveUploadMetadata', () => {
+  test('falls back to the built-in defaults when no layer sets anything', () => {
+    expect(resolveUploadMetadata()).toEqual(DEFAULT_UPLOAD_METADATA);
+    expect(resolveUploadMetadata(null, undefined, EMPTY_UPLOAD_METADATA)).toEqual(DEFAULT_UPLOAD_METADATA);
+  });
+
+  test('each field takes the most specific layer that sets it', () => {
+    const mapping = { ...EMPTY_UPLOAD_METADATA, category_id: '27', made_for_kids: false };
+    const destination = {
+      ...EMPTY_UPLOAD_METADATA,
+      category_id: '20',
+      default_language: 'de',
+      made_for_kids: true,
+      embeddable: false,
+    };
+
+    expect(resolveUploadMetadata(mapping, destination)).toEqual({
+      ...DEFAULT_UPLOAD_METADATA,
+      categoryId: '27',
+      defaultLanguage: 'de',
+      madeForKids: false,
+      embeddable: false,
+    });
+  });
+
+  test('invalid values in a layer fall through instead of overriding', () => {
+    const mapping = { category_id: '999', default_language: 'not a code', license: 'public-domain', embeddable: 'no' };
+    const destination = { ...EMPTY_UPLOAD_METADATA, category_id: '10', license: 'creativeCommon' as const };
+
+    expect(resolveUploadMetadata(normalizeUploadMetadataSettings(mapping), destination)).toMatchObject({
+      categoryId: '10',
+      defaultLanguage: null,
+      license: 'creativeCommon',
+      embeddable: true,
+    });
+  });
+});
+
+describe('normalizeUploadMetadataSettings', () => {
+  test('keeps valid settings and accepts numeric category ids', () => {
+    expect(
+      normalizeUploadMetadataSettings({
+        category_id: 22,
+        default_language: 'pt-BR',
+        default_audio_language: ' en ',
+        contains_synthetic_media: true,
+      })
+    ).toEqual({
+      ...EMPTY_UPLOAD_METADATA,
+      category_id: '22',
+      default_language: 'pt-BR',
+      default_audio_language: 'en',
+      contains_synthetic_media: true,
+    });
+  });
+
+  test('anything that is not an object inherits everything', () => {
+    expect(normalizeUploadMetadataSettings('category 10')).toEqual(EMPTY_UPLOAD_METADATA);
+  });
+});
+
+describe('describeUploadMetadata', () => {
+  test('lists the category and only non-default flags', () => {
+    expect(describeUploadMetadata(DEFAULT_UPLOAD_METADATA)).toBe('Entertainment');
+    expect(
+      describeUploadMetadata({ ...DEFAULT_UPLOAD_METADATA, defaultLanguage: 'fr', madeForKids: true, embeddable: false })
+    ).toBe('Entertainment, language fr, not embeddable, made for kids');
+  });
+});
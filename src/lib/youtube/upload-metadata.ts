@@ -0,0 +1,226 @@
+import type { ChannelMapping } from '@/lib/supabase/database';
+
+function normalizeComparableTag(value: string): string {
+  return value
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .trim();
+}
+
+function extractHandleFromChannelUrl(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = value.match(/@([a-zA-Z0-9._-]+)/);
+  return match?.[1] || null;
+}
+
+export function buildSourceTagBlockList(sourceChannel: string | null | undefined, mapping: ChannelMapping | null): string[] {
+  const values = [
+    sourceChannel?.trim(),
+    mapping?.source_channel_id?.trim(),
+    mapping?.source_channel_url?.trim(),
+    mapping?.source_channel_name?.trim() || null,
+    extractHandleFromChannelUrl(sourceChannel),
+    extractHandleFromChannelUrl(mapping?.source_channel_url),
+  ].filter((value): value is string => Boolean(value));
+
+  return Array.from(new Set(values));
+}
+
+function shouldFilterByBlockedTerms(value: string, blockedComparables: Set<string>): boolean {
+  if (blockedComparables.size === 0) {
+    return false;
+  }
+
+  const comparable = normalizeComparableTag(value);
+  if (!comparable) {
+    return false;
+  }
+
+  for (const blocked of blockedComparables) {
+    if (comparable === blocked || comparable.includes(blocked) || blocked.includes(comparable)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export function filterBlockedTagValues(values: string[], blockedTerms: string[]): string[] {
+  if (values.length === 0 || blockedTerms.length === 0) {
+    return values;
+  }
+
+  const blockedComparables = new Set(
+    blockedTerms
+      .map((term) => normalizeComparableTag(term))
+      .filter((term) => term.length >= 3)
+  );
+
+  return values.filter((value) => !shouldFilterByBlockedTerms(value, blockedComparables));
+}
+
+export function stripBlockedHashtagsFromDescription(description: string, blockedTerms: string[]): string {
+  if (!description || blockedTerms.length === 0) {
+    return description;
+  }
+
+  const blockedComparables = new Set(
+    blockedTerms
+      .map((term) => normalizeComparableTag(term))
+      .filter((term) => term.length >= 3)
+  );
+
+  if (blockedComparables.size === 0) {
+    return description;
+  }
+
+  return description
+    .replace(/#[a-zA-Z0-9_]+/g, (tag) => (shouldFilterByBlockedTerms(tag, blockedComparables) ? '' : tag))
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+export function buildUploadTags(existingTags: string[] | null, hashtags: string[], blockedTerms: string[]): string[] {
+  const tags = [...(existingTags || []), ...hashtags]
+    .map((value) => value.replace(/^#/, '').replace(/[^a-zA-Z0-9_]/g, '').trim())
+    .filter(Boolean);
+
+  return Array.from(new Set(filterBlockedTagValues(tags, blockedTerms))).slice(0, 20);
+}
+
+export type VideoLicense = 'youtube' | 'creativeCommon';
+
+// Stored on channel_mappings.upload_metadata and destination_channels.upload_defaults.
+// A null field falls through: mapping, then destination default, then DEFAULT_UPLOAD_METADATA.
+export interface UploadMetadataSettings {
+  category_id: string | null;
+  default_language: string | null;
+  default_audio_language: string | null;
+  license: VideoLicense | null;
+  embeddable: boolean | null;
+  public_stats_viewable: boolean | null;
+  made_for_kids: boolean | null;
+  contains_synthetic_media: boolean | null;
+}
+
+// What goes into the videos.insert snippet and status
+export interface ResolvedUploadMetadata {
+  categoryId: string;
+  defaultLanguage: string | null;
+  defaultAudioLanguage: string | null;
+  license: VideoLicense;
+  embeddable: boolean;
+  publicStatsViewable: boolean;
+  madeForKids: boolean;
+  containsSyntheticMedia: boolean;
+}
+
+// Categories YouTube lets uploads be assigned to
+export const YOUTUBE_VIDEO_CATEGORIES: Array<{ id: string; label: string }> = [
+  { id: '1', label: 'Film & Animation' },
+  { id: '2', label: 'Autos & Vehicles' },
+  { id: '10', label: 'Music' },
+  { id: '15', label: 'Pets & Animals' },
+  { id: '17', label: 'Sports' },
+  { id: '19', label: 'Travel & Events' },
+  { id: '20', label: 'Gaming' },
+  { id: '22', label: 'People & Blogs' },
+  { id: '23', label: 'Comedy' },
+  { id: '24', label: 'Entertainment' },
+  { id: '25', label: 'News & Politics' },
+  { id: '26', label: 'Howto & Style' },
+  { id: '27', label: 'Education' },
+  { id: '28', label: 'Science & Technology' },
+  { id: '29', label: 'Nonprofits & Activism' },
+];
+
+export const VIDEO_LICENSES: VideoLicense[] = ['youtube', 'creativeCommon'];
+
+export const EMPTY_UPLOAD_METADATA: UploadMetadataSettings = {
+  category_id: null,
+  default_language: null,
+  default_audio_language: null,
+  license: null,
+  embeddable: null,
+  public_stats_viewable: null,
+  made_for_kids: null,
+  contains_synthetic_media: null,
+};
+
+export const DEFAULT_UPLOAD_METADATA: ResolvedUploadMetadata = {
+  categoryId: '24',
+  defaultLanguage: null,
+  defaultAudioLanguage: null,
+  license: 'youtube',
+  embeddable: true,
+  publicStatsViewable: true,
+  madeForKids: false,
+  containsSyntheticMedia: false,
+};
+
+function normalizeLanguageCode(raw: unknown): string | null {
+  const value = typeof raw === 'string' ? raw.trim() : '';
+  return /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/.test(value) ? value : null;
+}
+
+function normalizeFlag(raw: unknown): boolean | null {
+  return typeof raw === 'boolean' ? raw : null;
+}
+
+// Unknown categories, malformed language codes and non-boolean flags become null (inherit)
+export function normalizeUploadMetadataSettings(raw: unknown): UploadMetadataSettings {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const categoryId = typeof value.category_id === 'number' ? String(value.category_id) : value.category_id;
+
+  return {
+    category_id: YOUTUBE_VIDEO_CATEGORIES.some((category) => category.id === categoryId) ? (categoryId as string) : null,
+    default_language: normalizeLanguageCode(value.default_language),
+    default_audio_language: normalizeLanguageCode(value.default_audio_language),
+    license: VIDEO_LICENSES.includes(value.license as VideoLicense) ? (value.license as VideoLicense) : null,
+    embeddable: normalizeFlag(value.embeddable),
+    public_stats_viewable: normalizeFlag(value.public_stats_viewable),
+    made_for_kids: normalizeFlag(value.made_for_kids),
+    contains_synthetic_media: normalizeFlag(value.contains_synthetic_media),
+  };
+}
+
+// Layers are given most specific first; each field takes the first value that is set
+export function resolveUploadMetadata(
+  ...layers: Array<UploadMetadataSettings | null | undefined>
+): ResolvedUploadMetadata {
+  const settings = layers.map(normalizeUploadMetadataSettings);
+  const pick = <K extends keyof UploadMetadataSettings>(key: K): UploadMetadataSettings[K] | null =>
+    settings.find((layer) => layer[key] !== null)?.[key] ?? null;
+
+  return {
+    categoryId: pick('category_id') ?? DEFAULT_UPLOAD_METADATA.categoryId,
+    defaultLanguage: pick('default_language'),
+    defaultAudioLanguage: pick('default_audio_language'),
+    license: pick('license') ?? DEFAULT_UPLOAD_METADATA.license,
+    embeddable: pick('embeddable') ?? DEFAULT_UPLOAD_METADATA.embeddable,
+    publicStatsViewable: pick('public_stats_viewable') ?? DEFAULT_UPLOAD_METADATA.publicStatsViewable,
+    madeForKids: pick('made_for_kids') ?? DEFAULT_UPLOAD_METADATA.madeForKids,
+    containsSyntheticMedia: pick('contains_synthetic_media') ?? DEFAULT_UPLOAD_METADATA.containsSyntheticMedia,
+  };
+}
+
+export function describeUploadMetadata(metadata: ResolvedUploadMetadata): string {
+  const category =
+    YOUTUBE_VIDEO_CATEGORIES.find((entry) => entry.id === metadata.categoryId)?.label || `category ${metadata.categoryId}`;
+  return [
+    category,
+    metadata.defaultLanguage ? `language ${metadata.defaultLanguage}` : null,
+    metadata.defaultAudioLanguage ? `audio ${metadata.defaultAudioLanguage}` : null,
+    metadata.license === 'creativeCommon' ? 'Creative Commons' : null,
+    metadata.embeddable ? null : 'not embeddable',
+    metadata.publicStatsViewable ? null : 'stats hidden',
+    metadata.madeForKids ? 'made for kids' : null,
+    metadata.containsSyntheticMedia ? 'synthetic media' : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -4,6 +4,8 @@ import {
   getMappingPublishDelayHours,
   type ChannelMapping,
 } from '@/lib/supabase/database';
+import { getDestinationUploadDefaults } from '@/lib/youtube/destination-channels';
+import { resolveUploadMetadata, type ResolvedUploadMetadata } from '@/lib/youtube/upload-metadata';
 
 export interface UploadBehavior {
   mapping: ChannelMapping | null;
@@ -11,6 +13,8 @@ export interface UploadBehavior {
   aiEnabled: boolean;
   scheduledPublishAt: string | null;
   delayHours: number;
+  // Category, languages, license and audience flags for videos.insert
+  metadata: ResolvedUploadMetadata;
 }
 
 function normalizeVisibility(
@@ -53,6 +57,10 @@ export async function resolveUploadBehavior(mappingId: string | null): Promise<U
     mappingId ? getMappingPublishDelayHours(mappingId) : Promise.resolve(null),
   ]);
 
+  const destinationDefaults = mapping?.target_channel_id
+    ? await getDestinationUploadDefaults(mapping.target_channel_id)
+    : null;
+
   const globalVisibility = normalizeVisibility(globalVisibilityRaw, 'public');
   const mappingVisibility = normalizeVisibility(mapping?.default_visibility, globalVisibility);
   const aiEnabled = mapping ? Boolean(mapping.ai_enhancement_enabled) : globalAiRaw === 'true';
@@ -67,5 +75,6 @@ export async function resolveUploadBehavior(mappingId: string | null): Promise<U
     aiEnabled,
     scheduledPublishAt: shouldSchedulePublish ? new Date(Date.now() + delayHours * 60 * 60 * 1000).toISOString() : null,
     delayHours,
+    metadata: resolveUploadMetadata(mapping?.upload_metadata, destinationDefaults),
   };
 }
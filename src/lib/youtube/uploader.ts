@@ -1,56 +1,41 @@
-import { getConfig } from '../supabase/database';
+import type { UploadSession } from '../supabase/client';
+import { recordQuotaUsage, resolveOAuthQuotaCredential } from './quota';
+import { resolveAccessToken } from './access-tokens';
+import { DEFAULT_UPLOAD_METADATA, type ResolvedUploadMetadata } from './upload-metadata';
 
-function readEnv(...keys: string[]): string | null {
-  for (const key of keys) {
-    const value = process.env[key];
-    if (value && value.trim()) {
-      return value;
-    }
-  }
-  return null;
+type Visibility = 'public' | 'unlisted' | 'private';
+
+// videos.update replaces the whole status part, so every field is sent each time
+function buildVideoStatus(visibility: Visibility, metadata: ResolvedUploadMetadata): Record<string, unknown> {
+  return {
+    privacyStatus: visibility,
+    selfDeclaredMadeForKids: metadata.madeForKids,
+    license: metadata.license,
+    embeddable: metadata.embeddable,
+    publicStatsViewable: metadata.publicStatsViewable,
+    containsSyntheticMedia: metadata.containsSyntheticMedia,
+  };
 }
 
-// YouTube OAuth2 token refresh
-async function getAccessToken(refreshTokenOverride?: string): Promise<string | null> {
-  try {
-    const clientId = (await getConfig('youtube_client_id')) || readEnv('YOUTUBE_CLIENT_ID');
-    const clientSecret = (await getConfig('youtube_client_secret')) || readEnv('YOUTUBE_CLIENT_SECRET');
-    const refreshToken =
-      refreshTokenOverride ||
-      (await getConfig('youtube_refresh_token')) ||
-      readEnv('YOUTUBE_REFRESH_TOKEN') ||
-      null;
-    
-    if (!clientId || !clientSecret || !refreshToken) {
-      console.error('YouTube OAuth credentials not configured');
-      return null;
-    }
-    
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        client_id: clientId,
-        client_secret: clientSecret,
-        refresh_token: refreshToken,
-        grant_type: 'refresh_token',
-      }),
-    });
-    
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('Token refresh failed:', error);
-      return null;
-    }
-    
-    const data = await response.json();
-    return data.access_token;
-  } catch (error) {
-    console.error('Error refreshing token:', error);
-    return null;
-  }
+// Snippet and status of the videos.insert request
+function buildVideoResource(
+  title: string,
+  description: string,
+  tags: string[],
+  visibility: Visibility,
+  metadata: ResolvedUploadMetadata = DEFAULT_UPLOAD_METADATA
+) {
+  return {
+    snippet: {
+      title: title.substring(0, 100), // YouTube title limit
+      description: description.substring(0, 5000), // YouTube description limit
+      tags: tags.slice(0, 500), // YouTube tag limit
+      categoryId: metadata.categoryId,
+      ...(metadata.defaultLanguage ? { defaultLanguage: metadata.defaultLanguage } : {}),
+      ...(metadata.defaultAudioLanguage ? { defaultAudioLanguage: metadata.defaultAudioLanguage } : {}),
+    },
+    status: buildVideoStatus(visibility, metadata),
+  };
 }
 
 // Upload video to YouTube
@@ -62,6 +47,7 @@ export async function uploadVideo(
   visibility: 'public' | 'unlisted' | 'private' = 'public',
   options?: {
     refreshToken?: string;
+    metadata?: ResolvedUploadMetadata;
   }
 ): Promise<{
   success: boolean;
@@ -69,9 +55,9 @@ export async function uploadVideo(
   error?: string;
 }> {
   try {
-    const accessToken = await getAccessToken(options?.refreshToken);
+    const { accessToken, error: tokenError } = await resolveAccessToken(options?.refreshToken);
     if (!accessToken) {
-      return { success: false, error: 'Failed to get access token' };
+      return { success: false, error: tokenError || 'Failed to get access token' };
     }
 
     // Stream video file to avoid loading large 4K/8K files fully into memory.
@@ -80,19 +66,7 @@ export async function uploadVideo(
     const stats = await fs.stat(filePath);
     const videoStream = fsSync.createReadStream(filePath);
     
-    // Prepare metadata
-    const metadata = {
-      snippet: {
-        title: title.substring(0, 100), // YouTube title limit
-        description: description.substring(0, 5000), // YouTube description limit
-        tags: tags.slice(0, 500), // YouTube tag limit
-        categoryId: '24', // Entertainment category
-      },
-      status: {
-        privacyStatus: visibility,
-        selfDeclaredMadeForKids: false,
-      },
-    };
+    const metadata = buildVideoResource(title, description, tags, visibility, options?.metadata);
     
     // Initial upload request
     const initResponse = await fetch(
@@ -106,6 +80,7 @@ export async function uploadVideo(
         body: JSON.stringify(metadata),
       }
     );
+    await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'videos.insert');
     
     if (!initResponse.ok) {
       const error = await initResponse.text();
@@ -147,99 +122,307 @@ export async function uploadVideo(
   }
 }
 
-// Alternative upload using fetch with progress tracking
+// Resumable uploads go up in chunks; every chunk but the last must be a multiple of 256 KiB
+const UPLOAD_CHUNK_SIZE = 1024 * 1024 * 8;
+// A dropped chunk is retried from the offset YouTube reports, waiting a little longer each time
+const MAX_CHUNK_RETRIES = 5;
+const CHUNK_RETRY_DELAY_MS = 2000;
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  percent: number;
+  etaSeconds: number | null;
+  speed: string | null;
+}
+
+type UploadSessionStatus =
+  | { state: 'incomplete'; offset: number }
+  | { state: 'complete'; videoId: string }
+  // Expired, cancelled or opened by another account: only a new session helps
+  | { state: 'unusable'; error: string }
+  | { state: 'error'; error: string };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function hashUploadFile(filePath: string): Promise<string> {
+  const { createHash } = await import('crypto');
+  const fsSync = await import('fs');
+  const hash = createHash('sha256');
+  for await (const chunk of fsSync.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+// A 308 carries "Range: bytes=0-N" for the bytes YouTube has stored; no header means none yet
+function readUploadedOffset(response: Response): number {
+  const match = /bytes=\d+-(\d+)/.exec(response.headers.get('range') || '');
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+// Ask an open session how far it got with an empty PUT of "bytes */<total>"
+async function queryUploadStatus(
+  uploadUrl: string,
+  totalSize: number,
+  accessToken: string
+): Promise<UploadSessionStatus> {
+  try {
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Length': '0',
+        'Content-Range': `bytes */${totalSize}`,
+      },
+    });
+
+    if (response.status === 308) {
+      return { state: 'incomplete', offset: readUploadedOffset(response) };
+    }
+    if (response.ok) {
+      const result = await response.json();
+      return { state: 'complete', videoId: result.id };
+    }
+
+    const error = `Upload status check failed (${response.status}): ${await response.text()}`;
+    return response.status >= 400 && response.status < 500 && response.status !== 429
+      ? { state: 'unusable', error }
+      : { state: 'error', error };
+  } catch (error) {
+    return { state: 'error', error: error instanceof Error ? error.message : 'Upload status check failed' };
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Chunked resumable upload. A session stored from an interrupted attempt is continued when it was
+// opened for the same file and destination; YouTube is asked how many bytes it already has.
+// onSession sees every change so the caller can persist it, and null once the video exists or the
+// session is gone.
 export async function uploadVideoWithProgress(
   filePath: string,
   title: string,
   description: string,
   tags: string[],
   visibility: 'public' | 'unlisted' | 'private' = 'public',
-  onProgress?: (progress: number) => void,
+  onProgress?: (progress: UploadProgress) => void,
   options?: {
     refreshToken?: string;
+    metadata?: ResolvedUploadMetadata;
+    targetChannel?: string | null;
+    session?: UploadSession | null;
+    onSession?: (session: UploadSession | null) => Promise<void> | void;
   }
 ): Promise<{
   success: boolean;
   videoId?: string;
   error?: string;
+  // Bytes already on YouTube when an earlier session was continued
+  resumedFrom?: number;
 }> {
   try {
-    const accessToken = await getAccessToken(options?.refreshToken);
+    const { accessToken, error: tokenError } = await resolveAccessToken(options?.refreshToken);
     if (!accessToken) {
-      return { success: false, error: 'Failed to get access token' };
+      return { success: false, error: tokenError || 'Failed to get access token' };
     }
 
     const fs = await import('fs/promises');
-    const fsSync = await import('fs');
     const fileStats = await fs.stat(filePath);
     const totalSize = fileStats.size;
-    
-    const metadata = {
-      snippet: {
-        title: title.substring(0, 100),
-        description: description.substring(0, 5000),
-        tags: tags.slice(0, 500),
-        categoryId: '24',
-      },
-      status: {
-        privacyStatus: visibility,
-        selfDeclaredMadeForKids: false,
-      },
+    const fileHash = await hashUploadFile(filePath);
+    const targetChannel = options?.targetChannel ?? null;
+    const saveSession = async (next: UploadSession | null) => {
+      if (options?.onSession) {
+        await options.onSession(next);
+      }
     };
-    
-    // Initial upload request
-    const initResponse = await fetch(
-      'https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status',
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(metadata),
+
+    let session: UploadSession | null = null;
+    let offset = 0;
+    let resumedFrom: number | undefined;
+
+    const stored = options?.session;
+    if (
+      stored &&
+      stored.file_size === totalSize &&
+      stored.file_hash === fileHash &&
+      stored.target_channel === targetChannel
+    ) {
+      const status = await queryUploadStatus(stored.uri, totalSize, accessToken);
+      if (status.state === 'complete') {
+        await saveSession(null);
+        return { success: true, videoId: status.videoId, resumedFrom: totalSize };
+      }
+      if (status.state === 'error') {
+        return { success: false, error: status.error };
+      }
+      if (status.state === 'incomplete') {
+        session = stored;
+        offset = status.offset;
+        resumedFrom = offset;
+      } else {
+        console.error('Stored upload session unusable, starting over:', status.error);
       }
-    );
-    
-    if (!initResponse.ok) {
-      const error = await initResponse.text();
-      return { success: false, error: `Upload initialization failed: ${error}` };
-    }
-    
-    const uploadUrl = initResponse.headers.get('location');
-    if (!uploadUrl) {
-      return { success: false, error: 'No upload URL received' };
     }
-    
-    // Chunked upload for progress tracking
-    const chunkSize = 1024 * 1024 * 8; // 8MB chunks
-    let uploadedBytes = 0;
-    void chunkSize;
-    void uploadedBytes;
-    
-    // For simplicity, upload all at once (progress tracking would require more complex implementation)
-    const videoStream = fsSync.createReadStream(filePath);
-    const uploadResponse = await fetch(uploadUrl, {
-      method: 'PUT',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'video/*',
-        'Content-Length': totalSize.toString(),
-      },
-      body: videoStream as unknown as BodyInit,
-    });
-    
-    if (onProgress) {
-      onProgress(100);
+
+    if (!session) {
+      const metadata = buildVideoResource(title, description, tags, visibility, options?.metadata);
+
+      // Initial upload request
+      const initResponse = await fetch(
+        'https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status',
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'X-Upload-Content-Length': totalSize.toString(),
+            'X-Upload-Content-Type': 'video/*',
+          },
+          body: JSON.stringify(metadata),
+        }
+      );
+      await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'videos.insert');
+
+      if (!initResponse.ok) {
+        const error = await initResponse.text();
+        console.error('Upload init failed:', error);
+        return { success: false, error: `Upload initialization failed: ${error}` };
+      }
+
+      const uploadUrl = initResponse.headers.get('location');
+      if (!uploadUrl) {
+        return { success: false, error: 'No upload URL received' };
+      }
+
+      const now = new Date().toISOString();
+      session = {
+        uri: uploadUrl,
+        target_channel: targetChannel,
+        file_size: totalSize,
+        file_hash: fileHash,
+        file_path: filePath,
+        uploaded_bytes: 0,
+        started_at: now,
+        updated_at: now,
+      };
+      await saveSession(session);
     }
-    
-    if (!uploadResponse.ok) {
-      const error = await uploadResponse.text();
-      return { success: false, error: `Video upload failed: ${error}` };
+
+    const startedAt = Date.now();
+    const startOffset = offset;
+    const reportProgress = () => {
+      if (!onProgress) {
+        return;
+      }
+      const elapsedSeconds = (Date.now() - startedAt) / 1000;
+      const bytesPerSecond = elapsedSeconds > 0 ? (offset - startOffset) / elapsedSeconds : 0;
+      onProgress({
+        uploadedBytes: offset,
+        totalBytes: totalSize,
+        percent: Math.round((offset / totalSize) * 1000) / 10,
+        etaSeconds: bytesPerSecond > 0 ? Math.round((totalSize - offset) / bytesPerSecond) : null,
+        speed: bytesPerSecond > 0 ? `${formatMegabytes(bytesPerSecond)}/s` : null,
+      });
+    };
+    const advance = async (nextOffset: number) => {
+      offset = nextOffset;
+      session = { ...session!, uploaded_bytes: offset, updated_at: new Date().toISOString() };
+      await saveSession(session);
+      reportProgress();
+    };
+    const finish = async (videoId: string) => {
+      await saveSession(null);
+      offset = totalSize;
+      reportProgress();
+      return { success: true, videoId, resumedFrom };
+    };
+
+    const handle = await fs.open(filePath, 'r');
+    try {
+      let retries = 0;
+      for (;;) {
+        const end = Math.min(offset + UPLOAD_CHUNK_SIZE, totalSize);
+        const chunk = Buffer.alloc(end - offset);
+        const { bytesRead } = await handle.read(chunk, 0, chunk.length, offset);
+
+        let response: Response | null = null;
+        let failure = '';
+        try {
+          response = await fetch(session.uri, {
+            method: 'PUT',
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              'Content-Length': bytesRead.toString(),
+              'Content-Range': `bytes ${offset}-${offset + bytesRead - 1}/${totalSize}`,
+            },
+            body: new Uint8Array(chunk.buffer, chunk.byteOffset, bytesRead),
+          });
+        } catch (error) {
+          failure = error instanceof Error ? error.message : 'connection lost';
+        }
+
+        if (response?.ok) {
+          const result = await response.json();
+          return await finish(result.id);
+        }
+        if (response?.status === 308) {
+          const nextOffset = readUploadedOffset(response);
+          if (nextOffset > offset && nextOffset < totalSize) {
+            retries = 0;
+            await advance(nextOffset);
+            continue;
+          }
+          // No progress, or every byte acknowledged without a video: retry like any other failed chunk
+          failure =
+            nextOffset >= totalSize
+              ? 'server acknowledged every byte without completing the upload'
+              : `server accepted no bytes at ${formatMegabytes(offset)}`;
+        }
+        if (response && response.status >= 400 && response.status < 500 && response.status !== 429) {
+          const error = await response.text();
+          console.error('Video upload failed:', error);
+          if (response.status === 404 || response.status === 410) {
+            await saveSession(null);
+          }
+          return { success: false, error: `Video upload failed: ${error}` };
+        }
+
+        // Dropped connection, server error or stalled chunk: the session survives, so ask where to carry on
+        if (response && !failure) {
+          failure = `HTTP ${response.status}: ${await response.text()}`;
+        }
+        retries += 1;
+        if (retries > MAX_CHUNK_RETRIES) {
+          return {
+            success: false,
+            error: `Video upload interrupted at ${formatMegabytes(offset)} of ${formatMegabytes(totalSize)}: ${failure}`,
+          };
+        }
+        await sleep(CHUNK_RETRY_DELAY_MS * retries);
+
+        const status = await queryUploadStatus(session.uri, totalSize, accessToken);
+        if (status.state === 'complete') {
+          return await finish(status.videoId);
+        }
+        if (status.state === 'unusable') {
+          await saveSession(null);
+          return { success: false, error: `Video upload failed: ${status.error}` };
+        }
+        if (status.state === 'incomplete') {
+          await advance(status.offset);
+        }
+      }
+    } finally {
+      await handle.close();
     }
-    
-    const result = await uploadResponse.json();
-    return { success: true, videoId: result.id };
   } catch (error) {
+    console.error('Upload error:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Upload failed'
@@ -253,21 +436,20 @@ export async function updateVideoVisibility(
   options?: {
     refreshToken?: string;
     publishAt?: string;
+    // Status fields set at upload; without them the update resets license, embedding and the kids flag
+    metadata?: ResolvedUploadMetadata;
   }
 ): Promise<{
   success: boolean;
   error?: string;
 }> {
   try {
-    const accessToken = await getAccessToken(options?.refreshToken);
+    const { accessToken, error: tokenError } = await resolveAccessToken(options?.refreshToken);
     if (!accessToken) {
-      return { success: false, error: 'Failed to get access token' };
+      return { success: false, error: tokenError || 'Failed to get access token' };
     }
 
-    const statusPayload: Record<string, unknown> = {
-      privacyStatus: visibility,
-      selfDeclaredMadeForKids: false,
-    };
+    const statusPayload = buildVideoStatus(visibility, options?.metadata || DEFAULT_UPLOAD_METADATA);
 
     if (visibility === 'private' && options?.publishAt) {
       statusPayload.publishAt = options.publishAt;
@@ -284,6 +466,7 @@ export async function updateVideoVisibility(
         status: statusPayload,
       }),
     });
+    await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'videos.update');
 
     if (!response.ok) {
       const error = await response.text();
@@ -301,6 +484,126 @@ export async function updateVideoVisibility(
   }
 }
 
+// Set a custom thumbnail (JPEG/PNG up to 2 MB) on an uploaded video.
+// YouTube only allows this on channels verified for custom thumbnails.
+export async function setVideoThumbnail(
+  videoId: string,
+  imagePath: string,
+  options?: {
+    refreshToken?: string;
+  }
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const { accessToken, error: tokenError } = await resolveAccessToken(options?.refreshToken);
+    if (!accessToken) {
+      return { success: false, error: tokenError || 'Failed to get access token' };
+    }
+
+    const fs = await import('fs/promises');
+    const image = await fs.readFile(imagePath);
+
+    const response = await fetch(
+      `https://www.googleapis.com/upload/youtube/v3/thumbnails/set?videoId=${encodeURIComponent(videoId)}&uploadType=media`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': imagePath.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg',
+          'Content-Length': image.byteLength.toString(),
+        },
+        body: new Uint8Array(image),
+      }
+    );
+    await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'thumbnails.set');
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Thumbnail upload failed:', error);
+      return { success: false, error: `Thumbnail upload failed: ${error}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Thumbnail upload error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Thumbnail upload failed',
+    };
+  }
+}
+
+// Add a caption track (SRT) to an uploaded video as one multipart request
+export async function insertCaptionTrack(
+  videoId: string,
+  track: {
+    language: string;
+    name: string;
+    content: string;
+  },
+  options?: {
+    refreshToken?: string;
+  }
+): Promise<{
+  success: boolean;
+  captionId?: string;
+  error?: string;
+}> {
+  try {
+    const { accessToken, error: tokenError } = await resolveAccessToken(options?.refreshToken);
+    if (!accessToken) {
+      return { success: false, error: tokenError || 'Failed to get access token' };
+    }
+
+    const boundary = `caption-${Date.now().toString(36)}`;
+    const snippet = JSON.stringify({
+      snippet: { videoId, language: track.language, name: track.name, isDraft: false },
+    });
+    const body = [
+      `--${boundary}`,
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      snippet,
+      `--${boundary}`,
+      'Content-Type: application/octet-stream',
+      '',
+      track.content,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+
+    const response = await fetch(
+      'https://www.googleapis.com/upload/youtube/v3/captions?part=snippet&uploadType=multipart',
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': `multipart/related; boundary=${boundary}`,
+        },
+        body,
+      }
+    );
+    await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'captions.insert');
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Caption upload failed:', error);
+      return { success: false, error: `Caption upload failed: ${error}` };
+    }
+
+    const data = await response.json();
+    return { success: true, captionId: data.id };
+  } catch (error) {
+    console.error('Caption upload error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Caption upload failed',
+    };
+  }
+}
+
 // Get video upload status
 export async function getVideoStatus(videoId: string): Promise<{
   success: boolean;
@@ -314,9 +617,9 @@ export async function getVideoStatus(videoId: string): Promise<{
   error?: string;
 }> {
   try {
-    const accessToken = await getAccessToken();
+    const { accessToken, error: tokenError } = await resolveAccessToken();
     if (!accessToken) {
-      return { success: false, error: 'Failed to get access token' };
+      return { success: false, error: tokenError || 'Failed to get access token' };
     }
     
     const response = await fetch(
@@ -327,6 +630,7 @@ export async function getVideoStatus(videoId: string): Promise<{
         },
       }
     );
+    await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'videos.list');
     
     if (!response.ok) {
       return { success: false, error: 'Failed to get video status' };
@@ -352,9 +656,9 @@ export async function deleteUploadedVideo(videoId: string): Promise<{
   error?: string;
 }> {
   try {
-    const accessToken = await getAccessToken();
+    const { accessToken, error: tokenError } = await resolveAccessToken();
     if (!accessToken) {
-      return { success: false, error: 'Failed to get access token' };
+      return { success: false, error: tokenError || 'Failed to get access token' };
     }
     
     const response = await fetch(
@@ -366,6 +670,7 @@ export async function deleteUploadedVideo(videoId: string): Promise<{
         },
       }
     );
+    await recordQuotaUsage(await resolveOAuthQuotaCredential(), 'videos.delete');
     
     return { success: response.ok };
   } catch (error) {
@@ -1,34 +1,70 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import fsSync from 'fs';
 import path from 'path';
-
-const execAsync = promisify(exec);
-
-const TEMP_DIR = process.env.TEMP_VIDEO_DIR || path.join('/tmp', 'youtube-shorts-republisher');
+import {
+  createFfmpegProgressParser,
+  createYtDlpProgressParser,
+  runCommand,
+  YT_DLP_PROGRESS_TEMPLATE,
+  type CommandProgress,
+  type CommandResult,
+} from '@/lib/youtube/command-runner';
+import {
+  buildReframeFilter,
+  computeVerticalCrop,
+  detectMotionCenterX,
+  isVerticalFrame,
+  type CropBox,
+  type FrameSize,
+  type ReframeMode,
+} from '@/lib/youtube/reframe';
+import {
+  buildBrandedFilterGraph,
+  probeMediaSegment,
+  type BrandingSegment,
+  type ResolvedBranding,
+} from '@/lib/youtube/branding';
+import { processAudio, type AudioProcessingOptions, type LoudnessMeasurement } from '@/lib/youtube/audio';
+import {
+  acquireCachedDownload,
+  evictCachedDownloads,
+  hasCachedDownload,
+  releaseCachedDownload,
+  resolveCachedDownloadPath,
+  retainCachedDownload,
+  TEMP_VIDEO_DIR,
+} from '@/lib/youtube/download-cache';
+import { DEFAULT_TRANSCODE_SETTINGS, TRANSCODE_PRESETS, type TranscodeSettings } from '@/lib/youtube/transcode-profiles';
+import {
+  compileTransformChain,
+  mapSourceX,
+  type CompiledTransforms,
+  type TransformOperation,
+} from '@/lib/youtube/transforms';
+import {
+  buildAssSubtitles,
+  parseSubtitleFile,
+  retimeSubtitleCues,
+  type MappingSubtitles,
+  type SubtitleCue,
+  type SubtitleTrack,
+} from '@/lib/youtube/subtitles';
+import type { MediaProbe, TranscodeResolution } from '@/lib/supabase/client';
+import { probeMedia } from '@/lib/youtube/media-probe';
+
+const TEMP_DIR = TEMP_VIDEO_DIR;
 const DOWNLOAD_TIMEOUT_MS = 300000;
 const ENHANCE_TIMEOUT_MS = resolveTimeoutMs(900000, process.env.SHORTS_ENHANCE_TIMEOUT_MS, process.env.VIDEO_ENHANCE_TIMEOUT_MS);
-const COMMAND_BUFFER_SIZE = 1024 * 1024 * 12;
+const PREVIEW_TIMEOUT_MS = 60000;
+const SUBTITLE_TIMEOUT_MS = 120000;
+const PREVIEW_HEIGHT = 480;
 const YT_DLP_BIN = process.env.YT_DLP_BIN || (process.env.HOME ? path.join(process.env.HOME, '.local', 'bin', 'yt-dlp') : 'yt-dlp');
 const QUALITY_PROFILE_ENV_KEYS = ['SHORTS_ENHANCE_PROFILE', 'VIDEO_ENHANCE_PROFILE', 'SHORTS_UPLOAD_QUALITY_PROFILE'] as const;
 const QUALITY_PRESET_ENV_KEYS = ['SHORTS_ENHANCE_PRESET', 'VIDEO_ENHANCE_PRESET'] as const;
 const DOWNLOAD_FORMAT_ENV_KEYS = ['SHORTS_DOWNLOAD_FORMAT', 'VIDEO_DOWNLOAD_FORMAT'] as const;
 const DOWNLOAD_FALLBACK_FORMAT_ENV_KEYS = ['SHORTS_DOWNLOAD_FALLBACK_FORMAT', 'VIDEO_DOWNLOAD_FALLBACK_FORMAT'] as const;
-const VALID_ENHANCEMENT_PRESETS = new Set([
-  'ultrafast',
-  'superfast',
-  'veryfast',
-  'faster',
-  'fast',
-  'medium',
-  'slow',
-  'slower',
-  'veryslow',
-  'placebo',
-]);
-
-export type VideoQualityProfile = 'source' | 'fullhd' | '4k' | '8k';
+
+export type VideoQualityProfile = TranscodeResolution;
 
 interface VideoEnhancementTarget {
   width: number;
@@ -54,9 +90,38 @@ const VIDEO_QUALITY_TARGETS: Record<Exclude<VideoQualityProfile, 'source'>, Vide
   },
 };
 
-interface ExecFailure extends Error {
-  stderr?: string;
-  stdout?: string;
+// Rough sizes used only for the disk-space preflight: a 4K/60 source stream, and output bitrates at the CRFs above
+const DOWNLOAD_BYTES_PER_SECOND = 4 * 1024 * 1024;
+const RENDER_BYTES_PER_SECOND: Record<Exclude<VideoQualityProfile, 'source'>, number> = {
+  fullhd: 2 * 1024 * 1024,
+  '4k': 8 * 1024 * 1024,
+  '8k': 24 * 1024 * 1024,
+};
+// Shorts run up to three minutes; used when the duration is not known yet
+const ESTIMATE_FALLBACK_SECONDS = 180;
+
+export interface MediaCommandOptions {
+  onProgress?: (progress: CommandProgress) => void;
+}
+
+export interface PrepareVideoOptions extends MediaCommandOptions {
+  durationSeconds?: number | null;
+  // Non-vertical sources are reframed with this mode; 'off' leaves them untouched
+  reframeMode?: ReframeMode;
+  sourceWidth?: number | null;
+  sourceHeight?: number | null;
+  // Probe of the source from validation; its display size wins over sourceWidth/sourceHeight
+  probe?: MediaProbe | null;
+  // Watermark and intro/outro clips of the destination mapping
+  branding?: ResolvedBranding | null;
+  // Loudness target and background track; the window is derived from the intro/outro
+  audio?: Omit<AudioProcessingOptions, 'window'> | null;
+  // The mapping's transcode profile; null uses the defaults from env vars
+  transcode?: TranscodeSettings | null;
+  // Trim/speed/mirror/crop steps applied to the source before reframing
+  transforms?: TransformOperation[] | null;
+  // Cues on the source timeline, burned in after reframing (under the watermark)
+  subtitles?: { cues: SubtitleCue[]; settings: MappingSubtitles } | null;
 }
 
 interface PrepareVideoFailure {
@@ -72,6 +137,16 @@ interface PrepareVideoSuccess {
   enhanced: boolean;
   targetWidth?: number;
   targetHeight?: number;
+  reframed?: ReframeMode;
+  branded?: boolean;
+  loudness?: { target: number; measured: LoudnessMeasurement | null };
+  // Set when a transform chain was rendered; duration excludes the intro/outro
+  transforms?: { summary: string; duration: number | null };
+  // Number of subtitle cues burned in
+  subtitleCues?: number;
+  // The source already had the target size, so no scaling was applied
+  upscaleSkipped?: boolean;
+  toneMapped?: boolean;
   warning?: string;
 }
 
@@ -193,7 +268,7 @@ function resolveEnhancementPreset(): string {
     return 'faster';
   }
 
-  return VALID_ENHANCEMENT_PRESETS.has(normalized) ? normalized : 'faster';
+  return TRANSCODE_PRESETS.includes(normalized) ? normalized : 'faster';
 }
 
 function resolveEnhancementThreads(): number {
@@ -210,19 +285,102 @@ function resolveEnhancementThreads(): number {
   return Math.min(8, Math.max(1, Math.floor(parsed)));
 }
 
+// Settings used when a mapping has no transcode profile: the env vars this handler always read.
+export function resolveDefaultTranscodeSettings(profileOverride?: VideoQualityProfile | string | null): TranscodeSettings {
+  const profile = resolveQualityProfile(profileOverride);
+  return {
+    ...DEFAULT_TRANSCODE_SETTINGS,
+    name: 'Default',
+    resolution: profile,
+    // The "source" profile has always meant uploading the downloaded stream as-is
+    video_codec: profile === 'source' ? 'copy' : 'x264',
+    crf: VIDEO_QUALITY_TARGETS[profile === 'source' ? 'fullhd' : profile].crf,
+    preset: resolveEnhancementPreset(),
+    threads: resolveEnhancementThreads(),
+    strict: resolveEnhancementStrictMode(),
+  };
+}
+
 function sanitizeFileToken(raw: string): string {
   const sanitized = raw.replace(/[^a-zA-Z0-9._-]/g, '_').trim();
   return sanitized || 'video';
 }
 
-function resolveEnhancedOutputPath(inputPath: string, videoId: string, profile: Exclude<VideoQualityProfile, 'source'>): string {
-  const token = sanitizeFileToken(videoId || path.basename(inputPath, path.extname(inputPath)));
-  return path.join(path.dirname(inputPath), `${token}.${profile}.enhanced.mp4`);
+// Renders go to TEMP_DIR, never next to the source: the source may be a shared cached download.
+function resolveEnhancedOutputPath(inputPath: string, outputToken: string, profile: VideoQualityProfile): string {
+  const token = sanitizeFileToken(outputToken || path.basename(inputPath, path.extname(inputPath)));
+  return path.join(TEMP_DIR, `${token}.${profile}.enhanced.mp4`);
+}
+
+function buildUpscaleFilter(reframeFilter: string, settings: TranscodeSettings): string {
+  // Reframe/scale to the target size, then apply light sharpening/contrast tuning for clearer Full HD output.
+  return [
+    reframeFilter,
+    settings.sharpen ? 'unsharp=5:5:0.8:3:3:0.35' : null,
+    settings.color_boost ? 'eq=contrast=1.03:saturation=1.04:brightness=0.01' : null,
+    'format=yuv420p',
+  ]
+    .filter(Boolean)
+    .join(',');
+}
+
+// Linearise, convert BT.2020 to BT.709 primaries, Hable-tone-map and re-encode as limited-range BT.709
+const HDR_TONE_MAP_FILTER =
+  'zscale=t=linear:npl=100,format=gbrpf32le,zscale=p=bt709,tonemap=tonemap=hable:desat=0,zscale=t=bt709:m=bt709:r=tv';
+
+// Tone mapping relies on zscale (libzimg), which minimal ffmpeg builds leave out; checked once per process
+let zscaleAvailable: Promise<boolean> | null = null;
+
+function hasZscaleFilter(): Promise<boolean> {
+  if (!zscaleAvailable) {
+    zscaleAvailable = runCommand('ffmpeg', ['-hide_banner', '-filters'], { timeoutMs: 15000 })
+      .then((result) => result.success && /^\s*\S+\s+zscale\s/m.test(result.stdout))
+      .catch(() => false);
+  }
+  return zscaleAvailable;
+}
+
+// Filter option values go through two levels of unescaping (graph, then option)
+function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/[\\:',;[\]]/g, '\\\\$&');
+}
+
+function buildVideoEncoderArgs(settings: TranscodeSettings): string[] {
+  const codecArgs =
+    settings.video_codec === 'x265'
+      ? ['-c:v', 'libx265', '-tag:v', 'hvc1', '-x265-params', 'log-level=error']
+      : ['-c:v', 'libx264', '-profile:v', 'high', '-level', '4.2'];
+  const rateArgs = settings.video_bitrate_kbps
+    ? [
+        '-b:v',
+        `${settings.video_bitrate_kbps}k`,
+        '-maxrate',
+        `${settings.video_bitrate_kbps}k`,
+        '-bufsize',
+        `${settings.video_bitrate_kbps * 2}k`,
+      ]
+    : ['-crf', String(settings.crf ?? DEFAULT_TRANSCODE_SETTINGS.crf)];
+  // -fpsmax only lowers the rate, so low-fps sources are left alone
+  const fpsArgs = settings.fps_cap ? ['-fpsmax', String(settings.fps_cap)] : [];
+
+  return [...codecArgs, '-preset', settings.preset, ...rateArgs, ...fpsArgs, '-pix_fmt', 'yuv420p'];
 }
 
-function buildUpscaleFilter(target: VideoEnhancementTarget): string {
-  // Keep framing via scale+pad, then apply light sharpening/contrast tuning for clearer Full HD output.
-  return `scale=${target.width}:${target.height}:flags=lanczos:force_original_aspect_ratio=decrease,pad=${target.width}:${target.height}:(ow-iw)/2:(oh-ih)/2,unsharp=5:5:0.8:3:3:0.35,eq=contrast=1.03:saturation=1.04:brightness=0.01,format=yuv420p`;
+// Filtered audio (branding concat) cannot be stream-copied
+function buildAudioEncoderArgs(settings: TranscodeSettings, audioFiltered: boolean): string[] {
+  if (settings.audio_codec === 'copy' && !audioFiltered) {
+    return ['-c:a', 'copy'];
+  }
+  return [
+    '-c:a',
+    'aac',
+    '-b:a',
+    `${settings.audio_bitrate_kbps}k`,
+    '-ar',
+    String(settings.audio_sample_rate),
+    '-ac',
+    String(settings.audio_channels),
+  ];
 }
 
 function compactMultiline(value: string, maxLength: number = 1500): string {
@@ -233,40 +391,15 @@ function compactMultiline(value: string, maxLength: number = 1500): string {
   return `${compact.slice(0, maxLength)}...`;
 }
 
-function formatExecError(error: unknown, fallback: string): string {
-  if (!error || typeof error !== 'object') {
-    return fallback;
-  }
-
-  const execError = error as ExecFailure;
-  const stderr = typeof execError.stderr === 'string' ? execError.stderr : '';
-  const stdout = typeof execError.stdout === 'string' ? execError.stdout : '';
-  const message = typeof execError.message === 'string' ? execError.message : fallback;
-
-  const details = stderr || stdout;
+function formatCommandError(result: CommandResult, fallback: string): string {
+  const message = result.error || fallback;
+  // Progress lines on stdout are noise; stderr carries the actual failure
+  const details = result.stderr.trim();
   if (!details) {
     return compactMultiline(message);
   }
 
-  return compactMultiline(`${message}\n${details}`);
-}
-
-async function runShellCommand(
-  command: string,
-  timeoutMs: number = DOWNLOAD_TIMEOUT_MS
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    await execAsync(command, {
-      timeout: timeoutMs,
-      maxBuffer: COMMAND_BUFFER_SIZE,
-    });
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: formatExecError(error, 'Command execution failed'),
-    };
-  }
+  return compactMultiline(`${message}\n${details.slice(-4000)}`);
 }
 
 function resolveYtDlpBinary(): string {
@@ -276,6 +409,34 @@ function resolveYtDlpBinary(): string {
   return 'yt-dlp';
 }
 
+function buildYtDlpArgs(format: string, outputPath: string, videoUrl: string, extraArgs: string[]): string[] {
+  return [
+    '--no-playlist',
+    '--retries',
+    '8',
+    '--fragment-retries',
+    '8',
+    ...extraArgs,
+    '--extractor-args',
+    'youtube:player_client=android,web',
+    '-f',
+    format,
+    '--merge-output-format',
+    'mp4',
+    '--remux-video',
+    'mp4',
+    '--force-overwrites',
+    '--newline',
+    '--progress-template',
+    YT_DLP_PROGRESS_TEMPLATE,
+    '-o',
+    outputPath,
+    // Stops option parsing so a crafted URL can never be read as a flag
+    '--',
+    videoUrl,
+  ];
+}
+
 function resolveDownloadFormats(): { primary: string; fallback: string } {
   const primary =
     readEnvValue(...DOWNLOAD_FORMAT_ENV_KEYS) ||
@@ -294,49 +455,54 @@ async function ensureTempDir() {
   }
 }
 
-// Download video using yt-dlp
+function estimateDurationSeconds(durationSeconds: number | null | undefined): number {
+  return typeof durationSeconds === 'number' && durationSeconds > 0 ? durationSeconds : ESTIMATE_FALLBACK_SECONDS;
+}
+
+export function estimateDownloadBytes(durationSeconds: number | null | undefined): number {
+  return Math.ceil(estimateDurationSeconds(durationSeconds) * DOWNLOAD_BYTES_PER_SECOND);
+}
+
+// Render plus the audio pass, which writes a second full copy before the render is deleted.
+export function estimateRenderBytes(
+  sourceBytes: number,
+  durationSeconds: number | null | undefined,
+  settings: TranscodeSettings = resolveDefaultTranscodeSettings()
+): number {
+  // "source" may still be rendered at Full HD when reframing or branding applies
+  const perSecond = settings.video_bitrate_kbps
+    ? (settings.video_bitrate_kbps * 1024) / 8
+    : RENDER_BYTES_PER_SECOND[settings.resolution === 'source' ? 'fullhd' : settings.resolution];
+  const renderBytes = Math.max(sourceBytes, Math.ceil(estimateDurationSeconds(durationSeconds) * perSecond));
+  return renderBytes * 2;
+}
+
+// Cache key part for the configured yt-dlp format selection
+function downloadCacheFormat(formats: { primary: string; fallback: string }): string {
+  return `${formats.primary}|${formats.fallback}`;
+}
+
+export function isDownloadCached(videoId: string): Promise<boolean> {
+  return hasCachedDownload(videoId, downloadCacheFormat(resolveDownloadFormats()));
+}
+
+// Download video using yt-dlp into the shared cache.
+// The returned file is referenced until releaseCachedDownload; callers must not delete it.
 export async function downloadVideo(
   videoUrl: string,
-  videoId: string
+  videoId: string,
+  options: MediaCommandOptions = {}
 ): Promise<{
   success: boolean;
   filePath?: string;
   error?: string;
+  cached?: boolean;
 }> {
   try {
-    await ensureTempDir();
-    
-    const outputPath = path.join(TEMP_DIR, `${videoId}.mp4`);
-    await fs.rm(outputPath, { force: true });
-    
-    // Primary strategy: fetch the highest-quality stream first, then remux to MP4.
-    const ytDlpBin = resolveYtDlpBinary();
     const formats = resolveDownloadFormats();
-    const primaryCommand = `"${ytDlpBin}" --no-playlist --retries 8 --fragment-retries 8 --concurrent-fragments 4 --extractor-args "youtube:player_client=android,web" -f "${formats.primary}" -S "res,fps,br" --merge-output-format mp4 --remux-video mp4 --force-overwrites -o "${outputPath}" "${videoUrl}"`;
-    const primaryResult = await runShellCommand(primaryCommand);
-
-    if (!primaryResult.success) {
-      // Fallback strategy: still quality-first, but with fewer sort constraints.
-      const fallbackCommand = `"${ytDlpBin}" --no-playlist --retries 8 --fragment-retries 8 --extractor-args "youtube:player_client=android,web" -f "${formats.fallback}" --merge-output-format mp4 --remux-video mp4 --force-overwrites -o "${outputPath}" "${videoUrl}"`;
-      const fallbackResult = await runShellCommand(fallbackCommand);
-
-      if (!fallbackResult.success) {
-        return {
-          success: false,
-          error: compactMultiline(
-            `Download failed (primary + fallback). Primary: ${primaryResult.error || 'Unknown error'} | Fallback: ${fallbackResult.error || 'Unknown error'}`,
-          ),
-        };
-      }
-    }
-    
-    // Verify file exists
-    try {
-      await fs.access(outputPath);
-      return { success: true, filePath: outputPath };
-    } catch {
-      return { success: false, error: 'Downloaded file not found' };
-    }
+    return await acquireCachedDownload(videoId, downloadCacheFormat(formats), (outputPath) =>
+      fetchWithYtDlp(videoUrl, outputPath, formats, options)
+    );
   } catch (error) {
     console.error('Download error:', error);
     return {
@@ -346,23 +512,223 @@ export async function downloadVideo(
   }
 }
 
+// Fetch the source's subtitles with yt-dlp. Manual tracks win over automatic ones, then the language order.
+export async function downloadSubtitles(
+  videoUrl: string,
+  outputToken: string,
+  settings: Pick<MappingSubtitles, 'languages' | 'include_auto'>
+): Promise<{ track?: SubtitleTrack; error?: string }> {
+  await ensureTempDir();
+  const token = `${sanitizeFileToken(outputToken)}.subs`;
+  // Regional variants and yt-dlp's "-orig" auto track count as the base language
+  const subLangs = settings.languages.flatMap((language) => [language, `${language}-.*`]).join(',');
+  let lastError: string | undefined;
+
+  for (const automatic of settings.include_auto ? [false, true] : [false]) {
+    const result = await runCommand(
+      resolveYtDlpBinary(),
+      [
+        '--no-playlist',
+        '--skip-download',
+        automatic ? '--write-auto-subs' : '--write-subs',
+        '--sub-langs',
+        subLangs,
+        '--sub-format',
+        'vtt/srt',
+        '--force-overwrites',
+        '-o',
+        path.join(TEMP_DIR, `${token}.%(ext)s`),
+        '--',
+        videoUrl,
+      ],
+      { timeoutMs: SUBTITLE_TIMEOUT_MS }
+    );
+    if (!result.success) {
+      lastError = formatCommandError(result, 'yt-dlp failed');
+      continue;
+    }
+
+    // yt-dlp writes <token>.<language>.<ext>
+    const files = (await fs.readdir(TEMP_DIR)).filter(
+      (file) => file.startsWith(`${token}.`) && /\.(vtt|srt)$/.test(file)
+    );
+    const tracks = files.map((file) => ({ file, language: file.slice(token.length + 1, file.lastIndexOf('.')) }));
+    try {
+      for (const language of settings.languages) {
+        const match = tracks.find(
+          (track) => track.language === language || track.language.startsWith(`${language}-`)
+        );
+        if (!match) {
+          continue;
+        }
+        const cues = parseSubtitleFile(await fs.readFile(path.join(TEMP_DIR, match.file), 'utf8'));
+        if (cues.length > 0) {
+          return { track: { language: match.language, automatic, cues } };
+        }
+      }
+    } finally {
+      await Promise.all(files.map((file) => fs.rm(path.join(TEMP_DIR, file), { force: true })));
+    }
+  }
+
+  return { error: lastError || `No subtitles in ${settings.languages.join(', ')}` };
+}
+
+async function fetchWithYtDlp(
+  videoUrl: string,
+  outputPath: string,
+  formats: { primary: string; fallback: string },
+  options: MediaCommandOptions
+): Promise<{ success: boolean; error?: string }> {
+  // Primary strategy: fetch the highest-quality stream first, then remux to MP4.
+  const ytDlpBin = resolveYtDlpBinary();
+  const onStdoutLine = options.onProgress ? createYtDlpProgressParser(options.onProgress) : undefined;
+  const primaryResult = await runCommand(
+    ytDlpBin,
+    buildYtDlpArgs(formats.primary, outputPath, videoUrl, ['--concurrent-fragments', '4', '-S', 'res,fps,br']),
+    { timeoutMs: DOWNLOAD_TIMEOUT_MS, onStdoutLine }
+  );
+
+  if (!primaryResult.success) {
+    // Fallback strategy: still quality-first, but with fewer sort constraints.
+    const fallbackResult = await runCommand(ytDlpBin, buildYtDlpArgs(formats.fallback, outputPath, videoUrl, []), {
+      timeoutMs: DOWNLOAD_TIMEOUT_MS,
+      onStdoutLine,
+    });
+
+    if (!fallbackResult.success) {
+      return {
+        success: false,
+        error: compactMultiline(
+          `Download failed (primary + fallback). Primary: ${formatCommandError(primaryResult, 'Unknown error')} | Fallback: ${formatCommandError(fallbackResult, 'Unknown error')}`,
+        ),
+      };
+    }
+  }
+
+  // Verify file exists
+  try {
+    await fs.access(outputPath);
+    return { success: true };
+  } catch {
+    return { success: false, error: 'Downloaded file not found' };
+  }
+}
+
 export async function prepareVideoForUpload(
   filePath: string,
-  videoId: string,
-  profileOverride?: VideoQualityProfile | string | null
+  outputToken: string,
+  profileOverride?: VideoQualityProfile | string | null,
+  options: PrepareVideoOptions = {}
 ): Promise<PrepareVideoResult> {
-  const profile = resolveQualityProfile(profileOverride);
-  if (profile === 'source') {
+  const settings = options.transcode || resolveDefaultTranscodeSettings(profileOverride);
+  const rendered = await renderVideoForUpload(filePath, outputToken, settings, options);
+  const audio = options.audio;
+  if (!rendered.success || !audio || (audio.targetLufs === null && !audio.background)) {
+    return rendered;
+  }
+
+  const { intro, outro } = options.branding || {};
+  const mainDuration = rendered.transforms ? rendered.transforms.duration : options.durationSeconds;
+  const result = await processAudio(rendered.filePath, {
+    ...audio,
+    outputPath: path.join(TEMP_DIR, `${sanitizeFileToken(outputToken)}.audio.mp4`),
+    encoding: {
+      bitrateKbps: settings.audio_bitrate_kbps,
+      sampleRate: settings.audio_sample_rate,
+      channels: settings.audio_channels,
+    },
+    window:
+      (intro || outro) && typeof mainDuration === 'number' && mainDuration > 0
+        ? { start: intro?.duration ?? 0, duration: mainDuration }
+        : null,
+  });
+
+  if (!result.success) {
+    const message = compactMultiline(`Audio processing failed: ${result.error || 'unknown error'}`);
+    if (settings.strict) {
+      if (rendered.filePath !== filePath) {
+        await fs.rm(rendered.filePath, { force: true });
+      }
+      return { success: false, usedProfile: rendered.usedProfile, error: message };
+    }
+    return {
+      ...rendered,
+      warning: [rendered.warning, `${message}. Uploading with original audio.`].filter(Boolean).join(' '),
+    };
+  }
+
+  // The intermediate render is replaced by the audio pass output; the source file belongs to the caller
+  if (result.filePath !== rendered.filePath && rendered.filePath !== filePath) {
+    await fs.rm(rendered.filePath, { force: true });
+  }
+
+  return {
+    ...rendered,
+    filePath: result.filePath,
+    loudness: audio.targetLufs !== null ? { target: audio.targetLufs, measured: result.measured || null } : undefined,
+    warning: [rendered.warning, result.warning].filter(Boolean).join(' ') || undefined,
+  };
+}
+
+async function renderVideoForUpload(
+  filePath: string,
+  outputToken: string,
+  settings: TranscodeSettings,
+  options: PrepareVideoOptions
+): Promise<PrepareVideoResult> {
+  const reframeMode = options.reframeMode ?? 'off';
+  let source: FrameSize | null = options.probe
+    ? { width: options.probe.display_width, height: options.probe.display_height }
+    : options.sourceWidth && options.sourceHeight
+      ? { width: options.sourceWidth, height: options.sourceHeight }
+      : null;
+  if (!source && reframeMode !== 'off') {
+    const { probe } = await probeMedia(filePath);
+    source = probe ? { width: probe.display_width, height: probe.display_height } : null;
+  }
+
+  // Transforms run first, so reframing works on the transformed frame
+  const chain = options.transforms || [];
+  let transforms: CompiledTransforms | null = null;
+  let main: BrandingSegment | null = null;
+  if (chain.length > 0) {
+    main = await probeMediaSegment(filePath);
+    const compiled = compileTransformChain(chain, { duration: main?.duration ?? options.durationSeconds, frame: source });
+    if (!compiled.compiled) {
+      return {
+        success: false,
+        usedProfile: settings.resolution,
+        error: `Transform chain failed: ${compiled.error || 'invalid chain'}`,
+      };
+    }
+    transforms = compiled.compiled;
+  }
+  const frame = transforms ? transforms.frame : source;
+  const subtitleCues = options.subtitles
+    ? retimeSubtitleCues(options.subtitles.cues, chain, main?.duration ?? options.durationSeconds ?? null)
+    : [];
+  const needsReframe = reframeMode !== 'off' && frame !== null && !isVerticalFrame(frame.width, frame.height);
+
+  const branding = options.branding || null;
+  const mustEncode = needsReframe || Boolean(branding) || Boolean(transforms) || subtitleCues.length > 0;
+  if (settings.video_codec === 'copy' && !mustEncode) {
     return {
       success: true,
       filePath,
-      usedProfile: profile,
+      usedProfile: 'source',
       enhanced: false,
     };
   }
-
-  const strictMode = resolveEnhancementStrictMode();
-  const outputPath = resolveEnhancedOutputPath(filePath, videoId, profile);
+  // Reframing, branding, transforms and subtitles re-encode anyway, so "source" quality is rendered at Full HD
+  const profile: VideoQualityProfile = settings.resolution === 'source' && mustEncode ? 'fullhd' : settings.resolution;
+  const encoder: TranscodeSettings = settings.video_codec === 'copy' ? { ...settings, video_codec: 'x264' } : settings;
+  const encodeWarning =
+    settings.video_codec === 'copy' ? `Passthrough profile "${settings.name}" re-encoded with x264 for reframing/branding/transforms/subtitles` : undefined;
+
+  const strictMode = settings.strict;
+  await ensureTempDir();
+  const outputPath = resolveEnhancedOutputPath(filePath, outputToken, profile);
   if (outputPath === filePath) {
     return {
       success: true,
@@ -373,18 +739,123 @@ export async function prepareVideoForUpload(
     };
   }
 
-  const target = VIDEO_QUALITY_TARGETS[profile];
-  const preset = resolveEnhancementPreset();
-  const threads = resolveEnhancementThreads();
-  const filter = buildUpscaleFilter(target);
-  const command = `ffmpeg -y -threads ${threads} -i "${filePath}" -vf "${filter}" -c:v libx264 -profile:v high -level 4.2 -preset ${preset} -crf ${target.crf} -pix_fmt yuv420p -c:a aac -b:a 192k -ar 48000 -ac 2 -movflags +faststart "${outputPath}"`;
+  // "source" resolution keeps the frame size, only rounded to even dimensions for yuv420p
+  const target = profile === 'source' ? null : VIDEO_QUALITY_TARGETS[profile];
+
+  let crop: CropBox | null = null;
+  if (needsReframe && source && frame && reframeMode === 'smart_crop') {
+    // Motion is detected on the source, then followed through the transform crops
+    const centerX = await detectMotionCenterX(filePath, source);
+    crop = computeVerticalCrop(frame, centerX !== null ? mapSourceX(chain, source, centerX) : null);
+  }
+  const upscaleSkipped =
+    !needsReframe && target !== null && frame !== null && frame.width === target.width && frame.height === target.height;
+  const reframeFilter = upscaleSkipped
+    ? ''
+    : target
+      ? buildReframeFilter(
+          needsReframe ? reframeMode : 'letterbox',
+          frame || { width: target.width, height: target.height },
+          target,
+          crop
+        )
+      : 'scale=trunc(iw/2)*2:trunc(ih/2)*2';
+  // The 8-bit yuv420p output would show HDR sources washed out, so they are mapped to BT.709 first
+  const hdrSource = Boolean(options.probe?.hdr);
+  const toneMapped = hdrSource && (await hasZscaleFilter());
+  const toneMapWarning =
+    hdrSource && !toneMapped
+      ? 'HDR source rendered without tone mapping (this ffmpeg build has no zscale filter); colours may look washed out'
+      : undefined;
+  if (toneMapWarning) {
+    console.error(toneMapWarning);
+  }
+  const subtitlePath =
+    options.subtitles && subtitleCues.length > 0
+      ? path.join(TEMP_DIR, `${sanitizeFileToken(outputToken)}.subtitles.ass`)
+      : null;
+  const filter = [
+    toneMapped ? HDR_TONE_MAP_FILTER : null,
+    transforms?.videoFilter,
+    buildUpscaleFilter(reframeFilter, encoder),
+    subtitlePath ? `subtitles=filename=${escapeFilterPath(subtitlePath)}` : null,
+  ]
+    .filter(Boolean)
+    .join(',');
+  const audioFilter = transforms?.audioFilter ?? null;
+  const mainDuration = transforms ? transforms.duration : options.durationSeconds ?? null;
+
+  let filterArgs = ['-i', filePath, '-vf', filter];
+  let totalSeconds = mainDuration;
+  if (transforms && !branding) {
+    // One graph for both streams so trims and speed changes stay in sync
+    const hasAudio = main ? main.hasAudio : true;
+    filterArgs = [
+      '-i',
+      filePath,
+      '-filter_complex',
+      [`[0:v]${filter}[vout]`, hasAudio && audioFilter ? `[0:a]${audioFilter}[aout]` : null].filter(Boolean).join(';'),
+      '-map',
+      '[vout]',
+      ...(hasAudio ? ['-map', audioFilter ? '[aout]' : '0:a?'] : []),
+    ];
+  }
+  if (branding && target) {
+    // Concatenating clips needs the main duration and audio layout up front
+    if (!main && (branding.intro || branding.outro)) {
+      main = await probeMediaSegment(filePath);
+    }
+    const graph = buildBrandedFilterGraph(filter, target, branding, {
+      duration: transforms ? transforms.duration : main?.duration ?? options.durationSeconds ?? null,
+      hasAudio: main ? main.hasAudio : true,
+      audioFilter,
+    });
+    filterArgs = [
+      '-i',
+      filePath,
+      ...graph.inputArgs,
+      '-filter_complex',
+      graph.filterComplex,
+      '-map',
+      graph.videoLabel,
+      ...(graph.audioLabel ? ['-map', graph.audioLabel] : []),
+    ];
+    totalSeconds = graph.totalDuration ?? totalSeconds;
+  }
+
+  const args = [
+    '-hide_banner',
+    '-nostats',
+    '-loglevel',
+    'error',
+    '-progress',
+    'pipe:1',
+    '-y',
+    '-threads',
+    String(encoder.threads),
+    ...filterArgs,
+    ...buildVideoEncoderArgs(encoder),
+    ...(toneMapped ? ['-color_primaries', 'bt709', '-color_trc', 'bt709', '-colorspace', 'bt709'] : []),
+    ...buildAudioEncoderArgs(encoder, Boolean(branding) || Boolean(audioFilter)),
+    '-movflags',
+    '+faststart',
+    outputPath,
+  ];
 
   try {
     await fs.rm(outputPath, { force: true });
+    if (subtitlePath && options.subtitles) {
+      await fs.writeFile(subtitlePath, buildAssSubtitles(subtitleCues, options.subtitles.settings), 'utf8');
+    }
 
-    const enhancementResult = await runShellCommand(command, ENHANCE_TIMEOUT_MS);
+    const enhancementResult = await runCommand('ffmpeg', args, {
+      timeoutMs: ENHANCE_TIMEOUT_MS,
+      onStdoutLine: options.onProgress
+        ? createFfmpegProgressParser(totalSeconds, options.onProgress)
+        : undefined,
+    });
     if (!enhancementResult.success) {
-      const baseError = `Video enhancement failed for ${profile.toUpperCase()}: ${enhancementResult.error || 'unknown ffmpeg error'}`;
+      const baseError = `Video enhancement failed for ${profile.toUpperCase()}: ${formatCommandError(enhancementResult, 'unknown ffmpeg error')}`;
       if (strictMode) {
         return {
           success: false,
@@ -408,11 +879,20 @@ export async function prepareVideoForUpload(
       filePath: outputPath,
       usedProfile: profile,
       enhanced: true,
-      targetWidth: target.width,
-      targetHeight: target.height,
+      targetWidth: target?.width,
+      targetHeight: target?.height,
+      reframed: needsReframe ? reframeMode : undefined,
+      branded: Boolean(branding),
+      transforms: transforms ? { summary: transforms.summary, duration: transforms.duration } : undefined,
+      subtitleCues: subtitlePath ? subtitleCues.length : undefined,
+      upscaleSkipped: upscaleSkipped || undefined,
+      toneMapped: toneMapped || undefined,
+      warning: [encodeWarning, toneMapWarning].filter(Boolean).join(' ') || undefined,
     };
   } catch (error) {
-    const message = formatExecError(error, `Video enhancement failed for ${profile.toUpperCase()}`);
+    const message = compactMultiline(
+      `Video enhancement failed for ${profile.toUpperCase()}: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
     if (strictMode) {
       return {
         success: false,
@@ -428,45 +908,110 @@ export async function prepareVideoForUpload(
       enhanced: false,
       warning: compactMultiline(`${message}. Uploading original source file instead.`),
     };
+  } finally {
+    if (subtitlePath) {
+      await fs.rm(subtitlePath, { force: true });
+    }
   }
 }
 
-// Validate video file
-export async function validateVideo(filePath: string): Promise<{
+// One frame from the middle of the transformed output of a cached download, for the mapping editor
+export async function renderTransformPreview(
+  videoId: string,
+  chain: TransformOperation[]
+): Promise<{ image?: Buffer; error?: string }> {
+  if (!(await isDownloadCached(videoId))) {
+    return { error: 'Source video is not in the download cache' };
+  }
+
+  const filePath = resolveCachedDownloadPath(videoId, downloadCacheFormat(resolveDownloadFormats()));
+  const outputPath = path.join(TEMP_DIR, `${sanitizeFileToken(videoId)}.transform-preview.jpg`);
+  // Keep the download from being evicted while ffmpeg reads it
+  retainCachedDownload(filePath);
+  try {
+    const { probe, error: probeError } = await probeMedia(filePath);
+    if (!probe) {
+      return { error: probeError };
+    }
+
+    const { compiled, error } = compileTransformChain(chain, {
+      duration: probe.duration,
+      frame: { width: probe.display_width, height: probe.display_height },
+    });
+    if (!compiled) {
+      return { error };
+    }
+
+    await ensureTempDir();
+    const result = await runCommand(
+      'ffmpeg',
+      [
+        '-hide_banner',
+        '-loglevel',
+        'error',
+        '-y',
+        '-i',
+        filePath,
+        '-vf',
+        [compiled.videoFilter, `scale=-2:${PREVIEW_HEIGHT}`].filter(Boolean).join(','),
+        // Output seek, so the position is on the transformed timeline
+        '-ss',
+        ((compiled.duration ?? 0) / 2).toFixed(3),
+        '-frames:v',
+        '1',
+        outputPath,
+      ],
+      { timeoutMs: PREVIEW_TIMEOUT_MS }
+    );
+    if (!result.success) {
+      return { error: compactMultiline(formatCommandError(result, 'ffmpeg failed'), 300) };
+    }
+
+    return { image: await fs.readFile(outputPath) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Preview render failed' };
+  } finally {
+    releaseCachedDownload(filePath);
+    await fs.rm(outputPath, { force: true });
+  }
+}
+
+// Validate video file; requireVertical=false accepts any frame shape (it gets reframed later).
+// Width and height are the display size, with the rotation metadata applied.
+export async function validateVideo(
+  filePath: string,
+  options: { requireVertical?: boolean } = {}
+): Promise<{
   valid: boolean;
   width?: number;
   height?: number;
   duration?: number;
+  vertical?: boolean;
+  probe?: MediaProbe;
   error?: string;
 }> {
   try {
-    const command = `ffprobe -v error -select_streams v:0 -show_entries stream=width,height,duration -of json "${filePath}"`;
-    
-    const { stdout } = await execAsync(command);
-    const data = JSON.parse(stdout);
-    
-    if (!data.streams || data.streams.length === 0) {
-      return { valid: false, error: 'No video stream found' };
+    const { probe, error } = await probeMedia(filePath);
+    if (!probe) {
+      return { valid: false, error: error || 'ffprobe failed' };
     }
-    
-    const stream = data.streams[0];
-    const width = stream.width;
-    const height = stream.height;
-    const duration = parseFloat(stream.duration);
+
+    const width = probe.display_width;
+    const height = probe.display_height;
+    const duration = probe.duration ?? Number.NaN;
     
     // Check if vertical (9:16 aspect ratio with some tolerance)
-    const aspectRatio = height / width;
-    const isVertical = aspectRatio >= 1.5 && aspectRatio <= 2.0;
+    const isVertical = isVerticalFrame(width, height);
     
-    if (!isVertical) {
-      return { valid: false, error: 'Video is not vertical (9:16 format)', width, height, duration };
+    if (!isVertical && options.requireVertical !== false) {
+      return { valid: false, error: 'Video is not vertical (9:16 format)', width, height, duration, probe };
     }
 
     if (!Number.isFinite(duration) || duration <= 0) {
-      return { valid: false, error: 'Invalid video duration', width, height, duration };
+      return { valid: false, error: 'Invalid video duration', width, height, duration, probe };
     }
     
-    return { valid: true, width, height, duration };
+    return { valid: true, width, height, duration, vertical: isVertical, probe };
   } catch (error) {
     return {
       valid: false,
@@ -486,19 +1031,20 @@ export async function deleteVideo(filePath: string): Promise<boolean> {
   }
 }
 
-// Clean up old temp files
+// Clean up old temp files. Cached downloads are evicted only once no run references them;
+// other files belong to a single run that deletes them itself, so leftovers are from crashed runs.
 export async function cleanupTempFiles(maxAgeMs: number = 24 * 60 * 60 * 1000): Promise<number> {
   try {
     await ensureTempDir();
     const files = await fs.readdir(TEMP_DIR);
     const now = Date.now();
-    let deletedCount = 0;
+    let deletedCount = await evictCachedDownloads(maxAgeMs);
     
     for (const file of files) {
       const filePath = path.join(TEMP_DIR, file);
       try {
         const stats = await fs.stat(filePath);
-        if (now - stats.mtimeMs > maxAgeMs) {
+        if (stats.isFile() && now - stats.mtimeMs > maxAgeMs) {
           await fs.unlink(filePath);
           deletedCount++;
         }
@@ -13,6 +13,28 @@ CREATE TABLE IF NOT EXISTS config (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Named encoder settings; each mapping may pick one
+CREATE TABLE IF NOT EXISTS transcode_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT UNIQUE NOT NULL,
+    resolution TEXT DEFAULT 'fullhd' CHECK (resolution IN ('source', 'fullhd', '4k', '8k')),
+    video_codec TEXT DEFAULT 'x264' CHECK (video_codec IN ('x264', 'x265', 'copy')),
+    crf INTEGER CHECK (crf BETWEEN 0 AND 51),
+    video_bitrate_kbps INTEGER CHECK (video_bitrate_kbps BETWEEN 100 AND 200000),
+    fps_cap INTEGER CHECK (fps_cap BETWEEN 1 AND 120),
+    preset TEXT DEFAULT 'faster',
+    threads INTEGER DEFAULT 1 CHECK (threads BETWEEN 1 AND 16),
+    audio_codec TEXT DEFAULT 'aac' CHECK (audio_codec IN ('aac', 'copy')),
+    audio_bitrate_kbps INTEGER DEFAULT 192,
+    audio_sample_rate INTEGER DEFAULT 48000,
+    audio_channels INTEGER DEFAULT 2 CHECK (audio_channels IN (1, 2)),
+    sharpen BOOLEAN DEFAULT TRUE,
+    color_boost BOOLEAN DEFAULT TRUE,
+    strict BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Channel Mappings table (source -> destination)
 CREATE TABLE IF NOT EXISTS channel_mappings (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -26,8 +48,28 @@ CREATE TABLE IF NOT EXISTS channel_mappings (
     uploads_per_day INTEGER DEFAULT 2,
     upload_time_morning TEXT DEFAULT '09:00',
     upload_time_evening TEXT DEFAULT '18:00',
+    slot_mode TEXT DEFAULT 'fixed' CHECK (slot_mode IN ('fixed', 'spread')),
+    slot_times TEXT[] DEFAULT '{}',
+    slot_window_start TEXT DEFAULT '09:00',
+    slot_window_end TEXT DEFAULT '21:00',
+    timezone TEXT,
+    weekday_slots JSONB DEFAULT '{}'::jsonb,
+    blackout_rules JSONB DEFAULT '[]'::jsonb,
+    catch_up_policy TEXT DEFAULT 'skip' CHECK (catch_up_policy IN ('skip', 'run_once', 'within_window')),
+    catch_up_window_minutes INTEGER DEFAULT 60,
+    max_attempts INTEGER CHECK (max_attempts BETWEEN 1 AND 10),
     default_visibility TEXT DEFAULT 'public',
     ai_enhancement_enabled BOOLEAN DEFAULT FALSE,
+    reframe_mode TEXT DEFAULT 'blur_pad' CHECK (reframe_mode IN ('off', 'blur_pad', 'center_crop', 'smart_crop', 'letterbox')),
+    branding JSONB DEFAULT '{}'::jsonb,
+    loudness_target_lufs NUMERIC DEFAULT -14 CHECK (loudness_target_lufs BETWEEN -30 AND -5),
+    background_audio_mode TEXT DEFAULT 'off' CHECK (background_audio_mode IN ('off', 'duck', 'replace')),
+    background_audio_tag TEXT,
+    transcode_profile_id UUID REFERENCES transcode_profiles(id) ON DELETE SET NULL,
+    thumbnail_mode TEXT DEFAULT 'off' CHECK (thumbnail_mode IN ('off', 'frame', 'title')),
+    transforms JSONB DEFAULT '[]'::jsonb,
+    subtitles JSONB DEFAULT '{}'::jsonb,
+    upload_metadata JSONB DEFAULT '{}'::jsonb,
     last_fetched_at TIMESTAMP WITH TIME ZONE,
     total_fetched INTEGER DEFAULT 0,
     total_uploaded INTEGER DEFAULT 0,
@@ -50,6 +92,7 @@ CREATE TABLE IF NOT EXISTS destination_channels (
     channel_id TEXT PRIMARY KEY,
     channel_title TEXT NOT NULL,
     refresh_token TEXT NOT NULL,
+    upload_defaults JSONB DEFAULT '{}'::jsonb,
     connected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -65,7 +108,7 @@ CREATE TABLE IF NOT EXISTS shorts_data (
     thumbnail_url TEXT,
     duration INTEGER NOT NULL,
     published_date TIMESTAMP WITH TIME ZONE,
-    status TEXT DEFAULT 'Pending' CHECK (status IN ('Pending', 'Downloaded', 'Uploading', 'Uploaded', 'Failed')),
+    status TEXT DEFAULT 'Pending' CHECK (status IN ('Pending', 'Downloaded', 'Uploading', 'Uploaded', 'Failed', 'Skipped')),
     scheduled_date TIMESTAMP WITH TIME ZONE,
     uploaded_date TIMESTAMP WITH TIME ZONE,
     target_video_id TEXT,
@@ -77,10 +120,54 @@ CREATE TABLE IF NOT EXISTS shorts_data (
     mapping_id UUID REFERENCES channel_mappings(id) ON DELETE SET NULL,
     source_channel TEXT,
     target_channel TEXT,
+    claimed_by TEXT,
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    failure_reason TEXT,
+    progress JSONB,
+    fingerprint JSONB,
+    thumbnail JSONB,
+    media_probe JSONB,
+    upload_session JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Columns added after the initial release (idempotent for existing databases)
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS claimed_by TEXT;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS progress JSONB;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS fingerprint JSONB;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS thumbnail JSONB;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS media_probe JSONB;
+ALTER TABLE shorts_data ADD COLUMN IF NOT EXISTS upload_session JSONB;
+ALTER TABLE shorts_data DROP CONSTRAINT IF EXISTS shorts_data_status_check;
+ALTER TABLE shorts_data ADD CONSTRAINT shorts_data_status_check
+    CHECK (status IN ('Pending', 'Downloaded', 'Uploading', 'Uploaded', 'Failed', 'Skipped'));
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS slot_mode TEXT DEFAULT 'fixed' CHECK (slot_mode IN ('fixed', 'spread'));
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS slot_times TEXT[] DEFAULT '{}';
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS slot_window_start TEXT DEFAULT '09:00';
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS slot_window_end TEXT DEFAULT '21:00';
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS weekday_slots JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS blackout_rules JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS catch_up_policy TEXT DEFAULT 'skip' CHECK (catch_up_policy IN ('skip', 'run_once', 'within_window'));
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS catch_up_window_minutes INTEGER DEFAULT 60;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS max_attempts INTEGER CHECK (max_attempts BETWEEN 1 AND 10);
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS reframe_mode TEXT DEFAULT 'blur_pad' CHECK (reframe_mode IN ('off', 'blur_pad', 'center_crop', 'smart_crop', 'letterbox'));
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS branding JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS loudness_target_lufs NUMERIC DEFAULT -14 CHECK (loudness_target_lufs BETWEEN -30 AND -5);
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS background_audio_mode TEXT DEFAULT 'off' CHECK (background_audio_mode IN ('off', 'duck', 'replace'));
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS background_audio_tag TEXT;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS transcode_profile_id UUID REFERENCES transcode_profiles(id) ON DELETE SET NULL;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS thumbnail_mode TEXT DEFAULT 'off' CHECK (thumbnail_mode IN ('off', 'frame', 'title'));
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS transforms JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS subtitles JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE channel_mappings ADD COLUMN IF NOT EXISTS upload_metadata JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE destination_channels ADD COLUMN IF NOT EXISTS upload_defaults JSONB DEFAULT '{}'::jsonb;
+
 -- Upload logs table
 CREATE TABLE IF NOT EXISTS upload_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -104,6 +191,86 @@ CREATE TABLE IF NOT EXISTS scheduler_state (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Scheduler jobs table (durable work queue with leases)
+CREATE TABLE IF NOT EXISTS scheduler_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_type TEXT NOT NULL,
+    payload JSONB DEFAULT '{}'::jsonb,
+    status TEXT DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    dedupe_key TEXT UNIQUE,
+    attempts INTEGER DEFAULT 0,
+    max_attempts INTEGER DEFAULT 3,
+    visibility_timeout_seconds INTEGER DEFAULT 900,
+    run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    locked_by TEXT,
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    result JSONB,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Scheduler slot runs (one row per configured slot that fired, was caught up or was missed)
+CREATE TABLE IF NOT EXISTS scheduler_slot_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slot_key TEXT UNIQUE NOT NULL,
+    mapping_id UUID REFERENCES channel_mappings(id) ON DELETE CASCADE,
+    slot_label TEXT NOT NULL,
+    slot_time TEXT NOT NULL,
+    local_date TEXT NOT NULL,
+    timezone TEXT NOT NULL,
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('fired', 'caught_up', 'missed')),
+    job_id UUID REFERENCES scheduler_jobs(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- YouTube Data API quota ledger (units per credential and operation; quota days follow Pacific time)
+CREATE TABLE IF NOT EXISTS youtube_quota_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    quota_day TEXT NOT NULL,
+    credential_type TEXT NOT NULL CHECK (credential_type IN ('api_key', 'oauth_client')),
+    credential_id TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    units INTEGER NOT NULL DEFAULT 0,
+    calls INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (quota_day, credential_id, operation)
+);
+
+-- Perceptual fingerprints of everything uploaded per destination; outlives uploaded-short cleanup
+CREATE TABLE IF NOT EXISTS uploaded_fingerprints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    target_channel TEXT NOT NULL,
+    video_id TEXT NOT NULL,
+    target_video_id TEXT,
+    fingerprint JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (target_channel, video_id)
+);
+
+-- Background music library; files live on disk under AUDIO_LIBRARY_DIR
+CREATE TABLE IF NOT EXISTS audio_tracks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    file_path TEXT NOT NULL UNIQUE,
+    tags TEXT[] DEFAULT '{}',
+    duration_seconds NUMERIC,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Short-lived OAuth access tokens shared between processes, keyed by a fingerprint of the refresh token.
+-- Only used when the oauth_token_cache config is 'database'.
+CREATE TABLE IF NOT EXISTS oauth_access_tokens (
+    token_key TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_shorts_status ON shorts_data(status);
 CREATE INDEX IF NOT EXISTS idx_shorts_scheduled_date ON shorts_data(scheduled_date);
@@ -116,6 +283,9 @@ CREATE INDEX IF NOT EXISTS idx_shorts_uploaded_date ON shorts_data(uploaded_date
 CREATE INDEX IF NOT EXISTS idx_shorts_source_status ON shorts_data(source_channel, status);
 CREATE INDEX IF NOT EXISTS idx_shorts_status_uploaded_date ON shorts_data(status, uploaded_date);
 CREATE INDEX IF NOT EXISTS idx_shorts_source_created_at ON shorts_data(source_channel, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_shorts_claim_lease ON shorts_data(claimed_by, lease_expires_at);
+CREATE INDEX IF NOT EXISTS idx_shorts_status_next_attempt ON shorts_data(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_shorts_failure_reason ON shorts_data(failure_reason);
 CREATE UNIQUE INDEX IF NOT EXISTS uq_shorts_video_unmapped_source
   ON shorts_data(video_id, source_channel)
   WHERE mapping_id IS NULL;
@@ -131,9 +301,18 @@ CREATE INDEX IF NOT EXISTS idx_mappings_source_channel_id ON channel_mappings(so
 CREATE INDEX IF NOT EXISTS idx_mappings_target_channel_id ON channel_mappings(target_channel_id);
 CREATE INDEX IF NOT EXISTS idx_mappings_active_source_id ON channel_mappings(is_active, source_channel_id);
 CREATE INDEX IF NOT EXISTS idx_mappings_active_source_url ON channel_mappings(is_active, source_channel_url);
+CREATE INDEX IF NOT EXISTS idx_mappings_transcode_profile ON channel_mappings(transcode_profile_id);
 CREATE INDEX IF NOT EXISTS idx_source_channels_url ON source_channels(channel_url);
 CREATE INDEX IF NOT EXISTS idx_source_channels_active ON source_channels(is_active);
 CREATE INDEX IF NOT EXISTS idx_destination_channels_connected ON destination_channels(connected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scheduler_jobs_status_run_after ON scheduler_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_scheduler_jobs_status_lease ON scheduler_jobs(status, lease_expires_at);
+CREATE INDEX IF NOT EXISTS idx_scheduler_jobs_created_at ON scheduler_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_slot_runs_mapping_scheduled ON scheduler_slot_runs(mapping_id, scheduled_for DESC);
+CREATE INDEX IF NOT EXISTS idx_slot_runs_created_at ON scheduler_slot_runs(created_at);
+CREATE INDEX IF NOT EXISTS idx_quota_usage_day ON youtube_quota_usage(quota_day);
+CREATE INDEX IF NOT EXISTS idx_uploaded_fingerprints_target ON uploaded_fingerprints(target_channel, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audio_tracks_tags ON audio_tracks USING GIN(tags);
 
 -- Migrate legacy JSON config to explicit channel tables (idempotent)
 INSERT INTO source_channels (channel_id, channel_title, channel_url, is_active, connected_at, updated_at)
@@ -193,6 +372,55 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Atomically add billed units to the quota ledger
+CREATE OR REPLACE FUNCTION record_youtube_quota_usage(
+    p_quota_day TEXT,
+    p_credential_type TEXT,
+    p_credential_id TEXT,
+    p_operation TEXT,
+    p_units INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO youtube_quota_usage (quota_day, credential_type, credential_id, operation, units, calls)
+    VALUES (p_quota_day, p_credential_type, p_credential_id, p_operation, p_units, 1)
+    ON CONFLICT (quota_day, credential_id, operation) DO UPDATE
+    SET
+        units = youtube_quota_usage.units + EXCLUDED.units,
+        calls = youtube_quota_usage.calls + 1,
+        updated_at = NOW();
+END;
+$$ language 'plpgsql';
+
+-- Atomically take one of today's upload slots; returns NULL when the cap is already reached
+CREATE OR REPLACE FUNCTION reserve_daily_upload(p_cap INTEGER DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    v_uploads INTEGER;
+BEGIN
+    UPDATE scheduler_state
+    SET
+        uploads_today = COALESCE(uploads_today, 0) + 1,
+        updated_at = NOW()
+    WHERE id = (SELECT id FROM scheduler_state ORDER BY created_at LIMIT 1)
+      AND (p_cap IS NULL OR COALESCE(uploads_today, 0) < p_cap)
+    RETURNING uploads_today INTO v_uploads;
+    RETURN v_uploads;
+END;
+$$ language 'plpgsql';
+
+-- Hand back a slot taken by reserve_daily_upload when the run did not upload
+CREATE OR REPLACE FUNCTION release_daily_upload()
+RETURNS VOID AS $$
+BEGIN
+    UPDATE scheduler_state
+    SET
+        uploads_today = GREATEST(COALESCE(uploads_today, 0) - 1, 0),
+        updated_at = NOW()
+    WHERE id = (SELECT id FROM scheduler_state ORDER BY created_at LIMIT 1);
+END;
+$$ language 'plpgsql';
+
 -- Triggers for updated_at
 DROP TRIGGER IF EXISTS update_config_updated_at ON config;
 CREATE TRIGGER update_config_updated_at
@@ -212,6 +440,12 @@ CREATE TRIGGER update_channel_mappings_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_transcode_profiles_updated_at ON transcode_profiles;
+CREATE TRIGGER update_transcode_profiles_updated_at
+    BEFORE UPDATE ON transcode_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS update_source_channels_updated_at ON source_channels;
 CREATE TRIGGER update_source_channels_updated_at
     BEFORE UPDATE ON source_channels
@@ -230,6 +464,12 @@ CREATE TRIGGER update_scheduler_state_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_scheduler_jobs_updated_at ON scheduler_jobs;
+CREATE TRIGGER update_scheduler_jobs_updated_at
+    BEFORE UPDATE ON scheduler_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Row Level Security (RLS) Policies
 ALTER TABLE config ENABLE ROW LEVEL SECURITY;
 ALTER TABLE shorts_data ENABLE ROW LEVEL SECURITY;
@@ -238,6 +478,13 @@ ALTER TABLE scheduler_state ENABLE ROW LEVEL SECURITY;
 ALTER TABLE channel_mappings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE source_channels ENABLE ROW LEVEL SECURITY;
 ALTER TABLE destination_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduler_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduler_slot_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE youtube_quota_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE uploaded_fingerprints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audio_tracks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transcode_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_access_tokens ENABLE ROW LEVEL SECURITY;
 
 -- Allow all operations for service role
 CREATE POLICY "Allow all for service role" ON config FOR ALL USING (true);
@@ -247,6 +494,13 @@ CREATE POLICY "Allow all for service role" ON scheduler_state FOR ALL USING (tru
 CREATE POLICY "Allow all for service role" ON channel_mappings FOR ALL USING (true);
 CREATE POLICY "Allow all for service role" ON source_channels FOR ALL USING (true);
 CREATE POLICY "Allow all for service role" ON destination_channels FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON scheduler_jobs FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON scheduler_slot_runs FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON youtube_quota_usage FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON uploaded_fingerprints FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON audio_tracks FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON transcode_profiles FOR ALL USING (true);
+CREATE POLICY "Allow all for service role" ON oauth_access_tokens FOR ALL USING (true);
 
 -- Human-readable database views for channel-wise monitoring
 CREATE OR REPLACE VIEW source_channel_scrape_stats AS
@@ -335,5 +589,13 @@ INSERT INTO config (key, value) VALUES
     ('gemini_model', 'gemini-2.5-flash'),
     ('automation_enabled', 'false'),
     ('uploaded_cleanup_hours', '5'),
-    ('max_retry_count', '3')
+    ('youtube_quota_daily_budget', '10000'),
+    ('max_retry_count', '3'),
+    ('pipeline_workers', '3'),
+    ('concurrency_download', '2'),
+    ('concurrency_enhance', '1'),
+    ('concurrency_upload', '2'),
+    ('duplicate_fingerprint_threshold', '0.15'),
+    ('temp_dir_max_gb', '20'),
+    ('disk_min_free_gb', '2')
 ON CONFLICT (key) DO NOTHING;